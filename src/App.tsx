@@ -3,6 +3,9 @@ import { createBrowserRouter, RouteObject } from 'react-router-dom';
 
 import { Screen } from './components/screen/Screen';
 import { categoryRoutes } from './modules/category/category.routes';
+import { dashboardRoutes } from './modules/dashboard/dashboard.routes';
+import { forbiddenRoutes } from './modules/forbidden/forbidden.routes';
+import { blingRoutes } from './modules/integration-product-supplier-erp/bling/bling.routes';
 import { integrationProductSupplierErpRoutes } from './modules/integration-product-supplier-erp/integration-product-supplier-erp.routes';
 import { loginRoutes } from './modules/login/routes';
 import { platformRoutes } from './modules/platform/platform.routes';
@@ -21,32 +24,58 @@ import { stockItemIdentifierTypeRoutes } from './modules/stock-item/stock-item-i
 import { stockItemStatusRoutes } from './modules/stock-item/stock-item-status/stock-item-status.routes';
 import { stockItemRoutes } from './modules/stock-item/stock-item.routes';
 import { supplierRoutes } from './modules/supplier/supplier.routes';
-import { verifyLoggedIn } from './shared/functions/connection/auth';
+import { userRoutes } from './modules/user/user.routes';
+import { PermissionResourceType } from './shared/constants/permissions';
+import {
+  subscribeAuth,
+  verifyLoggedIn,
+} from './shared/functions/connection/auth';
+import { verifyPermission } from './shared/functions/permission/permission';
 
 const routes: RouteObject[] = [...loginRoutes];
+
+// inclusões e importações (".../insert", ".../import") exigem permissão de edição;
+// os detalhes (".../:id") abrem com permissão de visualização e a tela desabilita o salvar
+const EDIT_ROUTE_PATTERN = /\/(insert|import)$/;
+
+const protectRoutes = (
+  routes: RouteObject[],
+  resource: PermissionResourceType,
+): RouteObject[] =>
+  routes.map((route) => ({
+    ...route,
+    loader: verifyPermission(
+      resource,
+      EDIT_ROUTE_PATTERN.test(route.path ?? '') ? 'edit' : 'view',
+    ),
+  }));
+
 const routesLoggedIn: RouteObject[] = [
-  ...categoryRoutes,
-  ...integrationProductSupplierErpRoutes,
-  ...platformRoutes,
-  ...pricingRoutes,
-  ...productRoutes,
-  ...productVariationRoutes,
-  ...purchaseOrderRoutes,
-  ...purchaseOrderItemRoutes,
-  ...purchaseOrderItemStatusRoutes,
-  ...purchaseOrderStatusRoutes,
-  ...saleOrderRoutes,
-  ...salePlatformCommissionRoutes,
-  ...saleOrderItemStatusRoutes,
-  ...saleStatusRoutes,
-  ...stockItemRoutes,
-  ...stockItemIdentifierTypeRoutes,
-  ...stockItemStatusRoutes,
-  ...supplierRoutes,
-].map((route) => ({
-  ...route,
-  loader: verifyLoggedIn,
-}));
+  ...[...dashboardRoutes, ...forbiddenRoutes].map((route) => ({
+    ...route,
+    loader: verifyLoggedIn,
+  })),
+  ...protectRoutes(categoryRoutes, 'categories'),
+  ...protectRoutes(integrationProductSupplierErpRoutes, 'integrations'),
+  ...protectRoutes(blingRoutes, 'integrations'),
+  ...protectRoutes(platformRoutes, 'platforms'),
+  ...protectRoutes(pricingRoutes, 'pricing'),
+  ...protectRoutes(productRoutes, 'products'),
+  ...protectRoutes(productVariationRoutes, 'products'),
+  ...protectRoutes(purchaseOrderRoutes, 'purchaseOrders'),
+  ...protectRoutes(purchaseOrderItemRoutes, 'purchaseOrders'),
+  ...protectRoutes(purchaseOrderItemStatusRoutes, 'statuses'),
+  ...protectRoutes(purchaseOrderStatusRoutes, 'statuses'),
+  ...protectRoutes(saleOrderRoutes, 'saleOrders'),
+  ...protectRoutes(salePlatformCommissionRoutes, 'commissions'),
+  ...protectRoutes(saleOrderItemStatusRoutes, 'statuses'),
+  ...protectRoutes(saleStatusRoutes, 'statuses'),
+  ...protectRoutes(stockItemRoutes, 'stock'),
+  ...protectRoutes(stockItemIdentifierTypeRoutes, 'statuses'),
+  ...protectRoutes(stockItemStatusRoutes, 'statuses'),
+  ...protectRoutes(supplierRoutes, 'suppliers'),
+  ...protectRoutes(userRoutes, 'users'),
+];
 
 const router: RemixRouter = createBrowserRouter([
   {
@@ -56,4 +85,7 @@ const router: RemixRouter = createBrowserRouter([
   ...routes,
 ]);
 
+// refaz os loaders (verifyLoggedIn) da rota atual quando alguém entra ou sai
+subscribeAuth(() => router.revalidate());
+
 export { router };
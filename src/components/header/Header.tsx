@@ -1,8 +1,22 @@
 import { LogoutOutlined } from '@ant-design/icons';
-import { Modal } from 'antd';
+import { Dropdown, Modal, Tag } from 'antd';
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 
+import {
+  ApiProfileName,
+  getActiveApiProfile,
+  getAvailableApiProfiles,
+  setActiveApiProfile,
+} from '../../shared/functions/connection/apiProfile';
+import { LOGIN_PATH, signOut } from '../../shared/functions/connection/auth';
+
+const API_PROFILE_COLORS: Record<ApiProfileName, string> = {
+  local: 'blue',
+  staging: 'orange',
+  production: 'green',
+};
+
 export const Header = () => {
   const navigate = useNavigate();
   const [open, setOpen] = useState(false);
@@ -15,12 +29,33 @@ export const Header = () => {
     setOpen(false);
   };
 
+  const activeApiProfile = getActiveApiProfile();
+
+  // o token pertence ao backend anterior, então é preciso entrar novamente
+  const handleChangeApiProfile = (name: ApiProfileName) => {
+    if (name !== activeApiProfile.name) {
+      setActiveApiProfile(name);
+      signOut();
+      window.location.assign(LOGIN_PATH);
+    }
+  };
+
+  const apiProfileTag = (
+    <Tag
+      color={API_PROFILE_COLORS[activeApiProfile.name]}
+      title={activeApiProfile.baseUrl}
+      style={{ marginRight: '24px', cursor: 'default' }}
+    >
+      API: {activeApiProfile.label}
+    </Tag>
+  );
+
   return (
     <>
       <Modal
         title='Atenção'
         open={open}
-        onOk={() => navigate('/login')}
+        onOk={() => navigate(LOGIN_PATH)}
         onCancel={hideModal}
         okText='Sim'
         cancelText='Cancelar'
@@ -41,6 +76,24 @@ export const Header = () => {
           boxShadow: '0px 1px 8px 0px rgba(0, 0, 0, 0.47)',
         }}
       >
+        {import.meta.env.DEV ? (
+          <Dropdown
+            menu={{
+              items: getAvailableApiProfiles().map((profile) => ({
+                key: profile.name,
+                label: `${profile.label} (${profile.baseUrl})`,
+              })),
+              selectable: true,
+              selectedKeys: [activeApiProfile.name],
+              onClick: ({ key }) =>
+                handleChangeApiProfile(key as ApiProfileName),
+            }}
+          >
+            {apiProfileTag}
+          </Dropdown>
+        ) : (
+          apiProfileTag
+        )}
         <LogoutOutlined style={{ fontSize: '24px' }} onClick={showModal} />
       </div>
     </>
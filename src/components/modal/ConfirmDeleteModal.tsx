@@ -0,0 +1,44 @@
+import { Modal as ModalAnt } from 'antd';
+import { useState } from 'react';
+
+interface ConfirmDeleteModalProps {
+  isModalOpen: boolean;
+  description: string;
+  onConfirm: () => Promise<void>;
+  onClose: () => void;
+}
+
+const ConfirmDeleteModal = ({
+  isModalOpen,
+  description,
+  onConfirm,
+  onClose,
+}: ConfirmDeleteModalProps) => {
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const handleConfirm = async () => {
+    setIsDeleting(true);
+    // os erros já são exibidos pelos hooks de requisição
+    await onConfirm().catch(() => undefined);
+    setIsDeleting(false);
+    onClose();
+  };
+
+  return (
+    <ModalAnt
+      title='Confirmar exclusão'
+      open={isModalOpen}
+      onOk={handleConfirm}
+      onCancel={onClose}
+      okText='Deletar'
+      cancelText='Cancelar'
+      okButtonProps={{ danger: true }}
+      confirmLoading={isDeleting}
+      destroyOnClose
+    >
+      <p>{description}</p>
+    </ModalAnt>
+  );
+};
+
+export default ConfirmDeleteModal;
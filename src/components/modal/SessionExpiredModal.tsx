@@ -0,0 +1,100 @@
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Modal as ModalAnt } from 'antd';
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import toast from 'react-hot-toast';
+import { z } from 'zod';
+
+import { ERROR_SESSION_EXPIRED } from '../../shared/constants/errorsStatus';
+import {
+  getUserStorage,
+  signIn,
+  signOut,
+} from '../../shared/functions/connection/auth';
+import {
+  cancelReauthentication,
+  completeReauthentication,
+  isReauthenticationPending,
+  subscribeSession,
+} from '../../shared/functions/connection/session';
+import { Input } from '../input/Input';
+
+const schema = z.object({
+  password: z.string().min(1, 'O campo senha é obrigatório'),
+});
+
+type FormData = z.infer<typeof schema>;
+
+// pede a senha novamente sem sair da tela, preservando o que estiver sendo editado
+const SessionExpiredModal = () => {
+  const [isModalOpen, setIsModalOpen] = useState(isReauthenticationPending);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<FormData>({
+    resolver: zodResolver(schema),
+  });
+
+  const email = getUserStorage()?.email ?? '';
+
+  useEffect(
+    () =>
+      subscribeSession(() => {
+        setIsModalOpen(isReauthenticationPending());
+        reset();
+      }),
+    [reset],
+  );
+
+  const onSubmit = async ({ password }: FormData) => {
+    setIsSubmitting(true);
+    try {
+      await signIn({ email, password });
+      completeReauthentication();
+    } catch {
+      toast.error('Senha inválida');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // desistir de entrar novamente encerra a sessão e descarta as requisições na fila
+  const handleCancel = () => {
+    cancelReauthentication(new Error(ERROR_SESSION_EXPIRED));
+    signOut();
+  };
+
+  return (
+    <ModalAnt
+      title='Sessão expirada'
+      open={isModalOpen}
+      onOk={handleSubmit(onSubmit)}
+      onCancel={handleCancel}
+      okText='Entrar'
+      cancelText='Sair'
+      confirmLoading={isSubmitting}
+      closable={false}
+      maskClosable={false}
+      keyboard={false}
+    >
+      <p className='mb-3'>
+        Sua sessão expirou. Informe a senha de <b>{email}</b> para continuar de
+        onde parou.
+      </p>
+      <form onSubmit={handleSubmit(onSubmit)}>
+        <Input
+          title='Senha'
+          type='password'
+          placeholder='Digite sua senha...'
+          error={errors.password?.message}
+          {...register('password')}
+        />
+      </form>
+    </ModalAnt>
+  );
+};
+
+export default SessionExpiredModal;
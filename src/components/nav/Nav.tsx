@@ -3,12 +3,16 @@ import {
   HomeOutlined,
   ShoppingOutlined,
   TagOutlined,
+  UserOutlined,
 } from '@ant-design/icons';
 import { Menu as ManuAntd, MenuProps } from 'antd';
-import { useState } from 'react';
+import { ReactNode, useContext, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 
+import { AuthContext } from '../../contexts/authContext';
 import { CategoryRoutesEnum } from '../../modules/category/category.routes';
+import { DashboardRoutesEnum } from '../../modules/dashboard/dashboard.routes';
+import { BlingRoutesEnum } from '../../modules/integration-product-supplier-erp/bling/bling.routes';
 import { IntegrationProductSupplierErpRoutesEnum } from '../../modules/integration-product-supplier-erp/integration-product-supplier-erp.routes';
 import { PlatformRoutesEnum } from '../../modules/platform/platform.routes';
 import { PricingRoutesEnum } from '../../modules/pricing/pricing.routes';
@@ -22,29 +26,64 @@ import { SaleOrderRoutesEnum } from '../../modules/sale-order/sale-orders.routes
 import { SaleStatusRoutesEnum } from '../../modules/sale-order/sale-status/sale-status.routes';
 import { StockItemIdentifierTypeRoutesEnum } from '../../modules/stock-item/stock-item-identifier-type/stock-item-identifier-type.routes';
 import { StockItemStatusRoutesEnum } from '../../modules/stock-item/stock-item-status/stock-item-status.routes';
+import { StockItemRoutesEnum } from '../../modules/stock-item/stock-item.routes';
 import { SupplierRoutesEnum } from '../../modules/supplier/supplier.routes';
+import { UserRoutesEnum } from '../../modules/user/user.routes';
+import { PermissionResourceType } from '../../shared/constants/permissions';
+import { hasPermission } from '../../shared/functions/permission/permission';
+import { IUser } from '../../shared/interfaces/UserInterface';
 
 type MenuItem = Required<MenuProps>['items'][number];
 
+interface NavItem {
+  key: string;
+  label: string;
+  icon?: ReactNode;
+  resource?: PermissionResourceType;
+  onClick?: () => void;
+  children?: NavItem[];
+}
+
+// esconde as entradas sem permissão de visualização e os grupos que ficarem vazios
+const filterNavItems = (navItems: NavItem[], user: IUser | null): MenuItem[] =>
+  navItems.flatMap(({ resource, children, ...item }) => {
+    if (resource && !hasPermission(user, resource)) {
+      return [];
+    }
+
+    if (children) {
+      const visibleChildren = filterNavItems(children, user);
+      return visibleChildren.length
+        ? [{ ...item, children: visibleChildren }]
+        : [];
+    }
+
+    return [item];
+  });
+
 export const Nav = () => {
   const navigate = useNavigate();
   const [current, setCurrent] = useState('1');
+  const { user } = useContext(AuthContext);
 
-  const items: MenuItem[] = [
+  const navItems: NavItem[] = [
     {
       key: 'home',
       label: 'Principal',
       icon: <HomeOutlined />,
+      onClick: () => navigate(DashboardRoutesEnum.DASHBOARD),
     },
     {
       key: 'suppliers',
       label: 'Fornecedores',
+      resource: 'suppliers',
       icon: <ShoppingOutlined />,
       onClick: () => navigate(SupplierRoutesEnum.SUPPLIERS),
     },
     {
       key: 'platforms',
       label: 'Plataformas',
+      resource: 'platforms',
       icon: <AppstoreOutlined />,
       onClick: () => navigate(PlatformRoutesEnum.PLATFORMS),
     },
@@ -56,19 +95,28 @@ export const Nav = () => {
         {
           key: 'products_view',
           label: 'Visualizar',
+          resource: 'products',
           onClick: () => navigate(ProductRoutesEnum.PRODUCTS),
         },
         {
           key: 'integration-product-supplier-erp',
           label: 'Integrações',
+          resource: 'integrations',
           onClick: () =>
             navigate(
               IntegrationProductSupplierErpRoutesEnum.INTEGRATION_PRODUCT_SUPPLIER_ERP,
             ),
         },
+        {
+          key: 'bling_sync',
+          label: 'Sincronização Bling',
+          resource: 'integrations',
+          onClick: () => navigate(BlingRoutesEnum.BLING_SYNC),
+        },
         {
           key: 'categories',
           label: 'Categorias',
+          resource: 'categories',
           onClick: () => navigate(CategoryRoutesEnum.CATEGORIES),
         },
       ],
@@ -78,9 +126,22 @@ export const Nav = () => {
       label: 'Estoque',
       icon: <AppstoreOutlined />,
       children: [
+        {
+          key: 'stock_items',
+          label: 'Itens em estoque',
+          resource: 'stock',
+          onClick: () => navigate(StockItemRoutesEnum.STOCK_ITEMS),
+        },
+        {
+          key: 'stock_item_summary',
+          label: 'Resumo do estoque',
+          resource: 'stock',
+          onClick: () => navigate(StockItemRoutesEnum.STOCK_ITEM_SUMMARY),
+        },
         {
           key: 'stock_item_identifier_types',
           label: 'Tipos de identificadores',
+          resource: 'statuses',
           onClick: () =>
             navigate(
               StockItemIdentifierTypeRoutesEnum.STOCK_ITEM_IDENTIFIER_TYPES,
@@ -89,6 +150,7 @@ export const Nav = () => {
         {
           key: 'stock_item_status',
           label: 'Status de itens de estoque',
+          resource: 'statuses',
           onClick: () => navigate(StockItemStatusRoutesEnum.STOCK_ITEM_STATUS),
         },
       ],
@@ -101,17 +163,20 @@ export const Nav = () => {
         {
           key: 'purchase-orders_view',
           label: 'Visualizar',
+          resource: 'purchaseOrders',
           onClick: () => navigate(PurchaseOrderRoutesEnum.PURCHASE_ORDERS),
         },
         {
           key: 'purchase-order-status',
           label: 'Status de compra',
+          resource: 'statuses',
           onClick: () =>
             navigate(PurchaseOrderStatusRoutesEnum.PURCHASE_ORDER_STATUS),
         },
         {
           key: 'purchase-order-item-status',
           label: 'Status de itens de compras',
+          resource: 'statuses',
           onClick: () =>
             navigate(
               PurchaseOrderItemStatusRoutesEnum.PURCHASE_ORDER_ITEM_STATUS,
@@ -127,16 +192,19 @@ export const Nav = () => {
         {
           key: 'sales_view',
           label: 'Visualizar',
+          resource: 'saleOrders',
           onClick: () => navigate(SaleOrderRoutesEnum.SALE_ORDERS),
         },
         {
           key: 'sale-status',
           label: 'Status de venda',
+          resource: 'statuses',
           onClick: () => navigate(SaleStatusRoutesEnum.SALE_STATUS),
         },
         {
           key: 'sale-order-item-status',
           label: 'Status de itens de venda',
+          resource: 'statuses',
           onClick: () =>
             navigate(SaleOrderItemStatusRoutesEnum.SALE_ORDER_ITEM_STATUS),
         },
@@ -150,6 +218,7 @@ export const Nav = () => {
         {
           key: 'sale-platform-commissions',
           label: 'Comissões de plataformas',
+          resource: 'commissions',
           onClick: () =>
             navigate(
               SalePlatformCommissionRoutesEnum.SALE_PLATFORM_COMMISSIONS,
@@ -158,10 +227,18 @@ export const Nav = () => {
         {
           key: 'pricing',
           label: 'Precificação',
+          resource: 'pricing',
           onClick: () => navigate(PricingRoutesEnum.PRICING),
         },
       ],
     },
+    {
+      key: 'users',
+      label: 'Usuários',
+      icon: <UserOutlined />,
+      resource: 'users',
+      onClick: () => navigate(UserRoutesEnum.USERS),
+    },
   ];
 
   const onClick: MenuProps['onClick'] = (e) => {
@@ -197,7 +274,7 @@ export const Nav = () => {
         defaultOpenKeys={['sub1']}
         selectedKeys={[current]}
         mode='inline'
-        items={items}
+        items={filterNavItems(navItems, user)}
       />
     </div>
   );
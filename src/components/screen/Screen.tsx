@@ -1,24 +1,38 @@
-import { useContext } from 'react';
-import { Navigate, Outlet } from 'react-router-dom';
+import { useContext, useEffect } from 'react';
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
 
 import { AuthContext } from '../../contexts/authContext';
+import { getLoginPath } from '../../shared/functions/connection/auth';
+import { scheduleTokenRefresh } from '../../shared/functions/connection/session';
 import { Container } from '../container/Container';
 import { Header } from '../header/Header';
+import SessionExpiredModal from '../modal/SessionExpiredModal';
 import { Nav } from '../nav/Nav';
 
 export const Screen = () => {
-  const { signed, loading } = useContext(AuthContext);
+  const { signed } = useContext(AuthContext);
+  const location = useLocation();
 
-  if (loading) {
-    return <></>;
-  }
+  // renova o token antes de expirar enquanto houver alguém logado
+  useEffect(() => {
+    if (signed) {
+      return scheduleTokenRefresh();
+    }
+  }, [signed]);
 
+  // a sessão pode acabar com a tela aberta (sair, sessão expirada, outra aba)
   if (!signed) {
-    return <Navigate to='/login' />;
+    return (
+      <Navigate
+        to={getLoginPath(`${location.pathname}${location.search}`)}
+        replace
+      />
+    );
   }
 
   return (
     <>
+      <SessionExpiredModal />
       <div className='w-full flex flex-row'>
         <Nav />
 
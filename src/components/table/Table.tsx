@@ -1,8 +1,189 @@
-import { Table as TableAntD, TableProps } from 'antd';
+import { DownloadOutlined } from '@ant-design/icons';
+import { Button, Input, Table as TableAntD, TableProps } from 'antd';
+import { FilterValue, SorterResult } from 'antd/es/table/interface';
+import { format } from 'date-fns';
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+
+import { downloadCsv, toCsv } from '../../shared/functions/csv/csv';
+import { IPaginationParams } from '../../shared/interfaces/PaginationInterface';
+
+import {
+  filterExportRecords,
+  getExportColumns,
+  getExportHeaders,
+  getExportRows,
+  sortExportRecords,
+} from './tableExport';
+
+interface TableCurrentProps<RecordType> extends TableProps<RecordType> {
+  // quando informados, a paginação, a ordenação e a busca ficam a cargo do backend
+  paginationParams?: IPaginationParams;
+  total?: number;
+  onPaginationChange?: (params: IPaginationParams) => void;
+  searchPlaceholder?: string;
+  // habilita o botão de exportação em CSV com o nome de arquivo informado
+  exportFileName?: string;
+  // na paginação pelo backend, busca todas as linhas do filtro atual (e não só a página aberta)
+  fetchExportRows?: () => Promise<RecordType[]>;
+}
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-function Table<RecordType extends object = any>(props: TableProps<RecordType>) {
-  return <TableAntD {...props} rowKey={props.rowKey} />;
+function Table<RecordType extends object = any>({
+  paginationParams,
+  total,
+  onPaginationChange,
+  searchPlaceholder,
+  exportFileName,
+  fetchExportRows,
+  ...props
+}: TableCurrentProps<RecordType>) {
+  const [sorter, setSorter] = useState<SorterResult<RecordType>>();
+  const [filters, setFilters] = useState<Record<string, FilterValue | null>>();
+  // linhas como aparecem na tela (filtradas e ordenadas) e os dados de que vieram
+  const [currentData, setCurrentData] = useState<{
+    dataSource: TableProps<RecordType>['dataSource'];
+    records: readonly RecordType[];
+  }>();
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async () => {
+    if (!exportFileName) {
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      const exportColumns = getExportColumns(props.columns);
+      // se os dados foram recarregados depois da última interação, reaplica filtros e ordenação
+      const records = fetchExportRows
+        ? await fetchExportRows()
+        : currentData && currentData.dataSource === props.dataSource
+          ? [...currentData.records]
+          : sortExportRecords(
+              exportColumns,
+              filterExportRecords(
+                exportColumns,
+                [...(props.dataSource ?? [])],
+                filters,
+              ),
+              sorter,
+            );
+
+      downloadCsv(
+        `${exportFileName}-${format(new Date(), 'yyyy-MM-dd')}`,
+        toCsv(
+          getExportHeaders(exportColumns),
+          getExportRows(exportColumns, records),
+        ),
+      );
+    } catch {
+      toast.error('Erro ao exportar a tabela');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const exportButton = exportFileName && (
+    <div className='flex justify-end mb-2'>
+      <Button
+        icon={<DownloadOutlined />}
+        loading={isExporting}
+        onClick={handleExport}
+      >
+        Exportar CSV
+      </Button>
+    </div>
+  );
+
+  if (!paginationParams || !onPaginationChange) {
+    return (
+      <>
+        {exportButton}
+        <TableAntD
+          {...props}
+          rowKey={props.rowKey}
+          onChange={(pagination, filtersResult, sorterResult, extra) => {
+            setSorter(
+              Array.isArray(sorterResult) ? sorterResult[0] : sorterResult,
+            );
+            setFilters(filtersResult);
+            setCurrentData({
+              dataSource: props.dataSource,
+              records: extra.currentDataSource,
+            });
+            props.onChange?.(pagination, filtersResult, sorterResult, extra);
+          }}
+        />
+      </>
+    );
+  }
+
+  const columns = props.columns?.map((column) =>
+    column.sorter
+      ? {
+          ...column,
+          sorter: true,
+          sortOrder:
+            column.key === paginationParams.sort
+              ? paginationParams.order === 'desc'
+                ? ('descend' as const)
+                : ('ascend' as const)
+              : null,
+        }
+      : column,
+  );
+
+  const handleChange: TableProps<RecordType>['onChange'] = (
+    pagination,
+    _filters,
+    sorter,
+  ) => {
+    const { columnKey, order } = Array.isArray(sorter) ? sorter[0] : sorter;
+
+    onPaginationChange({
+      ...paginationParams,
+      page: pagination.current ?? 1,
+      pageSize: pagination.pageSize ?? paginationParams.pageSize,
+      sort: order ? columnKey?.toString() : undefined,
+      order: order ? (order === 'descend' ? 'desc' : 'asc') : undefined,
+    });
+  };
+
+  const handleSearch = (query: string) => {
+    onPaginationChange({
+      ...paginationParams,
+      page: 1,
+      query: query || undefined,
+    });
+  };
+
+  return (
+    <>
+      {exportButton}
+      {searchPlaceholder && (
+        <Input.Search
+          className='mb-2'
+          placeholder={searchPlaceholder}
+          allowClear
+          defaultValue={paginationParams.query}
+          onSearch={handleSearch}
+        />
+      )}
+      <TableAntD
+        {...props}
+        columns={columns}
+        rowKey={props.rowKey}
+        pagination={{
+          current: paginationParams.page,
+          pageSize: paginationParams.pageSize,
+          total,
+          showSizeChanger: true,
+        }}
+        onChange={handleChange}
+      />
+    </>
+  );
 }
 
 export default Table;
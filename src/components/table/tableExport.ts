@@ -0,0 +1,153 @@
+import { TableColumnType, TableProps } from 'antd';
+import { FilterValue, SorterResult } from 'antd/es/table/interface';
+import { isValidElement, ReactElement, ReactNode } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+
+import { CsvValue, formatCsvNumber } from '../../shared/functions/csv/csv';
+
+type ExportColumn<RecordType> = TableColumnType<RecordType>;
+
+// transforma o retorno do render (tags, links, componentes) no texto que aparece na tela
+export const reactNodeToCsvValue = (node: ReactNode): CsvValue => {
+  if (node === null || node === undefined || typeof node === 'boolean') {
+    return '';
+  }
+
+  if (typeof node === 'string' || typeof node === 'number') {
+    return node;
+  }
+
+  if (Array.isArray(node)) {
+    return node
+      .map((child) => {
+        const value = reactNodeToCsvValue(child);
+        return typeof value === 'number' ? formatCsvNumber(value) : value;
+      })
+      .join('');
+  }
+
+  if (isValidElement(node)) {
+    const element = node as ReactElement<{ children?: ReactNode }>;
+    if (typeof element.type === 'string') {
+      return reactNodeToCsvValue(element.props.children);
+    }
+
+    // componentes (Tag, CategoryColumn...) precisam ser renderizados para chegar ao texto;
+    // os que dependem de contexto (router, auth) ficam em branco
+    try {
+      const markup = renderToStaticMarkup(element);
+      return (
+        new DOMParser().parseFromString(markup, 'text/html').body.textContent ??
+        ''
+      );
+    } catch {
+      return '';
+    }
+  }
+
+  return '';
+};
+
+const getValue = <RecordType>(
+  record: RecordType,
+  dataIndex: ExportColumn<RecordType>['dataIndex'],
+): unknown => {
+  if (dataIndex === undefined || dataIndex === null) {
+    return undefined;
+  }
+
+  const path = (Array.isArray(dataIndex) ? dataIndex : [dataIndex]) as (
+    | string
+    | number
+  )[];
+  return path.reduce<unknown>(
+    (value, key) =>
+      value && typeof value === 'object'
+        ? (value as Record<string, unknown>)[key]
+        : undefined,
+    record,
+  );
+};
+
+const valueToCsvValue = (value: unknown): CsvValue => {
+  if (value && typeof value === 'object') {
+    // objetos relacionados (produto, fornecedor, status...) são exportados pelo nome
+    return reactNodeToCsvValue(
+      (value as { name?: string }).name ?? (value as ReactNode),
+    );
+  }
+  return value as CsvValue;
+};
+
+// colunas de ações e de seleção não têm dado para exportar
+export const getExportColumns = <RecordType>(
+  columns: TableProps<RecordType>['columns'] = [],
+) =>
+  (columns as ExportColumn<RecordType>[]).filter(
+    (column) =>
+      column.dataIndex !== '' &&
+      reactNodeToCsvValue(column.title as ReactNode) !== '',
+  );
+
+export const getExportHeaders = <RecordType>(
+  columns: ExportColumn<RecordType>[],
+) =>
+  columns.map((column) =>
+    String(reactNodeToCsvValue(column.title as ReactNode)),
+  );
+
+export const getExportRows = <RecordType extends object>(
+  columns: ExportColumn<RecordType>[],
+  records: RecordType[],
+) =>
+  records.map((record, index) =>
+    columns.map((column) => {
+      const value = getValue(record, column.dataIndex);
+
+      return column.render
+        ? reactNodeToCsvValue(column.render(value, record, index) as ReactNode)
+        : valueToCsvValue(value);
+    }),
+  );
+
+// reaplica os filtros escolhidos pelo usuário nas colunas com onFilter local
+export const filterExportRecords = <RecordType extends object>(
+  columns: ExportColumn<RecordType>[],
+  records: RecordType[],
+  filters: Record<string, FilterValue | null> = {},
+) =>
+  columns.reduce((filtered, column) => {
+    const values = filters[String(column.key ?? column.dataIndex)];
+    const { onFilter } = column;
+    if (!values || values.length === 0 || !onFilter) {
+      return filtered;
+    }
+    return filtered.filter((record) =>
+      values.some((value) => onFilter(value as string, record)),
+    );
+  }, records);
+
+// reaplica a ordenação feita pelo usuário nas colunas com sorter local
+export const sortExportRecords = <RecordType extends object>(
+  columns: ExportColumn<RecordType>[],
+  records: RecordType[],
+  sorter?: SorterResult<RecordType>,
+) => {
+  const column = sorter?.order
+    ? columns.find((item) => (item.key ?? item.dataIndex) === sorter.columnKey)
+    : undefined;
+  const compare =
+    typeof column?.sorter === 'function'
+      ? column.sorter
+      : typeof column?.sorter === 'object'
+        ? column.sorter.compare
+        : undefined;
+
+  if (!compare) {
+    return records;
+  }
+
+  return [...records].sort((a, b) =>
+    sorter?.order === 'descend' ? compare(b, a) : compare(a, b),
+  );
+};
@@ -5,17 +5,32 @@ import {
   URL_CATEGORY_ID,
 } from '../../../shared/constants/urls';
 import { MethodsEnum } from '../../../shared/enums/methods.enum';
+import { getRequestErrorMessage } from '../../../shared/functions/connection/requestError';
+import { createResourceHook } from '../../../shared/hooks/createResourceHook';
+import { fetchQuery, invalidateQueries } from '../../../shared/hooks/useQuery';
 import { useRequests } from '../../../shared/hooks/useRequests';
 import { ICategoryInsert } from '../interfaces/CategoryInsertInterface';
 import { ICategory } from '../interfaces/CategoryInterface';
 
+const useCategoryResource = createResourceHook<ICategory, ICategoryInsert>({
+  url: URL_CATEGORIES,
+  urlId: URL_CATEGORY_ID,
+  messages: {
+    singular: 'a categoria',
+    plural: 'as categorias',
+    deleted: 'Categoria deletada com sucesso!',
+    referenced:
+      'A categoria não pode ser deletada pois está vinculada a produtos',
+  },
+});
+
 const useCategoryRequests = () => {
   const { request } = useRequests();
+  const { remove } = useCategoryResource();
 
   const getCategories = async () => {
-    const response = await request<ICategory[]>(
-      URL_CATEGORIES,
-      MethodsEnum.GET,
+    const response = await fetchQuery(URL_CATEGORIES, () =>
+      request<ICategory[]>(URL_CATEGORIES, MethodsEnum.GET),
     );
 
     if (response) {
@@ -32,7 +47,7 @@ const useCategoryRequests = () => {
       );
       return response;
     } catch (error) {
-      toast.error('Erro ao buscar a categoria');
+      toast.error(getRequestErrorMessage(error, 'Erro ao buscar a categoria'));
       throw new Error(`Erro ao buscar a categoria: ${error}`);
     }
   };
@@ -45,13 +60,16 @@ const useCategoryRequests = () => {
 
     try {
       const response = await request<ICategory>(url, method, category);
+      invalidateQueries(URL_CATEGORIES);
       return response;
     } catch (error) {
       throw new Error(`Erro ao salvar a categoria: ${error}`);
     }
   };
 
-  return { getCategories, getCategoryById, saveCategory };
+  const deleteCategory = (id: number) => remove(id);
+
+  return { getCategories, getCategoryById, saveCategory, deleteCategory };
 };
 
 export default useCategoryRequests;
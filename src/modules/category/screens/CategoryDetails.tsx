@@ -5,6 +5,7 @@ import toast from 'react-hot-toast';
 import { z } from 'zod';
 
 import { Input } from '../../../components/input/Input';
+import { usePermission } from '../../../shared/hooks/usePermission';
 import useCategoryRequests from '../hooks/useCategoryRequests';
 import { ICategory } from '../interfaces/CategoryInterface';
 
@@ -25,6 +26,7 @@ export const CategoryDetails = ({
   categoryId,
   onSave,
 }: CategoryDetailsProps) => {
+  const { canEdit } = usePermission('categories');
   const [, setCategory] = useState<ICategory>();
   const { getCategoryById, saveCategory } = useCategoryRequests();
 
@@ -114,6 +116,7 @@ export const CategoryDetails = ({
               type='submit'
               style={{ backgroundColor: '#001529' }}
               color='white'
+              disabled={!canEdit}
             >
               {categoryId ? 'Editar' : 'Inserir'}
             </button>
@@ -3,15 +3,19 @@ import { ColumnsType } from 'antd/es/table';
 import { useEffect, useMemo, useState } from 'react';
 
 import Button from '../../../components/button/Button';
+import ConfirmDeleteModal from '../../../components/modal/ConfirmDeleteModal';
 import Modal from '../../../components/modal/Modal';
 import Table from '../../../components/table/Table';
+import { usePermission } from '../../../shared/hooks/usePermission';
 import useCategoryRequests from '../hooks/useCategoryRequests';
 import { ICategory } from '../interfaces/CategoryInterface';
 
 import { CategoryDetails } from './CategoryDetails';
 
 export const CategoryList = () => {
-  const { getCategories } = useCategoryRequests();
+  const { canEdit } = usePermission('categories');
+  const { getCategories, deleteCategory } = useCategoryRequests();
+  const [categoryToDelete, setCategoryToDelete] = useState<ICategory>();
   const [categories, setCategories] = useState<ICategory[]>([]);
   const [categoryId, setCategoryId] = useState<number>();
   const [isModalOpen, setIsModalOpen] = useState(false);
@@ -44,20 +48,26 @@ export const CategoryList = () => {
         render: (_, category) => (
           <div style={{ width: '180px', display: 'flex' }}>
             <Button
+              disabled={!canEdit}
               margin='0px 16px 0px 0px'
               onClick={() => handleEditCategory(category)}
               icon={<EditOutlined />}
             >
               Editar
             </Button>
-            <Button danger onClick={() => {}} icon={<DeleteOutlined />}>
+            <Button
+              disabled={!canEdit}
+              danger
+              onClick={() => setCategoryToDelete(category)}
+              icon={<DeleteOutlined />}
+            >
               Deletar
             </Button>
           </div>
         ),
       },
     ],
-    [],
+    [canEdit],
   );
 
   const handleEditCategory = (category: ICategory) => {
@@ -79,11 +89,19 @@ export const CategoryList = () => {
     }
   };
 
+  const handleDeleteCategory = async () => {
+    if (categoryToDelete) {
+      await deleteCategory(categoryToDelete.id);
+      loadCategories();
+    }
+  };
+
   return (
     <div>
       <div className='flex justify-between'>
         <div style={{ width: '240' }}>
           <Button
+            disabled={!canEdit}
             className='mb-2'
             title='Inserir'
             backgroundColor='#001529'
@@ -92,7 +110,12 @@ export const CategoryList = () => {
           />
         </div>
       </div>
-      <Table columns={columns} dataSource={categories} rowKey='id' />
+      <Table
+        columns={columns}
+        dataSource={categories}
+        rowKey='id'
+        exportFileName='categorias'
+      />
       <Modal
         isModalOpen={isModalOpen}
         title='Categoria'
@@ -105,6 +128,12 @@ export const CategoryList = () => {
           onSave={loadCategories}
         />
       </Modal>
+      <ConfirmDeleteModal
+        isModalOpen={!!categoryToDelete}
+        description={`Deseja deletar a categoria ${categoryToDelete?.name}?`}
+        onConfirm={handleDeleteCategory}
+        onClose={() => setCategoryToDelete(undefined)}
+      />
     </div>
   );
 };
@@ -0,0 +1,59 @@
+import { endOfDay, format, parseISO, startOfDay } from 'date-fns';
+
+import { IDateRange } from '../functions/dashboardMetrics';
+
+interface DateRangeFilterProps {
+  range: IDateRange;
+  onChange: (range: IDateRange) => void;
+}
+
+const toInputValue = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const DateRangeFilter = ({ range, onChange }: DateRangeFilterProps) => {
+  const handleChange = (field: keyof IDateRange, value: string) => {
+    if (!value) {
+      return;
+    }
+
+    const date = parseISO(value);
+    const newRange = {
+      ...range,
+      [field]: field === 'start' ? startOfDay(date) : endOfDay(date),
+    };
+
+    // mantém o início antes do fim ao editar um dos lados
+    if (newRange.start > newRange.end) {
+      return onChange(
+        field === 'start'
+          ? { start: newRange.start, end: endOfDay(date) }
+          : { start: startOfDay(date), end: newRange.end },
+      );
+    }
+    onChange(newRange);
+  };
+
+  return (
+    <div className='flex items-end gap-2'>
+      <label>
+        <p className='mb-2 font-medium'>De</p>
+        <input
+          className='h-10 p-2 border border-gray-300 rounded-lg'
+          type='date'
+          value={toInputValue(range.start)}
+          onChange={(event) => handleChange('start', event.target.value)}
+        />
+      </label>
+      <label>
+        <p className='mb-2 font-medium'>Até</p>
+        <input
+          className='h-10 p-2 border border-gray-300 rounded-lg'
+          type='date'
+          value={toInputValue(range.end)}
+          onChange={(event) => handleChange('end', event.target.value)}
+        />
+      </label>
+    </div>
+  );
+};
+
+export default DateRangeFilter;
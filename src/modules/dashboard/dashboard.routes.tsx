@@ -0,0 +1,14 @@
+import { RouteObject } from 'react-router-dom';
+
+import { Dashboard } from './screens/Dashboard';
+
+export enum DashboardRoutesEnum {
+  DASHBOARD = '/',
+}
+
+export const dashboardRoutes: RouteObject[] = [
+  {
+    path: DashboardRoutesEnum.DASHBOARD,
+    element: <Dashboard />,
+  },
+];
@@ -0,0 +1,256 @@
+import { differenceInCalendarDays, format } from 'date-fns';
+
+import { isFinalStatus } from '../../../shared/functions/workflow/statusWorkflow';
+import { ISalePlatformCommission } from '../../pricing/sale-platform-commission/interfaces/SalePlatformCommissionInterface';
+import { IProduct } from '../../product/interfaces/ProductInterface';
+import { IProductVariation } from '../../product/product-variation/interfaces/ProductVariationInterface';
+import { IPurchaseOrder } from '../../purchase-order/interfaces/PurchaseOrderInterface';
+import { IPurchaseOrderStatus } from '../../purchase-order/purchase-order-status/interfaces/PurchaseOrderStatusInterface';
+import { calculateSaleOrderProfit } from '../../sale-order/functions/saleOrderProfit';
+import { ISaleOrder } from '../../sale-order/interfaces/SaleOrderInterface';
+import { ISaleOrderItem } from '../../sale-order/sale-order-item/interfaces/SaleOrderItemInterface';
+import {
+  getStockMinimum,
+  IStockMinimums,
+  IStockSummary,
+} from '../../stock-item/functions/stockSummary';
+import { IStockItem } from '../../stock-item/interfaces/StockItemInterface';
+
+export interface IDateRange {
+  start: Date;
+  end: Date;
+}
+
+export interface ISalesGroup {
+  key: string;
+  label: string;
+  count: number;
+  revenue: number;
+}
+
+export interface IPurchaseOrderStatusCount {
+  statusId: number;
+  status: string;
+  count: number;
+}
+
+export interface ILowStockRow {
+  productVariationId: number;
+  product: string;
+  productVariation: string;
+  onHand: number;
+  minimum: number;
+}
+
+export interface IProductProfit {
+  productId: number;
+  product: string;
+  unitsSold: number;
+  revenue: number;
+  cost: number;
+  profit: number;
+}
+
+// até um mês o gráfico de vendas é diário, acima disso é mensal
+const DAILY_PERIOD_MAX_DAYS = 31;
+
+export const isWithinRange = (date: Date | string, range: IDateRange) => {
+  const time = new Date(date).getTime();
+  return time >= range.start.getTime() && time <= range.end.getTime();
+};
+
+// receita do pedido: soma dos itens menos o desconto (o frete não entra)
+export const getSaleOrderRevenue = (
+  saleOrder: ISaleOrder,
+  saleOrderItems: ISaleOrderItem[] = [],
+) =>
+  saleOrderItems.reduce((total, item) => total + Number(item.price), 0) -
+  Number(saleOrder.discount ?? 0);
+
+const groupSales = (
+  saleOrders: ISaleOrder[],
+  itemsBySaleOrder: Map<number, ISaleOrderItem[]>,
+  getGroup: (saleOrder: ISaleOrder) => { key: string; label: string },
+) => {
+  const groups = new Map<string, ISalesGroup>();
+
+  saleOrders.forEach((saleOrder) => {
+    const { key, label } = getGroup(saleOrder);
+    const group = groups.get(key) ?? { key, label, count: 0, revenue: 0 };
+
+    group.count += 1;
+    group.revenue += getSaleOrderRevenue(
+      saleOrder,
+      itemsBySaleOrder.get(saleOrder.id),
+    );
+    groups.set(key, group);
+  });
+
+  return [...groups.values()];
+};
+
+export const groupSalesByPeriod = (
+  saleOrders: ISaleOrder[],
+  itemsBySaleOrder: Map<number, ISaleOrderItem[]>,
+  range: IDateRange,
+) => {
+  const isDaily =
+    differenceInCalendarDays(range.end, range.start) <= DAILY_PERIOD_MAX_DAYS;
+
+  return groupSales(saleOrders, itemsBySaleOrder, (saleOrder) => {
+    const date = new Date(saleOrder.date);
+    return isDaily
+      ? { key: format(date, 'yyyy-MM-dd'), label: format(date, 'dd/MM/yyyy') }
+      : { key: format(date, 'yyyy-MM'), label: format(date, 'MM/yyyy') };
+  }).sort((a, b) => a.key.localeCompare(b.key));
+};
+
+export const groupSalesByPlatform = (
+  saleOrders: ISaleOrder[],
+  itemsBySaleOrder: Map<number, ISaleOrderItem[]>,
+) =>
+  groupSales(saleOrders, itemsBySaleOrder, (saleOrder) => ({
+    key: `${saleOrder.platform?.id}`,
+    label: saleOrder.platform?.name ?? 'Sem plataforma',
+  })).sort((a, b) => b.revenue - a.revenue);
+
+export const groupSaleOrderItems = (saleOrderItems: ISaleOrderItem[]) => {
+  const itemsBySaleOrder = new Map<number, ISaleOrderItem[]>();
+
+  saleOrderItems.forEach((saleOrderItem) => {
+    const items = itemsBySaleOrder.get(saleOrderItem.saleOrderId) ?? [];
+    items.push(saleOrderItem);
+    itemsBySaleOrder.set(saleOrderItem.saleOrderId, items);
+  });
+
+  return itemsBySaleOrder;
+};
+
+// em aberto: compras cujo status não é final no cadastro de status
+export const getOpenPurchaseOrders = (
+  purchaseOrders: IPurchaseOrder[],
+  purchaseOrderStatus: IPurchaseOrderStatus[],
+) => {
+  const statusById = new Map(
+    purchaseOrderStatus.map((status) => [status.id, status]),
+  );
+
+  return purchaseOrders.filter(
+    ({ purchaseOrderStatus }) =>
+      !isFinalStatus(statusById.get(purchaseOrderStatus.id)),
+  );
+};
+
+export const countPurchaseOrdersByStatus = (
+  purchaseOrders: IPurchaseOrder[],
+): IPurchaseOrderStatusCount[] => {
+  const counts = new Map<number, IPurchaseOrderStatusCount>();
+
+  purchaseOrders.forEach(({ purchaseOrderStatus }) => {
+    const count = counts.get(purchaseOrderStatus.id) ?? {
+      statusId: purchaseOrderStatus.id,
+      status: purchaseOrderStatus.name,
+      count: 0,
+    };
+    count.count += 1;
+    counts.set(purchaseOrderStatus.id, count);
+  });
+
+  return [...counts.values()].sort((a, b) => b.count - a.count);
+};
+
+// lucro por produto dos itens vendidos no período, com as mesmas regras do lucro da venda
+// (comissão da plataforma, desconto e frete rateados e custo efetivo da compra)
+export const getTopProductsByProfit = (
+  saleOrders: ISaleOrder[],
+  itemsBySaleOrder: Map<number, ISaleOrderItem[]>,
+  stockItems: IStockItem[],
+  commissionsByPlatform: Map<number, ISalePlatformCommission>,
+  landedCosts: Map<number, number>,
+  products: IProduct[],
+  soldStatusId?: number,
+  limit = 5,
+): IProductProfit[] => {
+  const productNames = new Map(
+    products.map((product) => [product.id, product.name]),
+  );
+  const soldStockItems = stockItems.filter(
+    ({ stockItemStatusId, saleOrderItemId }) =>
+      stockItemStatusId === soldStatusId && saleOrderItemId,
+  );
+  const soldSaleOrderItemIds = new Set(
+    soldStockItems.map(({ saleOrderItemId }) => saleOrderItemId),
+  );
+  const profits = new Map<number, IProductProfit>();
+
+  saleOrders.forEach((saleOrder) => {
+    const saleOrderItems = itemsBySaleOrder.get(saleOrder.id) ?? [];
+    if (!saleOrderItems.some(({ id }) => soldSaleOrderItemIds.has(id))) {
+      return;
+    }
+
+    const saleOrderProfit = calculateSaleOrderProfit(
+      saleOrder,
+      saleOrderItems,
+      soldStockItems,
+      saleOrder.platform?.id
+        ? commissionsByPlatform.get(saleOrder.platform.id)
+        : undefined,
+      undefined,
+      landedCosts,
+    );
+
+    saleOrderProfit.items
+      .filter(({ saleOrderItem }) => soldSaleOrderItemIds.has(saleOrderItem.id))
+      .forEach((item) => {
+        const productId = item.saleOrderItem.product.id;
+        const profit = profits.get(productId) ?? {
+          productId,
+          product: productNames.get(productId) ?? `Produto ${productId}`,
+          unitsSold: 0,
+          revenue: 0,
+          cost: 0,
+          profit: 0,
+        };
+
+        profit.unitsSold += 1;
+        profit.revenue += item.price;
+        profit.cost += item.cost;
+        profit.profit += item.netProfit;
+        profits.set(productId, profit);
+      });
+  });
+
+  return [...profits.values()]
+    .sort((a, b) => b.profit - a.profit)
+    .slice(0, limit);
+};
+
+// parte das variações cadastradas, então variações sem nenhum item de estoque também aparecem
+export const getLowStock = (
+  variations: { product: IProduct; productVariation: IProductVariation }[],
+  stockSummaries: IStockSummary[],
+  minimums: IStockMinimums,
+): ILowStockRow[] => {
+  const onHandByVariation = new Map(
+    stockSummaries.map((summary) => [
+      summary.productVariationId,
+      summary.onHand,
+    ]),
+  );
+
+  return variations
+    .filter(({ productVariation }) => productVariation.id)
+    .map(({ product, productVariation }) => {
+      const productVariationId = productVariation.id as number;
+      return {
+        productVariationId,
+        product: product.name,
+        productVariation: productVariation.name,
+        onHand: onHandByVariation.get(productVariationId) ?? 0,
+        minimum: getStockMinimum(minimums, productVariationId),
+      };
+    })
+    .filter((row) => row.onHand < row.minimum)
+    .sort((a, b) => a.onHand - b.onHand);
+};
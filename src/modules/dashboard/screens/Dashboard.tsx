@@ -0,0 +1,451 @@
+import { Card, Col, Row, Statistic } from 'antd';
+import { ColumnsType } from 'antd/es/table';
+import { endOfDay, startOfDay, subDays } from 'date-fns';
+import { useEffect, useMemo, useState } from 'react';
+
+import Table from '../../../components/table/Table';
+import {
+  URL_PRODUCTS,
+  URL_PURCHASE_ORDER_STATUS,
+  URL_PURCHASE_ORDERS,
+  URL_SALE_ORDER_ITEMS_ALL,
+  URL_SALE_PLATFORM_COMMISSIONS,
+  URL_SALE_ORDERS,
+  URL_STOCK_ITEM_STATUS,
+  URL_STOCK_ITEMS,
+} from '../../../shared/constants/urls';
+import { usePermission } from '../../../shared/hooks/usePermission';
+import { useQuery } from '../../../shared/hooks/useQuery';
+import useSalePlatformCommissionRequests from '../../pricing/sale-platform-commission/hooks/useSalePlatformCommissionRequests';
+import useProductRequests from '../../product/hooks/useProductRequests';
+import { IProduct } from '../../product/interfaces/ProductInterface';
+import useProductVariationRequests from '../../product/product-variation/hooks/useProductVariationRequests';
+import { IProductVariation } from '../../product/product-variation/interfaces/ProductVariationInterface';
+import usePurchaseOrderRequests from '../../purchase-order/hooks/usePurchaseOrderRequests';
+import usePurchaseOrderItemRequests from '../../purchase-order/purchase-order-item/hooks/usePurchaseOrderItemRequests';
+import usePurchaseOrderStatusRequests from '../../purchase-order/purchase-order-status/hooks/usePurchaseOrderStatusRequests';
+import useSaleOrderRequests from '../../sale-order/hooks/useSaleOrderRequests';
+import useSaleOrderItemRequests from '../../sale-order/sale-order-item/hooks/useSaleOrderItemRequests';
+import {
+  getStockMinimums,
+  summarizeStockItems,
+} from '../../stock-item/functions/stockSummary';
+import useStockItemRequests from '../../stock-item/hooks/useStockItemRequests';
+import { StockItemStatusRoleEnum } from '../../stock-item/stock-item-status/enums/stockItemStatusRole.enum';
+import { findStockItemStatusIdByRole } from '../../stock-item/stock-item-status/functions/stockItemStatusRole';
+import useStockItemStatusRequests from '../../stock-item/stock-item-status/hooks/useStockItemStatusRequests';
+import DateRangeFilter from '../components/DateRangeFilter';
+import {
+  countPurchaseOrdersByStatus,
+  getLowStock,
+  getOpenPurchaseOrders,
+  getTopProductsByProfit,
+  groupSaleOrderItems,
+  groupSalesByPeriod,
+  groupSalesByPlatform,
+  IDateRange,
+  ILowStockRow,
+  IProductProfit,
+  IPurchaseOrderStatusCount,
+  isWithinRange,
+  ISalesGroup,
+} from '../functions/dashboardMetrics';
+
+const DEFAULT_RANGE_DAYS = 30;
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString('pt-BR', {
+    style: 'currency',
+    currency: 'BRL',
+  });
+
+const salesColumns = (title: string): ColumnsType<ISalesGroup> => [
+  {
+    title,
+    dataIndex: 'label',
+    key: 'label',
+  },
+  {
+    title: 'Vendas',
+    dataIndex: 'count',
+    key: 'count',
+  },
+  {
+    title: 'Receita',
+    dataIndex: 'revenue',
+    key: 'revenue',
+    render: (revenue) => formatCurrency(revenue),
+  },
+];
+
+export const Dashboard = () => {
+  const { canView: canViewSales } = usePermission('saleOrders');
+  const { canView: canViewPurchases } = usePermission('purchaseOrders');
+  const { canView: canViewStock } = usePermission('stock');
+
+  const { getSaleOrders } = useSaleOrderRequests();
+  const { getAllSaleOrderItems } = useSaleOrderItemRequests();
+  const { getPurchaseOrders } = usePurchaseOrderRequests();
+  const { getPurchaseOrderStatus } = usePurchaseOrderStatusRequests();
+  const { getStockItems } = useStockItemRequests();
+  const { getProducts } = useProductRequests();
+  const { getProductVariations } = useProductVariationRequests();
+  const { getStockItemStatus } = useStockItemStatusRequests();
+  const { getSalePlatformCommissions } = useSalePlatformCommissionRequests();
+  const { getPurchaseOrderLandedCosts } = usePurchaseOrderItemRequests();
+
+  // cada bloco só é buscado quando o usuário pode vê-lo
+  const { data: saleOrders = [] } = useQuery(
+    canViewSales ? URL_SALE_ORDERS : undefined,
+    getSaleOrders,
+  );
+  const { data: saleOrderItems } = useQuery(
+    canViewSales ? URL_SALE_ORDER_ITEMS_ALL : undefined,
+    getAllSaleOrderItems,
+  );
+  const { data: purchaseOrders = [] } = useQuery(
+    canViewPurchases ? URL_PURCHASE_ORDERS : undefined,
+    getPurchaseOrders,
+  );
+  const { data: purchaseOrderStatus = [] } = useQuery(
+    canViewPurchases ? URL_PURCHASE_ORDER_STATUS : undefined,
+    getPurchaseOrderStatus,
+  );
+  const { data: stockItems = [] } = useQuery(
+    canViewStock ? URL_STOCK_ITEMS : undefined,
+    getStockItems,
+  );
+  const { data: products } = useQuery(
+    canViewSales || canViewStock ? URL_PRODUCTS : undefined,
+    getProducts,
+  );
+  const { data: stockItemStatus = [] } = useQuery(
+    URL_STOCK_ITEM_STATUS,
+    getStockItemStatus,
+  );
+  const { data: salePlatformCommissions } = useQuery(
+    canViewSales ? URL_SALE_PLATFORM_COMMISSIONS : undefined,
+    getSalePlatformCommissions,
+  );
+
+  const [range, setRange] = useState<IDateRange>(() => ({
+    start: startOfDay(subDays(new Date(), DEFAULT_RANGE_DAYS)),
+    end: endOfDay(new Date()),
+  }));
+  const [landedCosts, setLandedCosts] = useState<Map<number, number>>(
+    new Map(),
+  );
+  const [variations, setVariations] = useState<
+    { product: IProduct; productVariation: IProductVariation }[]
+  >([]);
+
+  // o estoque baixo parte de todas as variações, inclusive as que nunca tiveram estoque
+  useEffect(() => {
+    if (!canViewStock || !products) {
+      return;
+    }
+
+    const loadVariations = async () => {
+      const variationsData = await Promise.all(
+        products.map(async (product) =>
+          (await getProductVariations(product.id)).map((productVariation) => ({
+            product,
+            productVariation,
+          })),
+        ),
+      );
+      setVariations(variationsData.flat());
+    };
+
+    loadVariations();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [canViewStock, products]);
+
+  const soldStatusId = findStockItemStatusIdByRole(
+    stockItemStatus,
+    StockItemStatusRoleEnum.SOLD,
+  );
+
+  // custo efetivo só das compras que abasteceram itens vendidos
+  useEffect(() => {
+    const purchaseOrderIds = stockItems.flatMap(
+      ({ stockItemStatusId, purchaseOrderItem }) =>
+        stockItemStatusId === soldStatusId && purchaseOrderItem
+          ? [purchaseOrderItem.purchaseOrderId]
+          : [],
+    );
+    if (purchaseOrderIds.length === 0) {
+      return;
+    }
+
+    getPurchaseOrderLandedCosts(purchaseOrderIds)
+      .then(setLandedCosts)
+      .catch(() => setLandedCosts(new Map()));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [stockItems, soldStatusId]);
+
+  const saleOrdersInRange = useMemo(
+    () =>
+      saleOrders.filter((saleOrder) => isWithinRange(saleOrder.date, range)),
+    [saleOrders, range],
+  );
+
+  const itemsBySaleOrder = useMemo(
+    () => groupSaleOrderItems(saleOrderItems ?? []),
+    [saleOrderItems],
+  );
+
+  const salesByPeriod = useMemo(
+    () => groupSalesByPeriod(saleOrdersInRange, itemsBySaleOrder, range),
+    [saleOrdersInRange, itemsBySaleOrder, range],
+  );
+
+  const salesByPlatform = useMemo(
+    () => groupSalesByPlatform(saleOrdersInRange, itemsBySaleOrder),
+    [saleOrdersInRange, itemsBySaleOrder],
+  );
+
+  const totalRevenue = useMemo(
+    () => salesByPlatform.reduce((total, group) => total + group.revenue, 0),
+    [salesByPlatform],
+  );
+
+  const openPurchaseOrders = useMemo(
+    () => getOpenPurchaseOrders(purchaseOrders, purchaseOrderStatus),
+    [purchaseOrders, purchaseOrderStatus],
+  );
+
+  const purchaseOrdersByStatus = useMemo(
+    () => countPurchaseOrdersByStatus(openPurchaseOrders),
+    [openPurchaseOrders],
+  );
+
+  const topProducts = useMemo(
+    () =>
+      getTopProductsByProfit(
+        saleOrdersInRange,
+        itemsBySaleOrder,
+        stockItems,
+        new Map(
+          (salePlatformCommissions ?? []).map((commission) => [
+            commission.salePlatform.id,
+            commission,
+          ]),
+        ),
+        landedCosts,
+        products ?? [],
+        soldStatusId,
+      ),
+    [
+      saleOrdersInRange,
+      itemsBySaleOrder,
+      stockItems,
+      salePlatformCommissions,
+      landedCosts,
+      products,
+      soldStatusId,
+    ],
+  );
+
+  const stockSummaries = useMemo(
+    () =>
+      summarizeStockItems(
+        stockItems,
+        findStockItemStatusIdByRole(
+          stockItemStatus,
+          StockItemStatusRoleEnum.AVAILABLE,
+        ),
+      ),
+    [stockItems, stockItemStatus],
+  );
+
+  const stockOnHand = useMemo(
+    () => stockSummaries.reduce((total, summary) => total + summary.onHand, 0),
+    [stockSummaries],
+  );
+
+  const lowStock: ILowStockRow[] = useMemo(
+    () => getLowStock(variations, stockSummaries, getStockMinimums()),
+    [variations, stockSummaries],
+  );
+
+  const purchaseOrderStatusColumns: ColumnsType<IPurchaseOrderStatusCount> =
+    useMemo(
+      () => [
+        {
+          title: 'Status',
+          dataIndex: 'status',
+          key: 'status',
+        },
+        {
+          title: 'Compras',
+          dataIndex: 'count',
+          key: 'count',
+        },
+      ],
+      [],
+    );
+
+  const lowStockColumns: ColumnsType<ILowStockRow> = useMemo(
+    () => [
+      {
+        title: 'Produto',
+        dataIndex: 'product',
+        key: 'product',
+      },
+      {
+        title: 'Variação',
+        dataIndex: 'productVariation',
+        key: 'productVariation',
+      },
+      {
+        title: 'Disponível',
+        dataIndex: 'onHand',
+        key: 'onHand',
+      },
+      {
+        title: 'Mínimo',
+        dataIndex: 'minimum',
+        key: 'minimum',
+      },
+    ],
+    [],
+  );
+
+  const topProductsColumns: ColumnsType<IProductProfit> = useMemo(
+    () => [
+      {
+        title: 'Produto',
+        dataIndex: 'product',
+        key: 'product',
+      },
+      {
+        title: 'Unidades',
+        dataIndex: 'unitsSold',
+        key: 'unitsSold',
+      },
+      {
+        title: 'Receita',
+        dataIndex: 'revenue',
+        key: 'revenue',
+        render: (revenue) => formatCurrency(revenue),
+      },
+      {
+        title: 'Lucro líquido',
+        dataIndex: 'profit',
+        key: 'profit',
+        render: (profit) => formatCurrency(profit),
+      },
+    ],
+    [],
+  );
+
+  return (
+    <div>
+      <div className='flex justify-between items-end mb-4'>
+        <h2 className='text-xl font-bold'>Principal</h2>
+        <DateRangeFilter range={range} onChange={setRange} />
+      </div>
+      <Row gutter={[16, 16]}>
+        {canViewSales && (
+          <>
+            <Col span={6}>
+              <Card>
+                <Statistic
+                  title='Vendas no período'
+                  value={saleOrdersInRange.length}
+                />
+              </Card>
+            </Col>
+            <Col span={6}>
+              <Card>
+                <Statistic
+                  title='Receita no período'
+                  value={totalRevenue}
+                  formatter={(value) => formatCurrency(Number(value))}
+                />
+              </Card>
+            </Col>
+          </>
+        )}
+        {canViewPurchases && (
+          <Col span={6}>
+            <Card>
+              <Statistic
+                title='Compras em aberto'
+                value={openPurchaseOrders.length}
+              />
+            </Card>
+          </Col>
+        )}
+        {canViewStock && (
+          <Col span={6}>
+            <Card>
+              <Statistic title='Itens em estoque' value={stockOnHand} />
+            </Card>
+          </Col>
+        )}
+        {canViewSales && (
+          <>
+            <Col span={12}>
+              <Card title='Vendas por período'>
+                <Table
+                  columns={salesColumns('Período')}
+                  dataSource={salesByPeriod}
+                  rowKey='key'
+                  pagination={{ pageSize: 10 }}
+                />
+              </Card>
+            </Col>
+            <Col span={12}>
+              <Card title='Vendas por plataforma'>
+                <Table
+                  columns={salesColumns('Plataforma')}
+                  dataSource={salesByPlatform}
+                  rowKey='key'
+                  pagination={false}
+                />
+              </Card>
+            </Col>
+          </>
+        )}
+        {canViewPurchases && (
+          <Col span={12}>
+            <Card title='Compras em aberto por status'>
+              <Table
+                columns={purchaseOrderStatusColumns}
+                dataSource={purchaseOrdersByStatus}
+                rowKey='statusId'
+                pagination={false}
+              />
+            </Card>
+          </Col>
+        )}
+        {canViewStock && (
+          <Col span={12}>
+            <Card title='Estoque abaixo do mínimo'>
+              <Table
+                columns={lowStockColumns}
+                dataSource={lowStock}
+                rowKey='productVariationId'
+                pagination={{ pageSize: 5 }}
+              />
+            </Card>
+          </Col>
+        )}
+        {canViewSales && canViewStock && (
+          <Col span={24}>
+            <Card title='Produtos mais lucrativos no período'>
+              <Table
+                columns={topProductsColumns}
+                dataSource={topProducts}
+                rowKey='productId'
+                pagination={false}
+              />
+            </Card>
+          </Col>
+        )}
+      </Row>
+    </div>
+  );
+};
@@ -0,0 +1,14 @@
+import { RouteObject } from 'react-router-dom';
+
+import { Forbidden } from './screens/Forbidden';
+
+export enum ForbiddenRoutesEnum {
+  FORBIDDEN = '/forbidden',
+}
+
+export const forbiddenRoutes: RouteObject[] = [
+  {
+    path: ForbiddenRoutesEnum.FORBIDDEN,
+    element: <Forbidden />,
+  },
+];
@@ -0,0 +1,26 @@
+import { Result } from 'antd';
+import { useNavigate } from 'react-router-dom';
+
+import Button from '../../../components/button/Button';
+
+export const Forbidden = () => {
+  const navigate = useNavigate();
+
+  return (
+    <Result
+      status='403'
+      title='Acesso negado'
+      subTitle='Você não tem permissão para acessar esta página. Fale com um administrador caso precise desse acesso.'
+      extra={
+        <div className='w-40 mx-auto'>
+          <Button
+            title='Voltar'
+            backgroundColor='#001529'
+            color='white'
+            onClick={() => navigate(-1)}
+          />
+        </div>
+      }
+    />
+  );
+};
@@ -0,0 +1,14 @@
+import { RouteObject } from 'react-router-dom';
+
+import { BlingSync } from './screens/BlingSync';
+
+export enum BlingRoutesEnum {
+  BLING_SYNC = '/integration-product-supplier-erp/bling',
+}
+
+export const blingRoutes: RouteObject[] = [
+  {
+    path: BlingRoutesEnum.BLING_SYNC,
+    element: <BlingSync />,
+  },
+];
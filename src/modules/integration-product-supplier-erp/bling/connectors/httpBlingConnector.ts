@@ -0,0 +1,65 @@
+import {
+  URL_BLING_PRODUCT_ID,
+  URL_BLING_STOCKS,
+} from '../../../../shared/constants/urls';
+import { MethodsEnum } from '../../../../shared/enums/methods.enum';
+import {
+  BlingRequest,
+  IBlingConnector,
+  IBlingProduct,
+} from '../interfaces/BlingInterface';
+
+// formato da API v3 do Bling, repassado sem alterações pelo proxy
+interface IBlingApiProduct {
+  id: number;
+  nome: string;
+  codigo: string;
+  preco: number;
+  estoque?: {
+    saldoVirtualTotal: number;
+  };
+}
+
+interface IBlingApiResponse<T> {
+  data: T;
+}
+
+// operação "B" (balanço) define o saldo em vez de somar ou subtrair
+const STOCK_BALANCE_OPERATION = 'B';
+
+const toBlingProduct = (product: IBlingApiProduct): IBlingProduct => ({
+  id: product.id,
+  code: product.codigo,
+  name: product.nome,
+  price: product.preco,
+  stock: product.estoque?.saldoVirtualTotal ?? 0,
+});
+
+const getProductUrl = (blingProductId: number) =>
+  URL_BLING_PRODUCT_ID.replace('{blingProductId}', blingProductId.toString());
+
+export const createHttpBlingConnector = (
+  request: BlingRequest,
+): IBlingConnector => ({
+  getProduct: async (blingProductId) => {
+    const response = await request<IBlingApiResponse<IBlingApiProduct>>(
+      getProductUrl(blingProductId),
+      MethodsEnum.GET,
+    );
+    return response?.data ? toBlingProduct(response.data) : undefined;
+  },
+
+  updateProduct: async (blingProductId, { price }) => {
+    await request(getProductUrl(blingProductId), MethodsEnum.PATCH, {
+      preco: price,
+    });
+  },
+
+  updateStock: async (blingProductId, quantity) => {
+    await request(URL_BLING_STOCKS, MethodsEnum.POST, {
+      produto: { id: blingProductId },
+      operacao: STOCK_BALANCE_OPERATION,
+      quantidade: quantity,
+    });
+  },
+});
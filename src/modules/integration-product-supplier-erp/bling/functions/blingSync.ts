@@ -0,0 +1,94 @@
+import { IPricing } from '../../../pricing/interfaces/PricingInterface';
+import { IStockSummary } from '../../../stock-item/functions/stockSummary';
+import { IIntegrationProductSupplier } from '../../interfaces/IntegrationProductSupplierErpInterface';
+import { IBlingProduct } from '../interfaces/BlingInterface';
+
+// o código do Bling não é comparado: não há no sistema uma origem definida para ele
+// (o código do fornecedor varia conforme a integração)
+export type BlingSyncField = 'price' | 'stock';
+
+export const BLING_SYNC_FIELD_LABELS: Record<BlingSyncField, string> = {
+  price: 'Preço',
+  stock: 'Estoque',
+};
+
+// diferenças de arredondamento abaixo de meio centavo não contam como divergência
+const PRICE_TOLERANCE = 0.005;
+
+export interface IBlingSyncRow {
+  blingProductId: number;
+  integration: IIntegrationProductSupplier;
+  // precificação da plataforma usada como referência para o preço do Bling
+  pricing?: IPricing;
+  localStock: number;
+  blingProduct?: IBlingProduct;
+  mismatches: BlingSyncField[];
+  error?: string;
+}
+
+export interface IBlingSyncLookups {
+  pricing: IPricing[];
+  stockSummaries: IStockSummary[];
+  salePlatformId?: number;
+}
+
+// uma linha por produto do Bling: várias integrações (fornecedores) podem apontar para o mesmo id
+export const getBlingMappedIntegrations = (
+  integrations: IIntegrationProductSupplier[],
+) =>
+  integrations.filter(
+    (integration, index) =>
+      !!integration.blingProductId &&
+      integration.productVariation.id !== undefined &&
+      integrations.findIndex(
+        ({ blingProductId }) => blingProductId === integration.blingProductId,
+      ) === index,
+  );
+
+const findMismatches = (
+  row: Omit<IBlingSyncRow, 'mismatches'>,
+): BlingSyncField[] => {
+  const { blingProduct, pricing, localStock } = row;
+  if (!blingProduct) {
+    return [];
+  }
+
+  const mismatches: BlingSyncField[] = [];
+  if (
+    pricing &&
+    Math.abs(blingProduct.price - pricing.salePrice) > PRICE_TOLERANCE
+  ) {
+    mismatches.push('price');
+  }
+  if (blingProduct.stock !== localStock) {
+    mismatches.push('stock');
+  }
+  return mismatches;
+};
+
+export const buildBlingSyncRow = (
+  integration: IIntegrationProductSupplier,
+  { pricing, stockSummaries, salePlatformId }: IBlingSyncLookups,
+  blingProduct?: IBlingProduct,
+  error?: string,
+): IBlingSyncRow => {
+  const productVariationId = integration.productVariation.id;
+  const row = {
+    blingProductId: integration.blingProductId ?? 0,
+    integration,
+    pricing: pricing.find(
+      (currentPricing) =>
+        currentPricing.productVariation.id === productVariationId &&
+        currentPricing.salePlatform.id === salePlatformId,
+    ),
+    // o estoque local são as unidades disponíveis da variação
+    localStock:
+      stockSummaries.find(
+        (summary) => summary.productVariationId === productVariationId,
+      )?.onHand ?? 0,
+    blingProduct,
+    error,
+  };
+
+  return { ...row, mismatches: findMismatches(row) };
+};
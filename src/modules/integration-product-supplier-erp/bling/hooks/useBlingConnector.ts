@@ -0,0 +1,24 @@
+import axios from 'axios';
+
+import { useRequests } from '../../../../shared/hooks/useRequests';
+import { createHttpBlingConnector } from '../connectors/httpBlingConnector';
+import { BlingRequest } from '../interfaces/BlingInterface';
+
+const BLING_MOCK_URL = import.meta.env.VITE_BLING_MOCK_URL;
+
+// com VITE_BLING_MOCK_URL as chamadas vão direto para um servidor mock local, sem passar pelo backend
+const requestBlingMock: BlingRequest = async <T>(
+  url: string,
+  method: string,
+  body?: unknown,
+) =>
+  (await axios.request<T>({ baseURL: BLING_MOCK_URL, url, method, data: body }))
+    .data;
+
+const useBlingConnector = () => {
+  const { request } = useRequests();
+
+  return createHttpBlingConnector(BLING_MOCK_URL ? requestBlingMock : request);
+};
+
+export default useBlingConnector;
@@ -0,0 +1,26 @@
+import { MethodType } from '../../../../shared/functions/connection/connectionApi';
+
+// produto do Bling já convertido para os nomes usados no sistema
+export interface IBlingProduct {
+  id: number;
+  code: string;
+  name: string;
+  price: number;
+  stock: number;
+}
+
+// operações usadas na sincronização; a implementação HTTP pode apontar para o backend ou para um mock local
+export interface IBlingConnector {
+  getProduct: (blingProductId: number) => Promise<IBlingProduct | undefined>;
+  updateProduct: (
+    blingProductId: number,
+    product: Partial<Pick<IBlingProduct, 'price'>>,
+  ) => Promise<void>;
+  updateStock: (blingProductId: number, quantity: number) => Promise<void>;
+}
+
+export type BlingRequest = <T>(
+  url: string,
+  method: MethodType,
+  body?: unknown,
+) => Promise<T | undefined>;
@@ -0,0 +1,365 @@
+import { CloudDownloadOutlined, CloudUploadOutlined } from '@ant-design/icons';
+import { Alert, Select, Switch, Tag } from 'antd';
+import { ColumnsType } from 'antd/es/table';
+import { useEffect, useMemo, useState } from 'react';
+import toast from 'react-hot-toast';
+
+/* eslint-disable react-hooks/exhaustive-deps */
+
+import Button from '../../../../components/button/Button';
+import Table from '../../../../components/table/Table';
+import { usePermission } from '../../../../shared/hooks/usePermission';
+import { IPlatform } from '../../../platform/interfaces/PlatformInterface';
+import usePricingRequests from '../../../pricing/hooks/usePricingRequests';
+import { IPricing } from '../../../pricing/interfaces/PricingInterface';
+import useSalePlatformCommissionRequests from '../../../pricing/sale-platform-commission/hooks/useSalePlatformCommissionRequests';
+import {
+  IStockSummary,
+  summarizeStockItems,
+} from '../../../stock-item/functions/stockSummary';
+import useStockItemRequests from '../../../stock-item/hooks/useStockItemRequests';
+import { StockItemStatusRoleEnum } from '../../../stock-item/stock-item-status/enums/stockItemStatusRole.enum';
+import useIntegrationProductSupplierErpRequests from '../../hooks/useIntegrationProductSupplierErpRequests';
+import { IIntegrationProductSupplier } from '../../interfaces/IntegrationProductSupplierErpInterface';
+import {
+  BLING_SYNC_FIELD_LABELS,
+  buildBlingSyncRow,
+  getBlingMappedIntegrations,
+  IBlingSyncRow,
+} from '../functions/blingSync';
+import useBlingConnector from '../hooks/useBlingConnector';
+
+const formatCurrency = (value?: number) =>
+  value?.toLocaleString('pt-BR', {
+    style: 'currency',
+    currency: 'BRL',
+  });
+
+export const BlingSync = () => {
+  const { canEdit } = usePermission('integrations');
+  const blingConnector = useBlingConnector();
+  const { getIntegrationProductSupplierErp } =
+    useIntegrationProductSupplierErpRequests();
+  const { getPricing, savePricing } = usePricingRequests();
+  const { getSalePlatformCommissions } = useSalePlatformCommissionRequests();
+  const { getStockItems, getStockItemStatusId } = useStockItemRequests();
+  const [integrations, setIntegrations] = useState<
+    IIntegrationProductSupplier[]
+  >([]);
+  const [pricing, setPricing] = useState<IPricing[]>([]);
+  const [stockSummaries, setStockSummaries] = useState<IStockSummary[]>([]);
+  const [salePlatforms, setSalePlatforms] = useState<IPlatform[]>([]);
+  const [salePlatformId, setSalePlatformId] = useState<number>();
+  const [rows, setRows] = useState<IBlingSyncRow[]>([]);
+  const [onlyMismatches, setOnlyMismatches] = useState(true);
+  const [isChecking, setIsChecking] = useState(false);
+  const [syncingId, setSyncingId] = useState<number>();
+
+  const lookups = { pricing, stockSummaries, salePlatformId };
+
+  const loadLocalData = async () => {
+    const [
+      integrationsResponse,
+      pricingResponse,
+      commissions,
+      stockItems,
+      availableStatusId,
+    ] = await Promise.all([
+      getIntegrationProductSupplierErp(),
+      getPricing(),
+      getSalePlatformCommissions(),
+      getStockItems(),
+      // sem o status disponível o estoque enviado ao Bling seria zero
+      getStockItemStatusId(StockItemStatusRoleEnum.AVAILABLE),
+    ]);
+
+    setIntegrations(getBlingMappedIntegrations(integrationsResponse ?? []));
+    setPricing(pricingResponse ?? []);
+    setStockSummaries(summarizeStockItems(stockItems, availableStatusId));
+    setSalePlatforms(commissions.map((commission) => commission.salePlatform));
+    setSalePlatformId(
+      (currentId) => currentId ?? commissions[0]?.salePlatform.id,
+    );
+  };
+
+  useEffect(() => {
+    loadLocalData().catch((error) => toast.error((error as Error).message));
+  }, []);
+
+  // dados locais recarregados ou outra plataforma de referência: recalcula sem buscar o Bling de novo
+  useEffect(() => {
+    setRows((currentRows) =>
+      currentRows.map((row) =>
+        buildBlingSyncRow(
+          integrations.find(
+            ({ blingProductId }) => blingProductId === row.blingProductId,
+          ) ?? row.integration,
+          lookups,
+          row.blingProduct,
+          row.error,
+        ),
+      ),
+    );
+  }, [integrations, pricing, stockSummaries, salePlatformId]);
+
+  const fetchBlingRow = async (integration: IIntegrationProductSupplier) => {
+    try {
+      const blingProduct = await blingConnector.getProduct(
+        integration.blingProductId ?? 0,
+      );
+      return buildBlingSyncRow(
+        integration,
+        lookups,
+        blingProduct,
+        blingProduct ? undefined : 'Produto não encontrado no Bling',
+      );
+    } catch (error) {
+      return buildBlingSyncRow(
+        integration,
+        lookups,
+        undefined,
+        (error as Error).message,
+      );
+    }
+  };
+
+  // em sequência para respeitar o limite de requisições por segundo da API do Bling
+  const handleCheck = async () => {
+    setIsChecking(true);
+    try {
+      const checkedRows: IBlingSyncRow[] = [];
+      for (const integration of integrations) {
+        checkedRows.push(await fetchBlingRow(integration));
+      }
+      setRows(checkedRows);
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const replaceRow = (row: IBlingSyncRow) =>
+    setRows((currentRows) =>
+      currentRows.map((currentRow) =>
+        currentRow.blingProductId === row.blingProductId ? row : currentRow,
+      ),
+    );
+
+  // o sistema é a origem do estoque (unidades rastreadas uma a uma), então ele só é enviado
+  const pushRow = async (row: IBlingSyncRow) => {
+    if (row.pricing) {
+      await blingConnector.updateProduct(row.blingProductId, {
+        price: row.pricing.salePrice,
+      });
+    }
+    await blingConnector.updateStock(row.blingProductId, row.localStock);
+    replaceRow(await fetchBlingRow(row.integration));
+  };
+
+  const pullRow = async (row: IBlingSyncRow) => {
+    const { blingProduct, integration, pricing: rowPricing } = row;
+    if (!blingProduct) {
+      return;
+    }
+
+    if (rowPricing && row.mismatches.includes('price')) {
+      // o erro é avisado uma vez só, pela sincronização
+      await savePricing(
+        {
+          productId: rowPricing.product.id,
+          productVariationId: integration.productVariation.id ?? 0,
+          salePlatformId: rowPricing.salePlatform.id,
+          costPrice: rowPricing.costPrice,
+          salePrice: blingProduct.price,
+        },
+        rowPricing.id.toString(),
+        { silent: true },
+      );
+    }
+    await loadLocalData();
+  };
+
+  const handleSync = async (
+    row: IBlingSyncRow,
+    sync: (row: IBlingSyncRow) => Promise<void>,
+  ) => {
+    setSyncingId(row.blingProductId);
+    try {
+      await sync(row);
+      toast.success('Produto sincronizado com o Bling!');
+    } catch (error) {
+      toast.error(
+        `Erro ao sincronizar com o Bling: ${(error as Error).message}`,
+      );
+    } finally {
+      setSyncingId(undefined);
+    }
+  };
+
+  const handlePushAll = async () => {
+    setIsChecking(true);
+    let failed = 0;
+    try {
+      for (const row of rows.filter(({ mismatches }) => mismatches.length)) {
+        try {
+          await pushRow(row);
+        } catch {
+          failed += 1;
+        }
+      }
+    } finally {
+      setIsChecking(false);
+    }
+
+    if (failed > 0) {
+      toast.error(`${failed} produto(s) não foram enviados ao Bling`);
+    } else {
+      toast.success('Divergências enviadas ao Bling!');
+    }
+  };
+
+  const columns: ColumnsType<IBlingSyncRow> = useMemo(
+    () => [
+      {
+        title: 'Produto',
+        dataIndex: 'product',
+        key: 'product',
+        render: (_, row) =>
+          `${row.integration.product.name} - ${row.integration.productVariation.name}`,
+      },
+      {
+        title: 'Id no Bling',
+        dataIndex: 'blingProductId',
+        key: 'blingProductId',
+      },
+      {
+        title: 'Código no Bling',
+        dataIndex: 'code',
+        key: 'code',
+        render: (_, row) => row.blingProduct?.code ?? '-',
+      },
+      {
+        title: 'Preço (sistema / Bling)',
+        dataIndex: 'price',
+        key: 'price',
+        render: (_, row) =>
+          `${formatCurrency(row.pricing?.salePrice) ?? '-'} / ${formatCurrency(row.blingProduct?.price) ?? '-'}`,
+      },
+      {
+        title: 'Estoque (sistema / Bling)',
+        dataIndex: 'stock',
+        key: 'stock',
+        render: (_, row) =>
+          `${row.localStock} / ${row.blingProduct?.stock ?? '-'}`,
+      },
+      {
+        title: 'Situação',
+        dataIndex: 'mismatches',
+        key: 'mismatches',
+        render: (_, row) => {
+          if (row.error) {
+            return <Tag color='orange'>{row.error}</Tag>;
+          }
+          if (row.mismatches.length === 0) {
+            return <Tag color='green'>Sincronizado</Tag>;
+          }
+          return row.mismatches.map((field) => (
+            <Tag key={field} color='red'>
+              {BLING_SYNC_FIELD_LABELS[field]}
+            </Tag>
+          ));
+        },
+      },
+      {
+        title: 'Ações',
+        dataIndex: '',
+        width: 240,
+        key: 'x',
+        render: (_, row) => (
+          <div style={{ width: '220px', display: 'flex' }}>
+            <Button
+              disabled={!canEdit || !row.blingProduct || isChecking}
+              loading={syncingId === row.blingProductId}
+              margin='0px 16px 0px 0px'
+              onClick={() => handleSync(row, pushRow)}
+              icon={<CloudUploadOutlined />}
+            >
+              Enviar
+            </Button>
+            <Button
+              disabled={
+                !canEdit ||
+                !row.blingProduct ||
+                isChecking ||
+                !row.mismatches.includes('price')
+              }
+              onClick={() => handleSync(row, pullRow)}
+              icon={<CloudDownloadOutlined />}
+            >
+              Trazer
+            </Button>
+          </div>
+        ),
+      },
+    ],
+    [canEdit, isChecking, syncingId, pricing, stockSummaries, salePlatformId],
+  );
+
+  const mismatchCount = rows.filter(
+    ({ mismatches, error }) => mismatches.length > 0 || error,
+  ).length;
+
+  return (
+    <div>
+      <div className='mb-4 flex items-center gap-4'>
+        <span>Preço de referência</span>
+        <Select
+          style={{ width: '240px' }}
+          value={salePlatformId}
+          onChange={setSalePlatformId}
+          options={salePlatforms.map((platform) => ({
+            value: platform.id,
+            label: platform.name,
+          }))}
+        />
+        <span>Somente divergências</span>
+        <Switch checked={onlyMismatches} onChange={setOnlyMismatches} />
+        <div className='ml-auto flex gap-2' style={{ width: '400px' }}>
+          <Button
+            title='Verificar no Bling'
+            backgroundColor='#001529'
+            color='white'
+            loading={isChecking}
+            disabled={integrations.length === 0}
+            onClick={handleCheck}
+          />
+          <Button
+            title='Enviar divergências'
+            disabled={!canEdit || isChecking || mismatchCount === 0}
+            onClick={handlePushAll}
+          />
+        </div>
+      </div>
+      <Alert
+        className='mb-4'
+        type={mismatchCount === 0 ? 'info' : 'warning'}
+        message={
+          rows.length === 0
+            ? `${integrations.length} variação(ões) vinculada(s) ao Bling. Clique em "Verificar no Bling" para comparar.`
+            : `${mismatchCount} de ${rows.length} produto(s) com divergência ou erro.`
+        }
+      />
+      <Table
+        columns={columns}
+        dataSource={
+          onlyMismatches
+            ? rows.filter(
+                ({ mismatches, error }) => mismatches.length > 0 || error,
+              )
+            : rows
+        }
+        rowKey='blingProductId'
+        exportFileName='sincronizacao-bling'
+      />
+    </div>
+  );
+};
@@ -3,12 +3,28 @@ import {
   URL_INTEGRATION_PRODUCT_SUPPLIER_ERP_ID,
 } from '../../../shared/constants/urls';
 import { MethodsEnum } from '../../../shared/enums/methods.enum';
+import { createResourceHook } from '../../../shared/hooks/createResourceHook';
 import { useRequests } from '../../../shared/hooks/useRequests';
 import { IIntegrationProductSupplierInsert } from '../interfaces/IntegrationProductSupplierErpInsertInterface';
 import { IIntegrationProductSupplier } from '../interfaces/IntegrationProductSupplierErpInterface';
 
+const useIntegrationProductSupplierErpResource = createResourceHook<
+  IIntegrationProductSupplier,
+  IIntegrationProductSupplierInsert
+>({
+  url: URL_INTEGRATION_PRODUCT_SUPPLIER_ERP,
+  urlId: URL_INTEGRATION_PRODUCT_SUPPLIER_ERP_ID,
+  messages: {
+    singular: 'a integração',
+    plural: 'as integrações',
+    deleted: 'Integração deletada com sucesso!',
+    referenced: 'A integração não pode ser deletada pois está em uso',
+  },
+});
+
 const useIntegrationProductSupplierErpRequests = () => {
   const { request } = useRequests();
+  const { remove } = useIntegrationProductSupplierErpResource();
 
   const getIntegrationProductSupplierErp = async () => {
     const response = await request<IIntegrationProductSupplier[]>(
@@ -67,10 +83,13 @@ const useIntegrationProductSupplierErpRequests = () => {
     }
   };
 
+  const deleteIntegrationProductSupplierErp = (id: number) => remove(id);
+
   return {
     getIntegrationProductSupplierErpById,
     getIntegrationProductSupplierErp,
     saveIntegrationProductSupplierErp,
+    deleteIntegrationProductSupplierErp,
   };
 };
 
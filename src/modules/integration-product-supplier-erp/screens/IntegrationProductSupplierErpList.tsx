@@ -3,21 +3,30 @@ import { ColumnsType } from 'antd/es/table';
 import { useEffect, useMemo, useState } from 'react';
 
 import Button from '../../../components/button/Button';
+import ConfirmDeleteModal from '../../../components/modal/ConfirmDeleteModal';
 import Modal from '../../../components/modal/Modal';
 import Table from '../../../components/table/Table';
+import { usePermission } from '../../../shared/hooks/usePermission';
 import useIntegrationProductSupplierErpRequests from '../hooks/useIntegrationProductSupplierErpRequests';
 import { IIntegrationProductSupplier } from '../interfaces/IntegrationProductSupplierErpInterface';
 
 import { IntegrationProductSupplierErpDetails } from './IntegrationProductSupplierErpDetails';
 
 export const IntegrationProductSupplierErpList = () => {
+  const { canEdit } = usePermission('integrations');
   const [integrationProductSupplierErp, setIntegrationProductSupplierErp] =
     useState<IIntegrationProductSupplier[]>([]);
   const [integrationProductSupplierId, setIntegrationProductSupplierErpId] =
     useState<number>();
 
-  const { getIntegrationProductSupplierErp } =
-    useIntegrationProductSupplierErpRequests();
+  const {
+    getIntegrationProductSupplierErp,
+    deleteIntegrationProductSupplierErp,
+  } = useIntegrationProductSupplierErpRequests();
+  const [
+    integrationProductSupplierErpToDelete,
+    setIntegrationProductSupplierErpToDelete,
+  ] = useState<IIntegrationProductSupplier>();
   const [isModalOpen, setIsModalOpen] = useState(false);
 
   const columns: ColumnsType<IIntegrationProductSupplier> = useMemo(
@@ -68,6 +77,7 @@ export const IntegrationProductSupplierErpList = () => {
         render: (_, integrationProductSupplierErp) => (
           <div style={{ width: '180px', display: 'flex' }}>
             <Button
+              disabled={!canEdit}
               margin='0px 16px 0px 0px'
               onClick={() =>
                 handleEditIntegrationProductSupplierErp(
@@ -78,14 +88,23 @@ export const IntegrationProductSupplierErpList = () => {
             >
               Editar
             </Button>
-            <Button danger onClick={() => {}} icon={<DeleteOutlined />}>
+            <Button
+              disabled={!canEdit}
+              danger
+              onClick={() =>
+                setIntegrationProductSupplierErpToDelete(
+                  integrationProductSupplierErp,
+                )
+              }
+              icon={<DeleteOutlined />}
+            >
               Deletar
             </Button>
           </div>
         ),
       },
     ],
-    [],
+    [canEdit],
   );
 
   useEffect(() => {
@@ -114,11 +133,21 @@ export const IntegrationProductSupplierErpList = () => {
     }
   };
 
+  const handleDeleteIntegrationProductSupplierErp = async () => {
+    if (integrationProductSupplierErpToDelete) {
+      await deleteIntegrationProductSupplierErp(
+        integrationProductSupplierErpToDelete.id,
+      );
+      loadIntegrationProductSupplierErp();
+    }
+  };
+
   return (
     <div>
       <div className='flex justify-between'>
         <div style={{ width: '240' }}>
           <Button
+            disabled={!canEdit}
             className='mb-2'
             title='Inserir'
             backgroundColor='#001529'
@@ -131,6 +160,7 @@ export const IntegrationProductSupplierErpList = () => {
         columns={columns}
         dataSource={integrationProductSupplierErp}
         rowKey='id'
+        exportFileName='integracoes-fornecedores'
       />
       <Modal
         isModalOpen={isModalOpen}
@@ -144,6 +174,12 @@ export const IntegrationProductSupplierErpList = () => {
           onSave={loadIntegrationProductSupplierErp}
         />
       </Modal>
+      <ConfirmDeleteModal
+        isModalOpen={!!integrationProductSupplierErpToDelete}
+        description={`Deseja deletar a integração do produto ${integrationProductSupplierErpToDelete?.product?.name}?`}
+        onConfirm={handleDeleteIntegrationProductSupplierErp}
+        onClose={() => setIntegrationProductSupplierErpToDelete(undefined)}
+      />
     </div>
   );
 };
@@ -2,13 +2,16 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { useContext, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import toast from 'react-hot-toast';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { z } from 'zod';
 
 import { Input } from '../../../components/input/Input';
 import { AuthContext } from '../../../contexts/authContext';
-import { ERROR_NETWORK_ERROR } from '../../../shared/constants/errorsStatus';
-import { signOut } from '../../../shared/functions/connection/auth';
+import {
+  ERROR_INVALID_LOGIN,
+  ERROR_NETWORK_ERROR,
+} from '../../../shared/constants/errorsStatus';
+import { REDIRECT_TO_PARAM } from '../../../shared/functions/connection/auth';
 
 const schema = z.object({
   email: z
@@ -22,6 +25,7 @@ type FormData = z.infer<typeof schema>;
 
 export const Login = () => {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const {
     register,
     handleSubmit,
@@ -31,25 +35,21 @@ export const Login = () => {
     mode: 'onChange',
   });
 
-  const { setUser, signIn } = useContext(AuthContext);
+  const { signIn, signOut } = useContext(AuthContext);
 
   useEffect(() => {
-    async function handleLogout() {
-      setUser(null);
-      await signOut();
-    }
-
-    handleLogout();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+    signOut();
+  }, [signOut]);
 
   function onSubmit(data: FormData) {
     signIn(data)
       .then(() => {
-        navigate('/');
+        navigate(searchParams.get(REDIRECT_TO_PARAM) ?? '/', { replace: true });
       })
       .catch((error: Error) => {
-        if (error.message === ERROR_NETWORK_ERROR) {
+        if (error.message === ERROR_INVALID_LOGIN) {
+          toast.error('Usuário ou senha inválidos');
+        } else if (error.message === ERROR_NETWORK_ERROR) {
           toast.error(
             'Não foi possível se conectar ao servidor, tente novamente mais tarde.',
           );
@@ -2,15 +2,33 @@ import toast from 'react-hot-toast';
 
 import { URL_PLATFORM_ID, URL_PLATFORMS } from '../../../shared/constants/urls';
 import { MethodsEnum } from '../../../shared/enums/methods.enum';
+import { getRequestErrorMessage } from '../../../shared/functions/connection/requestError';
+import { createResourceHook } from '../../../shared/hooks/createResourceHook';
+import { fetchQuery, invalidateQueries } from '../../../shared/hooks/useQuery';
 import { useRequests } from '../../../shared/hooks/useRequests';
 import { IPlatformInsert } from '../interfaces/PlatformInsertInterface';
 import { IPlatform } from '../interfaces/PlatformInterface';
 
+const usePlatformResource = createResourceHook<IPlatform, IPlatformInsert>({
+  url: URL_PLATFORMS,
+  urlId: URL_PLATFORM_ID,
+  messages: {
+    singular: 'a plataforma',
+    plural: 'as plataformas',
+    deleted: 'Plataforma deletada com sucesso!',
+    referenced:
+      'A plataforma não pode ser deletada pois está vinculada a vendas, comissões ou precificações',
+  },
+});
+
 const usePlatformRequests = () => {
   const { request } = useRequests();
+  const { remove } = usePlatformResource();
 
   const getPlatforms = async () => {
-    const response = await request<IPlatform[]>(URL_PLATFORMS, MethodsEnum.GET);
+    const response = await fetchQuery(URL_PLATFORMS, () =>
+      request<IPlatform[]>(URL_PLATFORMS, MethodsEnum.GET),
+    );
     if (response) {
       return response;
     }
@@ -25,7 +43,7 @@ const usePlatformRequests = () => {
       );
       return response;
     } catch (error) {
-      toast.error('Erro ao buscar a plataforma');
+      toast.error(getRequestErrorMessage(error, 'Erro ao buscar a plataforma'));
       throw new Error(`Erro ao buscar a plataforma: ${error}`);
     }
   };
@@ -38,13 +56,16 @@ const usePlatformRequests = () => {
 
     try {
       const response = await request<IPlatform>(url, method, platform);
+      invalidateQueries(URL_PLATFORMS);
       return response;
     } catch (error) {
       throw new Error(`Erro ao salvar a plataforma: ${error}`);
     }
   };
 
-  return { getPlatforms, getPlatformById, savePlatform };
+  const deletePlatform = (id: number) => remove(id);
+
+  return { getPlatforms, getPlatformById, savePlatform, deletePlatform };
 };
 
 export default usePlatformRequests;
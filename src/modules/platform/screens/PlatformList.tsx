@@ -3,15 +3,19 @@ import { ColumnsType } from 'antd/es/table';
 import { useEffect, useMemo, useState } from 'react';
 
 import Button from '../../../components/button/Button';
+import ConfirmDeleteModal from '../../../components/modal/ConfirmDeleteModal';
 import Modal from '../../../components/modal/Modal';
 import Table from '../../../components/table/Table';
+import { usePermission } from '../../../shared/hooks/usePermission';
 import usePlatformRequests from '../hooks/usePlatformRequests';
 import { IPlatform } from '../interfaces/PlatformInterface';
 
 import { PlatformDetails } from './PlatformDetails';
 
 export const PlatformList = () => {
-  const { getPlatforms } = usePlatformRequests();
+  const { canEdit } = usePermission('platforms');
+  const { getPlatforms, deletePlatform } = usePlatformRequests();
+  const [platformToDelete, setPlatformToDelete] = useState<IPlatform>();
   const [platforms, setPlatforms] = useState<IPlatform[]>([]);
   const [platformId, setPlatformId] = useState<number>();
   const [isModalOpen, setIsModalOpen] = useState(false);
@@ -44,20 +48,26 @@ export const PlatformList = () => {
         render: (_, platform) => (
           <div style={{ width: '180px', display: 'flex' }}>
             <Button
+              disabled={!canEdit}
               margin='0px 16px 0px 0px'
               onClick={() => handleEditPlatform(platform)}
               icon={<EditOutlined />}
             >
               Editar
             </Button>
-            <Button danger onClick={() => {}} icon={<DeleteOutlined />}>
+            <Button
+              disabled={!canEdit}
+              danger
+              onClick={() => setPlatformToDelete(platform)}
+              icon={<DeleteOutlined />}
+            >
               Deletar
             </Button>
           </div>
         ),
       },
     ],
-    [],
+    [canEdit],
   );
 
   const handleEditPlatform = (platform: IPlatform) => {
@@ -79,11 +89,19 @@ export const PlatformList = () => {
     }
   };
 
+  const handleDeletePlatform = async () => {
+    if (platformToDelete) {
+      await deletePlatform(platformToDelete.id);
+      loadPlatforms();
+    }
+  };
+
   return (
     <div>
       <div className='flex justify-between'>
         <div style={{ width: '240' }}>
           <Button
+            disabled={!canEdit}
             className='mb-2'
             title='Inserir'
             backgroundColor='#001529'
@@ -92,7 +110,12 @@ export const PlatformList = () => {
           />
         </div>
       </div>
-      <Table columns={columns} dataSource={platforms} rowKey='id' />
+      <Table
+        columns={columns}
+        dataSource={platforms}
+        rowKey='id'
+        exportFileName='plataformas'
+      />
       <Modal
         isModalOpen={isModalOpen}
         title='Plataforma'
@@ -105,6 +128,12 @@ export const PlatformList = () => {
           onSave={loadPlatforms}
         />
       </Modal>
+      <ConfirmDeleteModal
+        isModalOpen={!!platformToDelete}
+        description={`Deseja deletar a plataforma ${platformToDelete?.name}?`}
+        onConfirm={handleDeletePlatform}
+        onClose={() => setPlatformToDelete(undefined)}
+      />
     </div>
   );
 };
@@ -0,0 +1,205 @@
+import { ColumnsType } from 'antd/es/table';
+import { Key, useEffect, useMemo, useState } from 'react';
+import toast from 'react-hot-toast';
+
+import Button from '../../../components/button/Button';
+import Table from '../../../components/table/Table';
+import { URL_PRICING } from '../../../shared/constants/urls';
+import { invalidateQueries, useQuery } from '../../../shared/hooks/useQuery';
+import { calculateSalePrice } from '../functions/pricingCalculations';
+import usePricingRequests from '../hooks/usePricingRequests';
+import { IPricing } from '../interfaces/PricingInterface';
+import { ISalePlatformCommission } from '../sale-platform-commission/interfaces/SalePlatformCommissionInterface';
+
+interface IPricingRecalculationRow {
+  pricing: IPricing;
+  oldSalePrice: number;
+  newSalePrice: number;
+}
+
+interface PricingRecalculationProps {
+  salePlatformCommission: ISalePlatformCommission;
+  onCancel?: () => void;
+  onSave?: () => void;
+}
+
+const PricingRecalculation = ({
+  salePlatformCommission,
+  onCancel,
+  onSave,
+}: PricingRecalculationProps) => {
+  const { getPricing, savePricing } = usePricingRequests();
+  const { data: pricing } = useQuery(URL_PRICING, getPricing);
+  const [selectedPricingIds, setSelectedPricingIds] = useState<Key[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const rows: IPricingRecalculationRow[] = useMemo(
+    () =>
+      (pricing ?? [])
+        .filter(
+          (pricingItem) =>
+            pricingItem.salePlatform?.id ===
+            salePlatformCommission.salePlatform?.id,
+        )
+        .map((pricingItem) => ({
+          pricing: pricingItem,
+          oldSalePrice: Number(pricingItem.salePrice),
+          newSalePrice: calculateSalePrice(
+            Number(pricingItem.costPrice),
+            salePlatformCommission,
+          ),
+        })),
+    [pricing, salePlatformCommission],
+  );
+
+  useEffect(() => {
+    // por padrão seleciona apenas as precificações cujo preço mudou
+    setSelectedPricingIds(
+      rows
+        .filter((row) => row.oldSalePrice !== row.newSalePrice)
+        .map((row) => row.pricing.id),
+    );
+  }, [rows]);
+
+  const columns: ColumnsType<IPricingRecalculationRow> = useMemo(
+    () => [
+      {
+        title: 'Produto',
+        key: 'product',
+        render: (_, row) => <a>{row.pricing.product?.name}</a>,
+      },
+      {
+        title: 'Variação',
+        key: 'productVariation',
+        render: (_, row) => <a>{row.pricing.productVariation?.name}</a>,
+      },
+      {
+        title: 'Preço de custo',
+        key: 'costPrice',
+        render: (_, row) => <span>{row.pricing.costPrice}</span>,
+      },
+      {
+        title: 'Preço atual',
+        key: 'oldSalePrice',
+        render: (_, row) => <span>{row.oldSalePrice}</span>,
+      },
+      {
+        title: 'Novo preço',
+        key: 'newSalePrice',
+        render: (_, row) => {
+          const difference = row.newSalePrice - row.oldSalePrice;
+
+          return (
+            <span
+              className={
+                difference > 0
+                  ? 'text-green-600'
+                  : difference < 0
+                    ? 'text-red-500'
+                    : ''
+              }
+            >
+              {row.newSalePrice} ({difference > 0 ? '+' : ''}
+              {difference.toFixed(2)})
+            </span>
+          );
+        },
+      },
+    ],
+    [],
+  );
+
+  const handleSave = async () => {
+    const selectedRows = rows.filter((row) =>
+      selectedPricingIds.includes(row.pricing.id),
+    );
+    const failedRows: IPricingRecalculationRow[] = [];
+
+    setIsSaving(true);
+    try {
+      // cada linha é salva de forma independente; uma falha não interrompe as demais
+      for (const row of selectedRows) {
+        try {
+          await savePricing(
+            {
+              productId: row.pricing.product.id,
+              productVariationId: row.pricing.productVariation.id as number,
+              salePlatformId: row.pricing.salePlatform.id,
+              costPrice: Number(row.pricing.costPrice),
+              salePrice: row.newSalePrice,
+            },
+            row.pricing.id.toString(),
+            { silent: true },
+          );
+        } catch {
+          failedRows.push(row);
+        }
+      }
+
+      const savedCount = selectedRows.length - failedRows.length;
+      if (savedCount) {
+        toast.success(`${savedCount} precificações atualizadas!`);
+        onSave?.();
+      }
+
+      if (!failedRows.length) {
+        onCancel?.();
+        return;
+      }
+
+      toast.error(
+        `Não foi possível atualizar: ${failedRows
+          .map(
+            (row) =>
+              `${row.pricing.product?.name} - ${row.pricing.productVariation?.name}`,
+          )
+          .join(', ')}`,
+      );
+      // recarrega para mostrar o que já foi salvo e manter selecionadas só as pendentes
+      invalidateQueries(URL_PRICING);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div>
+      <p className='mb-2'>
+        Precificações da plataforma {salePlatformCommission.salePlatform?.name}{' '}
+        recalculadas com a comissão atual. Selecione as que devem ser salvas.
+      </p>
+      <Table
+        columns={columns}
+        dataSource={rows}
+        rowKey={(row) => row.pricing.id}
+        pagination={false}
+        rowSelection={{
+          selectedRowKeys: selectedPricingIds,
+          onChange: setSelectedPricingIds,
+        }}
+      />
+      <div className='w-96 flex flex-row float-end mt-4'>
+        <button
+          className='w-full ml-2 rounded-md border-2 border-solid '
+          type='button'
+          style={{ color: '#001529' }}
+          color='white'
+          onClick={onCancel}
+        >
+          Cancelar
+        </button>
+        <Button
+          className='ml-2'
+          title='Salvar selecionados'
+          backgroundColor='#001529'
+          color='white'
+          loading={isSaving}
+          disabled={!selectedPricingIds.length}
+          onClick={handleSave}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default PricingRecalculation;
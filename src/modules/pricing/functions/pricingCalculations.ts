@@ -0,0 +1,47 @@
+import { ISalePlatformCommission } from '../sale-platform-commission/interfaces/SalePlatformCommissionInterface';
+
+// os valores podem chegar como string (decimal) do backend
+const getCommissionValues = (
+  salePlatformCommission: ISalePlatformCommission,
+) => ({
+  additionalProfit: Number(salePlatformCommission.additionalProfit || 0),
+  costPerItemSold: Number(salePlatformCommission.costPerItemSold || 0),
+  defaultProfitPercentage: Number(
+    salePlatformCommission.defaultProfitPercentage || 0,
+  ),
+  commissionPercentage: Number(
+    salePlatformCommission.commissionPercentage || 0,
+  ),
+});
+
+export const calculateSalePrice = (
+  costPrice: number,
+  salePlatformCommission: ISalePlatformCommission,
+) => {
+  const {
+    additionalProfit,
+    costPerItemSold,
+    defaultProfitPercentage,
+    commissionPercentage,
+  } = getCommissionValues(salePlatformCommission);
+
+  const costs = costPrice + additionalProfit + costPerItemSold;
+  const profitPercentage =
+    (100 - (defaultProfitPercentage + commissionPercentage)) / 100;
+
+  return Number((costs / profitPercentage).toFixed(2));
+};
+
+// valor retido pela plataforma na venda de um item
+export const calculatePlatformCommission = (
+  salePrice: number,
+  salePlatformCommission: ISalePlatformCommission,
+) => {
+  const { costPerItemSold, commissionPercentage } = getCommissionValues(
+    salePlatformCommission,
+  );
+
+  return Number(
+    ((salePrice * commissionPercentage) / 100 + costPerItemSold).toFixed(2),
+  );
+};
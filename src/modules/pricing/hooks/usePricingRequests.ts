@@ -2,19 +2,37 @@ import toast from 'react-hot-toast';
 
 import { URL_PRICING, URL_PRICING_ID } from '../../../shared/constants/urls';
 import { MethodsEnum } from '../../../shared/enums/methods.enum';
+import { getRequestErrorMessage } from '../../../shared/functions/connection/requestError';
+import { createResourceHook } from '../../../shared/hooks/createResourceHook';
+import { invalidateQueries } from '../../../shared/hooks/useQuery';
 import { useRequests } from '../../../shared/hooks/useRequests';
+import { IRequestOptions } from '../../../shared/interfaces/RequestOptionsInterface';
 import { IPricingInsert } from '../interfaces/PricingInsertInterface';
 import { IPricing } from '../interfaces/PricingInterface';
 
+const usePricingResource = createResourceHook<IPricing, IPricingInsert>({
+  url: URL_PRICING,
+  urlId: URL_PRICING_ID,
+  messages: {
+    singular: 'a precificação',
+    plural: 'as precificações',
+    deleted: 'Precificação deletada com sucesso!',
+    referenced: 'A precificação não pode ser deletada pois está em uso',
+  },
+});
+
 const usePricingRequests = () => {
   const { request } = useRequests();
+  const { remove } = usePricingResource();
 
   const getPricing = async () => {
     try {
       const response = await request<IPricing[]>(URL_PRICING, MethodsEnum.GET);
       return response;
     } catch (error) {
-      toast.error('Erro ao buscar as  precificações');
+      toast.error(
+        getRequestErrorMessage(error, 'Erro ao buscar as  precificações'),
+      );
       throw new Error(`Erro ao buscar as  precificações: ${error}`);
     }
   };
@@ -27,32 +45,39 @@ const usePricingRequests = () => {
       );
       return response;
     } catch (error) {
-      toast.error('Erro ao buscar a precificação');
+      toast.error(
+        getRequestErrorMessage(error, 'Erro ao buscar a precificação'),
+      );
       throw new Error(`Erro ao buscar a precificação: ${error}`);
     }
   };
 
+  // silent deixa o aviso de erro para quem salva várias precificações e lista as falhas no fim
   const savePricing = async (
     pricing: IPricingInsert,
     id?: string,
-  ): Promise<IPricing | Error | undefined> => {
+    { silent = false }: IRequestOptions = {},
+  ): Promise<IPricing | undefined> => {
     const url = id ? URL_PRICING_ID.replace('{pricingId}', id) : URL_PRICING;
     const method = id ? MethodsEnum.PATCH : MethodsEnum.POST;
 
     try {
       const response = await request<IPricing>(url, method, pricing);
+      invalidateQueries(URL_PRICING);
       return response;
     } catch (error) {
-      toast.error('Erro ao salvar a precificação');
+      if (!silent) {
+        toast.error(
+          getRequestErrorMessage(error, 'Erro ao salvar a precificação'),
+        );
+      }
       throw new Error(`Erro ao salvar a precificação: ${error}`);
     }
   };
 
-  return {
-    getPricingById,
-    getPricing,
-    savePricing,
-  };
+  const deletePricing = (id: number) => remove(id);
+
+  return { getPricingById, getPricing, savePricing, deletePricing };
 };
 
 export default usePricingRequests;
@@ -6,12 +6,29 @@ import {
   URL_SALE_PLATFORM_COMMISSIONS,
 } from '../../../../shared/constants/urls';
 import { MethodsEnum } from '../../../../shared/enums/methods.enum';
+import { getRequestErrorMessage } from '../../../../shared/functions/connection/requestError';
+import { createResourceHook } from '../../../../shared/hooks/createResourceHook';
 import { useRequests } from '../../../../shared/hooks/useRequests';
 import { ISalePlatformCommissionInsert } from '../interfaces/SalePlatformCommissionInsertInterface';
 import { ISalePlatformCommission } from '../interfaces/SalePlatformCommissionInterface';
 
+const useSalePlatformCommissionResource = createResourceHook<
+  ISalePlatformCommission,
+  ISalePlatformCommissionInsert
+>({
+  url: URL_SALE_PLATFORM_COMMISSIONS,
+  urlId: URL_SALE_PLATFORM_COMMISSION_ID,
+  messages: {
+    singular: 'a comissão',
+    plural: 'as comissões',
+    deleted: 'Comissão deletada com sucesso!',
+    referenced: 'A comissão não pode ser deletada pois está em uso',
+  },
+});
+
 const useSalePlatformCommissionRequests = () => {
   const { request } = useRequests();
+  const { remove } = useSalePlatformCommissionResource();
 
   const getSalePlatformCommissions = async () => {
     const response = await request<ISalePlatformCommission[]>(
@@ -37,7 +54,7 @@ const useSalePlatformCommissionRequests = () => {
 
       return response;
     } catch (error) {
-      toast.error('Erro ao buscar a comissão');
+      toast.error(getRequestErrorMessage(error, 'Erro ao buscar a comissão'));
       throw new Error(`Erro ao buscar a comissão: ${error}`);
     }
   };
@@ -54,7 +71,7 @@ const useSalePlatformCommissionRequests = () => {
 
       return response;
     } catch (error) {
-      toast.error('Erro ao buscar a comissão');
+      toast.error(getRequestErrorMessage(error, 'Erro ao buscar a comissão'));
       throw new Error(`Erro ao buscar a comissão: ${error}`);
     }
   };
@@ -83,11 +100,14 @@ const useSalePlatformCommissionRequests = () => {
     }
   };
 
+  const deleteSalePlatformCommission = (id: number) => remove(id);
+
   return {
     getSalePlatformCommissions,
     getSalePlatformCommissionById,
     getSalePlatformCommissionByPlatformId,
     saveSalePlatformCommission,
+    deleteSalePlatformCommission,
   };
 };
 
@@ -5,9 +5,11 @@ import toast from 'react-hot-toast';
 import { z } from 'zod';
 
 import { Input } from '../../../../components/input/Input';
+import Modal from '../../../../components/modal/Modal';
 import Select from '../../../../components/select/Select';
 import usePlatformRequests from '../../../platform/hooks/usePlatformRequests';
 import { IPlatform } from '../../../platform/interfaces/PlatformInterface';
+import PricingRecalculation from '../../components/PricingRecalculation';
 import useSalePlatformCommissionRequests from '../hooks/useSalePlatformCommissionRequests';
 import { ISalePlatformCommission } from '../interfaces/SalePlatformCommissionInterface';
 
@@ -57,6 +59,9 @@ export const SalePlatformCommissionDetails = ({
   const [salePlatformCommission, setSalePlatformCommission] =
     useState<ISalePlatformCommission>();
 
+  const [recalculationCommission, setRecalculationCommission] =
+    useState<ISalePlatformCommission>();
+
   const [salePlatforms, setSalePlatforms] = useState<IPlatform[]>([]);
   const { getPlatforms } = usePlatformRequests();
 
@@ -124,31 +129,47 @@ export const SalePlatformCommissionDetails = ({
     onCancel?.();
   };
 
+  const handleCloseRecalculation = () => {
+    setRecalculationCommission(undefined);
+    handleCancel();
+  };
+
   function onSubmit(data: FormData) {
     const salePlatformSelected = salePlatforms.find(
       (salePlatform) => salePlatform.id === parseInt(data.salePlatform),
     );
 
     if (salePlatformSelected) {
-      saveSalePlatformCommission(
-        {
-          salePlatformId: salePlatformSelected.id,
-          commissionPercentage: data.commissionPercentage,
+      const salePlatformCommissionData = {
+        salePlatformId: salePlatformSelected.id,
+        commissionPercentage: data.commissionPercentage,
 
-          costPerItemSold:
-            data.costPerItemSold > 0 ? data.costPerItemSold : undefined,
-          defaultProfitPercentage: data.defaultProfitPercentage,
-          additionalProfit:
-            data.additionalProfit > 0 ? data.additionalProfit : undefined,
-        },
+        costPerItemSold:
+          data.costPerItemSold > 0 ? data.costPerItemSold : undefined,
+        defaultProfitPercentage: data.defaultProfitPercentage,
+        additionalProfit:
+          data.additionalProfit > 0 ? data.additionalProfit : undefined,
+      };
+
+      saveSalePlatformCommission(
+        salePlatformCommissionData,
         salePlatformCommission?.id.toString(),
       )
         .then((response) => {
           if (response) {
             onSave?.();
-            handleCancel();
             toast.success('Comissão salva com sucesso!');
-            reset();
+            if (salePlatformCommission) {
+              // a comissão alterada deixa as precificações da plataforma desatualizadas
+              setRecalculationCommission({
+                ...salePlatformCommission,
+                ...salePlatformCommissionData,
+                salePlatform: salePlatformSelected,
+              });
+            } else {
+              handleCancel();
+              reset();
+            }
           } else {
             toast.error('Erro ao salvar a comissão');
           }
@@ -263,6 +284,19 @@ export const SalePlatformCommissionDetails = ({
           </div>
         </form>
       </div>
+      <Modal
+        isModalOpen={!!recalculationCommission}
+        title='Recalcular precificações'
+        onClose={() => setRecalculationCommission(undefined)}
+        onCancel={handleCloseRecalculation}
+      >
+        {recalculationCommission && (
+          <PricingRecalculation
+            salePlatformCommission={recalculationCommission}
+            onCancel={handleCloseRecalculation}
+          />
+        )}
+      </Modal>
     </div>
   );
 };
@@ -3,15 +3,21 @@ import { ColumnsType } from 'antd/es/table';
 import { useEffect, useMemo, useState } from 'react';
 
 import Button from '../../../../components/button/Button';
+import ConfirmDeleteModal from '../../../../components/modal/ConfirmDeleteModal';
 import Modal from '../../../../components/modal/Modal';
 import Table from '../../../../components/table/Table';
+import { usePermission } from '../../../../shared/hooks/usePermission';
 import useSalePlatformCommissionRequests from '../hooks/useSalePlatformCommissionRequests';
 import { ISalePlatformCommission } from '../interfaces/SalePlatformCommissionInterface';
 
 import { SalePlatformCommissionDetails } from './SalePlatformCommissionDetails';
 
 export const SalePlatformCommissionList = () => {
-  const { getSalePlatformCommissions } = useSalePlatformCommissionRequests();
+  const { canEdit } = usePermission('commissions');
+  const { getSalePlatformCommissions, deleteSalePlatformCommission } =
+    useSalePlatformCommissionRequests();
+  const [salePlatformCommissionToDelete, setSalePlatformCommissionToDelete] =
+    useState<ISalePlatformCommission>();
   const [salePlatformCommissions, setSalePlatformCommissions] = useState<
     ISalePlatformCommission[]
   >([]);
@@ -49,6 +55,7 @@ export const SalePlatformCommissionList = () => {
         render: (_, salePlatformCommission) => (
           <div style={{ width: '180px', display: 'flex' }}>
             <Button
+              disabled={!canEdit}
               margin='0px 16px 0px 0px'
               onClick={() =>
                 handleEditSalePlatformCommission(salePlatformCommission)
@@ -57,14 +64,21 @@ export const SalePlatformCommissionList = () => {
             >
               Editar
             </Button>
-            <Button danger onClick={() => {}} icon={<DeleteOutlined />}>
+            <Button
+              disabled={!canEdit}
+              danger
+              onClick={() =>
+                setSalePlatformCommissionToDelete(salePlatformCommission)
+              }
+              icon={<DeleteOutlined />}
+            >
               Deletar
             </Button>
           </div>
         ),
       },
     ],
-    [],
+    [canEdit],
   );
 
   const handleEditSalePlatformCommission = (
@@ -88,11 +102,19 @@ export const SalePlatformCommissionList = () => {
     }
   };
 
+  const handleDeleteSalePlatformCommission = async () => {
+    if (salePlatformCommissionToDelete) {
+      await deleteSalePlatformCommission(salePlatformCommissionToDelete.id);
+      loadSalePlatformCommissions();
+    }
+  };
+
   return (
     <div>
       <div className='flex justify-between'>
         <div style={{ width: '240' }}>
           <Button
+            disabled={!canEdit}
             className='mb-2'
             title='Inserir'
             backgroundColor='#001529'
@@ -105,6 +127,7 @@ export const SalePlatformCommissionList = () => {
         columns={columns}
         dataSource={salePlatformCommissions}
         rowKey='id'
+        exportFileName='comissoes-plataformas'
       />
       <Modal
         isModalOpen={isModalOpen}
@@ -118,6 +141,12 @@ export const SalePlatformCommissionList = () => {
           onSave={loadSalePlatformCommissions}
         />
       </Modal>
+      <ConfirmDeleteModal
+        isModalOpen={!!salePlatformCommissionToDelete}
+        description={`Deseja deletar a comissão da plataforma ${salePlatformCommissionToDelete?.salePlatform?.name}?`}
+        onConfirm={handleDeleteSalePlatformCommission}
+        onClose={() => setSalePlatformCommissionToDelete(undefined)}
+      />
     </div>
   );
 };
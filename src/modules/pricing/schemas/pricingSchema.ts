@@ -0,0 +1,32 @@
+import { z } from 'zod';
+
+export const pricingSchema = z.object({
+  product: z.string().min(1, 'Selecione um produto'),
+  productVariation: z
+    .string({
+      // eslint-disable-next-line camelcase
+      required_error: 'Selecione uma variação',
+      // eslint-disable-next-line camelcase
+      invalid_type_error: 'Selecione uma variação',
+    })
+    .min(1, 'Selecione uma variação'),
+  salePlatform: z.string().min(1, 'Selecione uma plataforma'),
+  costPrice: z.preprocess(
+    (value) => Number(value),
+    z
+      .number({ message: 'O campo preço de custo deve ser um número' })
+      .positive({
+        message: 'O campo preço de custo deve ser um número positivo',
+      }),
+  ),
+  salePrice: z.preprocess(
+    (value) => Number(value),
+    z
+      .number({ message: 'O campo preço de venda deve ser um número' })
+      .positive({
+        message: 'O campo preço de venda deve ser um número positivo',
+      }),
+  ),
+});
+
+export type PricingFormData = z.infer<typeof pricingSchema>;
@@ -1,84 +1,43 @@
-import { useCallback, useEffect, useMemo, useState } from 'react';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useEffect, useMemo } from 'react';
 import { useForm } from 'react-hook-form';
 import toast from 'react-hot-toast';
-import { z } from 'zod';
-
-import { zodResolver } from '@hookform/resolvers/zod';
 
 import { Input } from '../../../components/input/Input';
 import Select from '../../../components/select/Select';
+import {
+  URL_PRICING_ID,
+  URL_PRODUCT_VARIATIONS,
+  URL_PRODUCTS,
+  URL_SALE_PLATFORM_COMMISSION_BY_PLATFORM_ID,
+  URL_SALE_PLATFORM_COMMISSIONS,
+} from '../../../shared/constants/urls';
+import { fillUrlTemplate } from '../../../shared/functions/url/urlTemplate';
+import { useQuery } from '../../../shared/hooks/useQuery';
 import useProductRequests from '../../product/hooks/useProductRequests';
-import { IProduct } from '../../product/interfaces/ProductInterface';
 import useProductVariationRequests from '../../product/product-variation/hooks/useProductVariationRequests';
-import {
-    IProductVariation
-} from '../../product/product-variation/interfaces/ProductVariationInterface';
+import { calculateSalePrice } from '../functions/pricingCalculations';
 import usePricingRequests from '../hooks/usePricingRequests';
-import { IPricing } from '../interfaces/PricingInterface';
+import { IPricingInsert } from '../interfaces/PricingInsertInterface';
 import useSalePlatformCommissionRequests from '../sale-platform-commission/hooks/useSalePlatformCommissionRequests';
-import {
-    ISalePlatformCommission
-} from '../sale-platform-commission/interfaces/SalePlatformCommissionInterface';
-
-const schema = z.object({
-  product: z.string().min(1, 'Selecione um produto'),
-  productVariation: z
-    .string({
-      // eslint-disable-next-line camelcase
-      required_error: 'Selecione uma variação',
-      // eslint-disable-next-line camelcase
-      invalid_type_error: 'Selecione uma variação',
-    })
-    .min(1, 'Selecione uma variação'),
-  salePlatform: z.string().min(1, 'Selecione uma plataforma'),
-  costPrice: z.preprocess(
-    (value) => Number(value),
-    z
-      .number({ message: 'O campo preço de custo deve ser um número' })
-      .positive({
-        message: 'O campo preço de custo deve ser um número positivo',
-      }),
-  ),
-  salePrice: z.preprocess(
-    (value) => Number(value),
-    z
-      .number({ message: 'O campo preço de venda deve ser um número' })
-      .positive({
-        message: 'O campo preço de venda deve ser um número positivo',
-      }),
-  ),
-});
-
-type FormData = z.infer<typeof schema>;
+import { pricingSchema, PricingFormData } from '../schemas/pricingSchema';
 
 interface PricingDetailsProps {
   onCancel?: () => void;
   pricingId?: number;
   onSave?: () => void;
+  defaultValues?: Partial<IPricingInsert>;
 }
 
 export const PricingDetails = ({
   onCancel,
   pricingId,
   onSave,
+  defaultValues,
 }: PricingDetailsProps) => {
-  const [isLoading, setIsLoading] = useState(false);
   const { getPricingById, savePricing } = usePricingRequests();
-  const [pricing, setPricing] = useState<IPricing>();
-
-  const [products, setProducts] = useState<IProduct[]>([]);
   const { getProducts } = useProductRequests();
-
-  const [productVariations, setProductVariations] = useState<
-    IProductVariation[]
-  >([]);
   const { getProductVariations } = useProductVariationRequests();
-
-  const [salePlatformCommissions, setSalePlatformCommissions] = useState<
-    ISalePlatformCommission[]
-  >([]);
-  const [salePlatformCommission, setSalePlatformCommission] =
-    useState<ISalePlatformCommission>();
   const { getSalePlatformCommissions, getSalePlatformCommissionByPlatformId } =
     useSalePlatformCommissionRequests();
 
@@ -89,142 +48,70 @@ export const PricingDetails = ({
     setValue,
     formState: { errors },
     reset,
-  } = useForm<FormData>({
-    resolver: zodResolver(schema),
+  } = useForm<PricingFormData>({
+    resolver: zodResolver(pricingSchema),
     mode: 'onChange',
   });
 
-  const memoizedGetProducts = useCallback(getProducts, [getProducts]);
+  const { product, productVariation, salePlatform, costPrice } = watch();
+  const productId = watch('product');
+  const productVariationId = watch('productVariation');
+  const salePlatformId = parseInt(watch('salePlatform'));
 
-  const memoizedGetSalePlatformCommissionByPlatformId = useCallback(
-    getSalePlatformCommissionByPlatformId,
-    [getSalePlatformCommissionByPlatformId],
+  const { data: pricing, isLoading } = useQuery(
+    pricingId ? fillUrlTemplate(URL_PRICING_ID, { pricingId }) : undefined,
+    () => getPricingById(pricingId as number),
   );
 
-  const loadPricing = useCallback(async () => {
-    if (pricingId) {
-      await getPricingById(pricingId).then((data: IPricing | undefined) => {
-        if (data) {
-          setPricing(data);
-          setValue('product', data.product.id.toString());
-          setValue(
-            'productVariation',
-            data.productVariation.id?.toString() || '',
-          );
-          setValue('salePlatform', data?.salePlatform?.id?.toString());
-          setValue('costPrice', data.costPrice);
-          setValue('salePrice', data.salePrice);
-        }
-      });
-    }
-  }, [getPricingById, pricingId, setValue]);
-
-  // Segundo useEffect para carregar os produtos
-  useEffect(() => {
-    const loadProducts = async () => {
-      const productsData = await memoizedGetProducts();
-      setProducts(productsData);
-    };
+  const { data: products = [] } = useQuery(URL_PRODUCTS, getProducts);
 
-    if (products.length === 0) {
-      loadProducts();
-    }
-  }, [memoizedGetProducts, products.length]);
+  const { data: productVariations = [] } = useQuery(
+    productId
+      ? fillUrlTemplate(URL_PRODUCT_VARIATIONS, { productId })
+      : undefined,
+    () => getProductVariations(parseInt(productId)),
+  );
 
-  // Terceiro useEffect para carregar os dados de precificação
-  useEffect(() => {
-    if (pricingId && !pricing) {
-      const loadPricingData = async () => {
-        const pricingData: IPricing | undefined =
-          await getPricingById(pricingId);
+  const { data: salePlatformCommissions = [] } = useQuery(
+    URL_SALE_PLATFORM_COMMISSIONS,
+    getSalePlatformCommissions,
+  );
 
-        if (pricingData) {
-          setPricing(pricingData);
-          setValue('product', pricingData.product.id.toString());
-          setValue(
-            'productVariation',
-            pricingData.productVariation.id?.toString() || '',
-          );
-          setValue('salePlatform', pricingData?.salePlatform?.id?.toString());
-          setValue('costPrice', pricingData.costPrice);
-          setValue('salePrice', pricingData.salePrice);
-        }
-      };
+  const { data: salePlatformCommission } = useQuery(
+    salePlatformId
+      ? fillUrlTemplate(URL_SALE_PLATFORM_COMMISSION_BY_PLATFORM_ID, {
+          platformId: salePlatformId,
+        })
+      : undefined,
+    () => getSalePlatformCommissionByPlatformId(salePlatformId),
+  );
 
-      setIsLoading(true);
-      loadPricingData();
-      setIsLoading(false);
+  useEffect(() => {
+    if (pricing) {
+      setValue('product', pricing.product.id.toString());
+      setValue(
+        'productVariation',
+        pricing.productVariation.id?.toString() || '',
+      );
+      setValue('salePlatform', pricing.salePlatform?.id?.toString());
+      setValue('costPrice', pricing.costPrice);
+      setValue('salePrice', pricing.salePrice);
     }
-  }, [getPricingById, loadPricing, pricing, pricingId, setValue]);
-
-  const { product, productVariation, salePlatform, costPrice } = watch();
+  }, [pricing, setValue]);
 
   const isAllFieldsFilled =
     product && productVariation && salePlatform && costPrice;
 
-  const salePlatformId = parseInt(watch('salePlatform'));
-
-  useEffect(() => {
-    if (salePlatformCommissions.length === 0 && !salePlatformId) {
-      const loadSalePlatforms = async () => {
-        const salePlatformsData = await getSalePlatformCommissions();
-        setSalePlatformCommissions(salePlatformsData);
-      };
-
-      loadSalePlatforms();
-    }
-  }, [
-    getSalePlatformCommissions,
-    salePlatformCommissions.length,
-    salePlatformId,
-  ]);
-
-  useEffect(() => {
-    if (salePlatformId) {
-      const loadSalePlatformCommission = async () => {
-        if (salePlatformId) {
-          const data =
-            await memoizedGetSalePlatformCommissionByPlatformId(salePlatformId);
-          if (data) {
-            setSalePlatformCommission(data);
-          }
-        } else {
-          setSalePlatformCommission(undefined);
-        }
-      };
-
-      loadSalePlatformCommission();
-    }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [salePlatformId]);
-
   const calculatedSalePrice = useMemo(() => {
     if (!salePlatformCommission || !isAllFieldsFilled) return 0;
 
-    const additionalProfit = Number(
-      salePlatformCommission.additionalProfit || 0,
-    );
-    const costPerItemSold = Number(salePlatformCommission.costPerItemSold || 0);
-    const defaultProfitPercentage = Number(
-      salePlatformCommission.defaultProfitPercentage || 0,
-    );
-    const commissionPercentage = Number(
-      salePlatformCommission.commissionPercentage || 0,
-    );
-
-    const costs = costPrice + additionalProfit + costPerItemSold;
-    const profitPercentage =
-      (100 - (defaultProfitPercentage + commissionPercentage)) / 100;
-
-    return Number((costs / profitPercentage).toFixed(2));
+    return calculateSalePrice(costPrice, salePlatformCommission);
   }, [salePlatformCommission, isAllFieldsFilled, costPrice]);
 
   // Adicione um useEffect único para atualizar o preço de venda
   useEffect(() => {
     if (isAllFieldsFilled && salePlatformCommission) {
-      setIsLoading(true);
       setValue('salePrice', calculatedSalePrice);
-      setIsLoading(false);
     }
   }, [
     calculatedSalePrice,
@@ -233,23 +120,46 @@ export const PricingDetails = ({
     setValue,
   ]);
 
-  const productId = watch('product');
-  const productVariationId = watch('productVariation');
+  // preenche os valores sugeridos (ex.: precificação criada a partir de uma compra)
+  const {
+    productId: defaultProductId,
+    productVariationId: defaultProductVariationId,
+    costPrice: defaultCostPrice,
+  } = defaultValues ?? {};
 
-  // Then modify the useEffect for product variations like this:
   useEffect(() => {
-    const loadProductVariations = async () => {
-      if (productId && productId !== '') {
-        const response = await getProductVariations(parseInt(productId));
-        setProductVariations(response);
+    if (!pricingId && products.length > 0) {
+      if (defaultProductId) {
+        setValue('product', defaultProductId.toString());
+      }
+      if (defaultCostPrice) {
+        setValue('costPrice', defaultCostPrice);
       }
-    };
+    }
+  }, [
+    pricingId,
+    products.length,
+    defaultProductId,
+    defaultCostPrice,
+    setValue,
+  ]);
 
-    loadProductVariations();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [productId]); // Remove memoizedGetProductVariations from dependencies
+  useEffect(() => {
+    if (
+      !pricingId &&
+      defaultProductVariationId &&
+      productVariations.length > 0
+    ) {
+      setValue('productVariation', defaultProductVariationId.toString());
+    }
+  }, [
+    pricingId,
+    productVariations.length,
+    defaultProductVariationId,
+    setValue,
+  ]);
 
-  function onSubmit(data: FormData) {
+  function onSubmit(data: PricingFormData) {
     savePricing(
       {
         productId: parseInt(productId),
@@ -276,10 +186,6 @@ export const PricingDetails = ({
   }
 
   const handleCancel = () => {
-    setPricing(undefined);
-    setProducts([]);
-    setProductVariations([]);
-    setSalePlatformCommissions([]);
     reset();
     onCancel?.();
   };
@@ -3,15 +3,19 @@ import { ColumnsType } from 'antd/es/table';
 import { useEffect, useMemo, useState } from 'react';
 
 import Button from '../../../components/button/Button';
+import ConfirmDeleteModal from '../../../components/modal/ConfirmDeleteModal';
 import Modal from '../../../components/modal/Modal';
 import Table from '../../../components/table/Table';
+import { usePermission } from '../../../shared/hooks/usePermission';
 import usePricingRequests from '../hooks/usePricingRequests';
 import { IPricing } from '../interfaces/PricingInterface';
 
 import { PricingDetails } from './PricingDetails';
 
 export const PricingList = () => {
-  const { getPricing } = usePricingRequests();
+  const { canEdit } = usePermission('pricing');
+  const { getPricing, deletePricing } = usePricingRequests();
+  const [pricingToDelete, setPricingToDelete] = useState<IPricing>();
   const [pricing, setPricing] = useState<IPricing[]>([]);
   const [pricingId, setPricingId] = useState<number>();
   const [isModalOpen, setIsModalOpen] = useState(false);
@@ -64,20 +68,26 @@ export const PricingList = () => {
         render: (_, pricing) => (
           <div style={{ width: '180px', display: 'flex' }}>
             <Button
+              disabled={!canEdit}
               margin='0px 16px 0px 0px'
               onClick={() => handleEditPricing(pricing)}
               icon={<EditOutlined />}
             >
               Editar
             </Button>
-            <Button danger onClick={() => {}} icon={<DeleteOutlined />}>
+            <Button
+              disabled={!canEdit}
+              danger
+              onClick={() => setPricingToDelete(pricing)}
+              icon={<DeleteOutlined />}
+            >
               Deletar
             </Button>
           </div>
         ),
       },
     ],
-    [],
+    [canEdit],
   );
 
   const handleEditPricing = (pricing: IPricing) => {
@@ -99,11 +109,19 @@ export const PricingList = () => {
     }
   };
 
+  const handleDeletePricing = async () => {
+    if (pricingToDelete) {
+      await deletePricing(pricingToDelete.id);
+      loadPricing();
+    }
+  };
+
   return (
     <div>
       <div className='flex justify-between'>
         <div style={{ width: '240' }}>
           <Button
+            disabled={!canEdit}
             className='mb-2'
             title='Inserir'
             backgroundColor='#001529'
@@ -112,7 +130,12 @@ export const PricingList = () => {
           />
         </div>
       </div>
-      <Table columns={columns} dataSource={pricing} rowKey='id' />
+      <Table
+        columns={columns}
+        dataSource={pricing}
+        rowKey='id'
+        exportFileName='precificacao'
+      />
       <Modal
         isModalOpen={isModalOpen}
         title='Precificação'
@@ -125,6 +148,12 @@ export const PricingList = () => {
           onSave={loadPricing}
         />
       </Modal>
+      <ConfirmDeleteModal
+        isModalOpen={!!pricingToDelete}
+        description={`Deseja deletar a precificação de ${pricingToDelete?.product?.name} - ${pricingToDelete?.productVariation?.name}?`}
+        onConfirm={handleDeletePricing}
+        onClose={() => setPricingToDelete(undefined)}
+      />
     </div>
   );
 };
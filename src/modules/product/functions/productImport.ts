@@ -0,0 +1,203 @@
+import { ZodError } from 'zod';
+
+import { parseCsvNumber } from '../../../shared/functions/csv/csv';
+import { normalizeName } from '../../../shared/functions/text/normalizeName';
+import { ICategory } from '../../category/interfaces/CategoryInterface';
+import { IPlatform } from '../../platform/interfaces/PlatformInterface';
+import { pricingSchema } from '../../pricing/schemas/pricingSchema';
+import { productVariationSchema } from '../product-variation/schemas/productVariationSchema';
+import { productSchema } from '../schemas/productSchema';
+
+export type ProductImportField =
+  | 'product'
+  | 'description'
+  | 'category'
+  | 'productVariation'
+  | 'salePlatform'
+  | 'costPrice'
+  | 'salePrice';
+
+export interface IProductImportField {
+  field: ProductImportField;
+  label: string;
+  required: boolean;
+  // nomes de cabeçalho reconhecidos automaticamente no mapeamento
+  aliases: string[];
+}
+
+export const PRODUCT_IMPORT_FIELDS: IProductImportField[] = [
+  {
+    field: 'product',
+    label: 'Produto',
+    required: true,
+    aliases: ['produto', 'nome', 'nome do produto', 'product', 'name'],
+  },
+  {
+    field: 'description',
+    label: 'Descrição',
+    required: false,
+    aliases: ['descricao', 'description'],
+  },
+  {
+    field: 'category',
+    label: 'Categoria',
+    required: true,
+    aliases: ['categoria', 'category'],
+  },
+  {
+    field: 'productVariation',
+    label: 'Variação',
+    required: false,
+    aliases: ['variacao', 'variante', 'variation'],
+  },
+  {
+    field: 'salePlatform',
+    label: 'Plataforma',
+    required: false,
+    aliases: ['plataforma', 'canal', 'marketplace', 'platform'],
+  },
+  {
+    field: 'costPrice',
+    label: 'Preço de custo',
+    required: false,
+    aliases: ['preco de custo', 'custo', 'cost', 'cost price'],
+  },
+  {
+    field: 'salePrice',
+    label: 'Preço de venda',
+    required: false,
+    aliases: ['preco de venda', 'preco', 'venda', 'price', 'sale price'],
+  },
+];
+
+// índice da coluna do CSV usada para cada campo
+export type ProductImportMapping = Partial<Record<ProductImportField, number>>;
+
+export interface IProductImportRow {
+  line: number;
+  product: {
+    name: string;
+    description: string;
+    categoryId?: number;
+  };
+  productVariation?: { name: string };
+  pricing?: {
+    salePlatformId?: number;
+    costPrice: number;
+    salePrice: number;
+  };
+  errors: string[];
+}
+
+export interface IProductImportLookups {
+  categories: ICategory[];
+  salePlatforms: IPlatform[];
+}
+
+export const findByName = <T extends { name: string }>(
+  items: T[],
+  name: string,
+) => items.find((item) => normalizeName(item.name) === normalizeName(name));
+
+export const guessImportMapping = (headers: string[]): ProductImportMapping => {
+  const normalizedHeaders = headers.map(normalizeName);
+
+  return PRODUCT_IMPORT_FIELDS.reduce<ProductImportMapping>(
+    (mapping, { field, label, aliases }) => {
+      const index = normalizedHeaders.findIndex((header) =>
+        [normalizeName(label), ...aliases].includes(header),
+      );
+      return index >= 0 ? { ...mapping, [field]: index } : mapping;
+    },
+    {},
+  );
+};
+
+const getErrorMessages = (error: ZodError) =>
+  error.issues.map((issue) => issue.message);
+
+// valida cada linha com os mesmos schemas das telas de cadastro e resolve categoria e plataforma pelo nome
+export const validateImportRows = (
+  rows: string[][],
+  mapping: ProductImportMapping,
+  { categories, salePlatforms }: IProductImportLookups,
+): IProductImportRow[] =>
+  rows.map((cells, index) => {
+    const getCell = (field: ProductImportField) => {
+      const column = mapping[field];
+      return column === undefined ? '' : (cells[column] ?? '').trim();
+    };
+
+    const errors: string[] = [];
+    const name = getCell('product');
+    const description = getCell('description');
+    const categoryName = getCell('category');
+    const variationName = getCell('productVariation');
+    const platformName = getCell('salePlatform');
+    const costPrice = parseCsvNumber(getCell('costPrice'));
+    const salePrice = parseCsvNumber(getCell('salePrice'));
+
+    const productResult = productSchema.safeParse({
+      name,
+      description,
+      category: categoryName,
+    });
+    if (!productResult.success) {
+      errors.push(...getErrorMessages(productResult.error));
+    }
+
+    const category = categoryName
+      ? findByName(categories, categoryName)
+      : undefined;
+    if (categoryName && !category) {
+      errors.push(`Categoria "${categoryName}" não encontrada`);
+    }
+
+    const row: IProductImportRow = {
+      // +2: a linha 1 do arquivo é o cabeçalho
+      line: index + 2,
+      product: { name, description, categoryId: category?.id },
+      errors,
+    };
+
+    if (variationName) {
+      const variationResult = productVariationSchema.safeParse({
+        name: variationName,
+      });
+      if (!variationResult.success) {
+        errors.push(...getErrorMessages(variationResult.error));
+      }
+      row.productVariation = { name: variationName };
+    }
+
+    // a precificação só é criada quando alguma das colunas dela foi preenchida
+    if (platformName || costPrice !== undefined || salePrice !== undefined) {
+      const pricingResult = pricingSchema.safeParse({
+        product: name,
+        productVariation: variationName,
+        salePlatform: platformName,
+        costPrice,
+        salePrice,
+      });
+      if (!pricingResult.success) {
+        errors.push(...getErrorMessages(pricingResult.error));
+      }
+
+      const salePlatform = platformName
+        ? findByName(salePlatforms, platformName)
+        : undefined;
+      if (platformName && !salePlatform) {
+        errors.push(
+          `Plataforma "${platformName}" não encontrada ou sem comissão cadastrada`,
+        );
+      }
+
+      row.pricing = {
+        salePlatformId: salePlatform?.id,
+        costPrice: costPrice ?? 0,
+        salePrice: salePrice ?? 0,
+      };
+    }
+
+    return row;
+  });
@@ -2,15 +2,39 @@ import toast from 'react-hot-toast';
 
 import { URL_PRODUCT_ID, URL_PRODUCTS } from '../../../shared/constants/urls';
 import { MethodsEnum } from '../../../shared/enums/methods.enum';
+import { getRequestErrorMessage } from '../../../shared/functions/connection/requestError';
+import { appendQueryParams } from '../../../shared/functions/url/urlTemplate';
+import { createResourceHook } from '../../../shared/hooks/createResourceHook';
+import { fetchQuery, invalidateQueries } from '../../../shared/hooks/useQuery';
 import { useRequests } from '../../../shared/hooks/useRequests';
+import {
+  IPaginated,
+  IPaginationParams,
+} from '../../../shared/interfaces/PaginationInterface';
+import { IRequestOptions } from '../../../shared/interfaces/RequestOptionsInterface';
 import { IProductInsert } from '../interfaces/ProductInsertInterface';
 import { IProduct } from '../interfaces/ProductInterface';
 
+const useProductResource = createResourceHook<IProduct, IProductInsert>({
+  url: URL_PRODUCTS,
+  urlId: URL_PRODUCT_ID,
+  messages: {
+    singular: 'o produto',
+    plural: 'os produtos',
+    deleted: 'Produto deletado com sucesso!',
+    referenced:
+      'O produto não pode ser deletado pois está vinculado a variações, precificações, compras ou vendas',
+  },
+});
+
 const useProductRequests = () => {
   const { request } = useRequests();
+  const { remove } = useProductResource();
 
   const getProducts = async () => {
-    const response = await request<IProduct[]>(URL_PRODUCTS, MethodsEnum.GET);
+    const response = await fetchQuery(URL_PRODUCTS, () =>
+      request<IProduct[]>(URL_PRODUCTS, MethodsEnum.GET),
+    );
 
     if (response) {
       return response;
@@ -18,6 +42,19 @@ const useProductRequests = () => {
     return [];
   };
 
+  const getProductsPage = async (params: IPaginationParams) => {
+    try {
+      const response = await request<IPaginated<IProduct>>(
+        appendQueryParams(URL_PRODUCTS, { ...params }),
+        MethodsEnum.GET,
+      );
+      return response ?? { data: [], total: 0, ...params };
+    } catch (error) {
+      toast.error(getRequestErrorMessage(error, 'Erro ao buscar os produtos'));
+      throw new Error(`Erro ao buscar os produtos: ${error}`);
+    }
+  };
+
   const getProductById = async (id: number) => {
     const response = await request<IProduct>(
       URL_PRODUCT_ID.replace('{productId}', id.toString()),
@@ -29,21 +66,39 @@ const useProductRequests = () => {
     return {} as IProduct;
   };
 
-  const saveProduct = async (product: IProductInsert, id?: string) => {
+  // silent evita um toast por produto nas inclusões em lote (importação)
+  const saveProduct = async (
+    product: IProductInsert,
+    id?: string,
+    { silent = false }: IRequestOptions = {},
+  ) => {
     const url = id ? URL_PRODUCT_ID.replace('{productId}', id) : URL_PRODUCTS;
     const method = id ? MethodsEnum.PATCH : MethodsEnum.POST;
 
     try {
       const response = await request<IProduct>(url, method, product);
-      toast.success('Produto salvo com sucesso!');
+      invalidateQueries(URL_PRODUCTS);
+      if (!silent) {
+        toast.success('Produto salvo com sucesso!');
+      }
       return response;
     } catch (error) {
-      toast.error('Erro ao salvar o produto');
+      if (!silent) {
+        toast.error(getRequestErrorMessage(error, 'Erro ao salvar o produto'));
+      }
       throw new Error(`Erro ao salvar o produto: ${error}`);
     }
   };
 
-  return { getProducts, getProductById, saveProduct };
+  const deleteProduct = (id: number) => remove(id);
+
+  return {
+    getProducts,
+    getProductById,
+    saveProduct,
+    deleteProduct,
+    getProductsPage,
+  };
 };
 
 export default useProductRequests;
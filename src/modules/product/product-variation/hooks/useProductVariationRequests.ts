@@ -1,19 +1,44 @@
 import {
   URL_PRODUCT_VARIATION_ID,
   URL_PRODUCT_VARIATIONS,
+  URL_PRODUCTS,
 } from '../../../../shared/constants/urls';
 import { MethodsEnum } from '../../../../shared/enums/methods.enum';
+import { createResourceHook } from '../../../../shared/hooks/createResourceHook';
+import {
+  fetchQuery,
+  invalidateQueries,
+} from '../../../../shared/hooks/useQuery';
 import { useRequests } from '../../../../shared/hooks/useRequests';
 import { IProductVariationInsert } from '../interfaces/ProductVariationInsertInterface';
 import { IProductVariation } from '../interfaces/ProductVariationInterface';
 
+const useProductVariationResource = createResourceHook<
+  IProductVariation,
+  IProductVariationInsert
+>({
+  url: URL_PRODUCT_VARIATIONS,
+  urlId: URL_PRODUCT_VARIATION_ID,
+  messages: {
+    singular: 'a variação',
+    plural: 'as variações',
+    deleted: 'Variação deletada com sucesso!',
+    referenced:
+      'A variação não pode ser deletada pois está vinculada a precificações, compras, vendas ou itens em estoque',
+  },
+});
+
 const useProductVariationRequests = () => {
   const { request } = useRequests();
+  const { remove } = useProductVariationResource();
 
   const getProductVariations = async (productId: number) => {
-    const response = await request<IProductVariation[]>(
-      URL_PRODUCT_VARIATIONS.replace('{productId}', productId.toString()),
-      MethodsEnum.GET,
+    const url = URL_PRODUCT_VARIATIONS.replace(
+      '{productId}',
+      productId.toString(),
+    );
+    const response = await fetchQuery(url, () =>
+      request<IProductVariation[]>(url, MethodsEnum.GET),
     );
     if (response) {
       return response;
@@ -59,16 +84,23 @@ const useProductVariationRequests = () => {
         method,
         productVariation,
       );
+      invalidateQueries(URL_PRODUCTS);
       return response;
     } catch (error) {
       throw new Error(`Erro ao salvar a variável: ${error}`);
     }
   };
 
+  const deleteProductVariation = async (productId: number, id: number) => {
+    await remove(id, { productId });
+    invalidateQueries(URL_PRODUCTS);
+  };
+
   return {
     getProductVariations,
     getProductVariationById,
     saveProductVariation,
+    deleteProductVariation,
   };
 };
 
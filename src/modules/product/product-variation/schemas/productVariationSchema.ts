@@ -0,0 +1,7 @@
+import { z } from 'zod';
+
+export const productVariationSchema = z.object({
+  name: z.string().min(1, 'O campo nome é obrigatório'),
+});
+
+export type ProductVariationFormData = z.infer<typeof productVariationSchema>;
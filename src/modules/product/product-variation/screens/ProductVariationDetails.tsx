@@ -3,17 +3,15 @@ import { useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import toast from 'react-hot-toast';
 import { useParams } from 'react-router-dom';
-import { z } from 'zod';
 
 import { Input } from '../../../../components/input/Input';
+import { usePermission } from '../../../../shared/hooks/usePermission';
 import useProductVariationRequests from '../hooks/useProductVariationRequests';
 import { IProductVariation } from '../interfaces/ProductVariationInterface';
-
-const schema = z.object({
-  name: z.string().min(1, 'O campo nome é obrigatório'),
-});
-
-type FormData = z.infer<typeof schema>;
+import {
+  productVariationSchema,
+  ProductVariationFormData,
+} from '../schemas/productVariationSchema';
 
 interface ProductVariationDetailsProps {
   onCancel?: () => void;
@@ -26,6 +24,7 @@ export const ProductVariationDetails = ({
   productVariationId,
   onSave,
 }: ProductVariationDetailsProps) => {
+  const { canEdit } = usePermission('products');
   const { productId } = useParams();
   const { getProductVariationById, saveProductVariation } =
     useProductVariationRequests();
@@ -38,8 +37,8 @@ export const ProductVariationDetails = ({
     setValue,
     formState: { errors },
     reset,
-  } = useForm<FormData>({
-    resolver: zodResolver(schema),
+  } = useForm<ProductVariationFormData>({
+    resolver: zodResolver(productVariationSchema),
     mode: 'onChange',
   });
 
@@ -59,7 +58,7 @@ export const ProductVariationDetails = ({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [productVariationId]);
 
-  function onSubmit(data: FormData) {
+  function onSubmit(data: ProductVariationFormData) {
     if (productId) {
       saveProductVariation(
         {
@@ -116,6 +115,7 @@ export const ProductVariationDetails = ({
               type='submit'
               style={{ backgroundColor: '#001529' }}
               color='white'
+              disabled={!canEdit}
             >
               {productVariationId ? 'Editar' : 'Inserir'}
             </button>
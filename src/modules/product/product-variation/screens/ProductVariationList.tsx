@@ -4,20 +4,26 @@ import { useEffect, useMemo, useState } from 'react';
 import { useParams } from 'react-router-dom';
 
 import Button from '../../../../components/button/Button';
+import ConfirmDeleteModal from '../../../../components/modal/ConfirmDeleteModal';
 import Modal from '../../../../components/modal/Modal';
 import Table from '../../../../components/table/Table';
+import { usePermission } from '../../../../shared/hooks/usePermission';
 import useProductVariationRequests from '../hooks/useProductVariationRequests';
 import { IProductVariation } from '../interfaces/ProductVariationInterface';
 
 import { ProductVariationDetails } from './ProductVariationDetails';
 
 export const ProductVariationList = () => {
+  const { canEdit } = usePermission('products');
   const { productId } = useParams();
   const [productVariations, setProductVariations] = useState<
     IProductVariation[]
   >([]);
   const [productVariationId, setProductVariationId] = useState<number>();
-  const { getProductVariations } = useProductVariationRequests();
+  const { getProductVariations, deleteProductVariation } =
+    useProductVariationRequests();
+  const [productVariationToDelete, setProductVariationToDelete] =
+    useState<IProductVariation>();
   const [isModalOpen, setIsModalOpen] = useState(false);
 
   useEffect(() => {
@@ -71,27 +77,44 @@ export const ProductVariationList = () => {
         render: (_, productVariation) => (
           <div style={{ width: '180px', display: 'flex' }}>
             <Button
+              disabled={!canEdit}
               margin='0px 16px 0px 0px'
               onClick={() => handleEditProductVariation(productVariation)}
               icon={<EditOutlined />}
             >
               Editar
             </Button>
-            <Button danger onClick={() => {}} icon={<DeleteOutlined />}>
+            <Button
+              disabled={!canEdit}
+              danger
+              onClick={() => setProductVariationToDelete(productVariation)}
+              icon={<DeleteOutlined />}
+            >
               Deletar
             </Button>
           </div>
         ),
       },
     ],
-    [],
+    [canEdit],
   );
 
+  const handleDeleteProductVariation = async () => {
+    if (productVariationToDelete) {
+      await deleteProductVariation(
+        Number(productId),
+        productVariationToDelete.id as number,
+      );
+      loadProductVariations();
+    }
+  };
+
   return (
     <div>
       <div className='flex justify-between'>
         <div style={{ width: '240' }}>
           <Button
+            disabled={!canEdit}
             className='mb-2'
             title='Inserir'
             backgroundColor='#001529'
@@ -100,7 +123,12 @@ export const ProductVariationList = () => {
           />
         </div>
       </div>
-      <Table columns={columns} dataSource={productVariations} rowKey='id' />
+      <Table
+        columns={columns}
+        dataSource={productVariations}
+        rowKey='id'
+        exportFileName='variacoes-produto'
+      />
       <Modal
         isModalOpen={isModalOpen}
         title='Variação do produto'
@@ -113,6 +141,12 @@ export const ProductVariationList = () => {
           onSave={loadProductVariations}
         />
       </Modal>
+      <ConfirmDeleteModal
+        isModalOpen={!!productVariationToDelete}
+        description={`Deseja deletar a variação ${productVariationToDelete?.name}?`}
+        onConfirm={handleDeleteProductVariation}
+        onClose={() => setProductVariationToDelete(undefined)}
+      />
     </div>
   );
 };
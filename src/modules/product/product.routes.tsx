@@ -1,19 +1,17 @@
 import { RouteObject } from 'react-router-dom';
 
 import { ProductDetails } from './screens/ProductDetails';
+import { ProductImport } from './screens/ProductImport';
 import { ProductList } from './screens/ProductList';
 
 export enum ProductRoutesEnum {
   PRODUCTS = '/products',
   PRODUCT_INSERT = '/products/insert',
+  PRODUCT_IMPORT = '/products/import',
   PRODUCT_EDIT = '/products/:productId',
 }
 
 export const productRoutes: RouteObject[] = [
-  {
-    path: '/',
-    element: <ProductList />,
-  },
   {
     path: ProductRoutesEnum.PRODUCTS,
     element: <ProductList />,
@@ -22,6 +20,10 @@ export const productRoutes: RouteObject[] = [
     path: ProductRoutesEnum.PRODUCT_INSERT,
     element: <ProductDetails />,
   },
+  {
+    path: ProductRoutesEnum.PRODUCT_IMPORT,
+    element: <ProductImport />,
+  },
   {
     path: ProductRoutesEnum.PRODUCT_EDIT,
     element: <ProductDetails />,
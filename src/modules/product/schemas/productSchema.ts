@@ -0,0 +1,9 @@
+import { z } from 'zod';
+
+export const productSchema = z.object({
+  name: z.string().min(1, 'O campo nome é obrigatório'),
+  description: z.string(),
+  category: z.string().min(1, 'Selecione uma categoria'),
+});
+
+export type ProductFormData = z.infer<typeof productSchema>;
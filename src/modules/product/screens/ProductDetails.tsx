@@ -3,25 +3,19 @@ import { Divider } from 'antd';
 import { useCallback, useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { useNavigate, useParams } from 'react-router-dom';
-import { z } from 'zod';
 
 import { Input } from '../../../components/input/Input';
 import Select from '../../../components/select/Select';
+import { usePermission } from '../../../shared/hooks/usePermission';
 import useCategoryRequests from '../../category/hooks/useCategoryRequests';
 import { ICategory } from '../../category/interfaces/CategoryInterface';
 import useProductRequests from '../hooks/useProductRequests';
 import { IProduct } from '../interfaces/ProductInterface';
 import { ProductVariationList } from '../product-variation/screens/ProductVariationList';
-
-const schema = z.object({
-  name: z.string().min(1, 'O campo nome é obrigatório'),
-  description: z.string(),
-  category: z.string().min(1, 'Selecione uma categoria'),
-});
-
-type FormData = z.infer<typeof schema>;
+import { productSchema, ProductFormData } from '../schemas/productSchema';
 
 export const ProductDetails = () => {
+  const { canEdit } = usePermission('products');
   const { productId } = useParams();
   const [product, setProduct] = useState<IProduct>();
   const [categories, setCategories] = useState<ICategory[]>([]);
@@ -36,8 +30,8 @@ export const ProductDetails = () => {
     setValue,
     formState: { errors },
     reset,
-  } = useForm<FormData>({
-    resolver: zodResolver(schema),
+  } = useForm<ProductFormData>({
+    resolver: zodResolver(productSchema),
     mode: 'onChange',
     defaultValues: {
       category: '',
@@ -69,7 +63,7 @@ export const ProductDetails = () => {
     fetchData();
   }, [productId, memoizedGetCategories, memoizedGetProductById, setValue]);
 
-  function onSubmit(data: FormData) {
+  function onSubmit(data: ProductFormData) {
     const categorySelected = categories.find(
       (category) => category.id === parseInt(data.category),
     );
@@ -147,6 +141,7 @@ export const ProductDetails = () => {
               type='submit'
               style={{ backgroundColor: '#001529' }}
               color='white'
+              disabled={!canEdit}
             >
               {productId ? 'Editar' : 'Inserir'}
             </button>
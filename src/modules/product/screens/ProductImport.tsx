@@ -0,0 +1,457 @@
+import { Alert, Select, Steps, Tag } from 'antd';
+import { ColumnsType } from 'antd/es/table';
+import { ChangeEvent, useEffect, useMemo, useState } from 'react';
+import toast from 'react-hot-toast';
+import { useNavigate } from 'react-router-dom';
+
+/* eslint-disable react-hooks/exhaustive-deps */
+
+import Button from '../../../components/button/Button';
+import Table from '../../../components/table/Table';
+import { parseCsv } from '../../../shared/functions/csv/csv';
+import { normalizeName } from '../../../shared/functions/text/normalizeName';
+import useCategoryRequests from '../../category/hooks/useCategoryRequests';
+import usePricingRequests from '../../pricing/hooks/usePricingRequests';
+import useSalePlatformCommissionRequests from '../../pricing/sale-platform-commission/hooks/useSalePlatformCommissionRequests';
+import {
+  findByName,
+  guessImportMapping,
+  IProductImportLookups,
+  IProductImportRow,
+  PRODUCT_IMPORT_FIELDS,
+  ProductImportField,
+  ProductImportMapping,
+  validateImportRows,
+} from '../functions/productImport';
+import useProductRequests from '../hooks/useProductRequests';
+import { IProduct } from '../interfaces/ProductInterface';
+import useProductVariationRequests from '../product-variation/hooks/useProductVariationRequests';
+import { ProductRoutesEnum } from '../product.routes';
+
+enum ImportStepEnum {
+  FILE,
+  MAPPING,
+  PREVIEW,
+  RESULT,
+}
+
+interface IImportResult {
+  line: number;
+  product: string;
+  success: boolean;
+  message: string;
+}
+
+const getPricingKey = (
+  productId: number,
+  productVariationId: number,
+  salePlatformId: number,
+) => `${productId}-${productVariationId}-${salePlatformId}`;
+
+export const ProductImport = () => {
+  const navigate = useNavigate();
+  const { getCategories } = useCategoryRequests();
+  const { getSalePlatformCommissions } = useSalePlatformCommissionRequests();
+  const { getProducts, saveProduct } = useProductRequests();
+  const { getProductVariations, saveProductVariation } =
+    useProductVariationRequests();
+  const { getPricing, savePricing } = usePricingRequests();
+  const [step, setStep] = useState(ImportStepEnum.FILE);
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ProductImportMapping>({});
+  const [lookups, setLookups] = useState<IProductImportLookups>({
+    categories: [],
+    salePlatforms: [],
+  });
+  const [isImporting, setIsImporting] = useState(false);
+  const [results, setResults] = useState<IImportResult[]>([]);
+
+  useEffect(() => {
+    const loadLookups = async () => {
+      const [categories, commissions] = await Promise.all([
+        getCategories(),
+        getSalePlatformCommissions(),
+      ]);
+      // só dá para precificar nas plataformas que têm comissão cadastrada
+      setLookups({
+        categories,
+        salePlatforms: commissions.map((commission) => commission.salePlatform),
+      });
+    };
+
+    loadLookups();
+  }, []);
+
+  const importRows = useMemo(
+    () => validateImportRows(rows, mapping, lookups),
+    [rows, mapping, lookups],
+  );
+  const validRows = importRows.filter((row) => row.errors.length === 0);
+  const missingRequiredFields = PRODUCT_IMPORT_FIELDS.filter(
+    ({ field, required }) => required && mapping[field] === undefined,
+  );
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) {
+      return;
+    }
+
+    const [fileHeaders = [], ...fileRows] = parseCsv(await file.text());
+    if (fileRows.length === 0) {
+      toast.error('O arquivo não possui linhas para importar');
+      return;
+    }
+
+    setFileName(file.name);
+    setHeaders(fileHeaders);
+    setRows(fileRows);
+    setMapping(guessImportMapping(fileHeaders));
+    setResults([]);
+    setStep(ImportStepEnum.MAPPING);
+  };
+
+  const handleMappingChange = (field: ProductImportField, column?: number) => {
+    setMapping((currentMapping) => ({ ...currentMapping, [field]: column }));
+  };
+
+  // salva linha a linha reaproveitando produtos, variações e precificações que já existem pelo nome
+  const importRow = async (
+    row: IProductImportRow,
+    productsByName: Map<string, IProduct>,
+    pricingIdsByKey: Map<string, number>,
+  ) => {
+    const productKey = normalizeName(row.product.name);
+    let product = productsByName.get(productKey);
+    let created = false;
+
+    if (!product) {
+      product = await saveProduct(
+        {
+          name: row.product.name,
+          description: row.product.description,
+          categoryId: row.product.categoryId ?? 0,
+        },
+        undefined,
+        { silent: true },
+      );
+      if (!product) {
+        throw new Error('Produto não retornado pela API');
+      }
+      productsByName.set(productKey, product);
+      created = true;
+    }
+
+    if (!row.productVariation) {
+      return created ? 'Produto criado' : 'Produto já cadastrado';
+    }
+
+    const productId = product.id;
+    const variations = await getProductVariations(productId);
+    const variation =
+      findByName(variations, row.productVariation.name) ??
+      (await saveProductVariation(
+        { name: row.productVariation.name },
+        productId.toString(),
+      ));
+    const productVariationId = variation?.id;
+    if (!productVariationId) {
+      throw new Error('Variação não retornada pela API');
+    }
+
+    if (!row.pricing?.salePlatformId) {
+      return 'Produto e variação salvos';
+    }
+
+    const salePlatformId = row.pricing.salePlatformId;
+    const pricingKey = getPricingKey(
+      productId,
+      productVariationId,
+      salePlatformId,
+    );
+    const currentPricingId = pricingIdsByKey.get(pricingKey);
+    const savedPricing = await savePricing(
+      {
+        productId,
+        productVariationId,
+        salePlatformId,
+        costPrice: row.pricing.costPrice,
+        salePrice: row.pricing.salePrice,
+      },
+      currentPricingId?.toString(),
+      { silent: true },
+    );
+    // linhas seguintes da mesma precificação atualizam a que acabou de ser criada
+    if (savedPricing) {
+      pricingIdsByKey.set(pricingKey, savedPricing.id);
+    }
+
+    return currentPricingId ? 'Precificação atualizada' : 'Precificação criada';
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      // produtos e precificações são buscados uma vez só e atualizados a cada linha salva
+      const [products, pricing] = await Promise.all([
+        getProducts(),
+        getPricing(),
+      ]);
+      const productsByName = new Map(
+        products.map((product) => [normalizeName(product.name), product]),
+      );
+      const pricingIdsByKey = new Map(
+        (pricing ?? []).map((pricingItem) => [
+          getPricingKey(
+            pricingItem.product.id,
+            pricingItem.productVariation.id ?? 0,
+            pricingItem.salePlatform.id,
+          ),
+          pricingItem.id,
+        ]),
+      );
+      const importResults: IImportResult[] = [];
+
+      // em sequência para que linhas do mesmo produto não o criem duas vezes
+      for (const row of validRows) {
+        try {
+          const message = await importRow(row, productsByName, pricingIdsByKey);
+          importResults.push({
+            line: row.line,
+            product: row.product.name,
+            success: true,
+            message,
+          });
+        } catch (error) {
+          importResults.push({
+            line: row.line,
+            product: row.product.name,
+            success: false,
+            message: (error as Error).message,
+          });
+        }
+      }
+
+      setResults(importResults);
+      setStep(ImportStepEnum.RESULT);
+    } catch {
+      // as buscas já avisam o erro; a prévia continua aberta para tentar de novo
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const previewColumns: ColumnsType<IProductImportRow> = useMemo(
+    () => [
+      {
+        title: 'Linha',
+        dataIndex: 'line',
+        key: 'line',
+      },
+      {
+        title: 'Produto',
+        dataIndex: 'product',
+        key: 'product',
+        render: (_, row) => row.product.name,
+      },
+      {
+        title: 'Variação',
+        dataIndex: 'productVariation',
+        key: 'productVariation',
+        render: (_, row) => row.productVariation?.name,
+      },
+      {
+        title: 'Preço de custo',
+        dataIndex: 'costPrice',
+        key: 'costPrice',
+        render: (_, row) => row.pricing?.costPrice,
+      },
+      {
+        title: 'Preço de venda',
+        dataIndex: 'salePrice',
+        key: 'salePrice',
+        render: (_, row) => row.pricing?.salePrice,
+      },
+      {
+        title: 'Situação',
+        dataIndex: 'errors',
+        key: 'errors',
+        render: (_, row) =>
+          row.errors.length === 0 ? (
+            <Tag color='green'>OK</Tag>
+          ) : (
+            row.errors.map((error) => (
+              <Tag key={error} color='red'>
+                {error}
+              </Tag>
+            ))
+          ),
+      },
+    ],
+    [],
+  );
+
+  const resultColumns: ColumnsType<IImportResult> = useMemo(
+    () => [
+      {
+        title: 'Linha',
+        dataIndex: 'line',
+        key: 'line',
+      },
+      {
+        title: 'Produto',
+        dataIndex: 'product',
+        key: 'product',
+      },
+      {
+        title: 'Resultado',
+        dataIndex: 'message',
+        key: 'message',
+        render: (message, result) => (
+          <Tag color={result.success ? 'green' : 'red'}>{message}</Tag>
+        ),
+      },
+    ],
+    [],
+  );
+
+  const failedCount = results.filter((result) => !result.success).length;
+
+  return (
+    <div>
+      <Steps
+        className='mb-6'
+        current={step}
+        items={[
+          { title: 'Arquivo' },
+          { title: 'Colunas' },
+          { title: 'Conferência' },
+          { title: 'Resultado' },
+        ]}
+      />
+
+      {step === ImportStepEnum.FILE && (
+        <div>
+          <p className='mb-2'>
+            Selecione um arquivo CSV com uma linha de cabeçalho. Cada linha pode
+            conter produto, variação e precificação.
+          </p>
+          <input
+            type='file'
+            accept='.csv,text/csv'
+            onChange={handleFileChange}
+          />
+        </div>
+      )}
+
+      {step === ImportStepEnum.MAPPING && (
+        <div>
+          <p className='mb-4'>
+            {fileName}: {rows.length} linha(s). Indique a coluna do arquivo de
+            cada campo.
+          </p>
+          {PRODUCT_IMPORT_FIELDS.map(({ field, label, required }) => (
+            <div key={field} className='mb-2 flex items-center'>
+              <span style={{ width: '160px' }}>
+                {label}
+                {required && ' *'}
+              </span>
+              <Select
+                allowClear
+                style={{ width: '280px' }}
+                placeholder='Não importar'
+                value={mapping[field]}
+                onChange={(column?: number) =>
+                  handleMappingChange(field, column)
+                }
+                options={headers.map((header, index) => ({
+                  value: index,
+                  label: header || `Coluna ${index + 1}`,
+                }))}
+              />
+            </div>
+          ))}
+          {missingRequiredFields.length > 0 && (
+            <Alert
+              className='mb-2'
+              type='warning'
+              message={`Campos obrigatórios sem coluna: ${missingRequiredFields
+                .map(({ label }) => label)
+                .join(', ')}`}
+            />
+          )}
+          <div className='mt-4 ml-auto w-96 flex gap-2'>
+            <Button
+              title='Voltar'
+              onClick={() => setStep(ImportStepEnum.FILE)}
+            />
+            <Button
+              title='Conferir'
+              backgroundColor='#001529'
+              color='white'
+              disabled={missingRequiredFields.length > 0}
+              onClick={() => setStep(ImportStepEnum.PREVIEW)}
+            />
+          </div>
+        </div>
+      )}
+
+      {step === ImportStepEnum.PREVIEW && (
+        <div>
+          <Alert
+            className='mb-4'
+            type={
+              validRows.length === importRows.length ? 'success' : 'warning'
+            }
+            message={`${validRows.length} de ${importRows.length} linha(s) válida(s). Linhas com erro não serão importadas.`}
+          />
+          <Table
+            columns={previewColumns}
+            dataSource={importRows}
+            rowKey='line'
+          />
+          <div className='mt-4 ml-auto w-96 flex gap-2'>
+            <Button
+              title='Voltar'
+              disabled={isImporting}
+              onClick={() => setStep(ImportStepEnum.MAPPING)}
+            />
+            <Button
+              title={`Importar ${validRows.length} linha(s)`}
+              backgroundColor='#001529'
+              color='white'
+              loading={isImporting}
+              disabled={validRows.length === 0}
+              onClick={handleImport}
+            />
+          </div>
+        </div>
+      )}
+
+      {step === ImportStepEnum.RESULT && (
+        <div>
+          <Alert
+            className='mb-4'
+            type={failedCount === 0 ? 'success' : 'warning'}
+            message={`${results.length - failedCount} linha(s) importada(s), ${failedCount} com falha e ${importRows.length - validRows.length} ignorada(s) por erro de validação.`}
+          />
+          <Table columns={resultColumns} dataSource={results} rowKey='line' />
+          <div className='mt-4 ml-auto w-96 flex gap-2'>
+            <Button
+              title='Importar outro arquivo'
+              onClick={() => setStep(ImportStepEnum.FILE)}
+            />
+            <Button
+              title='Ver produtos'
+              backgroundColor='#001529'
+              color='white'
+              onClick={() => navigate(ProductRoutesEnum.PRODUCTS)}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,33 +1,40 @@
 import { DeleteOutlined, EditOutlined } from '@ant-design/icons';
 import { ColumnsType } from 'antd/es/table';
-import { useEffect, useMemo, useState } from 'react';
+import { useMemo, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 
 /* eslint-disable react-hooks/exhaustive-deps */
 
 import Button from '../../../components/button/Button';
+import ConfirmDeleteModal from '../../../components/modal/ConfirmDeleteModal';
 import Table from '../../../components/table/Table';
+import { URL_PRODUCTS } from '../../../shared/constants/urls';
+import { appendQueryParams } from '../../../shared/functions/url/urlTemplate';
+import { usePaginationParams } from '../../../shared/hooks/usePaginationParams';
+import { usePermission } from '../../../shared/hooks/usePermission';
+import { useQuery } from '../../../shared/hooks/useQuery';
 import CategoryColumn from '../components/CategoryColumn';
 import useProductRequests from '../hooks/useProductRequests';
 import { IProduct } from '../interfaces/ProductInterface';
 import { ProductRoutesEnum } from '../product.routes';
 
 export const ProductList = () => {
-  const { getProducts } = useProductRequests();
-  const [products, setProducts] = useState<IProduct[]>([]);
+  const { canEdit } = usePermission('products');
+  const { getProductsPage, deleteProduct } = useProductRequests();
+  const [productToDelete, setProductToDelete] = useState<IProduct>();
+  const { paginationParams, setPaginationParams } = usePaginationParams({
+    sort: 'name',
+    order: 'asc',
+  });
+  // a exclusão invalida a listagem, que recarrega a página atual sozinha
+  const { data: page } = useQuery(
+    appendQueryParams(URL_PRODUCTS, { ...paginationParams }),
+    () => getProductsPage(paginationParams),
+  );
+  const products = page?.data ?? [];
+  const total = page?.total ?? 0;
   const navigate = useNavigate();
 
-  useEffect(() => {
-    const loadProducts = async () => {
-      const response = await getProducts();
-      if (response) {
-        setProducts(response);
-      }
-    };
-
-    loadProducts();
-  }, []);
-
   const columns: ColumnsType<IProduct> = useMemo(
     () => [
       {
@@ -40,7 +47,7 @@ export const ProductList = () => {
         title: 'Nome',
         dataIndex: 'name',
         key: 'name',
-        sorter: (a, b) => a.name.localeCompare(b.name),
+        sorter: true,
         render: (text) => <a>{text}</a>,
       },
       {
@@ -57,6 +64,7 @@ export const ProductList = () => {
         render: (_, product) => (
           <div style={{ width: '180px', display: 'flex' }}>
             <Button
+              disabled={!canEdit}
               margin='0px 16px 0px 0px'
               onClick={() => {
                 navigate(
@@ -70,21 +78,33 @@ export const ProductList = () => {
             >
               Editar
             </Button>
-            <Button danger onClick={() => {}} icon={<DeleteOutlined />}>
+            <Button
+              disabled={!canEdit}
+              danger
+              onClick={() => setProductToDelete(product)}
+              icon={<DeleteOutlined />}
+            >
               Deletar
             </Button>
           </div>
         ),
       },
     ],
-    [],
+    [canEdit],
   );
 
+  const handleDeleteProduct = async () => {
+    if (productToDelete) {
+      await deleteProduct(productToDelete.id);
+    }
+  };
+
   return (
     <div>
       <div className='flex justify-between'>
-        <div style={{ width: '240' }}>
+        <div className='flex gap-2' style={{ width: '240px' }}>
           <Button
+            disabled={!canEdit}
             className='mb-2'
             title='Inserir'
             backgroundColor='#001529'
@@ -93,9 +113,41 @@ export const ProductList = () => {
               navigate(ProductRoutesEnum.PRODUCT_INSERT);
             }}
           />
+          <Button
+            disabled={!canEdit}
+            className='mb-2'
+            title='Importar CSV'
+            onClick={() => {
+              navigate(ProductRoutesEnum.PRODUCT_IMPORT);
+            }}
+          />
         </div>
       </div>
-      <Table columns={columns} dataSource={products} rowKey='id' />
+      <Table
+        columns={columns}
+        dataSource={products}
+        rowKey='id'
+        paginationParams={paginationParams}
+        total={total}
+        onPaginationChange={setPaginationParams}
+        exportFileName='produtos'
+        fetchExportRows={async () =>
+          (
+            await getProductsPage({
+              ...paginationParams,
+              page: 1,
+              pageSize: Math.max(total, 1),
+            })
+          ).data
+        }
+        searchPlaceholder='Buscar por nome...'
+      />
+      <ConfirmDeleteModal
+        isModalOpen={!!productToDelete}
+        description={`Deseja deletar o produto ${productToDelete?.name}?`}
+        onConfirm={handleDeleteProduct}
+        onClose={() => setProductToDelete(undefined)}
+      />
     </div>
   );
 };
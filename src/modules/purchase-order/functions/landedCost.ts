@@ -0,0 +1,53 @@
+import { IPurchaseOrder } from '../interfaces/PurchaseOrderInterface';
+import { IPurchaseOrderItem } from '../purchase-order-item/interfaces/PurchaseOrderItemInterface';
+
+export type LandedCostAllocationMethod = 'price' | 'quantity';
+
+interface ILandedCostItem {
+  id: number;
+  price: number;
+  quantity?: number;
+}
+
+// rateia o frete e o desconto da compra entre os itens e retorna o custo unitário efetivo de cada um
+export const allocateLandedCost = (
+  purchaseOrder: Pick<IPurchaseOrder, 'discount' | 'shippingCost'>,
+  items: ILandedCostItem[],
+  method: LandedCostAllocationMethod = 'price',
+) => {
+  const adjustment =
+    Number(purchaseOrder.shippingCost || 0) -
+    Number(purchaseOrder.discount || 0);
+
+  const weights = items.map((item) => {
+    const quantity = item.quantity || 1;
+    return method === 'price' ? Number(item.price) * quantity : quantity;
+  });
+  const totalWeight = weights.reduce((total, weight) => total + weight, 0);
+
+  return new Map(
+    items.map((item, index) => {
+      const quantity = item.quantity || 1;
+      const share = totalWeight > 0 ? weights[index] / totalWeight : 0;
+      const unitCost = Number(item.price) + (adjustment * share) / quantity;
+
+      return [item.id, Number(unitCost.toFixed(2))];
+    }),
+  );
+};
+
+// custo unitário efetivo de cada item de compra (por id), calculado compra a compra
+export const getLandedUnitCosts = (
+  purchaseOrders: Pick<IPurchaseOrder, 'id' | 'discount' | 'shippingCost'>[],
+  purchaseOrderItems: IPurchaseOrderItem[],
+) =>
+  new Map(
+    purchaseOrders.flatMap((purchaseOrder) => [
+      ...allocateLandedCost(
+        purchaseOrder,
+        purchaseOrderItems.filter(
+          ({ purchaseOrderId }) => purchaseOrderId === purchaseOrder.id,
+        ),
+      ),
+    ]),
+  );
@@ -5,12 +5,30 @@ import {
   URL_PURCHASE_ORDERS,
 } from '../../../shared/constants/urls';
 import { MethodsEnum } from '../../../shared/enums/methods.enum';
+import { getRequestErrorMessage } from '../../../shared/functions/connection/requestError';
+import { createResourceHook } from '../../../shared/hooks/createResourceHook';
 import { useRequests } from '../../../shared/hooks/useRequests';
+import { IPaginationParams } from '../../../shared/interfaces/PaginationInterface';
 import { IPurchaseOrderInsert } from '../interfaces/PurchaseOrderInsertInterface';
 import { IPurchaseOrder } from '../interfaces/PurchaseOrderInterface';
 
+const usePurchaseOrderResource = createResourceHook<
+  IPurchaseOrder,
+  IPurchaseOrderInsert
+>({
+  url: URL_PURCHASE_ORDERS,
+  urlId: URL_PURCHASE_ORDER_ID,
+  messages: {
+    singular: 'a compra',
+    plural: 'as compras',
+    deleted: 'Compra deletada com sucesso!',
+    referenced: 'A compra não pode ser deletada pois possui itens cadastrados',
+  },
+});
+
 const usePurchaseOrderRequests = () => {
   const { request } = useRequests();
+  const { listPage, remove } = usePurchaseOrderResource();
 
   const getPurchaseOrders = async () => {
     const response = await request<IPurchaseOrder[]>(
@@ -33,7 +51,7 @@ const usePurchaseOrderRequests = () => {
 
       return response;
     } catch (error) {
-      toast.error('Erro ao buscar a compra');
+      toast.error(getRequestErrorMessage(error, 'Erro ao buscar a compra'));
       throw new Error(`Erro ao buscar a compra: ${error}`);
     }
   };
@@ -59,7 +77,15 @@ const usePurchaseOrderRequests = () => {
     }
   };
 
-  return { getPurchaseOrders, getPurchaseOrderById, savePurchaseOrder };
+  const deletePurchaseOrder = (id: number) => remove(id);
+
+  return {
+    getPurchaseOrders,
+    getPurchaseOrderById,
+    savePurchaseOrder,
+    deletePurchaseOrder,
+    getPurchaseOrdersPage: (params: IPaginationParams) => listPage(params),
+  };
 };
 
 export default usePurchaseOrderRequests;
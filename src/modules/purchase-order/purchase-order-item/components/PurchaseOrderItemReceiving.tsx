@@ -0,0 +1,265 @@
+import { Alert, InputNumber, Tag } from 'antd';
+import { ColumnsType } from 'antd/es/table';
+import { format } from 'date-fns';
+import { useEffect, useMemo, useState } from 'react';
+import toast from 'react-hot-toast';
+
+import Button from '../../../../components/button/Button';
+import Table from '../../../../components/table/Table';
+import {
+  getReceivingSession,
+  IStockReceivingProgress,
+  IStockReceivingSession,
+  removeReceivingSession,
+  saveReceivingSession,
+} from '../../../stock-item/functions/receivingSession';
+import useStockItemRequests from '../../../stock-item/hooks/useStockItemRequests';
+import { StockItemReview } from '../../../stock-item/screens/StockItemReview';
+import {
+  countReceivedQuantities,
+  expandReceivedUnits,
+  getOrderedQuantity,
+  getOutstandingQuantity,
+} from '../functions/purchaseOrderItemReceiving';
+import { buildPurchaseOrderItemStatusUpdate } from '../functions/purchaseOrderItemStatus';
+import usePurchaseOrderItemRequests from '../hooks/usePurchaseOrderItemRequests';
+import { IPurchaseOrderItem } from '../interfaces/PurchaseOrderItemInterface';
+import { PurchaseOrderItemStatusRoleEnum } from '../purchase-order-item-status/enums/purchaseOrderItemStatusRole.enum';
+import usePurchaseOrderItemStatusRequests from '../purchase-order-item-status/hooks/usePurchaseOrderItemStatusRequests';
+
+interface PurchaseOrderItemReceivingProps {
+  purchaseOrderId: number;
+  purchaseOrderItems: IPurchaseOrderItem[];
+  receivedQuantities: Map<number, number>;
+  onCancel?: () => void;
+  onSave?: () => void;
+}
+
+// registra uma entrega: quantas unidades de cada item chegaram e, em seguida, o identificador de cada unidade
+export const PurchaseOrderItemReceiving = ({
+  purchaseOrderId,
+  purchaseOrderItems,
+  receivedQuantities,
+  onCancel,
+  onSave,
+}: PurchaseOrderItemReceivingProps) => {
+  const { savePurchaseOrderItem } = usePurchaseOrderItemRequests();
+  const { getStockItems } = useStockItemRequests();
+  const { getPurchaseOrderItemStatusId } = usePurchaseOrderItemStatusRequests();
+  // por padrão a entrega traz tudo o que falta receber
+  const [deliveryQuantities, setDeliveryQuantities] = useState<
+    Record<number, number>
+  >(() =>
+    Object.fromEntries(
+      purchaseOrderItems.map((purchaseOrderItem) => [
+        purchaseOrderItem.id,
+        getOutstandingQuantity(purchaseOrderItem, receivedQuantities),
+      ]),
+    ),
+  );
+  // sessão em andamento: fica salva no navegador até a última unidade ser lançada
+  const [session, setSession] = useState<IStockReceivingSession>();
+  const [pendingSession, setPendingSession] =
+    useState<IStockReceivingSession | null>(null);
+
+  useEffect(() => {
+    getReceivingSession(purchaseOrderId).then(setPendingSession);
+  }, [purchaseOrderId]);
+
+  const receivedUnits = expandReceivedUnits(
+    purchaseOrderItems,
+    deliveryQuantities,
+  );
+  const hasOutstandingItems = purchaseOrderItems.some(
+    (purchaseOrderItem) =>
+      getOutstandingQuantity(purchaseOrderItem, receivedQuantities) > 0,
+  );
+
+  const handleStart = () => {
+    const newSession: IStockReceivingSession = {
+      purchaseOrderId,
+      units: receivedUnits,
+      savedCount: 0,
+      stockItems: [],
+      updatedAt: new Date().toISOString(),
+    };
+    saveReceivingSession(newSession);
+    setSession(newSession);
+  };
+
+  const handleDiscardSession = async () => {
+    await removeReceivingSession(purchaseOrderId);
+    setPendingSession(null);
+  };
+
+  const handleProgress = (progress: IStockReceivingProgress) => {
+    if (!session) {
+      return;
+    }
+
+    if (progress.savedCount >= session.units.length) {
+      removeReceivingSession(purchaseOrderId);
+      return;
+    }
+    saveReceivingSession({
+      ...session,
+      ...progress,
+      updatedAt: new Date().toISOString(),
+    });
+  };
+
+  // itens com todas as unidades no estoque passam para o status de recebido
+  const handleStockSaved = async () => {
+    let receivedStatusId: number;
+    try {
+      receivedStatusId = await getPurchaseOrderItemStatusId(
+        PurchaseOrderItemStatusRoleEnum.RECEIVED,
+      );
+    } catch (error) {
+      toast.error((error as Error).message);
+      onSave?.();
+      return;
+    }
+
+    try {
+      const received = countReceivedQuantities(await getStockItems());
+      const completedItems = purchaseOrderItems.filter(
+        (purchaseOrderItem) =>
+          purchaseOrderItem.purchaseOrderItemStatus.id !== receivedStatusId &&
+          getOutstandingQuantity(purchaseOrderItem, received) === 0,
+      );
+
+      for (const purchaseOrderItem of completedItems) {
+        await savePurchaseOrderItem(
+          buildPurchaseOrderItemStatusUpdate(
+            purchaseOrderItem,
+            receivedStatusId,
+          ),
+          purchaseOrderId.toString(),
+          purchaseOrderItem.id.toString(),
+        );
+      }
+    } catch {
+      toast.error('Erro ao atualizar o status dos itens recebidos');
+    }
+    onSave?.();
+  };
+
+  const columns: ColumnsType<IPurchaseOrderItem> = useMemo(
+    () => [
+      {
+        title: 'Produto',
+        dataIndex: 'product',
+        key: 'product',
+        render: (_, purchaseOrderItem) =>
+          `${purchaseOrderItem.product.name} - ${purchaseOrderItem.productVariation.name}`,
+      },
+      {
+        title: 'Em estoque',
+        dataIndex: 'received',
+        key: 'received',
+        render: (_, purchaseOrderItem) =>
+          getOutstandingQuantity(purchaseOrderItem, receivedQuantities) ===
+          0 ? (
+            <Tag color='green'>Recebido</Tag>
+          ) : (
+            `${receivedQuantities.get(purchaseOrderItem.id) ?? 0} de ${getOrderedQuantity(purchaseOrderItem)}`
+          ),
+      },
+      {
+        title: 'A receber',
+        dataIndex: 'outstanding',
+        key: 'outstanding',
+        render: (_, purchaseOrderItem) =>
+          getOutstandingQuantity(purchaseOrderItem, receivedQuantities),
+      },
+      {
+        title: 'Chegou nesta entrega',
+        dataIndex: 'delivery',
+        key: 'delivery',
+        render: (_, purchaseOrderItem) => (
+          <InputNumber
+            min={0}
+            max={getOutstandingQuantity(purchaseOrderItem, receivedQuantities)}
+            precision={0}
+            disabled={
+              getOutstandingQuantity(purchaseOrderItem, receivedQuantities) ===
+              0
+            }
+            value={deliveryQuantities[purchaseOrderItem.id]}
+            onChange={(value) =>
+              setDeliveryQuantities((currentQuantities) => ({
+                ...currentQuantities,
+                [purchaseOrderItem.id]: value ?? 0,
+              }))
+            }
+          />
+        ),
+      },
+    ],
+    [receivedQuantities, deliveryQuantities],
+  );
+
+  if (session) {
+    return (
+      <StockItemReview
+        purchaseOrderItems={session.units}
+        initialProgress={session}
+        onProgress={handleProgress}
+        onCancel={onCancel}
+        onSave={handleStockSaved}
+      />
+    );
+  }
+
+  return (
+    <div>
+      {pendingSession && (
+        <Alert
+          className='mb-4'
+          type='info'
+          message={`Há um recebimento em andamento desde ${format(
+            new Date(pendingSession.updatedAt),
+            'dd/MM/yyyy HH:mm',
+          )}: ${pendingSession.savedCount + pendingSession.stockItems.length} de ${pendingSession.units.length} unidade(s) lida(s).`}
+          action={
+            <div className='flex gap-2'>
+              <Button
+                title='Retomar'
+                backgroundColor='#001529'
+                color='white'
+                onClick={() => setSession(pendingSession)}
+              />
+              <Button title='Descartar' onClick={handleDiscardSession} />
+            </div>
+          }
+        />
+      )}
+      <Table columns={columns} dataSource={purchaseOrderItems} rowKey='id' />
+      {!hasOutstandingItems && (
+        <p className='mb-4'>Todos os itens desta compra já foram recebidos.</p>
+      )}
+      <div className='w-96 flex flex-row float-end'>
+        <button
+          className='w-full ml-2 rounded-md border-2 border-solid '
+          type='button'
+          style={{ color: '#001529' }}
+          color='white'
+          onClick={onCancel}
+        >
+          Cancelar
+        </button>
+        <button
+          className='w-full ml-2 rounded-md text-white disabled:opacity-50'
+          type='button'
+          style={{ backgroundColor: '#001529' }}
+          color='white'
+          disabled={receivedUnits.length === 0}
+          onClick={handleStart}
+        >
+          Continuar ({receivedUnits.length} unidade(s))
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,39 @@
+import { IStockItem } from '../../../stock-item/interfaces/StockItemInterface';
+import { IPurchaseOrderItem } from '../interfaces/PurchaseOrderItemInterface';
+
+// itens criados antes da quantidade existir valem uma unidade
+export const getOrderedQuantity = (purchaseOrderItem: IPurchaseOrderItem) =>
+  purchaseOrderItem.quantity ?? 1;
+
+// unidades já lançadas no estoque por item de compra (cada item de estoque é uma unidade recebida)
+export const countReceivedQuantities = (stockItems: IStockItem[]) =>
+  stockItems.reduce(
+    (receivedQuantities, { purchaseOrderItemId }) =>
+      receivedQuantities.set(
+        purchaseOrderItemId,
+        (receivedQuantities.get(purchaseOrderItemId) ?? 0) + 1,
+      ),
+    new Map<number, number>(),
+  );
+
+export const getOutstandingQuantity = (
+  purchaseOrderItem: IPurchaseOrderItem,
+  receivedQuantities: Map<number, number>,
+) =>
+  Math.max(
+    getOrderedQuantity(purchaseOrderItem) -
+      (receivedQuantities.get(purchaseOrderItem.id) ?? 0),
+    0,
+  );
+
+// repete o item de compra uma vez por unidade recebida na entrega, na ordem dos itens
+export const expandReceivedUnits = (
+  purchaseOrderItems: IPurchaseOrderItem[],
+  deliveryQuantities: Record<number, number>,
+) =>
+  purchaseOrderItems.flatMap((purchaseOrderItem) =>
+    Array.from(
+      { length: deliveryQuantities[purchaseOrderItem.id] ?? 0 },
+      () => purchaseOrderItem,
+    ),
+  );
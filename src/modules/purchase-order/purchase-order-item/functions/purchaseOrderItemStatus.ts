@@ -0,0 +1,18 @@
+import { IPurchaseOrderItemInsert } from '../interfaces/PurchaseOrderItemInsertInterface';
+import { IPurchaseOrderItem } from '../interfaces/PurchaseOrderItemInterface';
+
+import { getOrderedQuantity } from './purchaseOrderItemReceiving';
+
+// o PATCH do item espera o registro completo, então só o status muda
+export const buildPurchaseOrderItemStatusUpdate = (
+  purchaseOrderItem: IPurchaseOrderItem,
+  purchaseOrderItemStatusId: number,
+): IPurchaseOrderItemInsert => ({
+  productId: purchaseOrderItem.product.id,
+  productVariationId: purchaseOrderItem.productVariation.id ?? 0,
+  quantity: getOrderedQuantity(purchaseOrderItem),
+  supplierProductCode: purchaseOrderItem.supplierProductCode || undefined,
+  price: purchaseOrderItem.price,
+  purchaseOrderItemStatusId,
+  productLink: purchaseOrderItem.productLink || undefined,
+});
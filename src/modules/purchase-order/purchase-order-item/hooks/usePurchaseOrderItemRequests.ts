@@ -3,12 +3,32 @@ import {
   URL_PURCHASE_ORDER_ITEMS,
 } from '../../../../shared/constants/urls';
 import { MethodsEnum } from '../../../../shared/enums/methods.enum';
+import { createResourceHook } from '../../../../shared/hooks/createResourceHook';
 import { useRequests } from '../../../../shared/hooks/useRequests';
+import { getLandedUnitCosts } from '../../functions/landedCost';
+import usePurchaseOrderRequests from '../../hooks/usePurchaseOrderRequests';
 import { IPurchaseOrderItemInsert } from '../interfaces/PurchaseOrderItemInsertInterface';
 import { IPurchaseOrderItem } from '../interfaces/PurchaseOrderItemInterface';
 
+const usePurchaseOrderItemResource = createResourceHook<
+  IPurchaseOrderItem,
+  IPurchaseOrderItemInsert
+>({
+  url: URL_PURCHASE_ORDER_ITEMS,
+  urlId: URL_PURCHASE_ORDER_ITEM_ID,
+  messages: {
+    singular: 'o item da compra',
+    plural: 'os itens da compra',
+    deleted: 'Item da compra deletado com sucesso!',
+    referenced:
+      'O item da compra não pode ser deletado pois possui itens em estoque vinculados',
+  },
+});
+
 const usePurchaseOrderItemRequests = () => {
   const { request } = useRequests();
+  const { remove } = usePurchaseOrderItemResource();
+  const { getPurchaseOrderById } = usePurchaseOrderRequests();
 
   const getPurchaseOrderItemById = async (
     purchaseOrderId: number,
@@ -72,10 +92,33 @@ const usePurchaseOrderItemRequests = () => {
     }
   };
 
+  // custo efetivo (com frete e desconto rateados) dos itens das compras informadas
+  const getPurchaseOrderLandedCosts = async (purchaseOrderIds: number[]) => {
+    const purchaseOrders = await Promise.all(
+      [...new Set(purchaseOrderIds)].map(async (purchaseOrderId) => ({
+        purchaseOrder: await getPurchaseOrderById(purchaseOrderId),
+        purchaseOrderItems:
+          (await getPurchaseOrderItems(purchaseOrderId)) ?? [],
+      })),
+    );
+
+    return getLandedUnitCosts(
+      purchaseOrders.flatMap(({ purchaseOrder }) =>
+        purchaseOrder ? [purchaseOrder] : [],
+      ),
+      purchaseOrders.flatMap(({ purchaseOrderItems }) => purchaseOrderItems),
+    );
+  };
+
+  const deletePurchaseOrderItem = (purchaseOrderId: number, id: number) =>
+    remove(id, { purchaseOrderId });
+
   return {
     getPurchaseOrderItemById,
     getPurchaseOrderItems,
+    getPurchaseOrderLandedCosts,
     savePurchaseOrderItem,
+    deletePurchaseOrderItem,
   };
 };
 
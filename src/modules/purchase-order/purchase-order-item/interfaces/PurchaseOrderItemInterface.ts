@@ -7,6 +7,7 @@ export interface IPurchaseOrderItem {
   purchaseOrderId: number;
   product: IProduct;
   productVariation: IProductVariation;
+  quantity: number;
   supplierProductCode: string;
   price: number;
   purchaseOrderItemStatus: IPurchaseOrderItemStatus;
@@ -0,0 +1,4 @@
+// papel do status nas regras de compra, escolhido no cadastro do status
+export enum PurchaseOrderItemStatusRoleEnum {
+  RECEIVED = 'received',
+}
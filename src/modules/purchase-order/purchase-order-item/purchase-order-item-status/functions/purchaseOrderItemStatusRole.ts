@@ -0,0 +1,28 @@
+import { PurchaseOrderItemStatusRoleEnum } from '../enums/purchaseOrderItemStatusRole.enum';
+import { IPurchaseOrderItemStatus } from '../interfaces/PurchaseOrderItemStatusInterface';
+
+export const PURCHASE_ORDER_ITEM_STATUS_ROLE_LABELS: Record<
+  PurchaseOrderItemStatusRoleEnum,
+  string
+> = {
+  [PurchaseOrderItemStatusRoleEnum.RECEIVED]: 'Recebido no estoque',
+};
+
+export const findPurchaseOrderItemStatusIdByRole = (
+  purchaseOrderItemStatus: IPurchaseOrderItemStatus[],
+  role: PurchaseOrderItemStatusRoleEnum,
+) => purchaseOrderItemStatus.find((status) => status.role === role)?.id;
+
+// para operações que não podem seguir sem o status (ex.: marcar itens como recebidos)
+export const getPurchaseOrderItemStatusIdByRole = (
+  purchaseOrderItemStatus: IPurchaseOrderItemStatus[],
+  role: PurchaseOrderItemStatusRoleEnum,
+) => {
+  const id = findPurchaseOrderItemStatusIdByRole(purchaseOrderItemStatus, role);
+  if (id === undefined) {
+    throw new Error(
+      `Nenhum status de item de compra cadastrado com o papel "${PURCHASE_ORDER_ITEM_STATUS_ROLE_LABELS[role]}"`,
+    );
+  }
+  return id;
+};
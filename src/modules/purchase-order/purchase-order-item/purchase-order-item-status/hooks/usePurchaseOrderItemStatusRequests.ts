@@ -1,73 +1,42 @@
-import toast from 'react-hot-toast';
-
 import {
   URL_PURCHASE_ORDER_ITEM_STATUS,
   URL_PURCHASE_ORDER_ITEM_STATUS_ID,
 } from '../../../../../shared/constants/urls';
-import { MethodsEnum } from '../../../../../shared/enums/methods.enum';
-import { useRequests } from '../../../../../shared/hooks/useRequests';
+import { createResourceHook } from '../../../../../shared/hooks/createResourceHook';
+import { PurchaseOrderItemStatusRoleEnum } from '../enums/purchaseOrderItemStatusRole.enum';
+import { getPurchaseOrderItemStatusIdByRole } from '../functions/purchaseOrderItemStatusRole';
 import { IPurchaseOrderItemStatusInsert } from '../interfaces/PurchaseOrderItemStatusInsertInterface';
 import { IPurchaseOrderItemStatus } from '../interfaces/PurchaseOrderItemStatusInterface';
 
-const usePurchaseOrderItemStatusRequests = () => {
-  const { request } = useRequests();
-
-  const getPurchaseOrderItemStatus = async () => {
-    const response = await request<IPurchaseOrderItemStatus[]>(
-      URL_PURCHASE_ORDER_ITEM_STATUS,
-      MethodsEnum.GET,
-    );
-
-    if (response) {
-      return response;
-    }
-    return [];
-  };
+const usePurchaseOrderItemStatusResource = createResourceHook<
+  IPurchaseOrderItemStatus,
+  IPurchaseOrderItemStatusInsert
+>({
+  url: URL_PURCHASE_ORDER_ITEM_STATUS,
+  urlId: URL_PURCHASE_ORDER_ITEM_STATUS_ID,
+  messages: {
+    singular: 'o status do item da compra',
+    plural: 'os status de item da compra',
+    deleted: 'Status deletado com sucesso!',
+    referenced:
+      'O status não pode ser deletado pois está vinculado a itens de compra',
+  },
+});
 
-  const getPurchaseOrderItemStatusById = async (id: number) => {
-    try {
-      const response = await request<IPurchaseOrderItemStatus>(
-        URL_PURCHASE_ORDER_ITEM_STATUS_ID.replace(
-          '{purchaseOrderItemStatusId}',
-          id.toString(),
-        ),
-        MethodsEnum.GET,
-      );
-      return response;
-    } catch (error) {
-      toast.error('Erro ao buscar o status do item da compra');
-      throw new Error(`Erro ao buscar o status do item da compra: ${error}`);
-    }
-  };
-
-  const savePurchaseOrderItemStatus = async (
-    purchaseOrderItemStatus: IPurchaseOrderItemStatusInsert,
-    id?: string,
-  ) => {
-    const url = id
-      ? URL_PURCHASE_ORDER_ITEM_STATUS_ID.replace(
-          '{purchaseOrderItemStatusId}',
-          id,
-        )
-      : URL_PURCHASE_ORDER_ITEM_STATUS;
-    const method = id ? MethodsEnum.PATCH : MethodsEnum.POST;
+const usePurchaseOrderItemStatusRequests = () => {
+  const { list, getById, save, remove } = usePurchaseOrderItemStatusResource();
 
-    try {
-      const response = await request<IPurchaseOrderItemStatus>(
-        url,
-        method,
-        purchaseOrderItemStatus,
-      );
-      return response;
-    } catch (error) {
-      throw new Error(`Erro ao salvar o status do item da compra: ${error}`);
-    }
-  };
+  // a lista de status fica em cache, então resolver o id não custa uma requisição por item
+  const getPurchaseOrderItemStatusId = async (
+    role: PurchaseOrderItemStatusRoleEnum,
+  ) => getPurchaseOrderItemStatusIdByRole(await list(), role);
 
   return {
-    getPurchaseOrderItemStatus,
-    getPurchaseOrderItemStatusById,
-    savePurchaseOrderItemStatus,
+    getPurchaseOrderItemStatus: () => list(),
+    getPurchaseOrderItemStatusId,
+    getPurchaseOrderItemStatusById: getById,
+    savePurchaseOrderItemStatus: save,
+    deletePurchaseOrderItemStatus: remove,
   };
 };
 
@@ -1,3 +1,6 @@
+import { PurchaseOrderItemStatusRoleEnum } from '../enums/purchaseOrderItemStatusRole.enum';
+
 export interface IPurchaseOrderItemStatusInsert {
   name: string;
+  role?: PurchaseOrderItemStatusRoleEnum;
 }
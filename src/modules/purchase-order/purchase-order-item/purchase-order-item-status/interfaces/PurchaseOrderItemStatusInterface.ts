@@ -1,4 +1,7 @@
+import { PurchaseOrderItemStatusRoleEnum } from '../enums/purchaseOrderItemStatusRole.enum';
+
 export interface IPurchaseOrderItemStatus {
   id: number;
   name: string;
+  role?: PurchaseOrderItemStatusRoleEnum;
 }
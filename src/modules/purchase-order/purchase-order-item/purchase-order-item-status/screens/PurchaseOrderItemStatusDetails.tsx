@@ -5,11 +5,17 @@ import toast from 'react-hot-toast';
 import { z } from 'zod';
 
 import { Input } from '../../../../../components/input/Input';
+import Select from '../../../../../components/select/Select';
+import { URL_PURCHASE_ORDER_ITEM_STATUS } from '../../../../../shared/constants/urls';
+import { useQuery } from '../../../../../shared/hooks/useQuery';
+import { PurchaseOrderItemStatusRoleEnum } from '../enums/purchaseOrderItemStatusRole.enum';
+import { PURCHASE_ORDER_ITEM_STATUS_ROLE_LABELS } from '../functions/purchaseOrderItemStatusRole';
 import usePurchaseOrderItemStatusRequests from '../hooks/usePurchaseOrderItemStatusRequests';
 import { IPurchaseOrderItemStatus } from '../interfaces/PurchaseOrderItemStatusInterface';
 
 const schema = z.object({
   name: z.string().min(1, 'O campo nome é obrigatório'),
+  role: z.string(),
 });
 
 type FormData = z.infer<typeof schema>;
@@ -26,8 +32,15 @@ export const PurchaseOrderItemStatusDetails = ({
   onSave,
 }: PurchaseOrderItemStatusDetailsProps) => {
   const [, setPurchaseOrderItemStatus] = useState<IPurchaseOrderItemStatus>();
-  const { getPurchaseOrderItemStatusById, savePurchaseOrderItemStatus } =
-    usePurchaseOrderItemStatusRequests();
+  const {
+    getPurchaseOrderItemStatus,
+    getPurchaseOrderItemStatusById,
+    savePurchaseOrderItemStatus,
+  } = usePurchaseOrderItemStatusRequests();
+  const { data: purchaseOrderItemStatus = [] } = useQuery(
+    URL_PURCHASE_ORDER_ITEM_STATUS,
+    getPurchaseOrderItemStatus,
+  );
 
   const {
     register,
@@ -38,6 +51,7 @@ export const PurchaseOrderItemStatusDetails = ({
   } = useForm<FormData>({
     resolver: zodResolver(schema),
     mode: 'onChange',
+    defaultValues: { role: '' },
   });
 
   useEffect(() => {
@@ -47,6 +61,7 @@ export const PurchaseOrderItemStatusDetails = ({
           if (purchaseOrderItemStatusLoaded) {
             setPurchaseOrderItemStatus(purchaseOrderItemStatusLoaded);
             setValue('name', purchaseOrderItemStatusLoaded.name);
+            setValue('role', purchaseOrderItemStatusLoaded.role ?? '');
           }
         })
         .catch((error) => {
@@ -63,9 +78,20 @@ export const PurchaseOrderItemStatusDetails = ({
   }, [purchaseOrderItemStatusId]);
 
   function onSubmit(data: FormData) {
+    // cada papel identifica um único status nas regras de compra
+    const statusWithRole = purchaseOrderItemStatus.find(
+      (status) =>
+        status.role === data.role && status.id !== purchaseOrderItemStatusId,
+    );
+    if (data.role && statusWithRole) {
+      toast.error(`O status ${statusWithRole.name} já tem este papel.`);
+      return;
+    }
+
     savePurchaseOrderItemStatus(
       {
         name: data.name,
+        role: (data.role as PurchaseOrderItemStatusRoleEnum) || undefined,
       },
       purchaseOrderItemStatusId
         ? purchaseOrderItemStatusId.toString()
@@ -104,6 +130,20 @@ export const PurchaseOrderItemStatusDetails = ({
               <p className='my-1 text-red-500'>{errors.name.message}</p>
             )}
           </div>
+          <div className='w-full mb-4'>
+            <Select
+              className='w-full border-2 rounded-md px-2'
+              title='Papel nas regras de compra'
+              name='role'
+              options={Object.values(PurchaseOrderItemStatusRoleEnum).map(
+                (role) => ({
+                  value: role,
+                  label: PURCHASE_ORDER_ITEM_STATUS_ROLE_LABELS[role],
+                }),
+              )}
+              register={register}
+            />
+          </div>
           <div className='w-96 flex flex-row float-end'>
             <button
               className='w-full ml-2 rounded-md border-2 border-solid '
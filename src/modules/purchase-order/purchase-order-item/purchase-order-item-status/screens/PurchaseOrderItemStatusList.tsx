@@ -3,15 +3,22 @@ import { ColumnsType } from 'antd/es/table';
 import { useEffect, useMemo, useState } from 'react';
 
 import Button from '../../../../../components/button/Button';
+import ConfirmDeleteModal from '../../../../../components/modal/ConfirmDeleteModal';
 import Modal from '../../../../../components/modal/Modal';
 import Table from '../../../../../components/table/Table';
+import { usePermission } from '../../../../../shared/hooks/usePermission';
+import { PURCHASE_ORDER_ITEM_STATUS_ROLE_LABELS } from '../functions/purchaseOrderItemStatusRole';
 import usePurchaseOrderItemStatusRequests from '../hooks/usePurchaseOrderItemStatusRequests';
 import { IPurchaseOrderItemStatus } from '../interfaces/PurchaseOrderItemStatusInterface';
 
 import { PurchaseOrderItemStatusDetails } from './PurchaseOrderItemStatusDetails';
 
 export const PurchaseOrderItemStatusList = () => {
-  const { getPurchaseOrderItemStatus } = usePurchaseOrderItemStatusRequests();
+  const { canEdit } = usePermission('statuses');
+  const { getPurchaseOrderItemStatus, deletePurchaseOrderItemStatus } =
+    usePurchaseOrderItemStatusRequests();
+  const [purchaseOrderItemStatusToDelete, setPurchaseOrderItemStatusToDelete] =
+    useState<IPurchaseOrderItemStatus>();
 
   const [purchaseOrderItemStatus, setPurchaseOrderItemStatus] = useState<
     IPurchaseOrderItemStatus[]
@@ -41,6 +48,17 @@ export const PurchaseOrderItemStatusList = () => {
         sorter: (a, b) => a.name.localeCompare(b.name),
         render: (text) => <a>{text}</a>,
       },
+      {
+        title: 'Papel',
+        dataIndex: 'role',
+        key: 'role',
+        render: (_, purchaseOrderItemStatus) =>
+          purchaseOrderItemStatus.role
+            ? PURCHASE_ORDER_ITEM_STATUS_ROLE_LABELS[
+                purchaseOrderItemStatus.role
+              ]
+            : '-',
+      },
       {
         title: 'Ações',
         dataIndex: '',
@@ -49,6 +67,7 @@ export const PurchaseOrderItemStatusList = () => {
         render: (_, purchaseOrderItemStatus) => (
           <div style={{ width: '180px', display: 'flex' }}>
             <Button
+              disabled={!canEdit}
               margin='0px 16px 0px 0px'
               onClick={() =>
                 handleEditPurchaseOrderItemStatus(purchaseOrderItemStatus)
@@ -57,14 +76,21 @@ export const PurchaseOrderItemStatusList = () => {
             >
               Editar
             </Button>
-            <Button danger onClick={() => {}} icon={<DeleteOutlined />}>
+            <Button
+              disabled={!canEdit}
+              danger
+              onClick={() =>
+                setPurchaseOrderItemStatusToDelete(purchaseOrderItemStatus)
+              }
+              icon={<DeleteOutlined />}
+            >
               Deletar
             </Button>
           </div>
         ),
       },
     ],
-    [],
+    [canEdit],
   );
 
   const handleEditPurchaseOrderItemStatus = (
@@ -88,11 +114,19 @@ export const PurchaseOrderItemStatusList = () => {
     }
   };
 
+  const handleDeletePurchaseOrderItemStatus = async () => {
+    if (purchaseOrderItemStatusToDelete) {
+      await deletePurchaseOrderItemStatus(purchaseOrderItemStatusToDelete.id);
+      loadPurchaseOrderItemStatus();
+    }
+  };
+
   return (
     <div>
       <div className='flex justify-between'>
         <div style={{ width: '240' }}>
           <Button
+            disabled={!canEdit}
             className='mb-2'
             title='Inserir'
             backgroundColor='#001529'
@@ -105,6 +139,7 @@ export const PurchaseOrderItemStatusList = () => {
         columns={columns}
         dataSource={purchaseOrderItemStatus}
         rowKey='id'
+        exportFileName='status-itens-compra'
       />
       <Modal
         isModalOpen={isModalOpen}
@@ -118,6 +153,12 @@ export const PurchaseOrderItemStatusList = () => {
           onSave={loadPurchaseOrderItemStatus}
         />
       </Modal>
+      <ConfirmDeleteModal
+        isModalOpen={!!purchaseOrderItemStatusToDelete}
+        description={`Deseja deletar o status ${purchaseOrderItemStatusToDelete?.name}?`}
+        onConfirm={handleDeletePurchaseOrderItemStatus}
+        onClose={() => setPurchaseOrderItemStatusToDelete(undefined)}
+      />
     </div>
   );
 };
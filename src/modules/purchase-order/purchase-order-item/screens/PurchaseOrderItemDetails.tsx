@@ -1,5 +1,5 @@
 import { zodResolver } from '@hookform/resolvers/zod';
-import { useCallback, useEffect, useState } from 'react';
+import { useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import toast from 'react-hot-toast';
 import { useParams } from 'react-router-dom';
@@ -7,14 +7,21 @@ import { z } from 'zod';
 
 import { Input } from '../../../../components/input/Input';
 import Select from '../../../../components/select/Select';
+import {
+  URL_PRODUCT_VARIATIONS,
+  URL_PRODUCTS,
+  URL_PURCHASE_ORDER_ITEM_ID,
+  URL_PURCHASE_ORDER_ITEM_STATUS,
+} from '../../../../shared/constants/urls';
+import { fillUrlTemplate } from '../../../../shared/functions/url/urlTemplate';
+import { usePermission } from '../../../../shared/hooks/usePermission';
+import { useQuery } from '../../../../shared/hooks/useQuery';
 import useProductRequests from '../../../product/hooks/useProductRequests';
-import { IProduct } from '../../../product/interfaces/ProductInterface';
 import useProductVariationRequests from '../../../product/product-variation/hooks/useProductVariationRequests';
-import { IProductVariation } from '../../../product/product-variation/interfaces/ProductVariationInterface';
 import usePurchaseOrderItemRequests from '../hooks/usePurchaseOrderItemRequests';
-import { IPurchaseOrderItem } from '../interfaces/PurchaseOrderItemInterface';
+import { PurchaseOrderItemStatusRoleEnum } from '../purchase-order-item-status/enums/purchaseOrderItemStatusRole.enum';
+import { findPurchaseOrderItemStatusIdByRole } from '../purchase-order-item-status/functions/purchaseOrderItemStatusRole';
 import usePurchaseOrderItemStatusRequests from '../purchase-order-item-status/hooks/usePurchaseOrderItemStatusRequests';
-import { IPurchaseOrderItemStatus } from '../purchase-order-item-status/interfaces/PurchaseOrderItemStatusInterface';
 
 interface PurchaseOrderItemDetailsProps {
   onCancel?: () => void;
@@ -27,6 +34,7 @@ export const PurchaseOrderItemDetails = ({
   purchaseOrderItemId,
   onSave,
 }: PurchaseOrderItemDetailsProps) => {
+  const { canEdit } = usePermission('purchaseOrders');
   const schema = z.object({
     product: z.string().min(1, 'Selecione um produto'),
     productVariation: z.string().min(1, 'Selecione uma variação'),
@@ -46,15 +54,12 @@ export const PurchaseOrderItemDetails = ({
         message: 'O campo link do produto deve ser uma URL válida',
       })
       .optional(),
-    // Adicione aqui a validação condicional para o campo quantity
-    quantity: !purchaseOrderItemId
-      ? z
-          .number({ message: 'O campo quantidade é obrigatório' })
-          .int('O campo quantidade deve ser um número inteiro')
-          .refine((value) => value > 0, {
-            message: 'O campo quantidade deve ser maior que zero',
-          })
-      : z.unknown(),
+    quantity: z
+      .number({ message: 'O campo quantidade é obrigatório' })
+      .int('O campo quantidade deve ser um número inteiro')
+      .refine((value) => value > 0, {
+        message: 'O campo quantidade deve ser maior que zero',
+      }),
   });
 
   type FormData = z.infer<typeof schema>;
@@ -62,20 +67,8 @@ export const PurchaseOrderItemDetails = ({
   const { purchaseOrderId } = useParams();
   const { getPurchaseOrderItemById, savePurchaseOrderItem } =
     usePurchaseOrderItemRequests();
-  const [purchaseOrderItem, setPurchaseOrderItem] =
-    useState<IPurchaseOrderItem>();
-
-  const [products, setProducts] = useState<IProduct[]>([]);
   const { getProducts } = useProductRequests();
-
-  const [productVariations, setProductVariations] = useState<
-    IProductVariation[]
-  >([]);
   const { getProductVariations } = useProductVariationRequests();
-
-  const [purchaseOrderItemStatus, setPurchaseOrderItemStatus] = useState<
-    IPurchaseOrderItemStatus[]
-  >([]);
   const { getPurchaseOrderItemStatus } = usePurchaseOrderItemStatusRequests();
 
   const {
@@ -92,100 +85,62 @@ export const PurchaseOrderItemDetails = ({
 
   const productId = watch('product');
 
-  const memoizedGetProducts = useCallback(getProducts, [getProducts]);
-
-  const memoizedGetProductVariations = useCallback(getProductVariations, [
-    getProductVariations,
-  ]);
-
-  const memoizedGetPurchaseOrderItemStatus = useCallback(
-    getPurchaseOrderItemStatus,
-    [getPurchaseOrderItemStatus],
+  const { data: purchaseOrderItem } = useQuery(
+    purchaseOrderId && purchaseOrderItemId
+      ? fillUrlTemplate(URL_PURCHASE_ORDER_ITEM_ID, {
+          purchaseOrderId,
+          purchaseOrderItemId,
+        })
+      : undefined,
+    () =>
+      getPurchaseOrderItemById(
+        Number(purchaseOrderId),
+        purchaseOrderItemId as number,
+      ),
   );
 
-  const loadPurchaseOrderItem = useCallback(
-    async (purchaseOrderId: number, id: number) => {
-      const productsData = await memoizedGetProducts();
-      setProducts(productsData);
+  const { data: products = [] } = useQuery(URL_PRODUCTS, getProducts);
 
-      if (id) {
-        const purchaseOrderItemLoaded: IPurchaseOrderItem =
-          await getPurchaseOrderItemById(purchaseOrderId, id);
-
-        setPurchaseOrderItem(purchaseOrderItemLoaded);
-        setValue('product', purchaseOrderItemLoaded.product.id.toString());
-        setValue(
-          'productVariation',
-          purchaseOrderItemLoaded.productVariation.id?.toString() || '',
-        );
-        setValue(
-          'supplierProductCode',
-          purchaseOrderItemLoaded.supplierProductCode,
-        );
-        setValue('price', purchaseOrderItemLoaded.price);
-        setValue(
-          'purchaseOrderItemStatus',
-          purchaseOrderItemLoaded.purchaseOrderItemStatus.id.toString(),
-        );
-        setValue('productLink', purchaseOrderItemLoaded.productLink);
-      }
-    },
-    [getPurchaseOrderItemById, memoizedGetProducts, setValue],
+  const { data: productVariations = [] } = useQuery(
+    productId
+      ? fillUrlTemplate(URL_PRODUCT_VARIATIONS, { productId })
+      : undefined,
+    () => getProductVariations(parseInt(productId)),
   );
 
-  useEffect(() => {
-    const loadProducts = async () => {
-      const productsData = await memoizedGetProducts();
-      setProducts(productsData);
-    };
-
-    if (productId && productId !== '') {
-      loadProducts();
-    }
-
-    const loadPurchaseOrderItemStatus = async () => {
-      const response = await memoizedGetPurchaseOrderItemStatus();
-      // guarda os itens recebidos, excluindo o item com status 1
-      const responseFiltered = response.filter((status) => status.id !== 1);
-
-      setPurchaseOrderItemStatus(responseFiltered);
-    };
-    loadPurchaseOrderItemStatus();
-
-    if (purchaseOrderId && purchaseOrderItemId) {
-      loadPurchaseOrderItem(parseInt(purchaseOrderId), purchaseOrderItemId);
-    }
-  }, [
-    purchaseOrderId,
-    purchaseOrderItemId,
-    memoizedGetProducts,
-    memoizedGetPurchaseOrderItemStatus,
-    setValue,
-    loadPurchaseOrderItem,
-    productId,
-  ]);
-
-  const loadProductVariations = useCallback(async () => {
-    const response = await memoizedGetProductVariations(parseInt(productId));
-    setProductVariations(response);
-  }, [memoizedGetProductVariations, productId]);
-
-  useEffect(() => {
-    if (productId && productId !== '') {
-      loadProductVariations();
-    }
-  }, [loadProductVariations, productId]);
+  const { data: allPurchaseOrderItemStatus = [] } = useQuery(
+    URL_PURCHASE_ORDER_ITEM_STATUS,
+    getPurchaseOrderItemStatus,
+  );
+  // o status de recebido é definido pelo recebimento, não manualmente
+  const receivedStatusId = findPurchaseOrderItemStatusIdByRole(
+    allPurchaseOrderItemStatus,
+    PurchaseOrderItemStatusRoleEnum.RECEIVED,
+  );
+  const purchaseOrderItemStatus = allPurchaseOrderItemStatus.filter(
+    (status) => status.id !== receivedStatusId,
+  );
 
   useEffect(() => {
-    if (productId && productId !== '') {
-      loadProductVariations();
+    if (purchaseOrderItem) {
+      setValue('product', purchaseOrderItem.product.id.toString());
+      setValue(
+        'productVariation',
+        purchaseOrderItem.productVariation.id?.toString() || '',
+      );
+      setValue('supplierProductCode', purchaseOrderItem.supplierProductCode);
+      setValue('price', purchaseOrderItem.price);
+      // itens criados antes da quantidade existir valem uma unidade
+      setValue('quantity', purchaseOrderItem.quantity ?? 1);
+      setValue(
+        'purchaseOrderItemStatus',
+        purchaseOrderItem.purchaseOrderItemStatus.id.toString(),
+      );
+      setValue('productLink', purchaseOrderItem.productLink);
     }
-  }, [loadProductVariations, productId]);
+  }, [purchaseOrderItem, setValue]);
 
   const handleCancel = () => {
-    setPurchaseOrderItem(undefined);
-    setProducts([]);
-    setProductVariations([]);
     reset();
     onCancel?.();
   };
@@ -210,7 +165,7 @@ export const PurchaseOrderItemDetails = ({
         {
           productId: productSelected.id,
           productVariationId: productVariationSelected.id,
-          quantity: Number(data.quantity) || undefined,
+          quantity: data.quantity,
           supplierProductCode: data.supplierProductCode || undefined,
           price: data.price,
           purchaseOrderItemStatusId: parseInt(data.purchaseOrderItemStatus),
@@ -275,20 +230,18 @@ export const PurchaseOrderItemDetails = ({
               Não há variações disponíveis para o produto selecionado.
             </p>
           )}
-          {!purchaseOrderItemId && (
-            <div className='w-full mb-4'>
-              <Input
-                className='w-full border-2 rounded-md px-2'
-                title='Quantidade'
-                type='number'
-                placeholder='Digite a quantidade...'
-                {...register('quantity', { valueAsNumber: true })}
-              />
-              {errors.quantity && (
-                <p className='my-1 text-red-500'>{errors.quantity.message}</p>
-              )}
-            </div>
-          )}
+          <div className='w-full mb-4'>
+            <Input
+              className='w-full border-2 rounded-md px-2'
+              title='Quantidade'
+              type='number'
+              placeholder='Digite a quantidade...'
+              {...register('quantity', { valueAsNumber: true })}
+            />
+            {errors.quantity && (
+              <p className='my-1 text-red-500'>{errors.quantity.message}</p>
+            )}
+          </div>
           <div className='w-full mb-4'>
             <Input
               className='w-full border-2 rounded-md px-2'
@@ -360,6 +313,7 @@ export const PurchaseOrderItemDetails = ({
               type='submit'
               style={{ backgroundColor: '#001529' }}
               color='white'
+              disabled={!canEdit}
             >
               {purchaseOrderItemId ? 'Editar' : 'Inserir'}
             </button>
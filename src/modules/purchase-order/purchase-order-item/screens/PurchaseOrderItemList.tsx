@@ -1,38 +1,100 @@
-import { DeleteOutlined, EditOutlined } from '@ant-design/icons';
-import { Checkbox } from 'antd';
+import {
+  DeleteOutlined,
+  DollarOutlined,
+  EditOutlined,
+} from '@ant-design/icons';
+import { Radio } from 'antd';
 import { ColumnsType } from 'antd/es/table';
 import { useEffect, useMemo, useState } from 'react';
 import { useParams } from 'react-router-dom';
 
 import Button from '../../../../components/button/Button';
+import ConfirmDeleteModal from '../../../../components/modal/ConfirmDeleteModal';
 import Modal from '../../../../components/modal/Modal';
 import Table from '../../../../components/table/Table';
-import { StockItemReview } from '../../../stock-item/screens/StockItemReview';
+import { URL_PURCHASE_ORDER_STATUS } from '../../../../shared/constants/urls';
+import { usePermission } from '../../../../shared/hooks/usePermission';
+import { useQuery } from '../../../../shared/hooks/useQuery';
+import { PricingDetails } from '../../../pricing/screens/PricingDetails';
+import useStockItemRequests from '../../../stock-item/hooks/useStockItemRequests';
+import {
+  allocateLandedCost,
+  LandedCostAllocationMethod,
+} from '../../functions/landedCost';
+import { IPurchaseOrder } from '../../interfaces/PurchaseOrderInterface';
+import { PurchaseOrderStatusEffectEnum } from '../../purchase-order-status/enums/purchaseOrderStatusEffect.enum';
+import usePurchaseOrderStatusRequests from '../../purchase-order-status/hooks/usePurchaseOrderStatusRequests';
+import { PurchaseOrderItemReceiving } from '../components/PurchaseOrderItemReceiving';
+import {
+  countReceivedQuantities,
+  getOrderedQuantity,
+} from '../functions/purchaseOrderItemReceiving';
 import usePurchaseOrderItemRequests from '../hooks/usePurchaseOrderItemRequests';
 import { IPurchaseOrderItem } from '../interfaces/PurchaseOrderItemInterface';
 
 import { PurchaseOrderItemDetails } from './PurchaseOrderItemDetails';
 
-export const PurchaseOrderItemList = () => {
+interface PurchaseOrderItemListProps {
+  purchaseOrder?: IPurchaseOrder;
+  // a compra entrou em um status que abre o recebimento
+  isReceivingRequested?: boolean;
+  onReceivingClose?: () => void;
+}
+
+export const PurchaseOrderItemList = ({
+  purchaseOrder,
+  isReceivingRequested,
+  onReceivingClose,
+}: PurchaseOrderItemListProps) => {
+  const { canEdit } = usePermission('purchaseOrders');
+  const { canEdit: canEditPricing } = usePermission('pricing');
+  const { canEdit: canEditStock } = usePermission('stock');
   const { purchaseOrderId } = useParams();
   const [purchaseOrderItems, setPurchaseOrderItems] = useState<
     IPurchaseOrderItem[]
   >([]);
   const [purchaseOrderItemId, setPurchaseOrderItemId] = useState<number>();
-  const { getPurchaseOrderItems } = usePurchaseOrderItemRequests();
-  const [selectedItems, setSelectedItems] = useState<IPurchaseOrderItem[]>([]);
+  const { getPurchaseOrderItems, deletePurchaseOrderItem } =
+    usePurchaseOrderItemRequests();
+  const { getStockItems } = useStockItemRequests();
+  const [purchaseOrderItemToDelete, setPurchaseOrderItemToDelete] =
+    useState<IPurchaseOrderItem>();
+  const [receivedQuantities, setReceivedQuantities] = useState(
+    new Map<number, number>(),
+  );
+
+  // status de item usados pelos status de compra que cancelam: esses itens não são recebidos
+  const { getPurchaseOrderStatus } = usePurchaseOrderStatusRequests();
+  const { data: purchaseOrderStatus } = useQuery(
+    URL_PURCHASE_ORDER_STATUS,
+    getPurchaseOrderStatus,
+  );
+  const cancelledItemStatusIds = (purchaseOrderStatus ?? [])
+    .filter(({ effect }) => effect === PurchaseOrderStatusEffectEnum.CANCEL)
+    .map(({ purchaseOrderItemStatusId }) => purchaseOrderItemStatusId);
 
   const [isModalPurchaseOrderItemOpen, setIsModalPurchaseOrderItemOpen] =
     useState(false);
 
   const [isModalStockItemOpen, setIsModalStockItemOpen] = useState(false);
 
+  const [allocationMethod, setAllocationMethod] =
+    useState<LandedCostAllocationMethod>('price');
+  const [pricingItem, setPricingItem] = useState<IPurchaseOrderItem>();
+
+  // a compra é recarregada depois de cada mudança de status, que pode ter alterado o status dos itens
   useEffect(() => {
     if (purchaseOrderId) {
       loadPurchaseOrderItems();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [purchaseOrder]);
+
+  useEffect(() => {
+    if (isReceivingRequested) {
+      setIsModalStockItemOpen(true);
+    }
+  }, [isReceivingRequested]);
 
   const handleModalPurchaseOrderItemCancel = () => {
     setPurchaseOrderItemId(undefined);
@@ -41,7 +103,7 @@ export const PurchaseOrderItemList = () => {
 
   const handleModalStockItemCancel = () => {
     setIsModalStockItemOpen(false);
-    setSelectedItems([]);
+    onReceivingClose?.();
   };
 
   const handleEditPurchaseOrderItem = (
@@ -55,36 +117,29 @@ export const PurchaseOrderItemList = () => {
 
   const loadPurchaseOrderItems = async () => {
     if (purchaseOrderId) {
-      const response = await getPurchaseOrderItems(parseInt(purchaseOrderId));
+      const [response, stockItems] = await Promise.all([
+        getPurchaseOrderItems(parseInt(purchaseOrderId)),
+        getStockItems(),
+      ]);
       if (response) {
         setPurchaseOrderItems(response);
       }
+      setReceivedQuantities(countReceivedQuantities(stockItems));
     }
   };
 
-  const handleSelectItem = (item: IPurchaseOrderItem) => {
-    setSelectedItems((prevSelectedItems) => {
-      const isSelected = prevSelectedItems.includes(item);
-      if (isSelected) {
-        return prevSelectedItems.filter((i) => i !== item);
-      } else {
-        return [...prevSelectedItems, item];
-      }
-    });
-  };
+  const landedCosts = useMemo(
+    () =>
+      allocateLandedCost(
+        purchaseOrder ?? {},
+        purchaseOrderItems,
+        allocationMethod,
+      ),
+    [purchaseOrder, purchaseOrderItems, allocationMethod],
+  );
 
   const columns: ColumnsType<IPurchaseOrderItem> = useMemo(
     () => [
-      {
-        title: '',
-        key: 'checkbox',
-        render: (purchaseOrderItem) => (
-          <Checkbox
-            onChange={() => handleSelectItem(purchaseOrderItem)}
-            disabled={purchaseOrderItem.purchaseOrderItemStatus.id === 1}
-          />
-        ),
-      },
       {
         title: 'Id',
         dataIndex: 'id',
@@ -109,12 +164,37 @@ export const PurchaseOrderItemList = () => {
             b.productVariation?.name ?? '',
           ),
       },
+      {
+        title: 'Quantidade',
+        dataIndex: 'quantity',
+        key: 'quantity',
+        render: (_, purchaseOrderItem) => (
+          <a>{getOrderedQuantity(purchaseOrderItem)}</a>
+        ),
+      },
+      {
+        title: 'Recebidos',
+        key: 'received',
+        render: (_, purchaseOrderItem) => (
+          <a>
+            {receivedQuantities.get(purchaseOrderItem.id) ?? 0} de{' '}
+            {getOrderedQuantity(purchaseOrderItem)}
+          </a>
+        ),
+      },
       {
         title: 'Preço',
         dataIndex: 'price',
         key: 'price',
         render: (price) => <a>{price}</a>,
       },
+      {
+        title: 'Custo efetivo',
+        key: 'landedCost',
+        render: (_, purchaseOrderItem) => (
+          <a>{landedCosts.get(purchaseOrderItem.id)}</a>
+        ),
+      },
       {
         title: 'Status',
         dataIndex: 'purchaseOrderItemStatus',
@@ -126,31 +206,57 @@ export const PurchaseOrderItemList = () => {
       {
         title: 'Ações',
         dataIndex: '',
-        width: 240,
+        width: 360,
         key: 'x',
         render: (_, purchaseOrderItem) => (
-          <div style={{ width: '180px', display: 'flex' }}>
+          <div style={{ width: '320px', display: 'flex' }}>
             <Button
+              disabled={!canEdit}
               margin='0px 16px 0px 0px'
               onClick={() => handleEditPurchaseOrderItem(purchaseOrderItem)}
               icon={<EditOutlined />}
             >
               Editar
             </Button>
-            <Button danger onClick={() => {}} icon={<DeleteOutlined />}>
+            <Button
+              disabled={!canEditPricing}
+              margin='0px 16px 0px 0px'
+              onClick={() => setPricingItem(purchaseOrderItem)}
+              icon={<DollarOutlined />}
+            >
+              Precificar
+            </Button>
+            <Button
+              disabled={!canEdit}
+              danger
+              onClick={() => setPurchaseOrderItemToDelete(purchaseOrderItem)}
+              icon={<DeleteOutlined />}
+            >
               Deletar
             </Button>
           </div>
         ),
       },
     ],
-    [],
+    [landedCosts, receivedQuantities, canEdit, canEditPricing],
   );
+
+  const handleDeletePurchaseOrderItem = async () => {
+    if (purchaseOrderItemToDelete) {
+      await deletePurchaseOrderItem(
+        Number(purchaseOrderId),
+        purchaseOrderItemToDelete.id,
+      );
+      loadPurchaseOrderItems();
+    }
+  };
+
   return (
     <div>
       <div className='flex'>
         <div style={{ width: '240' }}>
           <Button
+            disabled={!canEdit}
             className='mb-2'
             title='Inserir'
             backgroundColor='#001529'
@@ -160,30 +266,31 @@ export const PurchaseOrderItemList = () => {
         </div>
         <div style={{ width: '240' }} className='ml-auto'>
           <Button
+            disabled={!canEditStock}
             className='mb-2'
-            title={
-              selectedItems.length > 0
-                ? 'Lançar itens selecionados no estoque'
-                : 'Lançar todos os itens no estoque'
-            }
+            title='Receber entrega'
             backgroundColor='#001529'
             color='white'
-            onClick={() => {
-              if (selectedItems.length > 0) {
-                setIsModalStockItemOpen(true);
-              } else {
-                // filtra os itens que estão com status diferente de 1 e adiciona ao estado selectedItems
-                const filteredItems = purchaseOrderItems.filter(
-                  (item) => item.purchaseOrderItemStatus.id !== 1,
-                );
-                setSelectedItems(filteredItems);
-                setIsModalStockItemOpen(true);
-              }
-            }}
+            onClick={() => setIsModalStockItemOpen(true)}
           />
         </div>
       </div>
-      <Table columns={columns} dataSource={purchaseOrderItems} rowKey='id' />
+      <div className='flex items-center gap-2 mb-2'>
+        <span>Ratear frete e desconto por:</span>
+        <Radio.Group
+          value={allocationMethod}
+          onChange={(event) => setAllocationMethod(event.target.value)}
+        >
+          <Radio value='price'>Preço</Radio>
+          <Radio value='quantity'>Quantidade</Radio>
+        </Radio.Group>
+      </div>
+      <Table
+        columns={columns}
+        dataSource={purchaseOrderItems}
+        rowKey='id'
+        exportFileName='itens-compra'
+      />
       <Modal
         isModalOpen={isModalPurchaseOrderItemOpen}
         title='Produto'
@@ -198,16 +305,46 @@ export const PurchaseOrderItemList = () => {
       </Modal>
       <Modal
         isModalOpen={isModalStockItemOpen}
-        title='Revisão de itens'
-        onClose={() => setIsModalStockItemOpen(false)}
+        title='Recebimento de itens'
+        onClose={handleModalStockItemCancel}
         onCancel={handleModalStockItemCancel}
       >
-        <StockItemReview
-          onCancel={handleModalStockItemCancel}
-          purchaseOrderItems={selectedItems}
-          onSave={loadPurchaseOrderItems}
-        />
+        {isModalStockItemOpen && (
+          <PurchaseOrderItemReceiving
+            purchaseOrderId={Number(purchaseOrderId)}
+            purchaseOrderItems={purchaseOrderItems.filter(
+              ({ purchaseOrderItemStatus }) =>
+                !cancelledItemStatusIds.includes(purchaseOrderItemStatus.id),
+            )}
+            receivedQuantities={receivedQuantities}
+            onCancel={handleModalStockItemCancel}
+            onSave={loadPurchaseOrderItems}
+          />
+        )}
+      </Modal>
+      <Modal
+        isModalOpen={!!pricingItem}
+        title='Precificação'
+        onClose={() => setPricingItem(undefined)}
+        onCancel={() => setPricingItem(undefined)}
+      >
+        {pricingItem && (
+          <PricingDetails
+            onCancel={() => setPricingItem(undefined)}
+            defaultValues={{
+              productId: pricingItem.product.id,
+              productVariationId: pricingItem.productVariation.id,
+              costPrice: landedCosts.get(pricingItem.id),
+            }}
+          />
+        )}
       </Modal>
+      <ConfirmDeleteModal
+        isModalOpen={!!purchaseOrderItemToDelete}
+        description={`Deseja deletar o item ${purchaseOrderItemToDelete?.product?.name} - ${purchaseOrderItemToDelete?.productVariation?.name}?`}
+        onConfirm={handleDeletePurchaseOrderItem}
+        onClose={() => setPurchaseOrderItemToDelete(undefined)}
+      />
     </div>
   );
 };
@@ -0,0 +1,43 @@
+import { Timeline } from 'antd';
+import { format } from 'date-fns';
+
+import { IPurchaseOrderStatusHistory } from '../interfaces/PurchaseOrderStatusHistoryInterface';
+
+interface PurchaseOrderStatusHistoryProps {
+  history: IPurchaseOrderStatusHistory[];
+}
+
+// mudanças de status da compra, da mais recente para a mais antiga
+export const PurchaseOrderStatusHistory = ({
+  history,
+}: PurchaseOrderStatusHistoryProps) => {
+  if (history.length === 0) {
+    return (
+      <p className='text-gray-500'>Nenhuma mudança de status registrada.</p>
+    );
+  }
+
+  return (
+    <Timeline
+      items={[...history]
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .map((entry) => ({
+          key: entry.id,
+          children: (
+            <div>
+              <p className='font-medium'>
+                {entry.previousPurchaseOrderStatus
+                  ? `${entry.previousPurchaseOrderStatus.name} → ${entry.purchaseOrderStatus.name}`
+                  : entry.purchaseOrderStatus.name}
+              </p>
+              <p className='text-gray-500'>
+                {format(new Date(entry.createdAt), 'dd/MM/yyyy HH:mm')}
+                {entry.user &&
+                  ` por ${entry.user.name ?? entry.user.email ?? entry.user.id}`}
+              </p>
+            </div>
+          ),
+        }))}
+    />
+  );
+};
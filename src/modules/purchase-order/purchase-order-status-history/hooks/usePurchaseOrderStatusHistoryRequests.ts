@@ -0,0 +1,36 @@
+import {
+  URL_PURCHASE_ORDER_STATUS_HISTORY,
+  URL_PURCHASE_ORDER_STATUS_HISTORY_ID,
+} from '../../../../shared/constants/urls';
+import { createResourceHook } from '../../../../shared/hooks/createResourceHook';
+import { IPurchaseOrderStatusHistoryInsert } from '../interfaces/PurchaseOrderStatusHistoryInsertInterface';
+import { IPurchaseOrderStatusHistory } from '../interfaces/PurchaseOrderStatusHistoryInterface';
+
+const usePurchaseOrderStatusHistoryResource = createResourceHook<
+  IPurchaseOrderStatusHistory,
+  IPurchaseOrderStatusHistoryInsert
+>({
+  url: URL_PURCHASE_ORDER_STATUS_HISTORY,
+  urlId: URL_PURCHASE_ORDER_STATUS_HISTORY_ID,
+  messages: {
+    singular: 'o histórico de status da compra',
+    plural: 'os históricos de status da compra',
+    deleted: 'Histórico deletado com sucesso!',
+    referenced: 'O histórico não pode ser deletado',
+  },
+});
+
+const usePurchaseOrderStatusHistoryRequests = () => {
+  const { list, create } = usePurchaseOrderStatusHistoryResource();
+
+  return {
+    getPurchaseOrderStatusHistory: (purchaseOrderId: number) =>
+      list({ purchaseOrderId }),
+    createPurchaseOrderStatusHistory: (
+      purchaseOrderId: number,
+      history: IPurchaseOrderStatusHistoryInsert,
+    ) => create(history, { purchaseOrderId }),
+  };
+};
+
+export default usePurchaseOrderStatusHistoryRequests;
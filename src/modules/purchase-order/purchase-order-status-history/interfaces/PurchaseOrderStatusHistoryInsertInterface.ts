@@ -0,0 +1,5 @@
+export interface IPurchaseOrderStatusHistoryInsert {
+  purchaseOrderStatusId: number;
+  previousPurchaseOrderStatusId?: number;
+  userId?: string;
+}
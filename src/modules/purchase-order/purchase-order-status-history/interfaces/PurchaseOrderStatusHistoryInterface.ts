@@ -0,0 +1,11 @@
+import { IUser } from '../../../../shared/interfaces/UserInterface';
+import { IPurchaseOrderStatus } from '../../purchase-order-status/interfaces/PurchaseOrderStatusInterface';
+
+export interface IPurchaseOrderStatusHistory {
+  id: number;
+  purchaseOrderStatus: IPurchaseOrderStatus;
+  // vazio na entrada criada junto com a compra
+  previousPurchaseOrderStatus?: IPurchaseOrderStatus;
+  user?: Pick<IUser, 'id' | 'name' | 'email'>;
+  createdAt: string;
+}
@@ -0,0 +1,5 @@
+// ação executada quando a compra entra no status
+export enum PurchaseOrderStatusEffectEnum {
+  RECEIVE = 'receive',
+  CANCEL = 'cancel',
+}
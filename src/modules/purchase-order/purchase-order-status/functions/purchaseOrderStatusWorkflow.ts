@@ -0,0 +1,9 @@
+import { PurchaseOrderStatusEffectEnum } from '../enums/purchaseOrderStatusEffect.enum';
+
+export const PURCHASE_ORDER_STATUS_EFFECT_LABELS: Record<
+  PurchaseOrderStatusEffectEnum,
+  string
+> = {
+  [PurchaseOrderStatusEffectEnum.RECEIVE]: 'Abrir o recebimento no estoque',
+  [PurchaseOrderStatusEffectEnum.CANCEL]: 'Cancelar os itens não recebidos',
+};
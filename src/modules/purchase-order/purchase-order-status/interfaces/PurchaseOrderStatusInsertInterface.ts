@@ -1,3 +1,8 @@
+import { PurchaseOrderStatusEffectEnum } from '../enums/purchaseOrderStatusEffect.enum';
+
 export interface IPurchaseOrderStatusInsert {
   name: string;
+  nextStatusIds?: number[];
+  effect?: PurchaseOrderStatusEffectEnum;
+  purchaseOrderItemStatusId?: number;
 }
@@ -1,4 +1,10 @@
+import { PurchaseOrderStatusEffectEnum } from '../enums/purchaseOrderStatusEffect.enum';
+
 export interface IPurchaseOrderStatus {
   id: number;
   name: string;
+  nextStatusIds?: number[];
+  effect?: PurchaseOrderStatusEffectEnum;
+  // status aplicado aos itens não recebidos quando o efeito é cancelar
+  purchaseOrderItemStatusId?: number;
 }
@@ -5,12 +5,35 @@ import toast from 'react-hot-toast';
 import { z } from 'zod';
 
 import { Input } from '../../../../components/input/Input';
+import Select from '../../../../components/select/Select';
+import {
+  URL_PURCHASE_ORDER_ITEM_STATUS,
+  URL_PURCHASE_ORDER_STATUS,
+} from '../../../../shared/constants/urls';
+import { useQuery } from '../../../../shared/hooks/useQuery';
+import usePurchaseOrderItemStatusRequests from '../../purchase-order-item/purchase-order-item-status/hooks/usePurchaseOrderItemStatusRequests';
+import { PurchaseOrderStatusEffectEnum } from '../enums/purchaseOrderStatusEffect.enum';
+import { PURCHASE_ORDER_STATUS_EFFECT_LABELS } from '../functions/purchaseOrderStatusWorkflow';
 import usePurchaseOrderStatusRequests from '../hooks/usePurchaseOrderStatusRequests';
 import { IPurchaseOrderStatus } from '../interfaces/PurchaseOrderStatusInterface';
 
-const schema = z.object({
-  name: z.string().min(1, 'O campo nome é obrigatório'),
-});
+const schema = z
+  .object({
+    name: z.string().min(1, 'O campo nome é obrigatório'),
+    nextStatusIds: z.array(z.string()),
+    effect: z.string(),
+    purchaseOrderItemStatusId: z.string(),
+  })
+  // o cancelamento precisa saber para qual status os itens vão
+  .refine(
+    ({ effect, purchaseOrderItemStatusId }) =>
+      effect !== PurchaseOrderStatusEffectEnum.CANCEL ||
+      !!purchaseOrderItemStatusId,
+    {
+      message: 'Selecione o status dos itens cancelados',
+      path: ['purchaseOrderItemStatusId'],
+    },
+  );
 
 type FormData = z.infer<typeof schema>;
 
@@ -26,8 +49,20 @@ export const PurchaseOrderStatusDetails = ({
   onSave,
 }: PurchaseOrderStatusDetailsProps) => {
   const [, setPurchaseOrderStatus] = useState<IPurchaseOrderStatus>();
-  const { getPurchaseOrderStatusById, savePurchaseOrderStatus } =
-    usePurchaseOrderStatusRequests();
+  const {
+    getPurchaseOrderStatus,
+    getPurchaseOrderStatusById,
+    savePurchaseOrderStatus,
+  } = usePurchaseOrderStatusRequests();
+  const { data: purchaseOrderStatus = [] } = useQuery(
+    URL_PURCHASE_ORDER_STATUS,
+    getPurchaseOrderStatus,
+  );
+  const { getPurchaseOrderItemStatus } = usePurchaseOrderItemStatusRequests();
+  const { data: purchaseOrderItemStatus = [] } = useQuery(
+    URL_PURCHASE_ORDER_ITEM_STATUS,
+    getPurchaseOrderItemStatus,
+  );
 
   const {
     register,
@@ -38,6 +73,11 @@ export const PurchaseOrderStatusDetails = ({
   } = useForm<FormData>({
     resolver: zodResolver(schema),
     mode: 'onChange',
+    defaultValues: {
+      nextStatusIds: [],
+      effect: '',
+      purchaseOrderItemStatusId: '',
+    },
   });
 
   useEffect(() => {
@@ -47,6 +87,16 @@ export const PurchaseOrderStatusDetails = ({
           if (purchaseOrderStatusLoaded) {
             setPurchaseOrderStatus(purchaseOrderStatusLoaded);
             setValue('name', purchaseOrderStatusLoaded.name);
+            setValue(
+              'nextStatusIds',
+              (purchaseOrderStatusLoaded.nextStatusIds ?? []).map(String),
+            );
+            setValue('effect', purchaseOrderStatusLoaded.effect ?? '');
+            setValue(
+              'purchaseOrderItemStatusId',
+              purchaseOrderStatusLoaded.purchaseOrderItemStatusId?.toString() ??
+                '',
+            );
           }
         })
         .catch((error) => {
@@ -66,6 +116,11 @@ export const PurchaseOrderStatusDetails = ({
     savePurchaseOrderStatus(
       {
         name: data.name,
+        nextStatusIds: data.nextStatusIds.map(Number),
+        effect: (data.effect as PurchaseOrderStatusEffectEnum) || undefined,
+        purchaseOrderItemStatusId: data.purchaseOrderItemStatusId
+          ? parseInt(data.purchaseOrderItemStatusId)
+          : undefined,
       },
       purchaseOrderStatusId ? purchaseOrderStatusId.toString() : undefined,
     )
@@ -102,6 +157,58 @@ export const PurchaseOrderStatusDetails = ({
               <p className='my-1 text-red-500'>{errors.name.message}</p>
             )}
           </div>
+          <div className='w-full mb-4'>
+            <p className='mb-2 font-medium'>Pode mudar para</p>
+            {purchaseOrderStatus
+              .filter((status) => status.id !== purchaseOrderStatusId)
+              .map((status) => (
+                <label
+                  key={status.id}
+                  className='mr-4 inline-flex items-center gap-1'
+                >
+                  <input
+                    type='checkbox'
+                    value={status.id.toString()}
+                    {...register('nextStatusIds')}
+                  />
+                  {status.name}
+                </label>
+              ))}
+            <p className='mt-1 text-gray-500'>
+              Nenhum marcado: status final, a compra não sai dele.
+            </p>
+          </div>
+          <div className='w-full mb-4'>
+            <Select
+              className='w-full border-2 rounded-md px-2'
+              title='Ao entrar neste status'
+              name='effect'
+              options={Object.values(PurchaseOrderStatusEffectEnum).map(
+                (effect) => ({
+                  value: effect,
+                  label: PURCHASE_ORDER_STATUS_EFFECT_LABELS[effect],
+                }),
+              )}
+              register={register}
+            />
+          </div>
+          <div className='w-full mb-4'>
+            <Select
+              className='w-full border-2 rounded-md px-2'
+              title='Status dos itens cancelados'
+              name='purchaseOrderItemStatusId'
+              options={purchaseOrderItemStatus.map((status) => ({
+                value: status.id.toString(),
+                label: status.name,
+              }))}
+              register={register}
+            />
+            {errors.purchaseOrderItemStatusId && (
+              <p className='my-1 text-red-500'>
+                {errors.purchaseOrderItemStatusId.message}
+              </p>
+            )}
+          </div>
           <div className='w-96 flex flex-row float-end'>
             <button
               className='w-full ml-2 rounded-md border-2 border-solid '
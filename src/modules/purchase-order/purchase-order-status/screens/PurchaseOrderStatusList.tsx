@@ -1,22 +1,38 @@
 import { DeleteOutlined, EditOutlined } from '@ant-design/icons';
+import { Tag } from 'antd';
 import { ColumnsType } from 'antd/es/table';
 import { useEffect, useMemo, useState } from 'react';
 
 import Button from '../../../../components/button/Button';
+import ConfirmDeleteModal from '../../../../components/modal/ConfirmDeleteModal';
 import Modal from '../../../../components/modal/Modal';
 import Table from '../../../../components/table/Table';
+import { URL_PURCHASE_ORDER_ITEM_STATUS } from '../../../../shared/constants/urls';
+import { usePermission } from '../../../../shared/hooks/usePermission';
+import { useQuery } from '../../../../shared/hooks/useQuery';
+import usePurchaseOrderItemStatusRequests from '../../purchase-order-item/purchase-order-item-status/hooks/usePurchaseOrderItemStatusRequests';
+import { PURCHASE_ORDER_STATUS_EFFECT_LABELS } from '../functions/purchaseOrderStatusWorkflow';
 import usePurchaseOrderStatusRequests from '../hooks/usePurchaseOrderStatusRequests';
 import { IPurchaseOrderStatus } from '../interfaces/PurchaseOrderStatusInterface';
 
 import { PurchaseOrderStatusDetails } from './PurchaseOrderStatusDetails';
 
 export const PurchaseOrderStatusList = () => {
-  const { getPurchaseOrderStatus } = usePurchaseOrderStatusRequests();
+  const { canEdit } = usePermission('statuses');
+  const { getPurchaseOrderStatus, deletePurchaseOrderStatus } =
+    usePurchaseOrderStatusRequests();
+  const [purchaseOrderStatusToDelete, setPurchaseOrderStatusToDelete] =
+    useState<IPurchaseOrderStatus>();
 
   const [purchaseOrderStatus, setPurchaseOrderStatus] = useState<
     IPurchaseOrderStatus[]
   >([]);
   const [purchaseOrderStatusId, setPurchaseOrderStatusId] = useState<number>();
+  const { getPurchaseOrderItemStatus } = usePurchaseOrderItemStatusRequests();
+  const { data: purchaseOrderItemStatus = [] } = useQuery(
+    URL_PURCHASE_ORDER_ITEM_STATUS,
+    getPurchaseOrderItemStatus,
+  );
 
   const [isModalOpen, setIsModalOpen] = useState(false);
 
@@ -40,6 +56,40 @@ export const PurchaseOrderStatusList = () => {
         sorter: (a, b) => a.name.localeCompare(b.name),
         render: (text) => <a>{text}</a>,
       },
+      {
+        title: 'Pode mudar para',
+        dataIndex: 'nextStatusIds',
+        key: 'nextStatusIds',
+        render: (_, status) =>
+          !status.nextStatusIds
+            ? 'Qualquer status'
+            : status.nextStatusIds.length === 0
+              ? 'Status final'
+              : status.nextStatusIds.map((nextStatusId) => (
+                  <Tag key={nextStatusId}>
+                    {purchaseOrderStatus.find(({ id }) => id === nextStatusId)
+                      ?.name ?? nextStatusId}
+                  </Tag>
+                )),
+      },
+      {
+        title: 'Ao entrar',
+        dataIndex: 'effect',
+        key: 'effect',
+        render: (_, status) =>
+          status.effect
+            ? PURCHASE_ORDER_STATUS_EFFECT_LABELS[status.effect]
+            : '-',
+      },
+      {
+        title: 'Status dos itens',
+        dataIndex: 'purchaseOrderItemStatusId',
+        key: 'purchaseOrderItemStatusId',
+        render: (purchaseOrderItemStatusId) =>
+          purchaseOrderItemStatus.find(
+            ({ id }) => id === purchaseOrderItemStatusId,
+          )?.name ?? '-',
+      },
       {
         title: 'Ações',
         dataIndex: '',
@@ -48,20 +98,28 @@ export const PurchaseOrderStatusList = () => {
         render: (_, purchaseOrderStatus) => (
           <div style={{ width: '180px', display: 'flex' }}>
             <Button
+              disabled={!canEdit}
               margin='0px 16px 0px 0px'
               onClick={() => handleEditPurchaseOrderStatus(purchaseOrderStatus)}
               icon={<EditOutlined />}
             >
               Editar
             </Button>
-            <Button danger onClick={() => {}} icon={<DeleteOutlined />}>
+            <Button
+              disabled={!canEdit}
+              danger
+              onClick={() =>
+                setPurchaseOrderStatusToDelete(purchaseOrderStatus)
+              }
+              icon={<DeleteOutlined />}
+            >
               Deletar
             </Button>
           </div>
         ),
       },
     ],
-    [],
+    [canEdit, purchaseOrderStatus, purchaseOrderItemStatus],
   );
 
   const handleEditPurchaseOrderStatus = (
@@ -85,11 +143,19 @@ export const PurchaseOrderStatusList = () => {
     }
   };
 
+  const handleDeletePurchaseOrderStatus = async () => {
+    if (purchaseOrderStatusToDelete) {
+      await deletePurchaseOrderStatus(purchaseOrderStatusToDelete.id);
+      loadPurchaseOrderStatus();
+    }
+  };
+
   return (
     <div>
       <div className='flex justify-between'>
         <div style={{ width: '240' }}>
           <Button
+            disabled={!canEdit}
             className='mb-2'
             title='Inserir'
             backgroundColor='#001529'
@@ -98,7 +164,12 @@ export const PurchaseOrderStatusList = () => {
           />
         </div>
       </div>
-      <Table columns={columns} dataSource={purchaseOrderStatus} rowKey='id' />
+      <Table
+        columns={columns}
+        dataSource={purchaseOrderStatus}
+        rowKey='id'
+        exportFileName='status-compra'
+      />
       <Modal
         isModalOpen={isModalOpen}
         title='Status de Compra'
@@ -111,6 +182,12 @@ export const PurchaseOrderStatusList = () => {
           onSave={loadPurchaseOrderStatus}
         />
       </Modal>
+      <ConfirmDeleteModal
+        isModalOpen={!!purchaseOrderStatusToDelete}
+        description={`Deseja deletar o status ${purchaseOrderStatusToDelete?.name}?`}
+        onConfirm={handleDeletePurchaseOrderStatus}
+        onClose={() => setPurchaseOrderStatusToDelete(undefined)}
+      />
     </div>
   );
 };
@@ -1,6 +1,6 @@
 import { zodResolver } from '@hookform/resolvers/zod';
 import { Divider } from 'antd';
-import { useCallback, useEffect, useState } from 'react';
+import { useContext, useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import toast from 'react-hot-toast';
 import { useNavigate, useParams } from 'react-router-dom';
@@ -8,13 +8,33 @@ import { z } from 'zod';
 
 import { Input } from '../../../components/input/Input';
 import Select from '../../../components/select/Select';
+import { AuthContext } from '../../../contexts/authContext';
+import {
+  URL_PURCHASE_ORDER_STATUS,
+  URL_PURCHASE_ORDER_STATUS_HISTORY,
+  URL_SUPPLIERS,
+} from '../../../shared/constants/urls';
+import { fillUrlTemplate } from '../../../shared/functions/url/urlTemplate';
+import {
+  canTransition,
+  getAllowedStatuses,
+} from '../../../shared/functions/workflow/statusWorkflow';
+import { usePendingStatusChange } from '../../../shared/functions/workflow/usePendingStatusChange';
+import { usePermission } from '../../../shared/hooks/usePermission';
+import { useQuery } from '../../../shared/hooks/useQuery';
 import useSupplierRequests from '../../supplier/hooks/useSupplierRequets';
-import { ISupplier } from '../../supplier/interfaces/SupplierInterface';
 import usePurchaseOrderRequests from '../hooks/usePurchaseOrderRequests';
 import { IPurchaseOrder } from '../interfaces/PurchaseOrderInterface';
+import { buildPurchaseOrderItemStatusUpdate } from '../purchase-order-item/functions/purchaseOrderItemStatus';
+import usePurchaseOrderItemRequests from '../purchase-order-item/hooks/usePurchaseOrderItemRequests';
+import { IPurchaseOrderItem } from '../purchase-order-item/interfaces/PurchaseOrderItemInterface';
+import { PurchaseOrderItemStatusRoleEnum } from '../purchase-order-item/purchase-order-item-status/enums/purchaseOrderItemStatusRole.enum';
+import usePurchaseOrderItemStatusRequests from '../purchase-order-item/purchase-order-item-status/hooks/usePurchaseOrderItemStatusRequests';
 import { PurchaseOrderItemList } from '../purchase-order-item/screens/PurchaseOrderItemList';
+import { PurchaseOrderStatusEffectEnum } from '../purchase-order-status/enums/purchaseOrderStatusEffect.enum';
 import usePurchaseOrderStatusRequests from '../purchase-order-status/hooks/usePurchaseOrderStatusRequests';
-import { IPurchaseOrderStatus } from '../purchase-order-status/interfaces/PurchaseOrderStatusInterface';
+import { PurchaseOrderStatusHistory } from '../purchase-order-status-history/components/PurchaseOrderStatusHistory';
+import usePurchaseOrderStatusHistoryRequests from '../purchase-order-status-history/hooks/usePurchaseOrderStatusHistoryRequests';
 import { PurchaseOrderRoutesEnum } from '../purchase-orders.routes';
 
 const schema = z.object({
@@ -49,19 +69,47 @@ const schema = z.object({
 
 type FormData = z.infer<typeof schema>;
 
+// mudança de status salva na compra; vai para o histórico depois que a ação do status termina
+interface IPurchaseOrderStatusChange {
+  purchaseOrderStatusId: number;
+  previousPurchaseOrderStatusId?: number;
+}
+
 export const PurchaseOrderDetails = () => {
+  const { canEdit } = usePermission('purchaseOrders');
   const { purchaseOrderId } = useParams();
-  const [, setPurchaseOrder] = useState<IPurchaseOrder>();
+  const [purchaseOrder, setPurchaseOrder] = useState<IPurchaseOrder>();
   const { getPurchaseOrderById, savePurchaseOrder } =
     usePurchaseOrderRequests();
+  const { getPurchaseOrderItems, savePurchaseOrderItem } =
+    usePurchaseOrderItemRequests();
+  const { getPurchaseOrderItemStatusId } = usePurchaseOrderItemStatusRequests();
+  const { getPurchaseOrderStatusHistory, createPurchaseOrderStatusHistory } =
+    usePurchaseOrderStatusHistoryRequests();
+  const { user } = useContext(AuthContext);
+  const [isReceivingRequested, setIsReceivingRequested] = useState(false);
 
-  const [suppliers, setSuppliers] = useState<ISupplier[]>([]);
   const { getSuppliers } = useSupplierRequests();
+  const { data: suppliers = [], isLoading: isLoadingSuppliers } = useQuery(
+    URL_SUPPLIERS,
+    getSuppliers,
+  );
 
-  const [purchaseOrderStatus, setPurchaseOrderStatus] = useState<
-    IPurchaseOrderStatus[]
-  >([]);
   const { getPurchaseOrderStatus } = usePurchaseOrderStatusRequests();
+  const {
+    data: purchaseOrderStatus = [],
+    isLoading: isLoadingPurchaseOrderStatus,
+  } = useQuery(URL_PURCHASE_ORDER_STATUS, getPurchaseOrderStatus);
+
+  // o pedido só é carregado depois das opções dos selects para que os valores possam ser selecionados
+  const isReferenceDataLoaded =
+    !isLoadingSuppliers && !isLoadingPurchaseOrderStatus;
+
+  // na edição só aparecem o status atual e os que podem vir depois dele
+  const allowedPurchaseOrderStatus = getAllowedStatuses(
+    purchaseOrderStatus,
+    purchaseOrder?.purchaseOrderStatus?.id,
+  );
 
   const navigate = useNavigate();
 
@@ -75,22 +123,10 @@ export const PurchaseOrderDetails = () => {
     mode: 'onChange',
   });
 
-  const memoizedGetSuppliers = useCallback(getSuppliers, [getSuppliers]);
-  const memoizedGetPurchaseOrderById = useCallback(getPurchaseOrderById, [
-    getPurchaseOrderById,
-  ]);
-  const memoizedGetPurchaseOrderStatus = useCallback(getPurchaseOrderStatus, [
-    getPurchaseOrderStatus,
-  ]);
-
   useEffect(() => {
     const fetchData = async () => {
-      const suppliersData = await memoizedGetSuppliers();
-      setSuppliers(suppliersData);
-      const purchaseOrderStatusData = await memoizedGetPurchaseOrderStatus();
-      setPurchaseOrderStatus(purchaseOrderStatusData);
-      if (purchaseOrderId) {
-        const purchaseOrderData = await memoizedGetPurchaseOrderById(
+      if (purchaseOrderId && isReferenceDataLoaded) {
+        const purchaseOrderData = await getPurchaseOrderById(
           parseInt(purchaseOrderId),
         );
         setPurchaseOrder(purchaseOrderData);
@@ -127,45 +163,159 @@ export const PurchaseOrderDetails = () => {
       }
     };
     fetchData();
-  }, [
-    memoizedGetPurchaseOrderById,
-    memoizedGetSuppliers,
-    memoizedGetPurchaseOrderStatus,
-    purchaseOrderId,
-    setValue,
-  ]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [purchaseOrderId, isReferenceDataLoaded]);
+
+  // a criação de uma entrada invalida a lista, que recarrega sozinha
+  const { data: statusHistory = [] } = useQuery(
+    purchaseOrderId
+      ? fillUrlTemplate(URL_PURCHASE_ORDER_STATUS_HISTORY, { purchaseOrderId })
+      : undefined,
+    () => getPurchaseOrderStatusHistory(Number(purchaseOrderId)),
+  );
+
+  // itens já recebidos mantêm o status; os demais vão para o status configurado no cancelamento;
+  // devolve os itens que não puderam ser atualizados
+  const cancelPurchaseOrderItems = async (
+    id: number,
+    purchaseOrderItemStatusId: number,
+  ) => {
+    const [purchaseOrderItems, receivedStatusId] = await Promise.all([
+      getPurchaseOrderItems(id),
+      getPurchaseOrderItemStatusId(PurchaseOrderItemStatusRoleEnum.RECEIVED),
+    ]);
+    const itemsToCancel = (purchaseOrderItems ?? []).filter(
+      ({ purchaseOrderItemStatus }) =>
+        purchaseOrderItemStatus.id !== receivedStatusId &&
+        purchaseOrderItemStatus.id !== purchaseOrderItemStatusId,
+    );
+
+    const failedItems: IPurchaseOrderItem[] = [];
+    for (const purchaseOrderItem of itemsToCancel) {
+      try {
+        await savePurchaseOrderItem(
+          buildPurchaseOrderItemStatusUpdate(
+            purchaseOrderItem,
+            purchaseOrderItemStatusId,
+          ),
+          id.toString(),
+          purchaseOrderItem.id.toString(),
+        );
+      } catch {
+        failedItems.push(purchaseOrderItem);
+      }
+    }
+    return failedItems;
+  };
+
+  // executa a ação configurada no novo status; devolve o motivo quando ela não pôde ser concluída
+  const applyStatusEffect = async (
+    id: number,
+    statusChange: IPurchaseOrderStatusChange,
+  ) => {
+    const status = purchaseOrderStatus.find(
+      ({ id: statusId }) => statusId === statusChange.purchaseOrderStatusId,
+    );
+
+    if (status?.effect === PurchaseOrderStatusEffectEnum.CANCEL) {
+      if (!status.purchaseOrderItemStatusId) {
+        return `O status ${status.name} não define o status dos itens cancelados.`;
+      }
+      const failedItems = await cancelPurchaseOrderItems(
+        id,
+        status.purchaseOrderItemStatusId,
+      );
+      if (failedItems.length > 0) {
+        return `Erro ao cancelar os itens: ${failedItems
+          .map(
+            ({ product, productVariation }) =>
+              `${product.name} - ${productVariation.name}`,
+          )
+          .join(', ')}`;
+      }
+      toast.success('Itens não recebidos cancelados');
+    }
+    if (status?.effect === PurchaseOrderStatusEffectEnum.RECEIVE) {
+      setIsReceivingRequested(true);
+    }
+  };
+
+  const { pendingStatusChange, applyStatusChange, reapplyStatusChange } =
+    usePendingStatusChange<IPurchaseOrderStatusChange>({
+      scope: 'purchase-order',
+      orderId: purchaseOrderId ? parseInt(purchaseOrderId) : undefined,
+      applyEffects: applyStatusEffect,
+      createHistory: (id, statusChange) =>
+        createPurchaseOrderStatusHistory(id, {
+          ...statusChange,
+          userId: user?.id,
+        }),
+      errorMessage: 'Erro ao aplicar a mudança de status da compra',
+    });
+
+  const handleReapplyStatusChange = async () => {
+    if (purchaseOrderId) {
+      await reapplyStatusChange();
+      setPurchaseOrder(await getPurchaseOrderById(parseInt(purchaseOrderId)));
+    }
+  };
 
   // aplica mascara ao campo date e
 
-  function onSubmit(data: FormData) {
+  async function onSubmit(data: FormData) {
     const dateFormatted = data.date.split('/').reverse().join('-');
-    savePurchaseOrder(
+    const purchaseOrderStatusId = parseInt(data.purchaseOrderStatusId);
+    // as transições vêm do cadastro de status, não do status embutido na compra
+    const previousStatus = purchaseOrderStatus.find(
+      ({ id }) => id === purchaseOrder?.purchaseOrderStatus?.id,
+    );
+
+    if (!canTransition(previousStatus, purchaseOrderStatusId)) {
+      toast.error(
+        `A compra não pode passar de ${previousStatus?.name} para este status.`,
+      );
+      return;
+    }
+
+    const savedPurchaseOrder = await savePurchaseOrder(
       {
         date: dateFormatted,
         supplierId: parseInt(data.supplierId),
         orderNumber: data.orderNumber || undefined,
         trackingCode: data.trackingCode || undefined,
-        purchaseOrderStatusId: parseInt(data.purchaseOrderStatusId),
+        purchaseOrderStatusId,
         discount: data.discount || undefined,
         shippingCost: data.shippingCost || undefined,
       },
       purchaseOrderId ? purchaseOrderId.toString() : undefined,
-    )
-      .then((purchaseOrder: IPurchaseOrder | undefined | Error) => {
-        if (purchaseOrder && purchaseOrderId === undefined) {
-          navigate(
-            PurchaseOrderRoutesEnum.PURCHASE_ORDER_EDIT.replace(
-              ':purchaseOrderId',
-              (purchaseOrder as IPurchaseOrder).id.toString(),
-            ),
-          );
-        }
-        toast.success('Pedido salvo com sucesso!');
-      })
-      .catch((error) => {
-        toast.error('Erro ao salvar o pedido.');
-        throw error;
+    );
+
+    if (!savedPurchaseOrder || savedPurchaseOrder instanceof Error) {
+      toast.error('Erro ao salvar o pedido.');
+      return;
+    }
+    toast.success('Pedido salvo com sucesso!');
+
+    const id = purchaseOrderId
+      ? parseInt(purchaseOrderId)
+      : savedPurchaseOrder.id;
+    if (previousStatus?.id !== purchaseOrderStatusId) {
+      await applyStatusChange(id, {
+        purchaseOrderStatusId,
+        previousPurchaseOrderStatusId: previousStatus?.id,
       });
+    }
+
+    if (purchaseOrderId === undefined) {
+      navigate(
+        PurchaseOrderRoutesEnum.PURCHASE_ORDER_EDIT.replace(
+          ':purchaseOrderId',
+          id.toString(),
+        ),
+      );
+      return;
+    }
+    setPurchaseOrder(await getPurchaseOrderById(id));
   }
 
   return (
@@ -253,7 +403,7 @@ export const PurchaseOrderDetails = () => {
               className='w-full border-2 rounded-md mb-4 px-2'
               title='Status'
               name='purchaseOrderStatusId'
-              options={purchaseOrderStatus.map((status) => ({
+              options={allowedPurchaseOrderStatus.map((status) => ({
                 value: status.id ? status.id.toString() : '',
                 label: status.name,
               }))}
@@ -280,6 +430,7 @@ export const PurchaseOrderDetails = () => {
               type='submit'
               style={{ backgroundColor: '#001529' }}
               color='white'
+              disabled={!canEdit}
             >
               {purchaseOrderId ? 'Editar' : 'Inserir'}
             </button>
@@ -289,7 +440,32 @@ export const PurchaseOrderDetails = () => {
       {purchaseOrderId && (
         <div>
           <Divider />
-          <PurchaseOrderItemList />
+          <PurchaseOrderItemList
+            purchaseOrder={purchaseOrder}
+            isReceivingRequested={isReceivingRequested}
+            onReceivingClose={() => setIsReceivingRequested(false)}
+          />
+          <Divider />
+          <h2 className='mb-4 font-medium'>Histórico de status</h2>
+          {pendingStatusChange && (
+            <div className='w-full mb-4 flex items-center gap-2'>
+              <p className='text-red-500'>
+                A ação do último status não foi concluída e a mudança ainda não
+                está no histórico.
+              </p>
+              <button
+                className='px-4 rounded-md text-white'
+                type='button'
+                style={{ backgroundColor: '#001529' }}
+                color='white'
+                disabled={!canEdit}
+                onClick={handleReapplyStatusChange}
+              >
+                Reaplicar
+              </button>
+            </div>
+          )}
+          <PurchaseOrderStatusHistory history={statusHistory} />
         </div>
       )}
     </div>
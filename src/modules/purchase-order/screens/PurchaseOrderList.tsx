@@ -1,19 +1,39 @@
 import { DeleteOutlined, EditOutlined } from '@ant-design/icons';
 import { ColumnsType } from 'antd/es/table';
 import { format, parseISO } from 'date-fns';
-import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useMemo, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 
 import Button from '../../../components/button/Button';
+import ConfirmDeleteModal from '../../../components/modal/ConfirmDeleteModal';
 import Table from '../../../components/table/Table';
+import { URL_PURCHASE_ORDERS } from '../../../shared/constants/urls';
+import { appendQueryParams } from '../../../shared/functions/url/urlTemplate';
+import { usePaginationParams } from '../../../shared/hooks/usePaginationParams';
+import { usePermission } from '../../../shared/hooks/usePermission';
+import { useQuery } from '../../../shared/hooks/useQuery';
 import usePurchaseOrderRequests from '../hooks/usePurchaseOrderRequests';
 import { IPurchaseOrder } from '../interfaces/PurchaseOrderInterface';
 import { PurchaseOrderRoutesEnum } from '../purchase-orders.routes';
 
 export const PurchaseOrderList = () => {
-  const [purchaseOrders, setPurchaseOrders] = useState<IPurchaseOrder[]>([]);
+  const { canEdit } = usePermission('purchaseOrders');
+  const { paginationParams, setPaginationParams } = usePaginationParams({
+    sort: 'date',
+    order: 'desc',
+  });
 
-  const { getPurchaseOrders } = usePurchaseOrderRequests();
+  const { getPurchaseOrdersPage, deletePurchaseOrder } =
+    usePurchaseOrderRequests();
+  // a exclusão invalida a listagem, que recarrega a página atual sozinha
+  const { data: page } = useQuery(
+    appendQueryParams(URL_PURCHASE_ORDERS, { ...paginationParams }),
+    () => getPurchaseOrdersPage(paginationParams),
+  );
+  const purchaseOrders = page?.data ?? [];
+  const total = page?.total ?? 0;
+  const [purchaseOrderToDelete, setPurchaseOrderToDelete] =
+    useState<IPurchaseOrder>();
 
   const navigate = useNavigate();
 
@@ -29,6 +49,7 @@ export const PurchaseOrderList = () => {
         title: 'Data do pedido',
         dataIndex: 'date',
         key: 'date',
+        sorter: true,
         render: (date) => {
           const parsedDate = parseISO(date);
           const formattedDate = format(parsedDate, 'dd/MM/yyyy');
@@ -37,10 +58,9 @@ export const PurchaseOrderList = () => {
       },
       {
         title: 'Numero do pedido',
-        dataIndex: 'number',
-        key: 'number',
-        sorter: (a, b) =>
-          a.orderNumber?.localeCompare(b.orderNumber ?? '') ?? 0,
+        dataIndex: 'orderNumber',
+        key: 'orderNumber',
+        sorter: true,
         render: (text) => <a>{text}</a>,
       },
       {
@@ -51,6 +71,7 @@ export const PurchaseOrderList = () => {
         render: (_, supplier) => (
           <div style={{ width: '180px', display: 'flex' }}>
             <Button
+              disabled={!canEdit}
               margin='0px 16px 0px 0px'
               onClick={() => {
                 navigate(
@@ -64,32 +85,33 @@ export const PurchaseOrderList = () => {
             >
               Editar
             </Button>
-            <Button danger onClick={() => {}} icon={<DeleteOutlined />}>
+            <Button
+              disabled={!canEdit}
+              danger
+              onClick={() => setPurchaseOrderToDelete(supplier)}
+              icon={<DeleteOutlined />}
+            >
               Deletar
             </Button>
           </div>
         ),
       },
     ],
-    [navigate],
+    [navigate, canEdit],
   );
 
-  const loadPurchaseOrders = useCallback(async () => {
-    const response = await getPurchaseOrders();
-    if (response) {
-      setPurchaseOrders(response);
+  const handleDeletePurchaseOrder = async () => {
+    if (purchaseOrderToDelete) {
+      await deletePurchaseOrder(purchaseOrderToDelete.id);
     }
-  }, [getPurchaseOrders, setPurchaseOrders]);
-
-  useEffect(() => {
-    loadPurchaseOrders();
-  }, [loadPurchaseOrders]);
+  };
 
   return (
     <div>
       <div className='flex justify-between'>
         <div style={{ width: '240' }}>
           <Button
+            disabled={!canEdit}
             className='mb-2'
             title='Inserir'
             backgroundColor='#001529'
@@ -100,7 +122,31 @@ export const PurchaseOrderList = () => {
           />
         </div>
       </div>
-      <Table columns={columns} dataSource={purchaseOrders} rowKey='id' />
+      <Table
+        columns={columns}
+        dataSource={purchaseOrders}
+        rowKey='id'
+        paginationParams={paginationParams}
+        total={total}
+        onPaginationChange={setPaginationParams}
+        exportFileName='compras'
+        fetchExportRows={async () =>
+          (
+            await getPurchaseOrdersPage({
+              ...paginationParams,
+              page: 1,
+              pageSize: Math.max(total, 1),
+            })
+          ).data
+        }
+        searchPlaceholder='Buscar por número do pedido ou código de rastreio...'
+      />
+      <ConfirmDeleteModal
+        isModalOpen={!!purchaseOrderToDelete}
+        description={`Deseja deletar a compra ${purchaseOrderToDelete?.orderNumber ?? purchaseOrderToDelete?.id}?`}
+        onConfirm={handleDeletePurchaseOrder}
+        onClose={() => setPurchaseOrderToDelete(undefined)}
+      />
     </div>
   );
 };
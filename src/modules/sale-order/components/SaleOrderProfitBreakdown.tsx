@@ -0,0 +1,199 @@
+import { ColumnsType } from 'antd/es/table';
+import { useEffect, useMemo, useState } from 'react';
+
+import Table from '../../../components/table/Table';
+import usePricingRequests from '../../pricing/hooks/usePricingRequests';
+import { IPricing } from '../../pricing/interfaces/PricingInterface';
+import useSalePlatformCommissionRequests from '../../pricing/sale-platform-commission/hooks/useSalePlatformCommissionRequests';
+import { ISalePlatformCommission } from '../../pricing/sale-platform-commission/interfaces/SalePlatformCommissionInterface';
+import usePurchaseOrderItemRequests from '../../purchase-order/purchase-order-item/hooks/usePurchaseOrderItemRequests';
+import useStockItemRequests from '../../stock-item/hooks/useStockItemRequests';
+import { IStockItem } from '../../stock-item/interfaces/StockItemInterface';
+import {
+  calculateSaleOrderProfit,
+  ISaleOrderItemProfit,
+} from '../functions/saleOrderProfit';
+import { ISaleOrder } from '../interfaces/SaleOrderInterface';
+import useSaleOrderItemRequests from '../sale-order-item/hooks/useSaleOrderItemRequests';
+import { ISaleOrderItem } from '../sale-order-item/interfaces/SaleOrderItemInterface';
+
+interface SaleOrderProfitBreakdownProps {
+  saleOrder: ISaleOrder;
+  refreshKey?: number;
+}
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString('pt-BR', {
+    style: 'currency',
+    currency: 'BRL',
+  });
+
+const SaleOrderProfitBreakdown = ({
+  saleOrder,
+  refreshKey,
+}: SaleOrderProfitBreakdownProps) => {
+  const [saleOrderItems, setSaleOrderItems] = useState<ISaleOrderItem[]>([]);
+  const { getSaleOrderItems } = useSaleOrderItemRequests();
+
+  const [stockItems, setStockItems] = useState<IStockItem[]>([]);
+  const { getStockItems } = useStockItemRequests();
+
+  const [salePlatformCommission, setSalePlatformCommission] =
+    useState<ISalePlatformCommission>();
+  const { getSalePlatformCommissionByPlatformId } =
+    useSalePlatformCommissionRequests();
+
+  const [pricing, setPricing] = useState<IPricing[]>([]);
+  const { getPricing } = usePricingRequests();
+
+  const [landedCosts, setLandedCosts] = useState<Map<number, number>>(
+    new Map(),
+  );
+  const { getPurchaseOrderLandedCosts } = usePurchaseOrderItemRequests();
+
+  useEffect(() => {
+    const loadProfitData = async () => {
+      const [saleOrderItemsData, stockItemsData, pricingData] =
+        await Promise.all([
+          getSaleOrderItems(saleOrder.id),
+          getStockItems(),
+          getPricing(),
+        ]);
+
+      setSaleOrderItems(saleOrderItemsData ?? []);
+      setStockItems(stockItemsData);
+      setPricing(pricingData ?? []);
+
+      // só as compras dos itens de estoque desta venda entram no rateio
+      const saleOrderItemIds = new Set(
+        (saleOrderItemsData ?? []).map(({ id }) => id),
+      );
+      setLandedCosts(
+        await getPurchaseOrderLandedCosts(
+          stockItemsData.flatMap(({ saleOrderItemId, purchaseOrderItem }) =>
+            saleOrderItemId &&
+            saleOrderItemIds.has(saleOrderItemId) &&
+            purchaseOrderItem
+              ? [purchaseOrderItem.purchaseOrderId]
+              : [],
+          ),
+        ),
+      );
+
+      if (saleOrder.platform?.id) {
+        const commissionData = await getSalePlatformCommissionByPlatformId(
+          saleOrder.platform.id,
+        ).catch(() => undefined);
+        setSalePlatformCommission(commissionData);
+      }
+    };
+
+    loadProfitData();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [saleOrder.id, saleOrder.platform?.id, refreshKey]);
+
+  const profit = useMemo(() => {
+    // custo da precificação na plataforma da venda, usado quando não há compra vinculada
+    const estimatedCosts = new Map(
+      pricing
+        .filter(
+          (pricingItem) =>
+            pricingItem.salePlatform?.id === saleOrder.platform?.id,
+        )
+        .map((pricingItem) => [
+          pricingItem.productVariation.id ?? 0,
+          Number(pricingItem.costPrice),
+        ]),
+    );
+
+    return calculateSaleOrderProfit(
+      saleOrder,
+      saleOrderItems,
+      stockItems,
+      salePlatformCommission,
+      estimatedCosts,
+      landedCosts,
+    );
+  }, [
+    saleOrder,
+    saleOrderItems,
+    stockItems,
+    salePlatformCommission,
+    pricing,
+    landedCosts,
+  ]);
+
+  const columns: ColumnsType<ISaleOrderItemProfit> = useMemo(
+    () => [
+      {
+        title: 'Produto',
+        key: 'product',
+        render: (_, item) => (
+          <a>
+            {item.saleOrderItem.product?.name} -{' '}
+            {item.saleOrderItem.productVariation?.name}
+          </a>
+        ),
+      },
+      {
+        title: 'Preço',
+        key: 'price',
+        render: (_, item) => <span>{formatCurrency(item.price)}</span>,
+      },
+      {
+        title: 'Comissão',
+        key: 'commission',
+        render: (_, item) => <span>{formatCurrency(item.commission)}</span>,
+      },
+      {
+        title: 'Custo',
+        key: 'cost',
+        render: (_, item) => (
+          <span>
+            {formatCurrency(item.cost)}
+            {item.costEstimated && ' (estimado)'}
+          </span>
+        ),
+      },
+      {
+        title: 'Lucro bruto',
+        key: 'profit',
+        render: (_, item) => (
+          <span>
+            {formatCurrency(item.price - item.commission - item.cost)}
+          </span>
+        ),
+      },
+    ],
+    [],
+  );
+
+  return (
+    <div>
+      <h2 className='mb-2 font-medium'>Resultado da venda</h2>
+      {!salePlatformCommission && (
+        <p className='my-1 text-red-500'>
+          Não há comissão cadastrada para a plataforma da venda.
+        </p>
+      )}
+      <Table
+        columns={columns}
+        dataSource={profit.items}
+        rowKey={(item) => item.saleOrderItem.id}
+        pagination={false}
+      />
+      <div className='w-full mt-4'>
+        <p>Receita bruta: {formatCurrency(profit.grossRevenue)}</p>
+        <p>Desconto: {formatCurrency(profit.discount)}</p>
+        <p>Comissão da plataforma: {formatCurrency(profit.commission)}</p>
+        <p>Custo dos itens: {formatCurrency(profit.cost)}</p>
+        <p>Custo de envio: {formatCurrency(profit.shippingCost)}</p>
+        <p className='font-medium'>
+          Lucro líquido: {formatCurrency(profit.netProfit)} ({profit.margin}%)
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default SaleOrderProfitBreakdown;
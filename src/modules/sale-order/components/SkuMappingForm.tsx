@@ -0,0 +1,73 @@
+import { Select } from 'antd';
+import { useState } from 'react';
+
+import Button from '../../../components/button/Button';
+import { IProduct } from '../../product/interfaces/ProductInterface';
+import useProductVariationRequests from '../../product/product-variation/hooks/useProductVariationRequests';
+import { IProductVariation } from '../../product/product-variation/interfaces/ProductVariationInterface';
+import { ISkuTarget } from '../functions/saleOrderImport';
+
+interface SkuMappingFormProps {
+  sku: string;
+  products: IProduct[];
+  onSave: (target: ISkuTarget) => void;
+}
+
+const SkuMappingForm = ({ sku, products, onSave }: SkuMappingFormProps) => {
+  const { getProductVariations } = useProductVariationRequests();
+  const [productId, setProductId] = useState<number>();
+  const [productVariationId, setProductVariationId] = useState<number>();
+  const [productVariations, setProductVariations] = useState<
+    IProductVariation[]
+  >([]);
+
+  const handleProductChange = async (id: number) => {
+    setProductId(id);
+    setProductVariationId(undefined);
+    setProductVariations(await getProductVariations(id));
+  };
+
+  return (
+    <div className='mb-2 flex items-center gap-2'>
+      <span style={{ width: '200px' }}>{sku}</span>
+      <Select
+        showSearch
+        optionFilterProp='label'
+        style={{ width: '240px' }}
+        placeholder='Produto'
+        value={productId}
+        onChange={handleProductChange}
+        options={products.map((product) => ({
+          value: product.id,
+          label: product.name,
+        }))}
+      />
+      <Select
+        style={{ width: '200px' }}
+        placeholder='Variação'
+        disabled={!productId}
+        value={productVariationId}
+        onChange={setProductVariationId}
+        options={productVariations.map((productVariation) => ({
+          value: productVariation.id,
+          label: productVariation.name,
+        }))}
+      />
+      <div style={{ width: '120px' }}>
+        <Button
+          title='Vincular'
+          backgroundColor='#001529'
+          color='white'
+          disabled={!productId || !productVariationId}
+          onClick={() =>
+            productId &&
+            productVariationId &&
+            onSave({ productId, productVariationId })
+          }
+        />
+      </div>
+    </div>
+  );
+};
+
+export default SkuMappingForm;
@@ -0,0 +1,375 @@
+import { parseCsvNumber } from '../../../shared/functions/csv/csv';
+import { normalizeName } from '../../../shared/functions/text/normalizeName';
+import { IIntegrationProductSupplier } from '../../integration-product-supplier-erp/interfaces/IntegrationProductSupplierErpInterface';
+import { ISaleOrderInsert } from '../interfaces/SaleOrderInsertInterface';
+import { ISaleOrder } from '../interfaces/SaleOrderInterface';
+import { ISaleOrderItemInsert } from '../sale-order-item/interfaces/SaleOrderItemInsertInterface';
+import { ISkuMapping } from '../sku-mapping/interfaces/SkuMappingInterface';
+
+type SaleOrderImportColumn =
+  | 'orderNumber'
+  | 'date'
+  | 'sku'
+  | 'price'
+  | 'quantity'
+  | 'discount'
+  | 'shippingCost'
+  | 'trackingCode';
+
+const REQUIRED_COLUMNS: SaleOrderImportColumn[] = [
+  'orderNumber',
+  'date',
+  'sku',
+  'price',
+];
+
+const COLUMN_LABELS: Record<SaleOrderImportColumn, string> = {
+  orderNumber: 'Número do pedido',
+  date: 'Data',
+  sku: 'SKU',
+  price: 'Preço',
+  quantity: 'Quantidade',
+  discount: 'Desconto',
+  shippingCost: 'Frete',
+  trackingCode: 'Código de rastreio',
+};
+
+export interface ISaleOrderImportFormat {
+  id: string;
+  name: string;
+  // nomes de plataforma que usam este formato por padrão
+  platformNames: string[];
+  // cabeçalhos aceitos para cada coluna, já sem acentos e em minúsculas
+  columns: Partial<Record<SaleOrderImportColumn, string[]>>;
+  // no relatório o preço é o total da linha (preço unitário x quantidade)
+  priceIsLineTotal?: boolean;
+}
+
+export const SALE_ORDER_IMPORT_FORMATS: ISaleOrderImportFormat[] = [
+  {
+    id: 'mercado-livre',
+    name: 'Mercado Livre',
+    platformNames: ['mercado livre', 'mercadolivre'],
+    columns: {
+      orderNumber: ['n.o de venda', 'n.º de venda', 'numero de venda'],
+      date: ['data da venda'],
+      sku: ['sku'],
+      price: ['preco unitario de venda do anuncio (brl)', 'preco unitario'],
+      quantity: ['unidades'],
+      shippingCost: ['receita por envio (brl)'],
+      trackingCode: ['numero de rastreamento'],
+    },
+  },
+  {
+    id: 'shopee',
+    name: 'Shopee',
+    platformNames: ['shopee'],
+    columns: {
+      orderNumber: ['id do pedido'],
+      date: ['data de criacao do pedido'],
+      sku: ['numero de referencia sku', 'no de referencia do sku principal'],
+      price: ['preco acordado'],
+      quantity: ['quantidade'],
+      discount: ['cupom do vendedor', 'desconto do vendedor'],
+      shippingCost: ['taxa de envio pagas pelo comprador'],
+      trackingCode: ['numero de rastreamento'],
+    },
+  },
+  {
+    id: 'amazon',
+    name: 'Amazon',
+    platformNames: ['amazon'],
+    columns: {
+      orderNumber: ['amazon-order-id', 'order-id'],
+      date: ['purchase-date'],
+      sku: ['sku'],
+      price: ['item-price'],
+      quantity: ['quantity-purchased', 'quantity'],
+      discount: ['item-promotion-discount'],
+      shippingCost: ['shipping-price'],
+      trackingCode: ['tracking-number'],
+    },
+    priceIsLineTotal: true,
+  },
+  {
+    id: 'generic',
+    name: 'Genérico',
+    platformNames: [],
+    columns: {
+      orderNumber: ['pedido', 'numero do pedido', 'order number'],
+      date: ['data', 'data do pedido', 'date'],
+      sku: ['sku', 'codigo'],
+      price: ['preco', 'valor', 'price'],
+      quantity: ['quantidade', 'qtd', 'quantity'],
+      discount: ['desconto', 'discount'],
+      shippingCost: ['frete', 'shipping'],
+      trackingCode: ['rastreio', 'codigo de rastreio', 'tracking'],
+    },
+  },
+];
+
+export const getImportFormatForPlatform = (platformName: string) =>
+  SALE_ORDER_IMPORT_FORMATS.find(({ platformNames }) =>
+    platformNames.includes(normalizeName(platformName)),
+  ) ?? SALE_ORDER_IMPORT_FORMATS[SALE_ORDER_IMPORT_FORMATS.length - 1];
+
+export interface ISkuTarget {
+  productId: number;
+  productVariationId: number;
+}
+
+// vínculos SKU -> variação informados manualmente, separados por plataforma
+export type SkuMappings = Record<number, Record<string, ISkuTarget>>;
+
+export const groupSkuMappings = (skuMappings: ISkuMapping[]): SkuMappings =>
+  skuMappings.reduce<SkuMappings>(
+    (mappings, { platformId, sku, productId, productVariationId }) => ({
+      ...mappings,
+      [platformId]: {
+        ...mappings[platformId],
+        [normalizeName(sku)]: { productId, productVariationId },
+      },
+    }),
+    {},
+  );
+
+// vínculo já salvo para o SKU na plataforma, para atualizá-lo em vez de criar outro
+export const findSkuMapping = (
+  skuMappings: ISkuMapping[],
+  platformId: number,
+  sku: string,
+) =>
+  skuMappings.find(
+    (skuMapping) =>
+      skuMapping.platformId === platformId &&
+      normalizeName(skuMapping.sku) === normalizeName(sku),
+  );
+
+// primeiro o vínculo manual da plataforma, depois o código do produto no fornecedor
+export const findSkuTarget = (
+  sku: string,
+  platformMappings: Record<string, ISkuTarget>,
+  integrations: IIntegrationProductSupplier[],
+): ISkuTarget | undefined => {
+  const normalizedSku = normalizeName(sku);
+  const mapped = platformMappings[normalizedSku];
+  if (mapped) {
+    return mapped;
+  }
+
+  const integration = integrations.find(
+    ({ supplierProductCode, productVariation }) =>
+      productVariation.id !== undefined &&
+      normalizeName(supplierProductCode) === normalizedSku,
+  );
+  return integration?.productVariation.id !== undefined
+    ? {
+        productId: integration.product.id,
+        productVariationId: integration.productVariation.id,
+      }
+    : undefined;
+};
+
+const MONTHS = [
+  'janeiro',
+  'fevereiro',
+  'marco',
+  'abril',
+  'maio',
+  'junho',
+  'julho',
+  'agosto',
+  'setembro',
+  'outubro',
+  'novembro',
+  'dezembro',
+];
+
+const padDatePart = (value: string | number) =>
+  value.toString().padStart(2, '0');
+
+// aceita "2024-01-15...", "15/01/2024 ..." e "15 de janeiro de 2024 ..." e devolve yyyy-MM-dd
+export const parseImportDate = (value: string) => {
+  const text = normalizeName(value);
+
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) {
+    return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  }
+
+  const numeric = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  if (numeric) {
+    return `${numeric[3]}-${padDatePart(numeric[2])}-${padDatePart(numeric[1])}`;
+  }
+
+  const written = text.match(/^(\d{1,2}) de ([a-z]+) de (\d{4})/);
+  const month = written ? MONTHS.indexOf(written[2]) : -1;
+  if (written && month >= 0) {
+    return `${written[3]}-${padDatePart(month + 1)}-${padDatePart(written[1])}`;
+  }
+
+  return undefined;
+};
+
+export type SaleOrderImportStatus = 'new' | 'duplicate' | 'invalid';
+
+export interface ISaleOrderImportOrder {
+  orderNumber: string;
+  // linhas do arquivo que formam o pedido
+  lines: number[];
+  saleOrder: ISaleOrderInsert;
+  items: ISaleOrderItemInsert[];
+  unmatchedSkus: string[];
+  errors: string[];
+  status: SaleOrderImportStatus;
+}
+
+export interface ISaleOrderImportOptions {
+  platformId: number;
+  statusId: number;
+  saleOrderItemStatusId: number;
+  integrations: IIntegrationProductSupplier[];
+  skuMappings: SkuMappings;
+  existingOrders: ISaleOrder[];
+}
+
+// devolve o índice de cada coluna do formato ou lança erro listando as obrigatórias que faltam
+const getColumnIndexes = (
+  headers: string[],
+  format: ISaleOrderImportFormat,
+) => {
+  const normalizedHeaders = headers.map(normalizeName);
+  const indexes: Partial<Record<SaleOrderImportColumn, number>> = {};
+
+  (Object.keys(COLUMN_LABELS) as SaleOrderImportColumn[]).forEach((column) => {
+    const index = normalizedHeaders.findIndex((header) =>
+      (format.columns[column] ?? []).includes(header),
+    );
+    if (index >= 0) {
+      indexes[column] = index;
+    }
+  });
+
+  const missing = REQUIRED_COLUMNS.filter(
+    (column) => indexes[column] === undefined,
+  );
+  if (missing.length > 0) {
+    throw new Error(
+      `Colunas não encontradas no relatório (${format.name}): ${missing
+        .map((column) => COLUMN_LABELS[column])
+        .join(', ')}`,
+    );
+  }
+
+  return indexes;
+};
+
+// agrupa as linhas do relatório por pedido e monta a venda e os itens (um item por unidade vendida)
+export const parseSaleOrderReport = (
+  [headers = [], ...rows]: string[][],
+  format: ISaleOrderImportFormat,
+  {
+    platformId,
+    statusId,
+    saleOrderItemStatusId,
+    integrations,
+    skuMappings,
+    existingOrders,
+  }: ISaleOrderImportOptions,
+): ISaleOrderImportOrder[] => {
+  const indexes = getColumnIndexes(headers, format);
+  const platformMappings = skuMappings[platformId] ?? {};
+  const importedNumbers = new Set(
+    existingOrders
+      .filter((order) => order.platform.id === platformId && order.orderNumber)
+      .map((order) => normalizeName(order.orderNumber ?? '')),
+  );
+  const orders = new Map<string, ISaleOrderImportOrder>();
+
+  rows.forEach((cells, index) => {
+    // +2: a linha 1 do arquivo é o cabeçalho
+    const line = index + 2;
+    const getCell = (column: SaleOrderImportColumn) => {
+      const cellIndex = indexes[column];
+      return cellIndex === undefined ? '' : (cells[cellIndex] ?? '').trim();
+    };
+
+    if (cells.every((cell) => !cell.trim())) {
+      return;
+    }
+
+    const orderNumber = getCell('orderNumber');
+    const order = orders.get(orderNumber) ?? {
+      orderNumber,
+      lines: [],
+      saleOrder: {
+        date: parseImportDate(getCell('date')) ?? '',
+        platformId,
+        orderNumber,
+        trackingCode: getCell('trackingCode') || undefined,
+        statusId,
+        discount: parseCsvNumber(getCell('discount')),
+        shippingCost: parseCsvNumber(getCell('shippingCost')),
+      },
+      items: [],
+      unmatchedSkus: [],
+      errors: [],
+      status: 'new',
+    };
+    orders.set(orderNumber, order);
+    order.lines.push(line);
+
+    if (!orderNumber) {
+      order.errors.push(`Linha ${line}: pedido sem número`);
+      return;
+    }
+    if (!order.saleOrder.date) {
+      order.errors.push(`Linha ${line}: data "${getCell('date')}" inválida`);
+    }
+
+    const quantity = parseCsvNumber(getCell('quantity')) ?? 1;
+    const price = parseCsvNumber(getCell('price'));
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      order.errors.push(`Linha ${line}: quantidade inválida`);
+      return;
+    }
+    if (price === undefined || Number.isNaN(price) || price < 0) {
+      order.errors.push(`Linha ${line}: preço inválido`);
+      return;
+    }
+
+    const sku = getCell('sku');
+    const target = sku
+      ? findSkuTarget(sku, platformMappings, integrations)
+      : undefined;
+    if (!target) {
+      order.errors.push(
+        sku
+          ? `Linha ${line}: SKU "${sku}" sem vínculo com produto`
+          : `Linha ${line}: SKU não informado`,
+      );
+      if (sku && !order.unmatchedSkus.includes(sku)) {
+        order.unmatchedSkus.push(sku);
+      }
+      return;
+    }
+
+    const unitPrice = format.priceIsLineTotal ? price / quantity : price;
+    for (let unit = 0; unit < quantity; unit++) {
+      order.items.push({
+        ...target,
+        saleOrderItemStatusId,
+        price: Math.round(unitPrice * 100) / 100,
+      });
+    }
+  });
+
+  return [...orders.values()].map((order) => ({
+    ...order,
+    status: importedNumbers.has(normalizeName(order.orderNumber))
+      ? 'duplicate'
+      : order.errors.length > 0
+        ? 'invalid'
+        : 'new',
+  }));
+};
@@ -0,0 +1,106 @@
+import { calculatePlatformCommission } from '../../pricing/functions/pricingCalculations';
+import { ISalePlatformCommission } from '../../pricing/sale-platform-commission/interfaces/SalePlatformCommissionInterface';
+import { IStockItem } from '../../stock-item/interfaces/StockItemInterface';
+import { ISaleOrder } from '../interfaces/SaleOrderInterface';
+import { ISaleOrderItem } from '../sale-order-item/interfaces/SaleOrderItemInterface';
+
+export interface ISaleOrderItemProfit {
+  saleOrderItem: ISaleOrderItem;
+  price: number;
+  commission: number;
+  cost: number;
+  // custo obtido da precificação por não haver item de estoque com compra vinculada
+  costEstimated: boolean;
+  // lucro do item com o desconto e o frete da venda rateados pelo preço
+  netProfit: number;
+}
+
+export interface ISaleOrderProfit {
+  items: ISaleOrderItemProfit[];
+  grossRevenue: number;
+  discount: number;
+  commission: number;
+  cost: number;
+  shippingCost: number;
+  netProfit: number;
+  margin: number;
+}
+
+const round = (value: number) => Number(value.toFixed(2));
+
+export const calculateSaleOrderProfit = (
+  saleOrder: ISaleOrder,
+  saleOrderItems: ISaleOrderItem[],
+  stockItems: IStockItem[],
+  salePlatformCommission?: ISalePlatformCommission,
+  estimatedCosts: Map<number, number> = new Map(),
+  // custo efetivo por item de compra (getLandedUnitCosts); sem ele vale o preço de compra
+  landedCosts: Map<number, number> = new Map(),
+): ISaleOrderProfit => {
+  const stockItemsBySaleOrderItem = new Map(
+    stockItems.map((stockItem) => [stockItem.saleOrderItemId, stockItem]),
+  );
+
+  const itemsWithoutNetProfit = saleOrderItems.map((saleOrderItem) => {
+    const price = Number(saleOrderItem.price || 0);
+    const purchaseOrderItem = stockItemsBySaleOrderItem.get(
+      saleOrderItem.id,
+    )?.purchaseOrderItem;
+    const purchasePrice = purchaseOrderItem
+      ? (landedCosts.get(purchaseOrderItem.id) ?? purchaseOrderItem.price)
+      : undefined;
+
+    return {
+      saleOrderItem,
+      price,
+      commission: salePlatformCommission
+        ? calculatePlatformCommission(price, salePlatformCommission)
+        : 0,
+      cost: Number(
+        purchasePrice ??
+          estimatedCosts.get(saleOrderItem.productVariation.id ?? 0) ??
+          0,
+      ),
+      costEstimated: purchasePrice === undefined,
+    };
+  });
+
+  const grossRevenue = itemsWithoutNetProfit.reduce(
+    (total, item) => total + item.price,
+    0,
+  );
+  const discount = Number(saleOrder.discount || 0);
+  const shippingCost = Number(saleOrder.shippingCost || 0);
+
+  const items = itemsWithoutNetProfit.map((item) => {
+    const share =
+      grossRevenue > 0
+        ? item.price / grossRevenue
+        : 1 / itemsWithoutNetProfit.length;
+    return {
+      ...item,
+      netProfit: round(
+        item.price -
+          item.commission -
+          item.cost -
+          (discount + shippingCost) * share,
+      ),
+    };
+  });
+  const commission = items.reduce((total, item) => total + item.commission, 0);
+  const cost = items.reduce((total, item) => total + item.cost, 0);
+
+  const netRevenue = grossRevenue - discount;
+  const netProfit = netRevenue - commission - cost - shippingCost;
+
+  return {
+    items,
+    grossRevenue: round(grossRevenue),
+    discount: round(discount),
+    commission: round(commission),
+    cost: round(cost),
+    shippingCost: round(shippingCost),
+    netProfit: round(netProfit),
+    margin: netRevenue > 0 ? round((netProfit / netRevenue) * 100) : 0,
+  };
+};
@@ -5,12 +5,29 @@ import {
   URL_SALE_ORDERS,
 } from '../../../shared/constants/urls';
 import { MethodsEnum } from '../../../shared/enums/methods.enum';
+import { getRequestErrorMessage } from '../../../shared/functions/connection/requestError';
+import { createResourceHook } from '../../../shared/hooks/createResourceHook';
+import { invalidateQueries } from '../../../shared/hooks/useQuery';
 import { useRequests } from '../../../shared/hooks/useRequests';
+import { IPaginationParams } from '../../../shared/interfaces/PaginationInterface';
+import { IRequestOptions } from '../../../shared/interfaces/RequestOptionsInterface';
 import { ISaleOrderInsert } from '../interfaces/SaleOrderInsertInterface';
 import { ISaleOrder } from '../interfaces/SaleOrderInterface';
 
+const useSaleOrderResource = createResourceHook<ISaleOrder, ISaleOrderInsert>({
+  url: URL_SALE_ORDERS,
+  urlId: URL_SALE_ORDER_ID,
+  messages: {
+    singular: 'a venda',
+    plural: 'as vendas',
+    deleted: 'Venda deletada com sucesso!',
+    referenced: 'A venda não pode ser deletada pois possui itens cadastrados',
+  },
+});
+
 const useSaleOrderRequests = () => {
   const { request } = useRequests();
+  const { listPage, remove } = useSaleOrderResource();
 
   const getSaleOrders = async () => {
     const response = await request<ISaleOrder[]>(
@@ -33,7 +50,7 @@ const useSaleOrderRequests = () => {
 
       return response;
     } catch (error) {
-      toast.error('Erro ao buscar a venda');
+      toast.error(getRequestErrorMessage(error, 'Erro ao buscar a venda'));
       throw new Error(`Erro ao buscar a venda: ${error}`);
     }
   };
@@ -49,13 +66,23 @@ const useSaleOrderRequests = () => {
 
     try {
       const response = await request<ISaleOrder>(url, method, saleOrder);
+      invalidateQueries(URL_SALE_ORDERS);
       return response;
     } catch (error) {
       return new Error(`Erro ao salvar a venda: ${error}`);
     }
   };
 
-  return { getSaleOrders, getSaleOrderById, saveSaleOrder };
+  const deleteSaleOrder = (id: number, options?: IRequestOptions) =>
+    remove(id, undefined, options);
+
+  return {
+    getSaleOrders,
+    getSaleOrderById,
+    saveSaleOrder,
+    deleteSaleOrder,
+    getSaleOrdersPage: (params: IPaginationParams) => listPage(params),
+  };
 };
 
 export default useSaleOrderRequests;
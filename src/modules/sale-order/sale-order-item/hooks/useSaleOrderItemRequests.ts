@@ -1,14 +1,33 @@
 import {
   URL_SALE_ORDER_ITEM_ID,
   URL_SALE_ORDER_ITEMS,
+  URL_SALE_ORDER_ITEMS_ALL,
 } from '../../../../shared/constants/urls';
 import { MethodsEnum } from '../../../../shared/enums/methods.enum';
+import { createResourceHook } from '../../../../shared/hooks/createResourceHook';
 import { useRequests } from '../../../../shared/hooks/useRequests';
+import { IRequestOptions } from '../../../../shared/interfaces/RequestOptionsInterface';
 import { ISaleOrderItemInsert } from '../interfaces/SaleOrderItemInsertInterface';
 import { ISaleOrderItem } from '../interfaces/SaleOrderItemInterface';
 
+const useSaleOrderItemResource = createResourceHook<
+  ISaleOrderItem,
+  ISaleOrderItemInsert
+>({
+  url: URL_SALE_ORDER_ITEMS,
+  urlId: URL_SALE_ORDER_ITEM_ID,
+  messages: {
+    singular: 'o item da venda',
+    plural: 'os itens da venda',
+    deleted: 'Item da venda deletado com sucesso!',
+    referenced:
+      'O item da venda não pode ser deletado pois possui itens em estoque vinculados',
+  },
+});
+
 const useSaleOrderItemRequests = () => {
   const { request } = useRequests();
+  const { remove } = useSaleOrderItemResource();
 
   const getSaleOrderItemById = async (
     saleOrderId: number,
@@ -37,6 +56,17 @@ const useSaleOrderItemRequests = () => {
     }
   };
 
+  const getAllSaleOrderItems = async () => {
+    const response = await request<ISaleOrderItem[]>(
+      URL_SALE_ORDER_ITEMS_ALL,
+      MethodsEnum.GET,
+    );
+    if (response) {
+      return response;
+    }
+    return [];
+  };
+
   const saveSaleOrderItem = async (
     saleOrderItem: ISaleOrderItemInsert,
     saleOrderId: string,
@@ -69,10 +99,18 @@ const useSaleOrderItemRequests = () => {
     }
   };
 
+  const deleteSaleOrderItem = (
+    saleOrderId: number,
+    id: number,
+    options?: IRequestOptions,
+  ) => remove(id, { saleOrderId }, options);
+
   return {
     getSaleOrderItemById,
     getSaleOrderItems,
+    getAllSaleOrderItems,
     saveSaleOrderItem,
+    deleteSaleOrderItem,
   };
 };
 
@@ -1,70 +1,34 @@
-import toast from 'react-hot-toast';
-
 import {
   URL_SALE_ORDER_ITEM_STATUS,
   URL_SALE_ORDER_ITEM_STATUS_ID,
 } from '../../../../../shared/constants/urls';
-import { MethodsEnum } from '../../../../../shared/enums/methods.enum';
-import { useRequests } from '../../../../../shared/hooks/useRequests';
+import { createResourceHook } from '../../../../../shared/hooks/createResourceHook';
 import { ISaleOrderItemStatusInsert } from '../interfaces/SaleOrderItemStatusInsertInterface';
 import { ISaleOrderItemStatus } from '../interfaces/SaleOrderItemStatusInterface';
 
-const useSaleOrderItemStatusRequests = () => {
-  const { request } = useRequests();
-
-  const getSaleOrderItemStatus = async () => {
-    const response = await request<ISaleOrderItemStatus[]>(
-      URL_SALE_ORDER_ITEM_STATUS,
-      MethodsEnum.GET,
-    );
-
-    if (response) {
-      return response;
-    }
-    return [];
-  };
-
-  const getSaleOrderItemStatusById = async (id: number) => {
-    try {
-      const response = await request<ISaleOrderItemStatus>(
-        URL_SALE_ORDER_ITEM_STATUS_ID.replace(
-          '{saleOrderItemStatusId}',
-          id.toString(),
-        ),
-        MethodsEnum.GET,
-      );
-      return response;
-    } catch (error) {
-      toast.error('Erro ao buscar o status do item da venda');
-      throw new Error(`Erro ao buscar o status do item da venda: ${error}`);
-    }
-  };
-
-  const saveSaleOrderItemStatus = async (
-    saleOrderItemStatus: ISaleOrderItemStatusInsert,
-    id?: string,
-  ) => {
-    const url = id
-      ? URL_SALE_ORDER_ITEM_STATUS_ID.replace('{saleOrderItemStatusId}', id)
-      : URL_SALE_ORDER_ITEM_STATUS;
-    const method = id ? MethodsEnum.PATCH : MethodsEnum.POST;
+const useSaleOrderItemStatusResource = createResourceHook<
+  ISaleOrderItemStatus,
+  ISaleOrderItemStatusInsert
+>({
+  url: URL_SALE_ORDER_ITEM_STATUS,
+  urlId: URL_SALE_ORDER_ITEM_STATUS_ID,
+  messages: {
+    singular: 'o status do item da venda',
+    plural: 'os status de item da venda',
+    deleted: 'Status deletado com sucesso!',
+    referenced:
+      'O status não pode ser deletado pois está vinculado a itens de venda',
+  },
+});
 
-    try {
-      const response = await request<ISaleOrderItemStatus>(
-        url,
-        method,
-        saleOrderItemStatus,
-      );
-      return response;
-    } catch (error) {
-      throw new Error(`Erro ao salvar o status do item da venda: ${error}`);
-    }
-  };
+const useSaleOrderItemStatusRequests = () => {
+  const { list, getById, save, remove } = useSaleOrderItemStatusResource();
 
   return {
-    getSaleOrderItemStatus,
-    getSaleOrderItemStatusById,
-    saveSaleOrderItemStatus,
+    getSaleOrderItemStatus: () => list(),
+    getSaleOrderItemStatusById: getById,
+    saveSaleOrderItemStatus: save,
+    deleteSaleOrderItemStatus: remove,
   };
 };
 
@@ -3,15 +3,21 @@ import { ColumnsType } from 'antd/es/table';
 import { useEffect, useMemo, useState } from 'react';
 
 import Button from '../../../../../components/button/Button';
+import ConfirmDeleteModal from '../../../../../components/modal/ConfirmDeleteModal';
 import Modal from '../../../../../components/modal/Modal';
 import Table from '../../../../../components/table/Table';
+import { usePermission } from '../../../../../shared/hooks/usePermission';
 import useSaleOrderItemStatusRequests from '../hooks/useSaleOrderItemStatusRequests';
 import { ISaleOrderItemStatus } from '../interfaces/SaleOrderItemStatusInterface';
 
 import { SaleOrderItemStatusDetails } from './SaleOrderItemStatusDetails';
 
 export const SaleOrderItemStatusList = () => {
-  const { getSaleOrderItemStatus } = useSaleOrderItemStatusRequests();
+  const { canEdit } = usePermission('statuses');
+  const { getSaleOrderItemStatus, deleteSaleOrderItemStatus } =
+    useSaleOrderItemStatusRequests();
+  const [saleOrderItemStatusToDelete, setSaleOrderItemStatusToDelete] =
+    useState<ISaleOrderItemStatus>();
 
   const [saleOrderItemStatus, setSaleOrderItemStatus] = useState<
     ISaleOrderItemStatus[]
@@ -48,20 +54,28 @@ export const SaleOrderItemStatusList = () => {
         render: (_, saleOrderItemStatus) => (
           <div style={{ width: '180px', display: 'flex' }}>
             <Button
+              disabled={!canEdit}
               margin='0px 16px 0px 0px'
               onClick={() => handleEditSaleOrderItemStatus(saleOrderItemStatus)}
               icon={<EditOutlined />}
             >
               Editar
             </Button>
-            <Button danger onClick={() => {}} icon={<DeleteOutlined />}>
+            <Button
+              disabled={!canEdit}
+              danger
+              onClick={() =>
+                setSaleOrderItemStatusToDelete(saleOrderItemStatus)
+              }
+              icon={<DeleteOutlined />}
+            >
               Deletar
             </Button>
           </div>
         ),
       },
     ],
-    [],
+    [canEdit],
   );
 
   const handleEditSaleOrderItemStatus = (
@@ -85,11 +99,19 @@ export const SaleOrderItemStatusList = () => {
     }
   };
 
+  const handleDeleteSaleOrderItemStatus = async () => {
+    if (saleOrderItemStatusToDelete) {
+      await deleteSaleOrderItemStatus(saleOrderItemStatusToDelete.id);
+      loadSaleOrderItemStatus();
+    }
+  };
+
   return (
     <div>
       <div className='flex justify-between'>
         <div style={{ width: '240' }}>
           <Button
+            disabled={!canEdit}
             className='mb-2'
             title='Inserir'
             backgroundColor='#001529'
@@ -98,7 +120,12 @@ export const SaleOrderItemStatusList = () => {
           />
         </div>
       </div>
-      <Table columns={columns} dataSource={saleOrderItemStatus} rowKey='id' />
+      <Table
+        columns={columns}
+        dataSource={saleOrderItemStatus}
+        rowKey='id'
+        exportFileName='status-itens-venda'
+      />
       <Modal
         isModalOpen={isModalOpen}
         title='Status de Compra'
@@ -111,6 +138,12 @@ export const SaleOrderItemStatusList = () => {
           onSave={loadSaleOrderItemStatus}
         />
       </Modal>
+      <ConfirmDeleteModal
+        isModalOpen={!!saleOrderItemStatusToDelete}
+        description={`Deseja deletar o status ${saleOrderItemStatusToDelete?.name}?`}
+        onConfirm={handleDeleteSaleOrderItemStatus}
+        onClose={() => setSaleOrderItemStatusToDelete(undefined)}
+      />
     </div>
   );
 };
@@ -1,5 +1,5 @@
 import { zodResolver } from '@hookform/resolvers/zod';
-import { useCallback, useEffect, useState } from 'react';
+import { useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import toast from 'react-hot-toast';
 import { useParams } from 'react-router-dom';
@@ -7,14 +7,24 @@ import { z } from 'zod';
 
 import { Input } from '../../../../components/input/Input';
 import Select from '../../../../components/select/Select';
+import {
+  URL_PRODUCT_VARIATIONS,
+  URL_PRODUCTS,
+  URL_SALE_ORDER_ITEM_ID,
+  URL_SALE_ORDER_ITEM_STATUS,
+  URL_STOCK_ITEMS,
+} from '../../../../shared/constants/urls';
+import {
+  appendQueryParams,
+  fillUrlTemplate,
+} from '../../../../shared/functions/url/urlTemplate';
+import { usePermission } from '../../../../shared/hooks/usePermission';
+import { useQuery } from '../../../../shared/hooks/useQuery';
 import useProductRequests from '../../../product/hooks/useProductRequests';
-import { IProduct } from '../../../product/interfaces/ProductInterface';
 import useProductVariationRequests from '../../../product/product-variation/hooks/useProductVariationRequests';
-import { IProductVariation } from '../../../product/product-variation/interfaces/ProductVariationInterface';
+import useStockItemRequests from '../../../stock-item/hooks/useStockItemRequests';
 import useSaleOrderItemRequests from '../hooks/useSaleOrderItemRequests';
-import { ISaleOrderItem } from '../interfaces/SaleOrderItemInterface';
 import useSaleOrderItemStatusRequests from '../sale-order-item-status/hooks/useSaleOrderItemStatusRequests';
-import { ISaleOrderItemStatus } from '../sale-order-item-status/interfaces/SaleOrderItemStatusInterface';
 
 const schema = z.object({
   product: z.string().min(1, 'Selecione um produto'),
@@ -28,8 +38,11 @@ const schema = z.object({
   saleOrderItemStatus: z
     .string()
     .min(1, 'O campo status do item do pedido é obrigatório'),
+  stockItem: z.string().optional(),
 });
 
+const STOCK_ITEM_FIFO = 'fifo';
+
 type FormData = z.infer<typeof schema>;
 
 interface SaleOrderItemDetailsProps {
@@ -43,23 +56,19 @@ export const SaleOrderItemDetails = ({
   saleOrderItemId,
   onSave,
 }: SaleOrderItemDetailsProps) => {
+  const { canEdit } = usePermission('saleOrders');
   const { saleOrderId } = useParams();
   const { getSaleOrderItemById, saveSaleOrderItem } =
     useSaleOrderItemRequests();
-  const [saleOrderItem, setSaleOrderItem] = useState<ISaleOrderItem>();
-
-  const [products, setProducts] = useState<IProduct[]>([]);
   const { getProducts } = useProductRequests();
-
-  const [productVariations, setProductVariations] = useState<
-    IProductVariation[]
-  >([]);
   const { getProductVariations } = useProductVariationRequests();
-
-  const [saleOrderItemStatus, setSaleOrderItemStatus] = useState<
-    ISaleOrderItemStatus[]
-  >([]);
   const { getSaleOrderItemStatus } = useSaleOrderItemStatusRequests();
+  const {
+    allocateStockItem,
+    getAvailableStockItems,
+    getStockItems,
+    releaseStockItem,
+  } = useStockItemRequests();
 
   const {
     register,
@@ -71,100 +80,130 @@ export const SaleOrderItemDetails = ({
   } = useForm<FormData>({
     resolver: zodResolver(schema),
     mode: 'onChange',
+    defaultValues: {
+      stockItem: STOCK_ITEM_FIFO,
+    },
   });
 
   const productId = watch('product');
+  const productVariationId = watch('productVariation');
 
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  const memoizedGetProducts = useCallback(getProducts, []);
+  const { data: saleOrderItem } = useQuery(
+    saleOrderId && saleOrderItemId
+      ? fillUrlTemplate(URL_SALE_ORDER_ITEM_ID, {
+          saleOrderId,
+          saleOrderItemId,
+        })
+      : undefined,
+    () => getSaleOrderItemById(Number(saleOrderId), saleOrderItemId as number),
+  );
+
+  const { data: products = [] } = useQuery(URL_PRODUCTS, getProducts);
 
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  const memoizedGetProductVariations = useCallback(getProductVariations, []);
+  const { data: productVariations = [] } = useQuery(
+    productId
+      ? fillUrlTemplate(URL_PRODUCT_VARIATIONS, { productId })
+      : undefined,
+    () => getProductVariations(parseInt(productId)),
+  );
 
-  const memoizedGetSaleOrderItemStatus = useCallback(getSaleOrderItemStatus, [
+  const { data: saleOrderItemStatus = [] } = useQuery(
+    URL_SALE_ORDER_ITEM_STATUS,
     getSaleOrderItemStatus,
-  ]);
+  );
 
-  const loadSaleOrderItemStatus = useCallback(async () => {
-    const response = await memoizedGetSaleOrderItemStatus();
-    setSaleOrderItemStatus(response);
-  }, [memoizedGetSaleOrderItemStatus, setSaleOrderItemStatus]);
+  // a chave inclui a variação só para separar as consultas; o filtro é feito no hook
+  const { data: stockItems = [] } = useQuery(
+    productVariationId
+      ? appendQueryParams(URL_STOCK_ITEMS, { productVariationId })
+      : undefined,
+    () => getAvailableStockItems(parseInt(productVariationId)),
+  );
 
-  const loadSaleOrderItem = useCallback(
-    async (saleOrderId: number, id: number) => {
-      const productsData = await memoizedGetProducts();
-      setProducts(productsData);
+  const { data: allStockItems } = useQuery(
+    saleOrderItemId ? URL_STOCK_ITEMS : undefined,
+    getStockItems,
+  );
+  const linkedStockItem = allStockItems?.find(
+    (stockItem) => stockItem.saleOrderItemId === saleOrderItemId,
+  );
 
-      if (id) {
-        const saleOrderItemLoaded: ISaleOrderItem = await getSaleOrderItemById(
-          saleOrderId,
-          id,
-        );
+  useEffect(() => {
+    if (saleOrderItem) {
+      setValue('product', saleOrderItem.product.id.toString());
+      setValue(
+        'productVariation',
+        saleOrderItem.productVariation.id?.toString() || '',
+      );
+      setValue('price', saleOrderItem.price);
+      setValue(
+        'saleOrderItemStatus',
+        saleOrderItem.saleOrderItemStatus.id.toString(),
+      );
+    }
+  }, [saleOrderItem, setValue]);
 
-        setSaleOrderItem(saleOrderItemLoaded);
-        setValue('product', saleOrderItemLoaded.product.id.toString());
-        setValue(
-          'productVariation',
-          saleOrderItemLoaded.productVariation.id?.toString() || '',
-        );
-        setValue('price', saleOrderItemLoaded.price);
-        setValue(
-          'saleOrderItemStatus',
-          saleOrderItemLoaded.saleOrderItemStatus.id.toString(),
-        );
-      }
-    },
-    [
-      memoizedGetProducts,
-      setProducts,
-      getSaleOrderItemById,
-      setSaleOrderItem,
-      setValue,
-    ],
-  );
+  // a escolha só vale para a variação atual: volta para o item vinculado ou para o FIFO
+  const linkedStockItemId = linkedStockItem?.id;
+  const linkedProductVariationId = linkedStockItem?.productVariationId;
+  useEffect(() => {
+    setValue(
+      'stockItem',
+      linkedStockItemId &&
+        linkedProductVariationId === parseInt(productVariationId)
+        ? linkedStockItemId.toString()
+        : STOCK_ITEM_FIFO,
+    );
+  }, [
+    linkedStockItemId,
+    linkedProductVariationId,
+    productVariationId,
+    setValue,
+  ]);
 
-  const loadProducts = useCallback(async () => {
-    const productsData = await memoizedGetProducts();
-    setProducts(productsData);
-  }, [memoizedGetProducts, setProducts]);
+  const stockItemOptions = [
+    ...(linkedStockItem &&
+    linkedStockItem.productVariationId === parseInt(productVariationId)
+      ? [linkedStockItem]
+      : []),
+    ...stockItems,
+  ];
 
-  const loadProductVariations = useCallback(async () => {
-    const response = await memoizedGetProductVariations(parseInt(productId));
-    setProductVariations(response);
-  }, [memoizedGetProductVariations, productId, setProductVariations]);
+  // vincula o item de estoque escolhido (ou o mais antigo disponível) ao item da venda
+  const allocateSaleOrderItemStock = async (
+    saleOrderItemId: number,
+    stockItemSelected?: string,
+  ) => {
+    // só aceita itens da variação atual; qualquer outro valor cai no FIFO
+    const stockItemId = (
+      stockItemOptions.find(
+        (stockItem) => stockItem.id.toString() === stockItemSelected,
+      ) ?? stockItemOptions[0]
+    )?.id;
 
-  useEffect(() => {
-    if (productId && productId !== '') {
-      loadProductVariations();
+    if (!stockItemId) {
+      toast.error(
+        'Não há itens disponíveis no estoque para a variação selecionada.',
+      );
+      return;
+    }
+
+    if (linkedStockItem?.id === stockItemId) {
+      return;
+    }
+
+    // reserva o novo item antes de soltar o antigo: se a reserva falhar a venda continua com estoque
+    await allocateStockItem(stockItemId, saleOrderItemId);
+    if (linkedStockItem) {
+      await releaseStockItem(linkedStockItem.id);
     }
-  }, [loadProductVariations, productId]);
+  };
 
   const handleCancel = () => {
-    setSaleOrderItem(undefined);
-    setProducts([]);
-    setProductVariations([]);
     reset();
     onCancel?.();
   };
 
-  useEffect(() => {
-    loadProducts();
-    loadSaleOrderItemStatus();
-
-    if (saleOrderId && saleOrderItemId) {
-      loadSaleOrderItem(parseInt(saleOrderId), saleOrderItemId);
-    }
-  }, [
-    saleOrderId,
-    saleOrderItemId,
-    memoizedGetProducts,
-    memoizedGetSaleOrderItemStatus,
-    setValue,
-    loadProducts,
-    loadSaleOrderItem,
-    loadSaleOrderItemStatus,
-  ]);
-
   function onSubmit(data: FormData) {
     const productSelected = products.find(
       (product) => product.id === parseInt(data.product),
@@ -191,13 +230,26 @@ export const SaleOrderItemDetails = ({
         saleOrderId,
         saleOrderItem?.id.toString(),
       )
-        .then(() => {
+        .then(async (saleOrderItemSaved) => {
+          // o item já está salvo: uma falha no estoque é avisada sem manter o formulário aberto
+          try {
+            if (saleOrderItemSaved) {
+              await allocateSaleOrderItemStock(
+                saleOrderItemSaved.id,
+                data.stockItem,
+              );
+            }
+            toast.success('Item salvo com sucesso!');
+          } catch (error) {
+            toast.error(
+              `Item salvo, mas o estoque não foi atualizado: ${(error as Error).message}`,
+            );
+          }
           onSave?.();
           handleCancel();
-          toast.success('Item salvo com sucesso!');
         })
-        .catch((error) => {
-          throw new Error(`Erro ao salvar o item: ${error}`);
+        .catch(() => {
+          toast.error('Erro ao salvar o item.');
         });
     }
   }
@@ -247,6 +299,29 @@ export const SaleOrderItemDetails = ({
               Não há variações disponíveis para o produto selecionado.
             </p>
           )}
+          {productVariationId && (
+            <div className='w-full mb-4'>
+              <Select
+                className='w-full border-2 rounded-md mb-4 px-2'
+                title='Item de estoque'
+                name='stockItem'
+                options={[
+                  { value: STOCK_ITEM_FIFO, label: 'Automático (FIFO)' },
+                  ...stockItemOptions.map((stockItem) => ({
+                    value: stockItem.id.toString(),
+                    label: stockItem.identifier ?? `Item ${stockItem.id}`,
+                  })),
+                ]}
+                register={register}
+              />
+              {stockItemOptions.length === 0 && (
+                <p className='my-1 text-red-500'>
+                  Não há itens disponíveis no estoque para a variação
+                  selecionada.
+                </p>
+              )}
+            </div>
+          )}
           <div className='w-full mb-4'>
             <Input
               className='w-full border-2 rounded-md px-2'
@@ -292,6 +367,7 @@ export const SaleOrderItemDetails = ({
               type='submit'
               style={{ backgroundColor: '#001529' }}
               color='white'
+              disabled={!canEdit}
             >
               {saleOrderItemId ? 'Editar' : 'Inserir'}
             </button>
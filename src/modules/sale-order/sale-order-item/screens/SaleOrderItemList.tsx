@@ -4,18 +4,36 @@ import { useEffect, useMemo, useState } from 'react';
 import { useParams } from 'react-router-dom';
 
 import Button from '../../../../components/button/Button';
+import ConfirmDeleteModal from '../../../../components/modal/ConfirmDeleteModal';
 import Modal from '../../../../components/modal/Modal';
 import Table from '../../../../components/table/Table';
+import { usePermission } from '../../../../shared/hooks/usePermission';
+import useStockItemRequests from '../../../stock-item/hooks/useStockItemRequests';
+import { IStockItem } from '../../../stock-item/interfaces/StockItemInterface';
 import useSaleOrderItemRequests from '../hooks/useSaleOrderItemRequests';
 import { ISaleOrderItem } from '../interfaces/SaleOrderItemInterface';
 
 import { SaleOrderItemDetails } from './SaleOrderItemDetails';
 
-export const SaleOrderItemList = () => {
+interface SaleOrderItemListProps {
+  onChange?: () => void;
+  // muda quando a venda altera os itens por fora da lista (ex.: mudança de status)
+  refreshKey?: number;
+}
+
+export const SaleOrderItemList = ({
+  onChange,
+  refreshKey,
+}: SaleOrderItemListProps) => {
+  const { canEdit } = usePermission('saleOrders');
   const { saleOrderId } = useParams();
   const [saleOrderItems, setSaleOrderItems] = useState<ISaleOrderItem[]>([]);
   const [saleOrderItemId, setSaleOrderItemId] = useState<number>();
-  const { getSaleOrderItems } = useSaleOrderItemRequests();
+  const { getSaleOrderItems, deleteSaleOrderItem } = useSaleOrderItemRequests();
+  const [saleOrderItemToDelete, setSaleOrderItemToDelete] =
+    useState<ISaleOrderItem>();
+  const [stockItems, setStockItems] = useState<IStockItem[]>([]);
+  const { getStockItems } = useStockItemRequests();
 
   const [isModalOpen, setIsModalOpen] = useState(false);
 
@@ -24,7 +42,7 @@ export const SaleOrderItemList = () => {
       loadSaleOrderItems();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [refreshKey]);
 
   const handleCancel = () => {
     setSaleOrderItemId(undefined);
@@ -44,9 +62,27 @@ export const SaleOrderItemList = () => {
       if (response) {
         setSaleOrderItems(response);
       }
+
+      const stockItemsData = await getStockItems();
+      setStockItems(
+        stockItemsData.filter((stockItem) => stockItem.saleOrderItemId),
+      );
     }
   };
 
+  const stockItemsBySaleOrderItem = useMemo(
+    () =>
+      new Map(
+        stockItems.map((stockItem) => [stockItem.saleOrderItemId, stockItem]),
+      ),
+    [stockItems],
+  );
+
+  const handleSave = () => {
+    loadSaleOrderItems();
+    onChange?.();
+  };
+
   const columns: ColumnsType<ISaleOrderItem> = useMemo(
     () => [
       {
@@ -73,6 +109,17 @@ export const SaleOrderItemList = () => {
             b.productVariation?.name ?? '',
           ),
       },
+      {
+        title: 'Item de estoque',
+        key: 'stockItem',
+        render: (_, saleOrderItem) => {
+          const stockItem = stockItemsBySaleOrderItem.get(saleOrderItem.id);
+          if (!stockItem) {
+            return <span className='text-red-500'>Não vinculado</span>;
+          }
+          return <a>{stockItem.identifier ?? `Item ${stockItem.id}`}</a>;
+        },
+      },
       {
         title: 'Ações',
         dataIndex: '',
@@ -81,26 +128,41 @@ export const SaleOrderItemList = () => {
         render: (_, saleOrderItem) => (
           <div style={{ width: '180px', display: 'flex' }}>
             <Button
+              disabled={!canEdit}
               margin='0px 16px 0px 0px'
               onClick={() => handleEditSaleOrderItem(saleOrderItem)}
               icon={<EditOutlined />}
             >
               Editar
             </Button>
-            <Button danger onClick={() => {}} icon={<DeleteOutlined />}>
+            <Button
+              disabled={!canEdit}
+              danger
+              onClick={() => setSaleOrderItemToDelete(saleOrderItem)}
+              icon={<DeleteOutlined />}
+            >
               Deletar
             </Button>
           </div>
         ),
       },
     ],
-    [],
+    [stockItemsBySaleOrderItem, canEdit],
   );
+
+  const handleDeleteSaleOrderItem = async () => {
+    if (saleOrderItemToDelete) {
+      await deleteSaleOrderItem(Number(saleOrderId), saleOrderItemToDelete.id);
+      handleSave();
+    }
+  };
+
   return (
     <div>
       <div className='flex justify-between'>
         <div style={{ width: '240' }}>
           <Button
+            disabled={!canEdit}
             className='mb-2'
             title='Inserir'
             backgroundColor='#001529'
@@ -109,7 +171,12 @@ export const SaleOrderItemList = () => {
           />
         </div>
       </div>
-      <Table columns={columns} dataSource={saleOrderItems} rowKey='id' />
+      <Table
+        columns={columns}
+        dataSource={saleOrderItems}
+        rowKey='id'
+        exportFileName='itens-venda'
+      />
       <Modal
         isModalOpen={isModalOpen}
         title='Produto'
@@ -119,9 +186,15 @@ export const SaleOrderItemList = () => {
         <SaleOrderItemDetails
           onCancel={handleCancel}
           saleOrderItemId={saleOrderItemId}
-          onSave={loadSaleOrderItems}
+          onSave={handleSave}
         />
       </Modal>
+      <ConfirmDeleteModal
+        isModalOpen={!!saleOrderItemToDelete}
+        description={`Deseja deletar o item ${saleOrderItemToDelete?.product?.name} - ${saleOrderItemToDelete?.productVariation?.name}?`}
+        onConfirm={handleDeleteSaleOrderItem}
+        onClose={() => setSaleOrderItemToDelete(undefined)}
+      />
     </div>
   );
 };
@@ -1,11 +1,13 @@
 import { RouteObject } from 'react-router-dom';
 
 import { SaleOrderDetails } from './screens/SaleOrderDetails';
+import { SaleOrderImport } from './screens/SaleOrderImport';
 import { SaleOrderList } from './screens/SaleOrderList';
 
 export enum SaleOrderRoutesEnum {
   SALE_ORDERS = '/sale-orders',
   SALE_ORDER_INSERT = '/sale-orders/insert',
+  SALE_ORDER_IMPORT = '/sale-orders/import',
   SALE_ORDER_EDIT = '/sale-orders/:saleOrderId',
 }
 
@@ -18,6 +20,10 @@ export const saleOrderRoutes: RouteObject[] = [
     path: SaleOrderRoutesEnum.SALE_ORDER_INSERT,
     element: <SaleOrderDetails />,
   },
+  {
+    path: SaleOrderRoutesEnum.SALE_ORDER_IMPORT,
+    element: <SaleOrderImport />,
+  },
   {
     path: SaleOrderRoutesEnum.SALE_ORDER_EDIT,
     element: <SaleOrderDetails />,
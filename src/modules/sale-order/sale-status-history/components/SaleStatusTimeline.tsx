@@ -0,0 +1,40 @@
+import { Timeline } from 'antd';
+import { format } from 'date-fns';
+
+import { ISaleStatusHistory } from '../interfaces/SaleStatusHistoryInterface';
+
+interface SaleStatusTimelineProps {
+  history: ISaleStatusHistory[];
+}
+
+// da criação da venda até o status atual, que fica destacado no fim
+export const SaleStatusTimeline = ({ history }: SaleStatusTimelineProps) => {
+  if (history.length === 0) {
+    return (
+      <p className='text-gray-500'>Nenhuma mudança de status registrada.</p>
+    );
+  }
+
+  const sortedHistory = [...history].sort((a, b) =>
+    a.createdAt.localeCompare(b.createdAt),
+  );
+
+  return (
+    <Timeline
+      items={sortedHistory.map((entry, index) => ({
+        key: entry.id,
+        color: index === sortedHistory.length - 1 ? 'green' : 'gray',
+        children: (
+          <div>
+            <p className='font-medium'>{entry.status.name}</p>
+            <p className='text-gray-500'>
+              {format(new Date(entry.createdAt), 'dd/MM/yyyy HH:mm')}
+              {entry.user &&
+                ` por ${entry.user.name ?? entry.user.email ?? entry.user.id}`}
+            </p>
+          </div>
+        ),
+      }))}
+    />
+  );
+};
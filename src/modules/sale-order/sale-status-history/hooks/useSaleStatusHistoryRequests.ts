@@ -0,0 +1,35 @@
+import {
+  URL_SALE_STATUS_HISTORY,
+  URL_SALE_STATUS_HISTORY_ID,
+} from '../../../../shared/constants/urls';
+import { createResourceHook } from '../../../../shared/hooks/createResourceHook';
+import { ISaleStatusHistoryInsert } from '../interfaces/SaleStatusHistoryInsertInterface';
+import { ISaleStatusHistory } from '../interfaces/SaleStatusHistoryInterface';
+
+const useSaleStatusHistoryResource = createResourceHook<
+  ISaleStatusHistory,
+  ISaleStatusHistoryInsert
+>({
+  url: URL_SALE_STATUS_HISTORY,
+  urlId: URL_SALE_STATUS_HISTORY_ID,
+  messages: {
+    singular: 'o histórico de status da venda',
+    plural: 'os históricos de status da venda',
+    deleted: 'Histórico deletado com sucesso!',
+    referenced: 'O histórico não pode ser deletado',
+  },
+});
+
+const useSaleStatusHistoryRequests = () => {
+  const { list, create } = useSaleStatusHistoryResource();
+
+  return {
+    getSaleStatusHistory: (saleOrderId: number) => list({ saleOrderId }),
+    createSaleStatusHistory: (
+      saleOrderId: number,
+      history: ISaleStatusHistoryInsert,
+    ) => create(history, { saleOrderId }),
+  };
+};
+
+export default useSaleStatusHistoryRequests;
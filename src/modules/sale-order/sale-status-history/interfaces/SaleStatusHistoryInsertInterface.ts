@@ -0,0 +1,5 @@
+export interface ISaleStatusHistoryInsert {
+  statusId: number;
+  previousStatusId?: number;
+  userId?: string;
+}
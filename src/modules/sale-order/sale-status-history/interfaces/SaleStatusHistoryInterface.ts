@@ -0,0 +1,11 @@
+import { IUser } from '../../../../shared/interfaces/UserInterface';
+import { ISaleStatus } from '../../sale-status/interfaces/SaleStatusInterface';
+
+export interface ISaleStatusHistory {
+  id: number;
+  status: ISaleStatus;
+  // vazio na entrada criada junto com a venda
+  previousStatus?: ISaleStatus;
+  user?: Pick<IUser, 'id' | 'name' | 'email'>;
+  createdAt: string;
+}
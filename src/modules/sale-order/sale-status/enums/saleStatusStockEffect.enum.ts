@@ -0,0 +1,5 @@
+// o que acontece com os itens de estoque vinculados quando a venda entra no status
+export enum SaleStatusStockEffectEnum {
+  SELL = 'sell',
+  RELEASE = 'release',
+}
@@ -0,0 +1,9 @@
+import { SaleStatusStockEffectEnum } from '../enums/saleStatusStockEffect.enum';
+
+export const SALE_STATUS_STOCK_EFFECT_LABELS: Record<
+  SaleStatusStockEffectEnum,
+  string
+> = {
+  [SaleStatusStockEffectEnum.SELL]: 'Marcar como vendidos',
+  [SaleStatusStockEffectEnum.RELEASE]: 'Devolver ao estoque disponível',
+};
@@ -1,57 +1,34 @@
-import toast from 'react-hot-toast';
-
 import {
   URL_SALE_STATUS,
   URL_SALE_STATUS_ID,
 } from '../../../../shared/constants/urls';
-import { MethodsEnum } from '../../../../shared/enums/methods.enum';
-import { useRequests } from '../../../../shared/hooks/useRequests';
+import { createResourceHook } from '../../../../shared/hooks/createResourceHook';
 import { ISaleStatusInsert } from '../interfaces/SaleStatusInsertInterface';
 import { ISaleStatus } from '../interfaces/SaleStatusInterface';
 
-const useSaleStatusRequests = () => {
-  const { request } = useRequests();
-
-  const getSaleStatus = async () => {
-    const response = await request<ISaleStatus[]>(
-      URL_SALE_STATUS,
-      MethodsEnum.GET,
-    );
-
-    if (response) {
-      return response;
-    }
-    return [];
-  };
+const useSaleStatusResource = createResourceHook<
+  ISaleStatus,
+  ISaleStatusInsert
+>({
+  url: URL_SALE_STATUS,
+  urlId: URL_SALE_STATUS_ID,
+  messages: {
+    singular: 'o status da venda',
+    plural: 'os status da venda',
+    deleted: 'Status deletado com sucesso!',
+    referenced: 'O status não pode ser deletado pois está vinculado a vendas',
+  },
+});
 
-  const getSaleStatusById = async (id: number) => {
-    try {
-      const response = await request<ISaleStatus>(
-        URL_SALE_STATUS_ID.replace('{saleStatusId}', id.toString()),
-        MethodsEnum.GET,
-      );
-      return response;
-    } catch (error) {
-      toast.error('Erro ao buscar o status da venda');
-      throw new Error(`Erro ao buscar o status da venda: ${error}`);
-    }
-  };
-
-  const saveSaleStatus = async (saleStatus: ISaleStatusInsert, id?: string) => {
-    const url = id
-      ? URL_SALE_STATUS_ID.replace('{saleStatusId}', id)
-      : URL_SALE_STATUS;
-    const method = id ? MethodsEnum.PATCH : MethodsEnum.POST;
+const useSaleStatusRequests = () => {
+  const { list, getById, save, remove } = useSaleStatusResource();
 
-    try {
-      const response = await request<ISaleStatus>(url, method, saleStatus);
-      return response;
-    } catch (error) {
-      throw new Error(`Erro ao salvar o status da venda: ${error}`);
-    }
+  return {
+    getSaleStatus: () => list(),
+    getSaleStatusById: getById,
+    saveSaleStatus: save,
+    deleteSaleStatus: remove,
   };
-
-  return { getSaleStatus, getSaleStatusById, saveSaleStatus };
 };
 
 export default useSaleStatusRequests;
@@ -1,3 +1,8 @@
+import { SaleStatusStockEffectEnum } from '../enums/saleStatusStockEffect.enum';
+
 export interface ISaleStatusInsert {
   name: string;
+  nextStatusIds?: number[];
+  saleOrderItemStatusId?: number;
+  stockEffect?: SaleStatusStockEffectEnum;
 }
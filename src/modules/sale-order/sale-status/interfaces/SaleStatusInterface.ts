@@ -1,4 +1,10 @@
+import { SaleStatusStockEffectEnum } from '../enums/saleStatusStockEffect.enum';
+
 export interface ISaleStatus {
   id: number;
   name: string;
+  nextStatusIds?: number[];
+  // status aplicado a todos os itens da venda ao entrar neste status
+  saleOrderItemStatusId?: number;
+  stockEffect?: SaleStatusStockEffectEnum;
 }
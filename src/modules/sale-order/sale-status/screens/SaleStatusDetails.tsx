@@ -1,15 +1,28 @@
 import { zodResolver } from '@hookform/resolvers/zod';
-import { useEffect, useState } from 'react';
+import { useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import toast from 'react-hot-toast';
 import { z } from 'zod';
 
 import { Input } from '../../../../components/input/Input';
+import Select from '../../../../components/select/Select';
+import {
+  URL_SALE_ORDER_ITEM_STATUS,
+  URL_SALE_STATUS,
+  URL_SALE_STATUS_ID,
+} from '../../../../shared/constants/urls';
+import { fillUrlTemplate } from '../../../../shared/functions/url/urlTemplate';
+import { useQuery } from '../../../../shared/hooks/useQuery';
+import useSaleOrderItemStatusRequests from '../../sale-order-item/sale-order-item-status/hooks/useSaleOrderItemStatusRequests';
+import { SaleStatusStockEffectEnum } from '../enums/saleStatusStockEffect.enum';
+import { SALE_STATUS_STOCK_EFFECT_LABELS } from '../functions/saleStatusWorkflow';
 import useSaleStatusRequests from '../hooks/useSaleStatusRequests';
-import { ISaleStatus } from '../interfaces/SaleStatusInterface';
 
 const schema = z.object({
   name: z.string().min(1, 'O campo nome é obrigatório'),
+  nextStatusIds: z.array(z.string()),
+  saleOrderItemStatusId: z.string(),
+  stockEffect: z.string(),
 });
 
 type FormData = z.infer<typeof schema>;
@@ -25,8 +38,14 @@ export const SaleStatusDetails = ({
   saleStatusId,
   onSave,
 }: SaleStatusDetailsProps) => {
-  const [, setSaleStatus] = useState<ISaleStatus>();
-  const { getSaleStatusById, saveSaleStatus } = useSaleStatusRequests();
+  const { getSaleStatus, getSaleStatusById, saveSaleStatus } =
+    useSaleStatusRequests();
+  const { data: saleStatus = [] } = useQuery(URL_SALE_STATUS, getSaleStatus);
+  const { getSaleOrderItemStatus } = useSaleOrderItemStatusRequests();
+  const { data: saleOrderItemStatus = [] } = useQuery(
+    URL_SALE_ORDER_ITEM_STATUS,
+    getSaleOrderItemStatus,
+  );
 
   const {
     register,
@@ -37,33 +56,45 @@ export const SaleStatusDetails = ({
   } = useForm<FormData>({
     resolver: zodResolver(schema),
     mode: 'onChange',
+    defaultValues: {
+      nextStatusIds: [],
+      saleOrderItemStatusId: '',
+      stockEffect: '',
+    },
   });
 
-  useEffect(() => {
-    const loadSaleStatus = async (id: number) => {
-      getSaleStatusById(id)
-        .then((saleStatusLoaded) => {
-          if (saleStatusLoaded) {
-            setSaleStatus(saleStatusLoaded);
-            setValue('name', saleStatusLoaded.name);
-          }
-        })
-        .catch((error) => {
-          throw new Error(
-            `Erro ao buscar o status de ordem de venda: ${error}`,
-          );
-        });
-    };
+  const { data: saleStatusLoaded } = useQuery(
+    saleStatusId
+      ? fillUrlTemplate(URL_SALE_STATUS_ID, { saleStatusId })
+      : undefined,
+    () => getSaleStatusById(saleStatusId as number),
+  );
 
-    if (saleStatusId) {
-      loadSaleStatus(saleStatusId);
+  useEffect(() => {
+    if (saleStatusLoaded) {
+      setValue('name', saleStatusLoaded.name);
+      setValue(
+        'nextStatusIds',
+        (saleStatusLoaded.nextStatusIds ?? []).map(String),
+      );
+      setValue(
+        'saleOrderItemStatusId',
+        saleStatusLoaded.saleOrderItemStatusId?.toString() ?? '',
+      );
+      setValue('stockEffect', saleStatusLoaded.stockEffect ?? '');
     }
-  }, [getSaleStatusById, saleStatusId, setValue]);
+  }, [saleStatusLoaded, setValue]);
 
   function onSubmit(data: FormData) {
     saveSaleStatus(
       {
         name: data.name,
+        nextStatusIds: data.nextStatusIds.map(Number),
+        saleOrderItemStatusId: data.saleOrderItemStatusId
+          ? parseInt(data.saleOrderItemStatusId)
+          : undefined,
+        stockEffect:
+          (data.stockEffect as SaleStatusStockEffectEnum) || undefined,
       },
       saleStatusId ? saleStatusId.toString() : undefined,
     )
@@ -79,7 +110,6 @@ export const SaleStatusDetails = ({
   }
 
   const handleCancel = () => {
-    setSaleStatus(undefined);
     reset();
     onCancel();
   };
@@ -100,6 +130,53 @@ export const SaleStatusDetails = ({
               <p className='my-1 text-red-500'>{errors.name.message}</p>
             )}
           </div>
+          <div className='w-full mb-4'>
+            <p className='mb-2 font-medium'>Pode mudar para</p>
+            {saleStatus
+              .filter((status) => status.id !== saleStatusId)
+              .map((status) => (
+                <label
+                  key={status.id}
+                  className='mr-4 inline-flex items-center gap-1'
+                >
+                  <input
+                    type='checkbox'
+                    value={status.id.toString()}
+                    {...register('nextStatusIds')}
+                  />
+                  {status.name}
+                </label>
+              ))}
+            <p className='mt-1 text-gray-500'>
+              Nenhum marcado: status final, a venda não sai dele.
+            </p>
+          </div>
+          <div className='w-full mb-4'>
+            <Select
+              className='w-full border-2 rounded-md px-2'
+              title='Status dos itens ao entrar neste status'
+              name='saleOrderItemStatusId'
+              options={saleOrderItemStatus.map((status) => ({
+                value: status.id.toString(),
+                label: status.name,
+              }))}
+              register={register}
+            />
+          </div>
+          <div className='w-full mb-4'>
+            <Select
+              className='w-full border-2 rounded-md px-2'
+              title='Itens de estoque vinculados'
+              name='stockEffect'
+              options={Object.values(SaleStatusStockEffectEnum).map(
+                (stockEffect) => ({
+                  value: stockEffect,
+                  label: SALE_STATUS_STOCK_EFFECT_LABELS[stockEffect],
+                }),
+              )}
+              register={register}
+            />
+          </div>
           <div className='w-96 flex flex-row float-end'>
             <button
               className='w-full ml-2 rounded-md border-2 border-solid '
@@ -1,20 +1,34 @@
 import { DeleteOutlined, EditOutlined } from '@ant-design/icons';
+import { Tag } from 'antd';
 import { ColumnsType } from 'antd/es/table';
 import { useEffect, useMemo, useState } from 'react';
 
 import Button from '../../../../components/button/Button';
+import ConfirmDeleteModal from '../../../../components/modal/ConfirmDeleteModal';
 import Modal from '../../../../components/modal/Modal';
 import Table from '../../../../components/table/Table';
+import { URL_SALE_ORDER_ITEM_STATUS } from '../../../../shared/constants/urls';
+import { usePermission } from '../../../../shared/hooks/usePermission';
+import { useQuery } from '../../../../shared/hooks/useQuery';
+import useSaleOrderItemStatusRequests from '../../sale-order-item/sale-order-item-status/hooks/useSaleOrderItemStatusRequests';
+import { SALE_STATUS_STOCK_EFFECT_LABELS } from '../functions/saleStatusWorkflow';
 import useSaleStatusRequests from '../hooks/useSaleStatusRequests';
 import { ISaleStatus } from '../interfaces/SaleStatusInterface';
 
 import { SaleStatusDetails } from './SaleStatusDetails';
 
 export const SaleStatusList = () => {
-  const { getSaleStatus } = useSaleStatusRequests();
+  const { canEdit } = usePermission('statuses');
+  const { getSaleStatus, deleteSaleStatus } = useSaleStatusRequests();
+  const [saleStatusToDelete, setSaleStatusToDelete] = useState<ISaleStatus>();
 
   const [saleStatus, setSaleStatus] = useState<ISaleStatus[]>([]);
   const [saleStatusId, setSaleStatusId] = useState<number>();
+  const { getSaleOrderItemStatus } = useSaleOrderItemStatusRequests();
+  const { data: saleOrderItemStatus = [] } = useQuery(
+    URL_SALE_ORDER_ITEM_STATUS,
+    getSaleOrderItemStatus,
+  );
 
   const [isModalOpen, setIsModalOpen] = useState(false);
 
@@ -38,6 +52,39 @@ export const SaleStatusList = () => {
         sorter: (a, b) => a.name.localeCompare(b.name),
         render: (text) => <a>{text}</a>,
       },
+      {
+        title: 'Pode mudar para',
+        dataIndex: 'nextStatusIds',
+        key: 'nextStatusIds',
+        render: (_, status) =>
+          !status.nextStatusIds
+            ? 'Qualquer status'
+            : status.nextStatusIds.length === 0
+              ? 'Status final'
+              : status.nextStatusIds.map((nextStatusId) => (
+                  <Tag key={nextStatusId}>
+                    {saleStatus.find(({ id }) => id === nextStatusId)?.name ??
+                      nextStatusId}
+                  </Tag>
+                )),
+      },
+      {
+        title: 'Status dos itens',
+        dataIndex: 'saleOrderItemStatusId',
+        key: 'saleOrderItemStatusId',
+        render: (saleOrderItemStatusId) =>
+          saleOrderItemStatus.find(({ id }) => id === saleOrderItemStatusId)
+            ?.name ?? '-',
+      },
+      {
+        title: 'Estoque',
+        dataIndex: 'stockEffect',
+        key: 'stockEffect',
+        render: (_, status) =>
+          status.stockEffect
+            ? SALE_STATUS_STOCK_EFFECT_LABELS[status.stockEffect]
+            : '-',
+      },
       {
         title: 'Ações',
         dataIndex: '',
@@ -46,20 +93,26 @@ export const SaleStatusList = () => {
         render: (_, saleStatus) => (
           <div style={{ width: '180px', display: 'flex' }}>
             <Button
+              disabled={!canEdit}
               margin='0px 16px 0px 0px'
               onClick={() => handleEditSaleStatus(saleStatus)}
               icon={<EditOutlined />}
             >
               Editar
             </Button>
-            <Button danger onClick={() => {}} icon={<DeleteOutlined />}>
+            <Button
+              disabled={!canEdit}
+              danger
+              onClick={() => setSaleStatusToDelete(saleStatus)}
+              icon={<DeleteOutlined />}
+            >
               Deletar
             </Button>
           </div>
         ),
       },
     ],
-    [],
+    [canEdit, saleStatus, saleOrderItemStatus],
   );
 
   const handleEditSaleStatus = (saleStatus: ISaleStatus) => {
@@ -81,11 +134,19 @@ export const SaleStatusList = () => {
     }
   };
 
+  const handleDeleteSaleStatus = async () => {
+    if (saleStatusToDelete) {
+      await deleteSaleStatus(saleStatusToDelete.id);
+      loadSaleStatus();
+    }
+  };
+
   return (
     <div>
       <div className='flex justify-between'>
         <div style={{ width: '240' }}>
           <Button
+            disabled={!canEdit}
             className='mb-2'
             title='Inserir'
             backgroundColor='#001529'
@@ -94,7 +155,12 @@ export const SaleStatusList = () => {
           />
         </div>
       </div>
-      <Table columns={columns} dataSource={saleStatus} rowKey='id' />
+      <Table
+        columns={columns}
+        dataSource={saleStatus}
+        rowKey='id'
+        exportFileName='status-venda'
+      />
       <Modal
         isModalOpen={isModalOpen}
         title='Status de Venda'
@@ -107,6 +173,12 @@ export const SaleStatusList = () => {
           onSave={loadSaleStatus}
         />
       </Modal>
+      <ConfirmDeleteModal
+        isModalOpen={!!saleStatusToDelete}
+        description={`Deseja deletar o status ${saleStatusToDelete?.name}?`}
+        onConfirm={handleDeleteSaleStatus}
+        onClose={() => setSaleStatusToDelete(undefined)}
+      />
     </div>
   );
 };
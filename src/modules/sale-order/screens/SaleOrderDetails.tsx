@@ -1,6 +1,6 @@
 import { zodResolver } from '@hookform/resolvers/zod';
 import { Divider } from 'antd';
-import { useCallback, useEffect, useState } from 'react';
+import { useContext, useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import toast from 'react-hot-toast';
 import { useNavigate, useParams } from 'react-router-dom';
@@ -8,14 +8,35 @@ import { z } from 'zod';
 
 import { Input } from '../../../components/input/Input';
 import Select from '../../../components/select/Select';
+import { AuthContext } from '../../../contexts/authContext';
+import {
+  URL_PLATFORMS,
+  URL_SALE_STATUS,
+  URL_SALE_STATUS_HISTORY,
+} from '../../../shared/constants/urls';
+import { fillUrlTemplate } from '../../../shared/functions/url/urlTemplate';
+import {
+  canTransition,
+  getAllowedStatuses,
+} from '../../../shared/functions/workflow/statusWorkflow';
+import { usePendingStatusChange } from '../../../shared/functions/workflow/usePendingStatusChange';
+import { usePermission } from '../../../shared/hooks/usePermission';
+import { useQuery } from '../../../shared/hooks/useQuery';
 import usePlatformRequests from '../../platform/hooks/usePlatformRequests';
-import { IPlatform } from '../../platform/interfaces/PlatformInterface';
+import useStockItemRequests from '../../stock-item/hooks/useStockItemRequests';
+import { StockItemStatusRoleEnum } from '../../stock-item/stock-item-status/enums/stockItemStatusRole.enum';
+import SaleOrderProfitBreakdown from '../components/SaleOrderProfitBreakdown';
 import useSaleOrderRequests from '../hooks/useSaleOrderRequests';
 import { ISaleOrder } from '../interfaces/SaleOrderInterface';
+import useSaleOrderItemRequests from '../sale-order-item/hooks/useSaleOrderItemRequests';
+import { ISaleOrderItem } from '../sale-order-item/interfaces/SaleOrderItemInterface';
 import { SaleOrderItemList } from '../sale-order-item/screens/SaleOrderItemList';
 import { SaleOrderRoutesEnum } from '../sale-orders.routes';
+import { SaleStatusStockEffectEnum } from '../sale-status/enums/saleStatusStockEffect.enum';
 import useSaleStatusRequests from '../sale-status/hooks/useSaleStatusRequests';
 import { ISaleStatus } from '../sale-status/interfaces/SaleStatusInterface';
+import { SaleStatusTimeline } from '../sale-status-history/components/SaleStatusTimeline';
+import useSaleStatusHistoryRequests from '../sale-status-history/hooks/useSaleStatusHistoryRequests';
 
 const schema = z.object({
   // verifica se a data é do tipo string, se tem 10 caracteres, se o formato é dd/mm/yyyy e se a data é menor ou igual a data atual
@@ -47,16 +68,50 @@ const schema = z.object({
 
 type FormData = z.infer<typeof schema>;
 
+// mudança de status salva na venda; vai para a linha do tempo depois que os efeitos terminam
+interface ISaleStatusChange {
+  statusId: number;
+  previousStatusId?: number;
+}
+
 export const SaleOrderDetails = () => {
+  const { canEdit } = usePermission('saleOrders');
   const { saleOrderId } = useParams();
-  const [, setSaleOrder] = useState<ISaleOrder>();
+  const [saleOrder, setSaleOrder] = useState<ISaleOrder>();
+  const [profitRefreshKey, setProfitRefreshKey] = useState(0);
+  const [itemsRefreshKey, setItemsRefreshKey] = useState(0);
   const { getSaleOrderById, saveSaleOrder } = useSaleOrderRequests();
+  const { getSaleOrderItems, saveSaleOrderItem } = useSaleOrderItemRequests();
+  const {
+    getStockItems,
+    getStockItemStatusId,
+    updateStockItem,
+    releaseStockItem,
+  } = useStockItemRequests();
+  const { getSaleStatusHistory, createSaleStatusHistory } =
+    useSaleStatusHistoryRequests();
+  const { user } = useContext(AuthContext);
 
-  const [platforms, setPlatforms] = useState<IPlatform[]>([]);
   const { getPlatforms } = usePlatformRequests();
+  const { data: platforms = [], isLoading: isLoadingPlatforms } = useQuery(
+    URL_PLATFORMS,
+    getPlatforms,
+  );
 
-  const [saleStatus, setSaleStatus] = useState<ISaleStatus[]>([]);
   const { getSaleStatus } = useSaleStatusRequests();
+  const { data: saleStatus = [], isLoading: isLoadingSaleStatus } = useQuery(
+    URL_SALE_STATUS,
+    getSaleStatus,
+  );
+
+  // a venda só é carregada depois das opções dos selects para que os valores possam ser selecionados
+  const isReferenceDataLoaded = !isLoadingPlatforms && !isLoadingSaleStatus;
+
+  // na edição só aparecem o status atual e os que podem vir depois dele
+  const allowedSaleStatus = getAllowedStatuses(
+    saleStatus,
+    saleOrder?.status?.id,
+  );
 
   const navigate = useNavigate();
 
@@ -70,22 +125,10 @@ export const SaleOrderDetails = () => {
     mode: 'onChange',
   });
 
-  const memoizedGetPlatforms = useCallback(getPlatforms, [getPlatforms]);
-  const memoizedGetSaleOrderById = useCallback(getSaleOrderById, [
-    getSaleOrderById,
-  ]);
-  const memoizedGetSaleStatus = useCallback(getSaleStatus, [getSaleStatus]);
-
   useEffect(() => {
     const fetchData = async () => {
-      const platformsData = await memoizedGetPlatforms();
-      setPlatforms(platformsData);
-      const saleStatusData = await memoizedGetSaleStatus();
-      setSaleStatus(saleStatusData);
-      if (saleOrderId) {
-        const saleOrderData = await memoizedGetSaleOrderById(
-          parseInt(saleOrderId),
-        );
+      if (saleOrderId && isReferenceDataLoaded) {
+        const saleOrderData = await getSaleOrderById(parseInt(saleOrderId));
         setSaleOrder(saleOrderData);
         if (saleOrderData?.date) {
           setValue('date', saleOrderData.date.toString());
@@ -114,45 +157,176 @@ export const SaleOrderDetails = () => {
       }
     };
     fetchData();
-  }, [
-    memoizedGetSaleOrderById,
-    memoizedGetPlatforms,
-    memoizedGetSaleStatus,
-    saleOrderId,
-    setValue,
-  ]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [saleOrderId, isReferenceDataLoaded]);
+
+  // a criação de uma entrada invalida a lista, que recarrega sozinha
+  const { data: statusHistory = [] } = useQuery(
+    saleOrderId
+      ? fillUrlTemplate(URL_SALE_STATUS_HISTORY, { saleOrderId })
+      : undefined,
+    () => getSaleStatusHistory(Number(saleOrderId)),
+  );
+
+  // leva o novo status da venda para os itens e para os itens de estoque vinculados a eles;
+  // cada atualização é independente e as que falham são devolvidas para o aviso
+  const cascadeStatusChange = async (id: number, status: ISaleStatus) => {
+    const saleOrderItems = (await getSaleOrderItems(id)) ?? [];
+    const describeItem = (saleOrderItem?: ISaleOrderItem) =>
+      saleOrderItem
+        ? `${saleOrderItem.product.name} - ${saleOrderItem.productVariation.name}`
+        : 'item sem vínculo';
+    const failures: string[] = [];
+
+    const { saleOrderItemStatusId } = status;
+    if (saleOrderItemStatusId) {
+      const itemsToUpdate = saleOrderItems.filter(
+        ({ saleOrderItemStatus }) =>
+          saleOrderItemStatus.id !== saleOrderItemStatusId,
+      );
+      for (const saleOrderItem of itemsToUpdate) {
+        try {
+          await saveSaleOrderItem(
+            {
+              productId: saleOrderItem.product.id,
+              productVariationId: saleOrderItem.productVariation.id ?? 0,
+              saleOrderItemStatusId,
+              price: saleOrderItem.price,
+            },
+            id.toString(),
+            saleOrderItem.id.toString(),
+          );
+        } catch {
+          failures.push(describeItem(saleOrderItem));
+        }
+      }
+    }
+
+    if (status.stockEffect) {
+      const saleOrderItemsById = new Map(
+        saleOrderItems.map((saleOrderItem) => [
+          saleOrderItem.id,
+          saleOrderItem,
+        ]),
+      );
+      const linkedStockItems = (await getStockItems()).filter(
+        ({ saleOrderItemId }) =>
+          saleOrderItemId && saleOrderItemsById.has(saleOrderItemId),
+      );
+      const soldStatusId =
+        status.stockEffect === SaleStatusStockEffectEnum.SELL
+          ? await getStockItemStatusId(StockItemStatusRoleEnum.SOLD)
+          : undefined;
+      for (const stockItem of linkedStockItems) {
+        try {
+          if (status.stockEffect === SaleStatusStockEffectEnum.RELEASE) {
+            await releaseStockItem(stockItem.id);
+          } else if (stockItem.stockItemStatusId !== soldStatusId) {
+            await updateStockItem(stockItem.id, {
+              stockItemStatusId: soldStatusId,
+            });
+          }
+        } catch {
+          const saleOrderItem = saleOrderItemsById.get(
+            stockItem.saleOrderItemId ?? 0,
+          );
+          failures.push(
+            `${describeItem(saleOrderItem)} (estoque ${stockItem.identifier ?? stockItem.id})`,
+          );
+        }
+      }
+    }
+
+    return failures;
+  };
+
+  // devolve os itens em que o novo status não pôde ser aplicado
+  const applyStatusEffects = async (
+    id: number,
+    statusChange: ISaleStatusChange,
+  ) => {
+    const status = saleStatus.find(
+      ({ id: saleStatusId }) => saleStatusId === statusChange.statusId,
+    );
+    const failures = status ? await cascadeStatusChange(id, status) : [];
+    if (failures.length > 0) {
+      return `Erro ao aplicar o status da venda em: ${failures.join(', ')}`;
+    }
+  };
+
+  const { pendingStatusChange, applyStatusChange, reapplyStatusChange } =
+    usePendingStatusChange<ISaleStatusChange>({
+      scope: 'sale-order',
+      orderId: saleOrderId ? parseInt(saleOrderId) : undefined,
+      applyEffects: applyStatusEffects,
+      createHistory: (id, statusChange) =>
+        createSaleStatusHistory(id, {
+          ...statusChange,
+          userId: user?.id,
+        }),
+      errorMessage: 'Erro ao aplicar a mudança de status nos itens da venda',
+    });
+
+  const handleReapplyStatusChange = async () => {
+    await reapplyStatusChange();
+    setItemsRefreshKey((key) => key + 1);
+  };
 
   // aplica mascara ao campo date e
 
-  function onSubmit(data: FormData) {
+  async function onSubmit(data: FormData) {
     const dateFormatted = data.date.split('/').reverse().join('-');
-    saveSaleOrder(
+    const statusId = parseInt(data.statusId);
+    // as transições vêm do cadastro de status, não do status embutido na venda
+    const previousStatus = saleStatus.find(
+      ({ id }) => id === saleOrder?.status?.id,
+    );
+
+    if (!canTransition(previousStatus, statusId)) {
+      toast.error(
+        `A venda não pode passar de ${previousStatus?.name} para este status.`,
+      );
+      return;
+    }
+
+    const savedSaleOrder = await saveSaleOrder(
       {
         date: dateFormatted,
         platformId: parseInt(data.platformId),
         orderNumber: data.orderNumber || undefined,
         trackingCode: data.trackingCode || undefined,
-        statusId: parseInt(data.statusId),
+        statusId,
         discount: data.discount || undefined,
         shippingCost: data.shippingCost || undefined,
       },
       saleOrderId ? saleOrderId.toString() : undefined,
-    )
-      .then((saleOrder: ISaleOrder | undefined | Error) => {
-        if (saleOrder && saleOrderId === undefined) {
-          navigate(
-            SaleOrderRoutesEnum.SALE_ORDER_EDIT.replace(
-              ':saleOrderId',
-              (saleOrder as ISaleOrder).id.toString(),
-            ),
-          );
-        }
-        toast.success('Venda salva com sucesso!');
-      })
-      .catch((error) => {
-        toast.error('Erro ao salvar a venda.');
-        throw error;
+    );
+
+    if (!savedSaleOrder || savedSaleOrder instanceof Error) {
+      toast.error('Erro ao salvar a venda.');
+      return;
+    }
+    toast.success('Venda salva com sucesso!');
+
+    const id = saleOrderId ? parseInt(saleOrderId) : savedSaleOrder.id;
+    if (previousStatus?.id !== statusId) {
+      await applyStatusChange(id, {
+        statusId,
+        previousStatusId: previousStatus?.id,
       });
+    }
+
+    if (saleOrderId === undefined) {
+      navigate(
+        SaleOrderRoutesEnum.SALE_ORDER_EDIT.replace(
+          ':saleOrderId',
+          id.toString(),
+        ),
+      );
+      return;
+    }
+    setSaleOrder(await getSaleOrderById(id));
+    setItemsRefreshKey((key) => key + 1);
   }
 
   return (
@@ -240,7 +414,7 @@ export const SaleOrderDetails = () => {
               className='w-full border-2 rounded-md mb-4 px-2'
               title='Status'
               name='statusId'
-              options={saleStatus.map((status) => ({
+              options={allowedSaleStatus.map((status) => ({
                 value: status.id ? status.id.toString() : '',
                 label: status.name,
               }))}
@@ -265,6 +439,7 @@ export const SaleOrderDetails = () => {
               type='submit'
               style={{ backgroundColor: '#001529' }}
               color='white'
+              disabled={!canEdit}
             >
               {saleOrderId ? 'Editar' : 'Inserir'}
             </button>
@@ -274,7 +449,40 @@ export const SaleOrderDetails = () => {
       {saleOrderId && (
         <div>
           <Divider />
-          <SaleOrderItemList />
+          <SaleOrderItemList
+            onChange={() => setProfitRefreshKey((key) => key + 1)}
+            refreshKey={itemsRefreshKey}
+          />
+          <Divider />
+          <h2 className='mb-4 font-medium'>Linha do tempo</h2>
+          {pendingStatusChange && (
+            <div className='w-full mb-4 flex items-center gap-2'>
+              <p className='text-red-500'>
+                O último status não foi aplicado em todos os itens e a mudança
+                ainda não está na linha do tempo.
+              </p>
+              <button
+                className='px-4 rounded-md text-white'
+                type='button'
+                style={{ backgroundColor: '#001529' }}
+                color='white'
+                disabled={!canEdit}
+                onClick={handleReapplyStatusChange}
+              >
+                Reaplicar
+              </button>
+            </div>
+          )}
+          <SaleStatusTimeline history={statusHistory} />
+        </div>
+      )}
+      {saleOrder && (
+        <div>
+          <Divider />
+          <SaleOrderProfitBreakdown
+            saleOrder={saleOrder}
+            refreshKey={profitRefreshKey}
+          />
         </div>
       )}
     </div>
@@ -0,0 +1,534 @@
+import { Alert, Select, Steps, Tag } from 'antd';
+import { ColumnsType } from 'antd/es/table';
+import { ChangeEvent, useEffect, useMemo, useState } from 'react';
+import toast from 'react-hot-toast';
+import { useNavigate } from 'react-router-dom';
+
+/* eslint-disable react-hooks/exhaustive-deps */
+
+import Button from '../../../components/button/Button';
+import Table from '../../../components/table/Table';
+import { URL_SKU_MAPPINGS } from '../../../shared/constants/urls';
+import { parseCsv } from '../../../shared/functions/csv/csv';
+import { normalizeName } from '../../../shared/functions/text/normalizeName';
+import { useQuery } from '../../../shared/hooks/useQuery';
+import useIntegrationProductSupplierErpRequests from '../../integration-product-supplier-erp/hooks/useIntegrationProductSupplierErpRequests';
+import { IIntegrationProductSupplier } from '../../integration-product-supplier-erp/interfaces/IntegrationProductSupplierErpInterface';
+import usePlatformRequests from '../../platform/hooks/usePlatformRequests';
+import { IPlatform } from '../../platform/interfaces/PlatformInterface';
+import useProductRequests from '../../product/hooks/useProductRequests';
+import { IProduct } from '../../product/interfaces/ProductInterface';
+import SkuMappingForm from '../components/SkuMappingForm';
+import {
+  findSkuMapping,
+  getImportFormatForPlatform,
+  groupSkuMappings,
+  ISaleOrderImportOrder,
+  ISkuTarget,
+  parseSaleOrderReport,
+  SALE_ORDER_IMPORT_FORMATS,
+  SaleOrderImportStatus,
+} from '../functions/saleOrderImport';
+import useSaleOrderRequests from '../hooks/useSaleOrderRequests';
+import { ISaleOrder } from '../interfaces/SaleOrderInterface';
+import useSaleOrderItemRequests from '../sale-order-item/hooks/useSaleOrderItemRequests';
+import useSaleOrderItemStatusRequests from '../sale-order-item/sale-order-item-status/hooks/useSaleOrderItemStatusRequests';
+import { ISaleOrderItemStatus } from '../sale-order-item/sale-order-item-status/interfaces/SaleOrderItemStatusInterface';
+import { SaleOrderRoutesEnum } from '../sale-orders.routes';
+import useSaleStatusRequests from '../sale-status/hooks/useSaleStatusRequests';
+import { ISaleStatus } from '../sale-status/interfaces/SaleStatusInterface';
+import useSkuMappingRequests from '../sku-mapping/hooks/useSkuMappingRequests';
+
+enum ImportStepEnum {
+  FILE,
+  PREVIEW,
+  RESULT,
+}
+
+type ImportResultStatus = 'created' | 'skipped' | 'failed';
+
+interface IImportResult {
+  orderNumber: string;
+  status: ImportResultStatus;
+  message: string;
+}
+
+const PREVIEW_STATUS_TAGS: Record<
+  SaleOrderImportStatus,
+  { color: string; label: string }
+> = {
+  new: { color: 'green', label: 'Nova' },
+  duplicate: { color: 'default', label: 'Já importada' },
+  invalid: { color: 'red', label: 'Com erro' },
+};
+
+const RESULT_STATUS_TAGS: Record<
+  ImportResultStatus,
+  { color: string; label: string }
+> = {
+  created: { color: 'green', label: 'Criada' },
+  skipped: { color: 'default', label: 'Ignorada' },
+  failed: { color: 'red', label: 'Falhou' },
+};
+
+export const SaleOrderImport = () => {
+  const navigate = useNavigate();
+  const { getPlatforms } = usePlatformRequests();
+  const { getSaleStatus } = useSaleStatusRequests();
+  const { getSaleOrderItemStatus } = useSaleOrderItemStatusRequests();
+  const { getIntegrationProductSupplierErp } =
+    useIntegrationProductSupplierErpRequests();
+  const { getProducts } = useProductRequests();
+  const { getSaleOrders, saveSaleOrder, deleteSaleOrder } =
+    useSaleOrderRequests();
+  const { saveSaleOrderItem, deleteSaleOrderItem } = useSaleOrderItemRequests();
+  const [step, setStep] = useState(ImportStepEnum.FILE);
+  const [platforms, setPlatforms] = useState<IPlatform[]>([]);
+  const [saleStatus, setSaleStatus] = useState<ISaleStatus[]>([]);
+  const [itemStatus, setItemStatus] = useState<ISaleOrderItemStatus[]>([]);
+  const [integrations, setIntegrations] = useState<
+    IIntegrationProductSupplier[]
+  >([]);
+  const [products, setProducts] = useState<IProduct[]>([]);
+  const [existingOrders, setExistingOrders] = useState<ISaleOrder[]>([]);
+  const [platformId, setPlatformId] = useState<number>();
+  const [formatId, setFormatId] = useState<string>();
+  const [statusId, setStatusId] = useState<number>();
+  const [saleOrderItemStatusId, setSaleOrderItemStatusId] = useState<number>();
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<string[][]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+  const [results, setResults] = useState<IImportResult[]>([]);
+  const { getSkuMappings, saveSkuMapping } = useSkuMappingRequests();
+  // salvar um vínculo invalida a lista, que recarrega sozinha
+  const { data: savedSkuMappings } = useQuery(URL_SKU_MAPPINGS, getSkuMappings);
+  const skuMappings = useMemo(
+    () => groupSkuMappings(savedSkuMappings ?? []),
+    [savedSkuMappings],
+  );
+
+  useEffect(() => {
+    const loadData = async () => {
+      const [
+        platformsResponse,
+        saleStatusResponse,
+        itemStatusResponse,
+        integrationsResponse,
+        productsResponse,
+      ] = await Promise.all([
+        getPlatforms(),
+        getSaleStatus(),
+        getSaleOrderItemStatus(),
+        getIntegrationProductSupplierErp(),
+        getProducts(),
+      ]);
+
+      setPlatforms(platformsResponse);
+      setSaleStatus(saleStatusResponse);
+      setItemStatus(itemStatusResponse);
+      setStatusId(saleStatusResponse[0]?.id);
+      setSaleOrderItemStatusId(itemStatusResponse[0]?.id);
+      setIntegrations(integrationsResponse ?? []);
+      setProducts(productsResponse);
+    };
+
+    loadData();
+  }, []);
+
+  const format = SALE_ORDER_IMPORT_FORMATS.find(({ id }) => id === formatId);
+
+  // erro de formato (colunas obrigatórias ausentes) aparece na conferência em vez de quebrar a tela
+  const { orders, parseError } = useMemo((): {
+    orders: ISaleOrderImportOrder[];
+    parseError?: string;
+  } => {
+    if (
+      !format ||
+      !platformId ||
+      !statusId ||
+      !saleOrderItemStatusId ||
+      rows.length === 0
+    ) {
+      return { orders: [] };
+    }
+
+    try {
+      return {
+        orders: parseSaleOrderReport(rows, format, {
+          platformId,
+          statusId,
+          saleOrderItemStatusId,
+          integrations,
+          skuMappings,
+          existingOrders,
+        }),
+      };
+    } catch (error) {
+      return { orders: [], parseError: (error as Error).message };
+    }
+  }, [
+    rows,
+    format,
+    platformId,
+    statusId,
+    saleOrderItemStatusId,
+    integrations,
+    skuMappings,
+    existingOrders,
+  ]);
+
+  const unmatchedSkus = [
+    ...new Set(orders.flatMap((order) => order.unmatchedSkus)),
+  ];
+  const newOrders = orders.filter((order) => order.status === 'new');
+
+  const handlePlatformChange = (id: number) => {
+    setPlatformId(id);
+    const platform = platforms.find(
+      (currentPlatform) => currentPlatform.id === id,
+    );
+    setFormatId(
+      platform ? getImportFormatForPlatform(platform.name).id : undefined,
+    );
+  };
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) {
+      return;
+    }
+
+    const fileRows = parseCsv(await file.text());
+    if (fileRows.length < 2) {
+      toast.error('O arquivo não possui pedidos para importar');
+      return;
+    }
+
+    // busca na hora para considerar vendas importadas por outra pessoa enquanto a tela estava aberta
+    setExistingOrders(await getSaleOrders());
+    setFileName(file.name);
+    setRows(fileRows);
+    setResults([]);
+    setStep(ImportStepEnum.PREVIEW);
+  };
+
+  const handleSkuMapping = async (sku: string, target: ISkuTarget) => {
+    if (!platformId) {
+      return;
+    }
+
+    try {
+      await saveSkuMapping(
+        { platformId, sku: normalizeName(sku), ...target },
+        findSkuMapping(savedSkuMappings ?? [], platformId, sku)?.id.toString(),
+      );
+    } catch {
+      toast.error(`Erro ao salvar o vínculo do SKU ${sku}`);
+    }
+  };
+
+  const importOrder = async (
+    order: ISaleOrderImportOrder,
+  ): Promise<IImportResult> => {
+    if (order.status === 'duplicate') {
+      return {
+        orderNumber: order.orderNumber,
+        status: 'skipped',
+        message: 'Pedido já importado para esta plataforma',
+      };
+    }
+    if (order.status === 'invalid') {
+      return {
+        orderNumber: order.orderNumber,
+        status: 'failed',
+        message: order.errors.join('; '),
+      };
+    }
+
+    const saleOrder = await saveSaleOrder(order.saleOrder);
+    if (!saleOrder || saleOrder instanceof Error) {
+      return {
+        orderNumber: order.orderNumber,
+        status: 'failed',
+        message: saleOrder?.message ?? 'Erro ao salvar a venda',
+      };
+    }
+
+    const savedItemIds: number[] = [];
+    try {
+      for (const item of order.items) {
+        const savedItem = await saveSaleOrderItem(
+          item,
+          saleOrder.id.toString(),
+        );
+        if (savedItem) {
+          savedItemIds.push(savedItem.id);
+        }
+      }
+    } catch (error) {
+      // desfaz a venda: incompleta, a próxima importação a trataria como já importada
+      try {
+        for (const savedItemId of savedItemIds) {
+          await deleteSaleOrderItem(saleOrder.id, savedItemId, {
+            silent: true,
+          });
+        }
+        await deleteSaleOrder(saleOrder.id, { silent: true });
+      } catch {
+        return {
+          orderNumber: order.orderNumber,
+          status: 'failed',
+          message: `Venda ${saleOrder.id} criada, mas nem todos os itens foram salvos e ela não pôde ser desfeita; exclua-a antes de importar de novo: ${(error as Error).message}`,
+        };
+      }
+      return {
+        orderNumber: order.orderNumber,
+        status: 'failed',
+        message: `Nem todos os itens foram salvos e a venda foi desfeita: ${(error as Error).message}`,
+      };
+    }
+
+    return {
+      orderNumber: order.orderNumber,
+      status: 'created',
+      message: `Venda ${saleOrder.id} criada com ${order.items.length} item(ns)`,
+    };
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      const importResults: IImportResult[] = [];
+      for (const order of orders) {
+        importResults.push(await importOrder(order));
+      }
+
+      setResults(importResults);
+      setStep(ImportStepEnum.RESULT);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const previewColumns: ColumnsType<ISaleOrderImportOrder> = useMemo(
+    () => [
+      {
+        title: 'Pedido',
+        dataIndex: 'orderNumber',
+        key: 'orderNumber',
+      },
+      {
+        title: 'Data',
+        dataIndex: 'date',
+        key: 'date',
+        render: (_, order) => order.saleOrder.date,
+      },
+      {
+        title: 'Itens',
+        dataIndex: 'items',
+        key: 'items',
+        render: (_, order) => order.items.length,
+      },
+      {
+        title: 'Situação',
+        dataIndex: 'status',
+        key: 'status',
+        render: (_, order) => (
+          <Tag color={PREVIEW_STATUS_TAGS[order.status].color}>
+            {PREVIEW_STATUS_TAGS[order.status].label}
+          </Tag>
+        ),
+      },
+      {
+        title: 'Erros',
+        dataIndex: 'errors',
+        key: 'errors',
+        render: (_, order) => order.errors.join('; '),
+      },
+    ],
+    [],
+  );
+
+  const resultColumns: ColumnsType<IImportResult> = useMemo(
+    () => [
+      {
+        title: 'Pedido',
+        dataIndex: 'orderNumber',
+        key: 'orderNumber',
+      },
+      {
+        title: 'Resultado',
+        dataIndex: 'status',
+        key: 'status',
+        render: (_, result) => (
+          <Tag color={RESULT_STATUS_TAGS[result.status].color}>
+            {RESULT_STATUS_TAGS[result.status].label}
+          </Tag>
+        ),
+      },
+      {
+        title: 'Detalhes',
+        dataIndex: 'message',
+        key: 'message',
+      },
+    ],
+    [],
+  );
+
+  const countResults = (status: ImportResultStatus) =>
+    results.filter((result) => result.status === status).length;
+
+  return (
+    <div>
+      <Steps
+        className='mb-6'
+        current={step}
+        items={[
+          { title: 'Relatório' },
+          { title: 'Conferência' },
+          { title: 'Resultado' },
+        ]}
+      />
+
+      {step === ImportStepEnum.FILE && (
+        <div>
+          <div className='mb-2 flex items-center'>
+            <span style={{ width: '160px' }}>Plataforma</span>
+            <Select
+              style={{ width: '280px' }}
+              placeholder='Selecione a plataforma'
+              value={platformId}
+              onChange={handlePlatformChange}
+              options={platforms.map((platform) => ({
+                value: platform.id,
+                label: platform.name,
+              }))}
+            />
+          </div>
+          <div className='mb-2 flex items-center'>
+            <span style={{ width: '160px' }}>Formato do relatório</span>
+            <Select
+              style={{ width: '280px' }}
+              placeholder='Selecione o formato'
+              value={formatId}
+              onChange={setFormatId}
+              options={SALE_ORDER_IMPORT_FORMATS.map(({ id, name }) => ({
+                value: id,
+                label: name,
+              }))}
+            />
+          </div>
+          <div className='mb-2 flex items-center'>
+            <span style={{ width: '160px' }}>Status da venda</span>
+            <Select
+              style={{ width: '280px' }}
+              value={statusId}
+              onChange={setStatusId}
+              options={saleStatus.map((status) => ({
+                value: status.id,
+                label: status.name,
+              }))}
+            />
+          </div>
+          <div className='mb-4 flex items-center'>
+            <span style={{ width: '160px' }}>Status dos itens</span>
+            <Select
+              style={{ width: '280px' }}
+              value={saleOrderItemStatusId}
+              onChange={setSaleOrderItemStatusId}
+              options={itemStatus.map((status) => ({
+                value: status.id,
+                label: status.name,
+              }))}
+            />
+          </div>
+          <input
+            type='file'
+            accept='.csv,text/csv'
+            disabled={
+              !platformId || !formatId || !statusId || !saleOrderItemStatusId
+            }
+            onChange={handleFileChange}
+          />
+        </div>
+      )}
+
+      {step === ImportStepEnum.PREVIEW && (
+        <div>
+          {parseError && (
+            <Alert className='mb-4' type='error' message={parseError} />
+          )}
+          <Alert
+            className='mb-4'
+            type={newOrders.length === orders.length ? 'success' : 'warning'}
+            message={`${fileName}: ${orders.length} pedido(s), ${newOrders.length} novo(s). Pedidos já importados ou com erro não serão criados.`}
+          />
+          {unmatchedSkus.length > 0 && (
+            <div className='mb-4'>
+              <p className='mb-2'>
+                Vincule os SKUs abaixo a uma variação. O vínculo fica salvo para
+                as próximas importações desta plataforma.
+              </p>
+              {unmatchedSkus.map((sku) => (
+                <SkuMappingForm
+                  key={sku}
+                  sku={sku}
+                  products={products}
+                  onSave={(target) => handleSkuMapping(sku, target)}
+                />
+              ))}
+            </div>
+          )}
+          <Table
+            columns={previewColumns}
+            dataSource={orders}
+            rowKey='orderNumber'
+          />
+          <div className='mt-4 ml-auto w-96 flex gap-2'>
+            <Button
+              title='Voltar'
+              disabled={isImporting}
+              onClick={() => setStep(ImportStepEnum.FILE)}
+            />
+            <Button
+              title={`Importar ${newOrders.length} venda(s)`}
+              backgroundColor='#001529'
+              color='white'
+              loading={isImporting}
+              disabled={newOrders.length === 0}
+              onClick={handleImport}
+            />
+          </div>
+        </div>
+      )}
+
+      {step === ImportStepEnum.RESULT && (
+        <div>
+          <Alert
+            className='mb-4'
+            type={countResults('failed') === 0 ? 'success' : 'warning'}
+            message={`${countResults('created')} venda(s) criada(s), ${countResults('skipped')} ignorada(s) por já terem sido importadas e ${countResults('failed')} com falha.`}
+          />
+          <Table
+            columns={resultColumns}
+            dataSource={results}
+            rowKey='orderNumber'
+            exportFileName='importacao-vendas'
+          />
+          <div className='mt-4 ml-auto w-96 flex gap-2'>
+            <Button
+              title='Importar outro relatório'
+              onClick={() => setStep(ImportStepEnum.FILE)}
+            />
+            <Button
+              title='Ver vendas'
+              backgroundColor='#001529'
+              color='white'
+              onClick={() => navigate(SaleOrderRoutesEnum.SALE_ORDERS)}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,19 +1,37 @@
 import { DeleteOutlined, EditOutlined } from '@ant-design/icons';
 import { ColumnsType } from 'antd/es/table';
 import { format, parseISO } from 'date-fns';
-import { useEffect, useMemo, useState } from 'react';
+import { useMemo, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 
 import Button from '../../../components/button/Button';
+import ConfirmDeleteModal from '../../../components/modal/ConfirmDeleteModal';
 import Table from '../../../components/table/Table';
+import { URL_SALE_ORDERS } from '../../../shared/constants/urls';
+import { appendQueryParams } from '../../../shared/functions/url/urlTemplate';
+import { usePaginationParams } from '../../../shared/hooks/usePaginationParams';
+import { usePermission } from '../../../shared/hooks/usePermission';
+import { useQuery } from '../../../shared/hooks/useQuery';
 import useSaleOrderRequests from '../hooks/useSaleOrderRequests';
 import { ISaleOrder } from '../interfaces/SaleOrderInterface';
 import { SaleOrderRoutesEnum } from '../sale-orders.routes';
 
 export const SaleOrderList = () => {
-  const [saleOrders, setSaleOrders] = useState<ISaleOrder[]>([]);
+  const { canEdit } = usePermission('saleOrders');
+  const { paginationParams, setPaginationParams } = usePaginationParams({
+    sort: 'date',
+    order: 'desc',
+  });
 
-  const { getSaleOrders } = useSaleOrderRequests();
+  const { getSaleOrdersPage, deleteSaleOrder } = useSaleOrderRequests();
+  // a exclusão invalida a listagem, que recarrega a página atual sozinha
+  const { data: page } = useQuery(
+    appendQueryParams(URL_SALE_ORDERS, { ...paginationParams }),
+    () => getSaleOrdersPage(paginationParams),
+  );
+  const saleOrders = page?.data ?? [];
+  const total = page?.total ?? 0;
+  const [saleOrderToDelete, setSaleOrderToDelete] = useState<ISaleOrder>();
 
   const navigate = useNavigate();
 
@@ -29,6 +47,7 @@ export const SaleOrderList = () => {
         title: 'Data do pedido',
         dataIndex: 'date',
         key: 'date',
+        sorter: true,
         render: (date) => {
           const parsedDate = parseISO(date);
           const formattedDate = format(parsedDate, 'dd/MM/yyyy');
@@ -37,10 +56,9 @@ export const SaleOrderList = () => {
       },
       {
         title: 'Numero do pedido',
-        dataIndex: 'number',
-        key: 'number',
-        sorter: (a, b) =>
-          a.orderNumber?.localeCompare(b.orderNumber ?? '') ?? 0,
+        dataIndex: 'orderNumber',
+        key: 'orderNumber',
+        sorter: true,
         render: (text) => <a>{text}</a>,
       },
       {
@@ -51,6 +69,7 @@ export const SaleOrderList = () => {
         render: (_, supplier) => (
           <div style={{ width: '180px', display: 'flex' }}>
             <Button
+              disabled={!canEdit}
               margin='0px 16px 0px 0px'
               onClick={() => {
                 navigate(
@@ -64,7 +83,12 @@ export const SaleOrderList = () => {
             >
               Editar
             </Button>
-            <Button danger onClick={() => {}} icon={<DeleteOutlined />}>
+            <Button
+              disabled={!canEdit}
+              danger
+              onClick={() => setSaleOrderToDelete(supplier)}
+              icon={<DeleteOutlined />}
+            >
               Deletar
             </Button>
           </div>
@@ -72,35 +96,60 @@ export const SaleOrderList = () => {
       },
     ],
     // eslint-disable-next-line react-hooks/exhaustive-deps
-    [],
+    [canEdit],
   );
 
-  useEffect(() => {
-    loadSaleOrders();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
-
-  const loadSaleOrders = async () => {
-    const response = await getSaleOrders();
-    if (response) {
-      setSaleOrders(response);
+  const handleDeleteSaleOrder = async () => {
+    if (saleOrderToDelete) {
+      await deleteSaleOrder(saleOrderToDelete.id);
     }
   };
 
   return (
     <div>
       <div className='flex justify-between'>
-        <div style={{ width: '240' }}>
+        <div className='flex gap-2' style={{ width: '280px' }}>
           <Button
+            disabled={!canEdit}
             className='mb-2'
             title='Inserir'
             backgroundColor='#001529'
             color='white'
             onClick={() => navigate(SaleOrderRoutesEnum.SALE_ORDER_INSERT)}
           />
+          <Button
+            disabled={!canEdit}
+            className='mb-2'
+            title='Importar vendas'
+            onClick={() => navigate(SaleOrderRoutesEnum.SALE_ORDER_IMPORT)}
+          />
         </div>
       </div>
-      <Table columns={columns} dataSource={saleOrders} rowKey='id' />
+      <Table
+        columns={columns}
+        dataSource={saleOrders}
+        rowKey='id'
+        paginationParams={paginationParams}
+        total={total}
+        onPaginationChange={setPaginationParams}
+        exportFileName='vendas'
+        fetchExportRows={async () =>
+          (
+            await getSaleOrdersPage({
+              ...paginationParams,
+              page: 1,
+              pageSize: Math.max(total, 1),
+            })
+          ).data
+        }
+        searchPlaceholder='Buscar por número do pedido ou código de rastreio...'
+      />
+      <ConfirmDeleteModal
+        isModalOpen={!!saleOrderToDelete}
+        description={`Deseja deletar a venda ${saleOrderToDelete?.orderNumber ?? saleOrderToDelete?.id}?`}
+        onConfirm={handleDeleteSaleOrder}
+        onClose={() => setSaleOrderToDelete(undefined)}
+      />
     </div>
   );
 };
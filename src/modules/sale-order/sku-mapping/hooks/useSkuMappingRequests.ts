@@ -0,0 +1,33 @@
+import {
+  URL_SKU_MAPPING_ID,
+  URL_SKU_MAPPINGS,
+} from '../../../../shared/constants/urls';
+import { createResourceHook } from '../../../../shared/hooks/createResourceHook';
+import { ISkuMappingInsert } from '../interfaces/SkuMappingInsertInterface';
+import { ISkuMapping } from '../interfaces/SkuMappingInterface';
+
+const useSkuMappingResource = createResourceHook<
+  ISkuMapping,
+  ISkuMappingInsert
+>({
+  url: URL_SKU_MAPPINGS,
+  urlId: URL_SKU_MAPPING_ID,
+  messages: {
+    singular: 'o vínculo de SKU',
+    plural: 'os vínculos de SKU',
+    deleted: 'Vínculo de SKU deletado com sucesso!',
+    referenced: 'O vínculo de SKU não pode ser deletado',
+  },
+});
+
+const useSkuMappingRequests = () => {
+  const { list, save, remove } = useSkuMappingResource();
+
+  return {
+    getSkuMappings: () => list(),
+    saveSkuMapping: save,
+    deleteSkuMapping: remove,
+  };
+};
+
+export default useSkuMappingRequests;
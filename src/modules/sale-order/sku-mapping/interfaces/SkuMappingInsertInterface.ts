@@ -0,0 +1,7 @@
+export interface ISkuMappingInsert {
+  platformId: number;
+  // já normalizado, para bater com o SKU de qualquer relatório
+  sku: string;
+  productId: number;
+  productVariationId: number;
+}
@@ -0,0 +1,7 @@
+export interface ISkuMapping {
+  id: number;
+  platformId: number;
+  sku: string;
+  productId: number;
+  productVariationId: number;
+}
@@ -0,0 +1,70 @@
+import { normalizeName } from '../../../shared/functions/text/normalizeName';
+import { IStockItemIdentifierType } from '../stock-item-identifier-type/interfaces/StockItemIdentifierTypeInterface';
+
+export type IdentifierPattern = 'imei' | 'ean13' | 'serial';
+
+// palavras procuradas no nome dos tipos de identificador cadastrados
+const PATTERN_TYPE_NAMES: Record<IdentifierPattern, string[]> = {
+  imei: ['imei'],
+  ean13: ['ean', 'gtin', 'codigo de barras'],
+  serial: ['serial', 'numero de serie', 'sn'],
+};
+
+// compara identificadores sem diferenciar espaços nas pontas e maiúsculas
+export const normalizeIdentifier = (identifier: string) =>
+  identifier.trim().toUpperCase();
+
+// IMEI: 15 dígitos com o último validado pelo algoritmo de Luhn
+const isValidImei = (value: string) => {
+  if (!/^\d{15}$/.test(value)) {
+    return false;
+  }
+
+  const sum = [...value].reverse().reduce((total, char, index) => {
+    const digit = Number(char);
+    if (index % 2 === 0) {
+      return total + digit;
+    }
+    const doubled = digit * 2;
+    return total + (doubled > 9 ? doubled - 9 : doubled);
+  }, 0);
+  return sum % 10 === 0;
+};
+
+// EAN-13: 13 dígitos com pesos alternados 1 e 3 e dígito verificador no final
+const isValidEan13 = (value: string) => {
+  if (!/^\d{13}$/.test(value)) {
+    return false;
+  }
+
+  const digits = [...value].map(Number);
+  const sum = digits
+    .slice(0, 12)
+    .reduce((total, digit, index) => total + digit * (index % 2 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === digits[12];
+};
+
+export const guessIdentifierPattern = (
+  identifier: string,
+): IdentifierPattern => {
+  const value = normalizeIdentifier(identifier);
+  if (isValidImei(value)) {
+    return 'imei';
+  }
+  if (isValidEan13(value)) {
+    return 'ean13';
+  }
+  return 'serial';
+};
+
+export const findIdentifierTypeByPattern = (
+  identifierTypes: IStockItemIdentifierType[],
+  pattern: IdentifierPattern,
+) =>
+  identifierTypes.find((identifierType) => {
+    // compara palavras inteiras para "sn" não casar com qualquer nome que contenha essas letras
+    const name = ` ${normalizeName(identifierType.name).replace(/[^a-z0-9]+/g, ' ')} `;
+    return PATTERN_TYPE_NAMES[pattern].some((typeName) =>
+      name.includes(` ${typeName} `),
+    );
+  });
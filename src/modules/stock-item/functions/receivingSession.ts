@@ -0,0 +1,41 @@
+import localforage from 'localforage';
+
+import { IPurchaseOrderItem } from '../../purchase-order/purchase-order-item/interfaces/PurchaseOrderItemInterface';
+import { IStockItemInsert } from '../interfaces/StockItemInsertInterface';
+
+// IndexedDB (via localforage): as sessões guardam os itens completos e podem ficar grandes para o localStorage
+const receivingSessionStore = localforage.createInstance({
+  name: 'mini-erp',
+  storeName: 'receiving_sessions',
+});
+
+export interface IStockReceivingProgress {
+  // unidades já lançadas no estoque em lotes parciais
+  savedCount: number;
+  // unidades lidas que ainda não foram enviadas ao backend
+  stockItems: IStockItemInsert[];
+}
+
+export interface IStockReceivingSession extends IStockReceivingProgress {
+  purchaseOrderId: number;
+  // uma entrada por unidade da entrega, na ordem de leitura
+  units: IPurchaseOrderItem[];
+  updatedAt: string;
+}
+
+const getSessionKey = (purchaseOrderId: number) =>
+  `purchase-order-${purchaseOrderId}`;
+
+export const getReceivingSession = (purchaseOrderId: number) =>
+  receivingSessionStore.getItem<IStockReceivingSession>(
+    getSessionKey(purchaseOrderId),
+  );
+
+export const saveReceivingSession = (session: IStockReceivingSession) =>
+  receivingSessionStore.setItem(
+    getSessionKey(session.purchaseOrderId),
+    session,
+  );
+
+export const removeReceivingSession = (purchaseOrderId: number) =>
+  receivingSessionStore.removeItem(getSessionKey(purchaseOrderId));
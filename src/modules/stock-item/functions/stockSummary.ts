@@ -0,0 +1,63 @@
+import {
+  getItemParse,
+  setItem,
+} from '../../../shared/functions/connection/storageProxy';
+import { IStockItem } from '../interfaces/StockItemInterface';
+
+const STOCK_MINIMUMS_KEY = '@mini-erp:stock-minimums';
+
+export const DEFAULT_STOCK_MINIMUM = 1;
+
+export interface IStockSummary {
+  productVariationId: number;
+  productId: number;
+  countByStatus: Record<number, number>;
+  onHand: number;
+}
+
+// agrupa os itens de estoque por variação e status; disponíveis são os do status com papel "disponível"
+export const summarizeStockItems = (
+  stockItems: IStockItem[],
+  availableStatusId?: number,
+): IStockSummary[] => {
+  const summaries = new Map<number, IStockSummary>();
+
+  stockItems.forEach((stockItem) => {
+    const summary = summaries.get(stockItem.productVariationId) ?? {
+      productVariationId: stockItem.productVariationId,
+      productId: stockItem.productId,
+      countByStatus: {},
+      onHand: 0,
+    };
+
+    summary.countByStatus[stockItem.stockItemStatusId] =
+      (summary.countByStatus[stockItem.stockItemStatusId] ?? 0) + 1;
+
+    if (stockItem.stockItemStatusId === availableStatusId) {
+      summary.onHand += 1;
+    }
+
+    summaries.set(stockItem.productVariationId, summary);
+  });
+
+  return [...summaries.values()];
+};
+
+export interface IStockMinimums {
+  default: number;
+  productVariations: Record<number, number>;
+}
+
+export const getStockMinimums = (): IStockMinimums => ({
+  default: DEFAULT_STOCK_MINIMUM,
+  productVariations: {},
+  ...getItemParse(STOCK_MINIMUMS_KEY),
+});
+
+export const setStockMinimums = (minimums: IStockMinimums) =>
+  setItem(STOCK_MINIMUMS_KEY, JSON.stringify(minimums));
+
+export const getStockMinimum = (
+  minimums: IStockMinimums,
+  productVariationId: number,
+) => minimums.productVariations[productVariationId] ?? minimums.default;
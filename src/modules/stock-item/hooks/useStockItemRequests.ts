@@ -1,11 +1,24 @@
-import { URL_STOCK_ITEMS } from '../../../shared/constants/urls';
+import {
+  URL_STOCK_ITEM_ID,
+  URL_STOCK_ITEMS,
+} from '../../../shared/constants/urls';
 import { MethodsEnum } from '../../../shared/enums/methods.enum';
+import { invalidateQueries } from '../../../shared/hooks/useQuery';
 import { useRequests } from '../../../shared/hooks/useRequests';
 import { IStockItemInsert } from '../interfaces/StockItemInsertInterface';
 import { IStockItem } from '../interfaces/StockItemInterface';
+import { IStockItemUpdate } from '../interfaces/StockItemUpdateInterface';
+import { StockItemStatusRoleEnum } from '../stock-item-status/enums/stockItemStatusRole.enum';
+import { getStockItemStatusIdByRole } from '../stock-item-status/functions/stockItemStatusRole';
+import useStockItemStatusRequests from '../stock-item-status/hooks/useStockItemStatusRequests';
 
 const useStockItemRequests = () => {
   const { request } = useRequests();
+  const { getStockItemStatus } = useStockItemStatusRequests();
+
+  // a lista de status fica em cache, então resolver o id não custa uma requisição por item
+  const getStockItemStatusId = async (role: StockItemStatusRoleEnum) =>
+    getStockItemStatusIdByRole(await getStockItemStatus(), role);
 
   const getStockItems = async () => {
     const response = await request<IStockItem[]>(
@@ -18,6 +31,22 @@ const useStockItemRequests = () => {
     return [];
   };
 
+  // itens disponíveis da variação, do mais antigo para o mais novo (FIFO)
+  const getAvailableStockItems = async (productVariationId: number) => {
+    const [response, availableStatusId] = await Promise.all([
+      getStockItems(),
+      getStockItemStatusId(StockItemStatusRoleEnum.AVAILABLE),
+    ]);
+    return response
+      .filter(
+        (stockItem) =>
+          stockItem.productVariationId === productVariationId &&
+          stockItem.stockItemStatusId === availableStatusId &&
+          !stockItem.saleOrderItemId,
+      )
+      .sort((a, b) => a.id - b.id);
+  };
+
   // lançar itens no estoque
   const createStockItems = async (stockItems: IStockItemInsert[]) => {
     try {
@@ -26,13 +55,54 @@ const useStockItemRequests = () => {
         MethodsEnum.POST,
         stockItems,
       );
+      invalidateQueries(URL_STOCK_ITEMS);
       return response;
     } catch (error) {
       throw new Error(`Erro ao lançar itens no estoque: ${error}`);
     }
   };
 
-  return { createStockItems, getStockItems };
+  const updateStockItem = async (id: number, stockItem: IStockItemUpdate) => {
+    try {
+      const response = await request<IStockItem>(
+        URL_STOCK_ITEM_ID.replace('{stockItemId}', id.toString()),
+        MethodsEnum.PATCH,
+        stockItem,
+      );
+      invalidateQueries(URL_STOCK_ITEMS);
+      return response;
+    } catch (error) {
+      throw new Error(`Erro ao atualizar o item de estoque: ${error}`);
+    }
+  };
+
+  // vincula o item de estoque ao item da venda
+  const allocateStockItem = async (id: number, saleOrderItemId: number) =>
+    updateStockItem(id, {
+      saleOrderItemId,
+      stockItemStatusId: await getStockItemStatusId(
+        StockItemStatusRoleEnum.RESERVED,
+      ),
+    });
+
+  // desfaz o vínculo e devolve o item ao estoque disponível
+  const releaseStockItem = async (id: number) =>
+    updateStockItem(id, {
+      saleOrderItemId: null,
+      stockItemStatusId: await getStockItemStatusId(
+        StockItemStatusRoleEnum.AVAILABLE,
+      ),
+    });
+
+  return {
+    allocateStockItem,
+    createStockItems,
+    getAvailableStockItems,
+    getStockItems,
+    getStockItemStatusId,
+    releaseStockItem,
+    updateStockItem,
+  };
 };
 
 export default useStockItemRequests;
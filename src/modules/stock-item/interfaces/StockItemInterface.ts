@@ -1,9 +1,14 @@
+import { IPurchaseOrderItem } from '../../purchase-order/purchase-order-item/interfaces/PurchaseOrderItemInterface';
+import { ISaleOrderItem } from '../../sale-order/sale-order-item/interfaces/SaleOrderItemInterface';
+
 export interface IStockItem {
   id: number;
   purchaseOrderItemId: number;
+  purchaseOrderItem?: IPurchaseOrderItem;
   productId: number;
   productVariationId: number;
-  saleOrderItemId: number;
+  saleOrderItemId?: number;
+  saleOrderItem?: ISaleOrderItem;
   stockItemStatusId: number;
   identifier?: string;
   identifierTypeId?: number;
@@ -0,0 +1,6 @@
+export interface IStockItemUpdate {
+  saleOrderItemId?: number | null;
+  stockItemStatusId?: number;
+  identifier?: string;
+  identifierTypeId?: number;
+}
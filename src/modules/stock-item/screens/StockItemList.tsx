@@ -0,0 +1,273 @@
+import { Input as InputAntd, Select as SelectAntd } from 'antd';
+import { ColumnsType } from 'antd/es/table';
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+
+import Table from '../../../components/table/Table';
+import useProductRequests from '../../product/hooks/useProductRequests';
+import { IProduct } from '../../product/interfaces/ProductInterface';
+import useProductVariationRequests from '../../product/product-variation/hooks/useProductVariationRequests';
+import { IProductVariation } from '../../product/product-variation/interfaces/ProductVariationInterface';
+import { PurchaseOrderRoutesEnum } from '../../purchase-order/purchase-orders.routes';
+import { SaleOrderRoutesEnum } from '../../sale-order/sale-orders.routes';
+import useStockItemRequests from '../hooks/useStockItemRequests';
+import { IStockItem } from '../interfaces/StockItemInterface';
+import useStockItemIdentifierTypeRequests from '../stock-item-identifier-type/hooks/useStockItemIdentifierTypeRequests';
+import { IStockItemIdentifierType } from '../stock-item-identifier-type/interfaces/StockItemIdentifierTypeInterface';
+import useStockItemStatusRequests from '../stock-item-status/hooks/useStockItemStatusRequests';
+import { IStockItemStatus } from '../stock-item-status/interfaces/StockItemStatusInterface';
+
+export const StockItemList = () => {
+  const [stockItems, setStockItems] = useState<IStockItem[]>([]);
+  const { getStockItems } = useStockItemRequests();
+
+  const [products, setProducts] = useState<IProduct[]>([]);
+  const { getProducts } = useProductRequests();
+
+  const [productVariations, setProductVariations] = useState<
+    IProductVariation[]
+  >([]);
+  const { getProductVariations } = useProductVariationRequests();
+
+  const [stockItemStatus, setStockItemStatus] = useState<IStockItemStatus[]>(
+    [],
+  );
+  const { getStockItemStatus } = useStockItemStatusRequests();
+
+  const [stockItemIdentifierTypes, setStockItemIdentifierTypes] = useState<
+    IStockItemIdentifierType[]
+  >([]);
+  const { getStockItemIdentifierTypes } = useStockItemIdentifierTypeRequests();
+
+  const [statusFilter, setStatusFilter] = useState<number>();
+  const [productFilter, setProductFilter] = useState<number>();
+  const [identifierFilter, setIdentifierFilter] = useState('');
+
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const loadStockItems = async () => {
+      const [stockItemsData, productsData, statusData, identifierTypesData] =
+        await Promise.all([
+          getStockItems(),
+          getProducts(),
+          getStockItemStatus(),
+          getStockItemIdentifierTypes(),
+        ]);
+
+      // busca as variações apenas dos produtos que possuem itens em estoque
+      const productIds = [
+        ...new Set(stockItemsData.map((stockItem) => stockItem.productId)),
+      ];
+      const variationsData = await Promise.all(
+        productIds.map((productId) => getProductVariations(productId)),
+      );
+
+      setStockItems(stockItemsData);
+      setProducts(productsData);
+      setStockItemStatus(statusData);
+      setStockItemIdentifierTypes(identifierTypesData);
+      setProductVariations(variationsData.flat());
+    };
+
+    loadStockItems();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const productNames = useMemo(
+    () => new Map(products.map((product) => [product.id, product.name])),
+    [products],
+  );
+
+  const productVariationNames = useMemo(
+    () =>
+      new Map(
+        productVariations.map((productVariation) => [
+          productVariation.id,
+          productVariation.name,
+        ]),
+      ),
+    [productVariations],
+  );
+
+  const statusNames = useMemo(
+    () => new Map(stockItemStatus.map((status) => [status.id, status.name])),
+    [stockItemStatus],
+  );
+
+  const identifierTypeNames = useMemo(
+    () =>
+      new Map(
+        stockItemIdentifierTypes.map((identifierType) => [
+          identifierType.id,
+          identifierType.name,
+        ]),
+      ),
+    [stockItemIdentifierTypes],
+  );
+
+  const filteredStockItems = useMemo(
+    () =>
+      stockItems.filter(
+        (stockItem) =>
+          (!statusFilter || stockItem.stockItemStatusId === statusFilter) &&
+          (!productFilter || stockItem.productId === productFilter) &&
+          (!identifierFilter ||
+            stockItem.identifier
+              ?.toLowerCase()
+              .includes(identifierFilter.toLowerCase())),
+      ),
+    [stockItems, statusFilter, productFilter, identifierFilter],
+  );
+
+  const columns: ColumnsType<IStockItem> = useMemo(
+    () => [
+      {
+        title: 'Id',
+        dataIndex: 'id',
+        key: 'id',
+        render: (text) => <a>{text}</a>,
+      },
+      {
+        title: 'Produto',
+        dataIndex: 'productId',
+        key: 'productId',
+        render: (productId) => <a>{productNames.get(productId)}</a>,
+        sorter: (a, b) =>
+          (productNames.get(a.productId) ?? '').localeCompare(
+            productNames.get(b.productId) ?? '',
+          ),
+      },
+      {
+        title: 'Variação',
+        dataIndex: 'productVariationId',
+        key: 'productVariationId',
+        render: (productVariationId) => (
+          <a>{productVariationNames.get(productVariationId)}</a>
+        ),
+      },
+      {
+        title: 'Status',
+        dataIndex: 'stockItemStatusId',
+        key: 'stockItemStatusId',
+        render: (stockItemStatusId) => (
+          <a>{statusNames.get(stockItemStatusId)}</a>
+        ),
+      },
+      {
+        title: 'Identificador',
+        dataIndex: 'identifier',
+        key: 'identifier',
+        render: (text) => <a>{text}</a>,
+      },
+      {
+        title: 'Tipo de identificador',
+        dataIndex: 'identifierTypeId',
+        key: 'identifierTypeId',
+        render: (identifierTypeId) => (
+          <a>{identifierTypeNames.get(identifierTypeId)}</a>
+        ),
+      },
+      {
+        title: 'Compra',
+        dataIndex: 'purchaseOrderItemId',
+        key: 'purchaseOrderItemId',
+        render: (purchaseOrderItemId, stockItem) =>
+          stockItem.purchaseOrderItem ? (
+            <a
+              onClick={() =>
+                navigate(
+                  PurchaseOrderRoutesEnum.PURCHASE_ORDER_EDIT.replace(
+                    ':purchaseOrderId',
+                    `${stockItem.purchaseOrderItem?.purchaseOrderId}`,
+                  ),
+                )
+              }
+            >
+              Item {purchaseOrderItemId}
+            </a>
+          ) : (
+            <span>Item {purchaseOrderItemId}</span>
+          ),
+      },
+      {
+        title: 'Venda',
+        dataIndex: 'saleOrderItemId',
+        key: 'saleOrderItemId',
+        render: (saleOrderItemId, stockItem) => {
+          if (!saleOrderItemId) {
+            return <span>-</span>;
+          }
+
+          return stockItem.saleOrderItem ? (
+            <a
+              onClick={() =>
+                navigate(
+                  SaleOrderRoutesEnum.SALE_ORDER_EDIT.replace(
+                    ':saleOrderId',
+                    `${stockItem.saleOrderItem?.saleOrderId}`,
+                  ),
+                )
+              }
+            >
+              Item {saleOrderItemId}
+            </a>
+          ) : (
+            <span>Item {saleOrderItemId}</span>
+          );
+        },
+      },
+    ],
+    [
+      identifierTypeNames,
+      navigate,
+      productNames,
+      productVariationNames,
+      statusNames,
+    ],
+  );
+
+  return (
+    <div>
+      <div className='flex gap-2 mb-2'>
+        <SelectAntd
+          className='w-60'
+          placeholder='Status'
+          allowClear
+          value={statusFilter}
+          onChange={setStatusFilter}
+          options={stockItemStatus.map((status) => ({
+            value: status.id,
+            label: status.name,
+          }))}
+        />
+        <SelectAntd
+          className='w-60'
+          placeholder='Produto'
+          allowClear
+          showSearch
+          optionFilterProp='label'
+          value={productFilter}
+          onChange={setProductFilter}
+          options={products.map((product) => ({
+            value: product.id,
+            label: product.name,
+          }))}
+        />
+        <InputAntd
+          className='w-60'
+          placeholder='Identificador'
+          allowClear
+          value={identifierFilter}
+          onChange={(event) => setIdentifierFilter(event.target.value)}
+        />
+      </div>
+      <Table
+        columns={columns}
+        dataSource={filteredStockItems}
+        rowKey='id'
+        exportFileName='itens-estoque'
+      />
+    </div>
+  );
+};
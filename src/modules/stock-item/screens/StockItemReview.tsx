@@ -1,16 +1,32 @@
 import { zodResolver } from '@hookform/resolvers/zod';
-import { useEffect, useState } from 'react';
+import { Switch } from 'antd';
+import { useEffect, useMemo, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import toast from 'react-hot-toast';
 import { z } from 'zod';
 
 import { Input } from '../../../components/input/Input';
 import Select from '../../../components/select/Select';
+import {
+  URL_STOCK_ITEM_IDENTIFIER_TYPES,
+  URL_STOCK_ITEM_STATUS,
+  URL_STOCK_ITEMS,
+} from '../../../shared/constants/urls';
+import { playBeep } from '../../../shared/functions/sound/beep';
+import { useQuery } from '../../../shared/hooks/useQuery';
 import { IPurchaseOrderItem } from '../../purchase-order/purchase-order-item/interfaces/PurchaseOrderItemInterface';
+import {
+  findIdentifierTypeByPattern,
+  guessIdentifierPattern,
+  normalizeIdentifier,
+} from '../functions/identifierScan';
+import { IStockReceivingProgress } from '../functions/receivingSession';
 import useStockItemRequests from '../hooks/useStockItemRequests';
 import { IStockItemInsert } from '../interfaces/StockItemInsertInterface';
 import useStockItemIdentifierTypeRequests from '../stock-item-identifier-type/hooks/useStockItemIdentifierTypeRequests';
-import { IStockItemIdentifierType } from '../stock-item-identifier-type/interfaces/StockItemIdentifierTypeInterface';
+import { StockItemStatusRoleEnum } from '../stock-item-status/enums/stockItemStatusRole.enum';
+import { findStockItemStatusIdByRole } from '../stock-item-status/functions/stockItemStatusRole';
+import useStockItemStatusRequests from '../stock-item-status/hooks/useStockItemStatusRequests';
 
 const schema = z.object({
   identifier: z.string(),
@@ -19,12 +35,18 @@ const schema = z.object({
 
 interface StockItemReviewProps {
   purchaseOrderItems: IPurchaseOrderItem[];
+  // progresso de uma sessão retomada
+  initialProgress?: IStockReceivingProgress;
+  onProgress?: (progress: IStockReceivingProgress) => void;
   onCancel?: () => void;
+  // chamado a cada lote lançado no estoque, parcial ou final
   onSave?: () => void;
 }
 
 export const StockItemReview = ({
   purchaseOrderItems,
+  initialProgress,
+  onProgress,
   onCancel,
   onSave,
 }: StockItemReviewProps) => {
@@ -34,79 +56,190 @@ export const StockItemReview = ({
     handleSubmit,
     watch,
     setValue,
+    setFocus,
   } = useForm({
     resolver: zodResolver(schema),
   });
-  const [currentItemIndex, setCurrentItemIndex] = useState(0);
-  const [stockItems, setStockItems] = useState<IStockItemInsert[]>([]);
-  const { createStockItems } = useStockItemRequests();
+  const [savedCount, setSavedCount] = useState(
+    initialProgress?.savedCount ?? 0,
+  );
+  const [stockItems, setStockItems] = useState<IStockItemInsert[]>(
+    initialProgress?.stockItems ?? [],
+  );
+  const currentItemIndex = savedCount + stockItems.length;
+  const { createStockItems, getStockItems } = useStockItemRequests();
+  // leitor de código de barras (teclado): cada leitura termina com Enter e já avança para a próxima unidade
+  const [isScanMode, setIsScanMode] = useState(true);
+  const [scanError, setScanError] = useState<string>();
+  const [isSaving, setIsSaving] = useState(false);
+  const { getStockItemStatus } = useStockItemStatusRequests();
+  const { data: stockItemStatus = [] } = useQuery(
+    URL_STOCK_ITEM_STATUS,
+    getStockItemStatus,
+  );
+  const availableStatusId = findStockItemStatusIdByRole(
+    stockItemStatus,
+    StockItemStatusRoleEnum.AVAILABLE,
+  );
 
-  const [stockItemIdentifierTypes, setStockItemIdentifierTypes] = useState<
-    IStockItemIdentifierType[]
-  >([]);
   const { getStockItemIdentifierTypes } = useStockItemIdentifierTypeRequests();
-  const [isLoading, setIsLoading] = useState(true);
+  const { data: stockItemIdentifierTypes = [] } = useQuery(
+    URL_STOCK_ITEM_IDENTIFIER_TYPES,
+    getStockItemIdentifierTypes,
+  );
+
+  // identificadores já lançados; recarrega sozinho quando um lote é salvo
+  const { data: savedStockItems } = useQuery(URL_STOCK_ITEMS, getStockItems);
+  const existingIdentifiers = useMemo(
+    () =>
+      new Set(
+        (savedStockItems ?? [])
+          .filter((stockItem) => stockItem.identifier)
+          .map((stockItem) => normalizeIdentifier(stockItem.identifier ?? '')),
+      ),
+    [savedStockItems],
+  );
 
   useEffect(() => {
-    const loadStockItemIdentifierTypes = async () => {
-      setIsLoading(true);
-      const response = await getStockItemIdentifierTypes();
-      setStockItemIdentifierTypes(response);
-      setIsLoading(false);
-    };
+    onProgress?.({ savedCount, stockItems });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [savedCount, stockItems]);
 
-    if (isLoading) {
-      loadStockItemIdentifierTypes();
+  useEffect(() => {
+    if (isScanMode) {
+      setFocus('identifier');
     }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [getStockItemIdentifierTypes]);
+  }, [isScanMode, currentItemIndex, setFocus]);
 
   const transformPurchaseOrderItemToStockItem = (
     purchaseOrderItem: IPurchaseOrderItem,
     identifier: string,
-    identifierType: number,
+    identifierType: number | undefined,
+    stockItemStatusId: number,
   ) => {
     const stockItem: IStockItemInsert = {
       purchaseOrderItemId: purchaseOrderItem.id,
       product: purchaseOrderItem.product,
       productVariation: purchaseOrderItem.productVariation,
-      stockItemStatusId: 1, // default status
+      stockItemStatusId,
       identifier,
       identifierTypeId: identifierType,
     };
     return stockItem;
   };
 
+  const rejectIdentifier = (message: string) => {
+    setScanError(message);
+    playBeep(false);
+    setValue('identifier', '');
+    setFocus('identifier');
+  };
+
   const handleNext = async () => {
-    const identifier = watch('identifier');
-    const identifierType = watch('identifierType');
+    if (isSaving) {
+      return;
+    }
+
+    const identifier = (watch('identifier') ?? '').trim();
+    let identifierType = watch('identifierType');
+    const normalizedIdentifier = normalizeIdentifier(identifier);
+
+    if (availableStatusId === undefined) {
+      rejectIdentifier(
+        'Nenhum status de item de estoque cadastrado com o papel "Disponível"',
+      );
+      return;
+    }
+    if (isScanMode && !identifier) {
+      rejectIdentifier('Leia ou digite o identificador da unidade');
+      return;
+    }
+    if (identifier && existingIdentifiers.has(normalizedIdentifier)) {
+      rejectIdentifier(`O identificador ${identifier} já está no estoque`);
+      return;
+    }
+    if (
+      identifier &&
+      stockItems.some(
+        (stockItem) =>
+          normalizeIdentifier(stockItem.identifier ?? '') ===
+          normalizedIdentifier,
+      )
+    ) {
+      rejectIdentifier(
+        `O identificador ${identifier} já foi lido neste lançamento`,
+      );
+      return;
+    }
+
+    // o tipo reconhecido pelo padrão tem prioridade; sem reconhecimento vale o tipo selecionado
+    if (isScanMode) {
+      const guessedType = findIdentifierTypeByPattern(
+        stockItemIdentifierTypes,
+        guessIdentifierPattern(identifier),
+      );
+      identifierType = guessedType?.id.toString() ?? identifierType;
+      if (!identifierType) {
+        rejectIdentifier(
+          'Tipo de identificador não reconhecido: selecione o tipo antes de ler',
+        );
+        return;
+      }
+      playBeep(true);
+    }
+
+    setScanError(undefined);
     const purchaseOrderItem = purchaseOrderItems[currentItemIndex];
     const stockItem = transformPurchaseOrderItemToStockItem(
       purchaseOrderItem,
       identifier,
-      identifierType,
+      Number(identifierType) || undefined,
+      availableStatusId,
     );
 
     if (currentItemIndex < purchaseOrderItems.length - 1) {
-      await setStockItems((prevStockItems) => [...prevStockItems, stockItem]);
-
-      setCurrentItemIndex((prevIndex) => prevIndex + 1);
+      setStockItems((prevStockItems) => [...prevStockItems, stockItem]);
       setValue('identifier', '');
-      setValue('identifierType', '');
+      // na leitura em sequência o tipo selecionado continua valendo para as próximas unidades
+      if (!isScanMode) {
+        setValue('identifierType', '');
+      }
     } else {
       const items: IStockItemInsert[] = [...stockItems, stockItem];
 
-      createStockItems(items)
-        .then(() => {
-          onSave?.();
-          onCancel?.();
-          toast.success('Itens lançados no estoque com sucesso!');
-        })
-        .catch((error) => {
-          throw new Error(
-            `Erro ao salvar ao lançar os itens no estoque: ${error}`,
-          );
+      setIsSaving(true);
+      try {
+        await createStockItems(items);
+        // entrega concluída: todas as unidades já estão no estoque
+        onProgress?.({
+          savedCount: purchaseOrderItems.length,
+          stockItems: [],
         });
+        onSave?.();
+        onCancel?.();
+        toast.success('Itens lançados no estoque com sucesso!');
+      } catch {
+        // a sessão continua salva e a última leitura fica no campo para tentar de novo
+        toast.error('Erro ao lançar os itens no estoque');
+      } finally {
+        setIsSaving(false);
+      }
+    }
+  };
+
+  // lança o que já foi lido sem esperar a última unidade
+  const handleSavePartial = async () => {
+    setIsSaving(true);
+    try {
+      await createStockItems(stockItems);
+      setSavedCount((currentCount) => currentCount + stockItems.length);
+      setStockItems([]);
+      onSave?.();
+      toast.success(`${stockItems.length} unidade(s) lançada(s) no estoque!`);
+    } catch {
+      toast.error('Erro ao lançar as unidades no estoque');
+    } finally {
+      setIsSaving(false);
     }
   };
 
@@ -120,10 +253,24 @@ export const StockItemReview = ({
     <div>
       <div className='w-full bg-white p-3 rounded-lg flex flex-col sm:flex-row items-center gap-2 mt-2'>
         <form className='w-full' onSubmit={handleSubmit(handleNext)}>
+          <div className='w-full mb-4 flex items-center gap-2'>
+            <Switch checked={isScanMode} onChange={setIsScanMode} />
+            <span>Leitor de código de barras</span>
+          </div>
+          {isScanMode && (
+            <p className='w-full mb-4 text-gray-500'>
+              Leia o código de cada unidade: o tipo é reconhecido pelo formato
+              (IMEI, EAN-13 ou serial) e a tela avança sozinha.
+            </p>
+          )}
           <div className='w-full mb-4'>
             <h2>
-              Item {currentItemIndex + 1} de {purchaseOrderItems.length}
+              Unidade {currentItemIndex + 1} de {purchaseOrderItems.length}
             </h2>
+            <p className='text-gray-500'>
+              {savedCount} já lançada(s) no estoque, {stockItems.length} lida(s)
+              aguardando lançamento
+            </p>
           </div>
           <div className='w-full mb-4'>
             <p>Produto: {purchaseOrderItems[currentItemIndex].product.name}</p>
@@ -168,6 +315,7 @@ export const StockItemReview = ({
                   : ''}
               </p>
             )}
+            {scanError && <p className='my-1 text-red-500'>{scanError}</p>}
           </div>
           <div className='w-96 flex flex-row float-end'>
             <button
@@ -179,13 +327,24 @@ export const StockItemReview = ({
             >
               Cancelar
             </button>
+            <button
+              className='w-full ml-2 rounded-md border-2 border-solid disabled:opacity-50'
+              type='button'
+              style={{ color: '#001529' }}
+              color='white'
+              disabled={isSaving || stockItems.length === 0}
+              onClick={handleSavePartial}
+            >
+              Lançar lidos
+            </button>
             <button
               className='w-full ml-2 rounded-md text-white'
               type='submit'
               style={{ backgroundColor: '#001529' }}
               color='white'
+              disabled={isSaving}
             >
-              {stockItems.length < purchaseOrderItems.length - 1
+              {currentItemIndex < purchaseOrderItems.length - 1
                 ? 'Próximo'
                 : 'Salvar'}
             </button>
@@ -0,0 +1,201 @@
+import { Checkbox, InputNumber, Tag } from 'antd';
+import { ColumnsType } from 'antd/es/table';
+import { useEffect, useMemo, useState } from 'react';
+
+import Table from '../../../components/table/Table';
+import useProductRequests from '../../product/hooks/useProductRequests';
+import { IProduct } from '../../product/interfaces/ProductInterface';
+import useProductVariationRequests from '../../product/product-variation/hooks/useProductVariationRequests';
+import { IProductVariation } from '../../product/product-variation/interfaces/ProductVariationInterface';
+import {
+  getStockMinimum,
+  getStockMinimums,
+  IStockMinimums,
+  IStockSummary,
+  setStockMinimums,
+  summarizeStockItems,
+} from '../functions/stockSummary';
+import useStockItemRequests from '../hooks/useStockItemRequests';
+import { StockItemStatusRoleEnum } from '../stock-item-status/enums/stockItemStatusRole.enum';
+import { findStockItemStatusIdByRole } from '../stock-item-status/functions/stockItemStatusRole';
+import useStockItemStatusRequests from '../stock-item-status/hooks/useStockItemStatusRequests';
+import { IStockItemStatus } from '../stock-item-status/interfaces/StockItemStatusInterface';
+
+interface IStockSummaryRow {
+  product: IProduct;
+  productVariation: IProductVariation;
+  summary?: IStockSummary;
+  minimum: number;
+}
+
+export const StockItemSummary = () => {
+  const { getStockItems } = useStockItemRequests();
+  const { getProducts } = useProductRequests();
+  const { getProductVariations } = useProductVariationRequests();
+  const { getStockItemStatus } = useStockItemStatusRequests();
+
+  const [summaries, setSummaries] = useState<IStockSummary[]>([]);
+  const [stockItemStatus, setStockItemStatus] = useState<IStockItemStatus[]>(
+    [],
+  );
+  const [variations, setVariations] = useState<
+    { product: IProduct; productVariation: IProductVariation }[]
+  >([]);
+  const [minimums, setMinimums] = useState<IStockMinimums>(getStockMinimums);
+  const [onlyBelowMinimum, setOnlyBelowMinimum] = useState(false);
+
+  useEffect(() => {
+    const loadSummary = async () => {
+      const [stockItemsData, productsData, statusData] = await Promise.all([
+        getStockItems(),
+        getProducts(),
+        getStockItemStatus(),
+      ]);
+
+      // carrega as variações de todos os produtos para exibir também as que estão zeradas
+      const variationsData = await Promise.all(
+        productsData.map(async (product) =>
+          (await getProductVariations(product.id)).map((productVariation) => ({
+            product,
+            productVariation,
+          })),
+        ),
+      );
+
+      setSummaries(
+        summarizeStockItems(
+          stockItemsData,
+          findStockItemStatusIdByRole(
+            statusData,
+            StockItemStatusRoleEnum.AVAILABLE,
+          ),
+        ),
+      );
+      setStockItemStatus(statusData);
+      setVariations(variationsData.flat());
+    };
+
+    loadSummary();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleChangeMinimum = (
+    productVariationId: number,
+    minimum: number | null,
+  ) => {
+    const productVariations = { ...minimums.productVariations };
+    if (minimum === null) {
+      delete productVariations[productVariationId];
+    } else {
+      productVariations[productVariationId] = minimum;
+    }
+
+    const newMinimums = { ...minimums, productVariations };
+    setMinimums(newMinimums);
+    setStockMinimums(newMinimums);
+  };
+
+  const handleChangeDefaultMinimum = (minimum: number | null) => {
+    const newMinimums = { ...minimums, default: minimum ?? 0 };
+    setMinimums(newMinimums);
+    setStockMinimums(newMinimums);
+  };
+
+  const rows: IStockSummaryRow[] = useMemo(() => {
+    const summariesByVariation = new Map(
+      summaries.map((summary) => [summary.productVariationId, summary]),
+    );
+
+    return variations
+      .filter(({ productVariation }) => productVariation.id)
+      .map(({ product, productVariation }) => ({
+        product,
+        productVariation,
+        summary: summariesByVariation.get(productVariation.id as number),
+        minimum: getStockMinimum(minimums, productVariation.id as number),
+      }))
+      .filter(
+        (row) => !onlyBelowMinimum || (row.summary?.onHand ?? 0) < row.minimum,
+      );
+  }, [summaries, variations, minimums, onlyBelowMinimum]);
+
+  const columns: ColumnsType<IStockSummaryRow> = useMemo(
+    () => [
+      {
+        title: 'Produto',
+        key: 'product',
+        render: (_, row) => <a>{row.product.name}</a>,
+        sorter: (a, b) => a.product.name.localeCompare(b.product.name),
+      },
+      {
+        title: 'Variação',
+        key: 'productVariation',
+        render: (_, row) => <a>{row.productVariation.name}</a>,
+      },
+      ...stockItemStatus.map((status) => ({
+        title: status.name,
+        key: `status-${status.id}`,
+        render: (_: unknown, row: IStockSummaryRow) => (
+          <span>{row.summary?.countByStatus[status.id] ?? 0}</span>
+        ),
+      })),
+      {
+        title: 'Em estoque',
+        key: 'onHand',
+        render: (_, row) => <span>{row.summary?.onHand ?? 0}</span>,
+        sorter: (a, b) => (a.summary?.onHand ?? 0) - (b.summary?.onHand ?? 0),
+      },
+      {
+        title: 'Mínimo',
+        key: 'minimum',
+        render: (_, row) => (
+          <InputNumber
+            min={0}
+            value={minimums.productVariations[row.productVariation.id ?? 0]}
+            placeholder={minimums.default.toString()}
+            onChange={(value) =>
+              handleChangeMinimum(row.productVariation.id as number, value)
+            }
+          />
+        ),
+      },
+      {
+        title: 'Situação',
+        key: 'situation',
+        render: (_, row) =>
+          (row.summary?.onHand ?? 0) < row.minimum ? (
+            <Tag color='red'>Abaixo do mínimo</Tag>
+          ) : (
+            <Tag color='green'>OK</Tag>
+          ),
+      },
+    ],
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [stockItemStatus, minimums],
+  );
+
+  return (
+    <div>
+      <div className='flex items-center gap-4 mb-2'>
+        <span>Mínimo padrão:</span>
+        <InputNumber
+          min={0}
+          value={minimums.default}
+          onChange={handleChangeDefaultMinimum}
+        />
+        <Checkbox
+          checked={onlyBelowMinimum}
+          onChange={(event) => setOnlyBelowMinimum(event.target.checked)}
+        >
+          Somente abaixo do mínimo
+        </Checkbox>
+      </div>
+      <Table
+        columns={columns}
+        dataSource={rows}
+        rowKey={(row) => `${row.productVariation.id}`}
+        exportFileName='resumo-estoque'
+      />
+    </div>
+  );
+};
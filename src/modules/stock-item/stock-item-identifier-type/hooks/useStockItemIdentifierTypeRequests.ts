@@ -1,72 +1,35 @@
-import toast from 'react-hot-toast';
-
 import {
-  URL_STOCK_ITEM_IDENTIFIER_TYPE_ID,
   URL_STOCK_ITEM_IDENTIFIER_TYPES,
+  URL_STOCK_ITEM_IDENTIFIER_TYPE_ID,
 } from '../../../../shared/constants/urls';
-import { MethodsEnum } from '../../../../shared/enums/methods.enum';
-import { useRequests } from '../../../../shared/hooks/useRequests';
+import { createResourceHook } from '../../../../shared/hooks/createResourceHook';
 import { IStockItemIdentifierTypeInsert } from '../interfaces/StockItemIdentifierTypeInsertInterface';
 import { IStockItemIdentifierType } from '../interfaces/StockItemIdentifierTypeInterface';
 
-const useStockItemIdentifierTypeRequests = () => {
-  const { request } = useRequests();
-
-  const getStockItemIdentifierTypes = async () => {
-    const response = await request<IStockItemIdentifierType[]>(
-      URL_STOCK_ITEM_IDENTIFIER_TYPES,
-      MethodsEnum.GET,
-    );
-    if (response) {
-      return response;
-    }
-    return [];
-  };
-
-  const getStockItemIdentifierTypeById = async (id: number) => {
-    try {
-      const response = await request<IStockItemIdentifierType>(
-        URL_STOCK_ITEM_IDENTIFIER_TYPE_ID.replace(
-          '{stockItemIdentifierTypeId}',
-          id.toString(),
-        ),
-        MethodsEnum.GET,
-      );
-      return response;
-    } catch (error) {
-      toast.error('Erro ao buscar o tipo de identificador: ');
-      throw new Error(`Erro ao buscar o tipo de identificador: ${error}`);
-    }
-  };
-
-  const saveStockItemIdentifierType = async (
-    stockItemIdentifierType: IStockItemIdentifierTypeInsert,
-    id?: string,
-  ) => {
-    const url = id
-      ? URL_STOCK_ITEM_IDENTIFIER_TYPE_ID.replace(
-          '{stockItemIdentifierTypeId}',
-          id,
-        )
-      : URL_STOCK_ITEM_IDENTIFIER_TYPES;
-    const method = id ? MethodsEnum.PATCH : MethodsEnum.POST;
+const useStockItemIdentifierTypeResource = createResourceHook<
+  IStockItemIdentifierType,
+  IStockItemIdentifierTypeInsert
+>({
+  url: URL_STOCK_ITEM_IDENTIFIER_TYPES,
+  urlId: URL_STOCK_ITEM_IDENTIFIER_TYPE_ID,
+  messages: {
+    singular: 'o tipo de identificador',
+    plural: 'os tipos de identificador',
+    deleted: 'Tipo de identificador deletado com sucesso!',
+    referenced:
+      'O tipo de identificador não pode ser deletado pois está vinculado a itens em estoque',
+  },
+});
 
-    try {
-      const response = await request<IStockItemIdentifierType>(
-        url,
-        method,
-        stockItemIdentifierType,
-      );
-      return response;
-    } catch (error) {
-      throw new Error(`Erro ao salvar o tipo de identificador: ${error}`);
-    }
-  };
+const useStockItemIdentifierTypeRequests = () => {
+  const { list, getById, save, remove } = useStockItemIdentifierTypeResource();
 
   return {
-    getStockItemIdentifierTypes,
-    getStockItemIdentifierTypeById,
-    saveStockItemIdentifierType,
+    getStockItemIdentifierTypes: () => list(),
+    getStockItemIdentifierTypeById: getById,
+    saveStockItemIdentifierType: save,
+    deleteStockItemIdentifierType: remove,
   };
 };
+
 export default useStockItemIdentifierTypeRequests;
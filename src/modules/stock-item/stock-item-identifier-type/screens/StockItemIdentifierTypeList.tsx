@@ -3,15 +3,21 @@ import { ColumnsType } from 'antd/es/table';
 import { useEffect, useMemo, useState } from 'react';
 
 import Button from '../../../../components/button/Button';
+import ConfirmDeleteModal from '../../../../components/modal/ConfirmDeleteModal';
 import Modal from '../../../../components/modal/Modal';
 import Table from '../../../../components/table/Table';
+import { usePermission } from '../../../../shared/hooks/usePermission';
 import useStockItemIdentifierTypeRequests from '../hooks/useStockItemIdentifierTypeRequests';
 import { IStockItemIdentifierType } from '../interfaces/StockItemIdentifierTypeInterface';
 
 import { StockItemIdentifierTypeDetails } from './StockItemIdentifierTypeDetails';
 
 export const StockItemIdentifierTypeList = () => {
-  const { getStockItemIdentifierTypes } = useStockItemIdentifierTypeRequests();
+  const { canEdit } = usePermission('statuses');
+  const { getStockItemIdentifierTypes, deleteStockItemIdentifierType } =
+    useStockItemIdentifierTypeRequests();
+  const [stockItemIdentifierTypeToDelete, setStockItemIdentifierTypeToDelete] =
+    useState<IStockItemIdentifierType>();
 
   const [stockItemIdentifierType, setStockItemIdentifierType] = useState<
     IStockItemIdentifierType[]
@@ -49,6 +55,7 @@ export const StockItemIdentifierTypeList = () => {
         render: (_, stockItemIdentifierType) => (
           <div style={{ width: '180px', display: 'flex' }}>
             <Button
+              disabled={!canEdit}
               margin='0px 16px 0px 0px'
               onClick={() =>
                 handleEditStockItemIdentifierType(stockItemIdentifierType)
@@ -57,14 +64,21 @@ export const StockItemIdentifierTypeList = () => {
             >
               Editar
             </Button>
-            <Button danger onClick={() => {}} icon={<DeleteOutlined />}>
+            <Button
+              disabled={!canEdit}
+              danger
+              onClick={() =>
+                setStockItemIdentifierTypeToDelete(stockItemIdentifierType)
+              }
+              icon={<DeleteOutlined />}
+            >
               Deletar
             </Button>
           </div>
         ),
       },
     ],
-    [],
+    [canEdit],
   );
 
   const handleEditStockItemIdentifierType = (
@@ -88,11 +102,19 @@ export const StockItemIdentifierTypeList = () => {
     }
   };
 
+  const handleDeleteStockItemIdentifierType = async () => {
+    if (stockItemIdentifierTypeToDelete) {
+      await deleteStockItemIdentifierType(stockItemIdentifierTypeToDelete.id);
+      loadStockItemIdentifierType();
+    }
+  };
+
   return (
     <div>
       <div className='flex justify-between'>
         <div style={{ width: '240' }}>
           <Button
+            disabled={!canEdit}
             className='mb-2'
             title='Inserir'
             backgroundColor='#001529'
@@ -105,6 +127,7 @@ export const StockItemIdentifierTypeList = () => {
         columns={columns}
         dataSource={stockItemIdentifierType}
         rowKey='id'
+        exportFileName='tipos-identificador'
       />
       <Modal
         isModalOpen={isModalOpen}
@@ -118,6 +141,12 @@ export const StockItemIdentifierTypeList = () => {
           onSave={loadStockItemIdentifierType}
         />
       </Modal>
+      <ConfirmDeleteModal
+        isModalOpen={!!stockItemIdentifierTypeToDelete}
+        description={`Deseja deletar o tipo de identificador ${stockItemIdentifierTypeToDelete?.name}?`}
+        onConfirm={handleDeleteStockItemIdentifierType}
+        onClose={() => setStockItemIdentifierTypeToDelete(undefined)}
+      />
     </div>
   );
 };
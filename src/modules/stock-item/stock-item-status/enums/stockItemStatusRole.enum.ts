@@ -0,0 +1,6 @@
+// papel do status nas regras de estoque, escolhido no cadastro do status
+export enum StockItemStatusRoleEnum {
+  AVAILABLE = 'available',
+  RESERVED = 'reserved',
+  SOLD = 'sold',
+}
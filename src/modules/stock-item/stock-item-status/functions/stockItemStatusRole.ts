@@ -0,0 +1,30 @@
+import { StockItemStatusRoleEnum } from '../enums/stockItemStatusRole.enum';
+import { IStockItemStatus } from '../interfaces/StockItemStatusInterface';
+
+export const STOCK_ITEM_STATUS_ROLE_LABELS: Record<
+  StockItemStatusRoleEnum,
+  string
+> = {
+  [StockItemStatusRoleEnum.AVAILABLE]: 'Disponível',
+  [StockItemStatusRoleEnum.RESERVED]: 'Reservado para uma venda',
+  [StockItemStatusRoleEnum.SOLD]: 'Vendido',
+};
+
+export const findStockItemStatusIdByRole = (
+  stockItemStatus: IStockItemStatus[],
+  role: StockItemStatusRoleEnum,
+) => stockItemStatus.find((status) => status.role === role)?.id;
+
+// para operações que não podem seguir sem o status (ex.: reservar um item)
+export const getStockItemStatusIdByRole = (
+  stockItemStatus: IStockItemStatus[],
+  role: StockItemStatusRoleEnum,
+) => {
+  const id = findStockItemStatusIdByRole(stockItemStatus, role);
+  if (id === undefined) {
+    throw new Error(
+      `Nenhum status de item de estoque cadastrado com o papel "${STOCK_ITEM_STATUS_ROLE_LABELS[role]}"`,
+    );
+  }
+  return id;
+};
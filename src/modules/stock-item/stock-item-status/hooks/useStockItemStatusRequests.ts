@@ -1,67 +1,34 @@
-import toast from 'react-hot-toast';
-
 import {
   URL_STOCK_ITEM_STATUS,
   URL_STOCK_ITEM_STATUS_ID,
 } from '../../../../shared/constants/urls';
-import { MethodsEnum } from '../../../../shared/enums/methods.enum';
-import { useRequests } from '../../../../shared/hooks/useRequests';
+import { createResourceHook } from '../../../../shared/hooks/createResourceHook';
 import { IStockItemStatusInsert } from '../interfaces/StockItemStatusInsertInterface';
 import { IStockItemStatus } from '../interfaces/StockItemStatusInterface';
 
-const useStockItemStatusRequests = () => {
-  const { request } = useRequests();
-
-  const getStockItemStatus = async () => {
-    const response = await request<IStockItemStatus[]>(
-      URL_STOCK_ITEM_STATUS,
-      MethodsEnum.GET,
-    );
-
-    if (response) {
-      return response;
-    }
-    return [];
-  };
-
-  const getStockItemStatusById = async (id: number) => {
-    try {
-      const response = await request<IStockItemStatus>(
-        URL_STOCK_ITEM_STATUS_ID.replace('{stockItemStatusId}', id.toString()),
-        MethodsEnum.GET,
-      );
-      return response;
-    } catch (error) {
-      toast.error('Erro ao buscar o status do item de estoque');
-      throw new Error(`Erro ao buscar o status do item de estoque: ${error}`);
-    }
-  };
-
-  const saveStockItemStatus = async (
-    stockItemStatus: IStockItemStatusInsert,
-    id?: string,
-  ) => {
-    const url = id
-      ? URL_STOCK_ITEM_STATUS_ID.replace('{stockItemStatusId}', id)
-      : URL_STOCK_ITEM_STATUS;
-    const method = id ? MethodsEnum.PATCH : MethodsEnum.POST;
+const useStockItemStatusResource = createResourceHook<
+  IStockItemStatus,
+  IStockItemStatusInsert
+>({
+  url: URL_STOCK_ITEM_STATUS,
+  urlId: URL_STOCK_ITEM_STATUS_ID,
+  messages: {
+    singular: 'o status do item de estoque',
+    plural: 'os status de item de estoque',
+    deleted: 'Status deletado com sucesso!',
+    referenced:
+      'O status não pode ser deletado pois está vinculado a itens em estoque',
+  },
+});
 
-    try {
-      const response = await request<IStockItemStatus>(
-        url,
-        method,
-        stockItemStatus,
-      );
-      return response;
-    } catch (error) {
-      throw new Error(`Erro ao salvar o status do item de estoque: ${error}`);
-    }
-  };
+const useStockItemStatusRequests = () => {
+  const { list, getById, save, remove } = useStockItemStatusResource();
 
   return {
-    getStockItemStatus,
-    getStockItemStatusById,
-    saveStockItemStatus,
+    getStockItemStatus: () => list(),
+    getStockItemStatusById: getById,
+    saveStockItemStatus: save,
+    deleteStockItemStatus: remove,
   };
 };
 
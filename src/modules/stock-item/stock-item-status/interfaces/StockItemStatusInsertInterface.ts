@@ -1,3 +1,6 @@
+import { StockItemStatusRoleEnum } from '../enums/stockItemStatusRole.enum';
+
 export interface IStockItemStatusInsert {
   name: string;
+  role?: StockItemStatusRoleEnum;
 }
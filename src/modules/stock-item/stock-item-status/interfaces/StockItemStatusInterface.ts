@@ -1,4 +1,7 @@
+import { StockItemStatusRoleEnum } from '../enums/stockItemStatusRole.enum';
+
 export interface IStockItemStatus {
   id: number;
   name: string;
+  role?: StockItemStatusRoleEnum;
 }
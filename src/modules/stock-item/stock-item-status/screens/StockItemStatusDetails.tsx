@@ -5,11 +5,17 @@ import toast from 'react-hot-toast';
 import { z } from 'zod';
 
 import { Input } from '../../../../components/input/Input';
+import Select from '../../../../components/select/Select';
+import { URL_STOCK_ITEM_STATUS } from '../../../../shared/constants/urls';
+import { useQuery } from '../../../../shared/hooks/useQuery';
+import { StockItemStatusRoleEnum } from '../enums/stockItemStatusRole.enum';
+import { STOCK_ITEM_STATUS_ROLE_LABELS } from '../functions/stockItemStatusRole';
 import useStockItemStatusRequests from '../hooks/useStockItemStatusRequests';
 import { IStockItemStatus } from '../interfaces/StockItemStatusInterface';
 
 const schema = z.object({
   name: z.string().min(1, 'O campo nome é obrigatório'),
+  role: z.string(),
 });
 
 type FormData = z.infer<typeof schema>;
@@ -26,8 +32,12 @@ export const StockItemStatusDetails = ({
   onSave,
 }: StockItemStatusDetailsProps) => {
   const [, setStockItemStatus] = useState<IStockItemStatus>();
-  const { getStockItemStatusById, saveStockItemStatus } =
+  const { getStockItemStatus, getStockItemStatusById, saveStockItemStatus } =
     useStockItemStatusRequests();
+  const { data: stockItemStatus = [] } = useQuery(
+    URL_STOCK_ITEM_STATUS,
+    getStockItemStatus,
+  );
 
   const {
     register,
@@ -38,6 +48,7 @@ export const StockItemStatusDetails = ({
   } = useForm<FormData>({
     resolver: zodResolver(schema),
     mode: 'onChange',
+    defaultValues: { role: '' },
   });
 
   useEffect(() => {
@@ -47,6 +58,7 @@ export const StockItemStatusDetails = ({
           if (stockItemStatusLoaded) {
             setStockItemStatus(stockItemStatusLoaded);
             setValue('name', stockItemStatusLoaded.name);
+            setValue('role', stockItemStatusLoaded.role ?? '');
           }
         })
         .catch((error) => {
@@ -63,9 +75,19 @@ export const StockItemStatusDetails = ({
   }, [stockItemStatusId]);
 
   function onSubmit(data: FormData) {
+    // cada papel identifica um único status nas regras de estoque
+    const statusWithRole = stockItemStatus.find(
+      (status) => status.role === data.role && status.id !== stockItemStatusId,
+    );
+    if (data.role && statusWithRole) {
+      toast.error(`O status ${statusWithRole.name} já tem este papel.`);
+      return;
+    }
+
     saveStockItemStatus(
       {
         name: data.name,
+        role: (data.role as StockItemStatusRoleEnum) || undefined,
       },
       stockItemStatusId ? stockItemStatusId.toString() : undefined,
     )
@@ -102,6 +124,18 @@ export const StockItemStatusDetails = ({
               <p className='my-1 text-red-500'>{errors.name.message}</p>
             )}
           </div>
+          <div className='w-full mb-4'>
+            <Select
+              className='w-full border-2 rounded-md px-2'
+              title='Papel nas regras de estoque'
+              name='role'
+              options={Object.values(StockItemStatusRoleEnum).map((role) => ({
+                value: role,
+                label: STOCK_ITEM_STATUS_ROLE_LABELS[role],
+              }))}
+              register={register}
+            />
+          </div>
           <div className='w-96 flex flex-row float-end'>
             <button
               className='w-full ml-2 rounded-md border-2 border-solid '
@@ -3,15 +3,22 @@ import { ColumnsType } from 'antd/es/table';
 import { useEffect, useMemo, useState } from 'react';
 
 import Button from '../../../../components/button/Button';
+import ConfirmDeleteModal from '../../../../components/modal/ConfirmDeleteModal';
 import Modal from '../../../../components/modal/Modal';
 import Table from '../../../../components/table/Table';
+import { usePermission } from '../../../../shared/hooks/usePermission';
+import { STOCK_ITEM_STATUS_ROLE_LABELS } from '../functions/stockItemStatusRole';
 import useStockItemStatusRequests from '../hooks/useStockItemStatusRequests';
 import { IStockItemStatus } from '../interfaces/StockItemStatusInterface';
 
 import { StockItemStatusDetails } from './StockItemStatusDetails';
 
 export const StockItemStatusList = () => {
-  const { getStockItemStatus } = useStockItemStatusRequests();
+  const { canEdit } = usePermission('statuses');
+  const { getStockItemStatus, deleteStockItemStatus } =
+    useStockItemStatusRequests();
+  const [stockItemStatusToDelete, setStockItemStatusToDelete] =
+    useState<IStockItemStatus>();
 
   const [stockItemStatus, setStockItemStatus] = useState<IStockItemStatus[]>(
     [],
@@ -40,6 +47,15 @@ export const StockItemStatusList = () => {
         sorter: (a, b) => a.name.localeCompare(b.name),
         render: (text) => <a>{text}</a>,
       },
+      {
+        title: 'Papel',
+        dataIndex: 'role',
+        key: 'role',
+        render: (_, stockItemStatus) =>
+          stockItemStatus.role
+            ? STOCK_ITEM_STATUS_ROLE_LABELS[stockItemStatus.role]
+            : '-',
+      },
       {
         title: 'Ações',
         dataIndex: '',
@@ -48,20 +64,26 @@ export const StockItemStatusList = () => {
         render: (_, stockItemStatus) => (
           <div style={{ width: '180px', display: 'flex' }}>
             <Button
+              disabled={!canEdit}
               margin='0px 16px 0px 0px'
               onClick={() => handleEditStockItemStatus(stockItemStatus)}
               icon={<EditOutlined />}
             >
               Editar
             </Button>
-            <Button danger onClick={() => {}} icon={<DeleteOutlined />}>
+            <Button
+              disabled={!canEdit}
+              danger
+              onClick={() => setStockItemStatusToDelete(stockItemStatus)}
+              icon={<DeleteOutlined />}
+            >
               Deletar
             </Button>
           </div>
         ),
       },
     ],
-    [],
+    [canEdit],
   );
 
   const handleEditStockItemStatus = (stockItemStatus: IStockItemStatus) => {
@@ -83,11 +105,19 @@ export const StockItemStatusList = () => {
     }
   };
 
+  const handleDeleteStockItemStatus = async () => {
+    if (stockItemStatusToDelete) {
+      await deleteStockItemStatus(stockItemStatusToDelete.id);
+      loadStockItemStatus();
+    }
+  };
+
   return (
     <div>
       <div className='flex justify-between'>
         <div style={{ width: '240' }}>
           <Button
+            disabled={!canEdit}
             className='mb-2'
             title='Inserir'
             backgroundColor='#001529'
@@ -96,7 +126,12 @@ export const StockItemStatusList = () => {
           />
         </div>
       </div>
-      <Table columns={columns} dataSource={stockItemStatus} rowKey='id' />
+      <Table
+        columns={columns}
+        dataSource={stockItemStatus}
+        rowKey='id'
+        exportFileName='status-itens-estoque'
+      />
       <Modal
         isModalOpen={isModalOpen}
         title='Status de Compra'
@@ -109,6 +144,12 @@ export const StockItemStatusList = () => {
           onSave={loadStockItemStatus}
         />
       </Modal>
+      <ConfirmDeleteModal
+        isModalOpen={!!stockItemStatusToDelete}
+        description={`Deseja deletar o status ${stockItemStatusToDelete?.name}?`}
+        onConfirm={handleDeleteStockItemStatus}
+        onClose={() => setStockItemStatusToDelete(undefined)}
+      />
     </div>
   );
 };
@@ -1,14 +1,26 @@
 import { RouteObject } from 'react-router-dom';
 
+import { StockItemList } from './screens/StockItemList';
 import { StockItemReview } from './screens/StockItemReview';
+import { StockItemSummary } from './screens/StockItemSummary';
 
 export enum StockItemRoutesEnum {
+  STOCK_ITEMS = '/stock-items',
   STOCK_ITEM_INSERT = '/stock-items/insert',
+  STOCK_ITEM_SUMMARY = '/stock-items/summary',
 }
 
 export const stockItemRoutes: RouteObject[] = [
+  {
+    path: StockItemRoutesEnum.STOCK_ITEMS,
+    element: <StockItemList />,
+  },
   {
     path: StockItemRoutesEnum.STOCK_ITEM_INSERT,
     element: <StockItemReview purchaseOrderItems={[]} />,
   },
+  {
+    path: StockItemRoutesEnum.STOCK_ITEM_SUMMARY,
+    element: <StockItemSummary />,
+  },
 ];
@@ -2,15 +2,33 @@ import toast from 'react-hot-toast';
 
 import { URL_SUPPLIER_ID, URL_SUPPLIERS } from '../../../shared/constants/urls';
 import { MethodsEnum } from '../../../shared/enums/methods.enum';
+import { getRequestErrorMessage } from '../../../shared/functions/connection/requestError';
+import { createResourceHook } from '../../../shared/hooks/createResourceHook';
+import { fetchQuery, invalidateQueries } from '../../../shared/hooks/useQuery';
 import { useRequests } from '../../../shared/hooks/useRequests';
 import { ISupplierInsert } from '../interfaces/SupplierInsertInterface';
 import { ISupplier } from '../interfaces/SupplierInterface';
 
+const useSupplierResource = createResourceHook<ISupplier, ISupplierInsert>({
+  url: URL_SUPPLIERS,
+  urlId: URL_SUPPLIER_ID,
+  messages: {
+    singular: 'o fornecedor',
+    plural: 'os fornecedores',
+    deleted: 'Fornecedor deletado com sucesso!',
+    referenced:
+      'O fornecedor não pode ser deletado pois está vinculado a compras',
+  },
+});
+
 const useSupplierRequests = () => {
   const { request } = useRequests();
+  const { remove } = useSupplierResource();
 
   const getSuppliers = async () => {
-    const response = await request<ISupplier[]>(URL_SUPPLIERS, MethodsEnum.GET);
+    const response = await fetchQuery(URL_SUPPLIERS, () =>
+      request<ISupplier[]>(URL_SUPPLIERS, MethodsEnum.GET),
+    );
     if (response) {
       return response;
     }
@@ -25,7 +43,7 @@ const useSupplierRequests = () => {
       );
       return response;
     } catch (error) {
-      toast.error('Erro ao buscar o fornecedor');
+      toast.error(getRequestErrorMessage(error, 'Erro ao buscar o fornecedor'));
       throw new Error(`Erro ao buscar o fornecedor: ${error}`);
     }
   };
@@ -38,13 +56,16 @@ const useSupplierRequests = () => {
 
     try {
       const response = await request<ISupplier>(url, method, supplier);
+      invalidateQueries(URL_SUPPLIERS);
       return response;
     } catch (error) {
       throw new Error(`Erro ao salvar o fornecedor: ${error}`);
     }
   };
 
-  return { getSuppliers, getSupplierById, saveSupplier };
+  const deleteSupplier = (id: number) => remove(id);
+
+  return { getSuppliers, getSupplierById, saveSupplier, deleteSupplier };
 };
 
 export default useSupplierRequests;
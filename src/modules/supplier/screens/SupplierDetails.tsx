@@ -5,6 +5,7 @@ import toast from 'react-hot-toast';
 import { z } from 'zod';
 
 import { Input } from '../../../components/input/Input';
+import { usePermission } from '../../../shared/hooks/usePermission';
 import useSupplierRequests from '../hooks/useSupplierRequets';
 import { ISupplier } from '../interfaces/SupplierInterface';
 
@@ -32,6 +33,7 @@ export const SupplierDetails = ({
   supplierId,
   onSave,
 }: SupplierDetailsProps) => {
+  const { canEdit } = usePermission('suppliers');
   const [, setSupplier] = useState<ISupplier>();
 
   const { getSupplierById, saveSupplier } = useSupplierRequests();
@@ -194,6 +196,7 @@ export const SupplierDetails = ({
               type='submit'
               style={{ backgroundColor: '#001529' }}
               color='white'
+              disabled={!canEdit}
             >
               {supplierId ? 'Editar' : 'Inserir'}
             </button>
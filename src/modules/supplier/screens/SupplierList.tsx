@@ -3,18 +3,22 @@ import { ColumnsType } from 'antd/es/table';
 import { useEffect, useMemo, useState } from 'react';
 
 import Button from '../../../components/button/Button';
+import ConfirmDeleteModal from '../../../components/modal/ConfirmDeleteModal';
 import Modal from '../../../components/modal/Modal';
 import Table from '../../../components/table/Table';
+import { usePermission } from '../../../shared/hooks/usePermission';
 import useSupplierRequests from '../hooks/useSupplierRequets';
 import { ISupplier } from '../interfaces/SupplierInterface';
 
 import { SupplierDetails } from './SupplierDetails';
 
 export const SupplierList = () => {
+  const { canEdit } = usePermission('suppliers');
   const [suppliers, setSuppliers] = useState<ISupplier[]>([]);
   const [supplierId, setSupplierId] = useState<number>();
 
-  const { getSuppliers } = useSupplierRequests();
+  const { getSuppliers, deleteSupplier } = useSupplierRequests();
+  const [supplierToDelete, setSupplierToDelete] = useState<ISupplier>();
   const [isModalOpen, setIsModalOpen] = useState(false);
 
   const columns: ColumnsType<ISupplier> = useMemo(
@@ -40,20 +44,26 @@ export const SupplierList = () => {
         render: (_, supplier) => (
           <div style={{ width: '180px', display: 'flex' }}>
             <Button
+              disabled={!canEdit}
               margin='0px 16px 0px 0px'
               onClick={() => handleEditSupplier(supplier)}
               icon={<EditOutlined />}
             >
               Editar
             </Button>
-            <Button danger onClick={() => {}} icon={<DeleteOutlined />}>
+            <Button
+              disabled={!canEdit}
+              danger
+              onClick={() => setSupplierToDelete(supplier)}
+              icon={<DeleteOutlined />}
+            >
               Deletar
             </Button>
           </div>
         ),
       },
     ],
-    [],
+    [canEdit],
   );
 
   useEffect(() => {
@@ -80,11 +90,19 @@ export const SupplierList = () => {
     }
   };
 
+  const handleDeleteSupplier = async () => {
+    if (supplierToDelete) {
+      await deleteSupplier(supplierToDelete.id);
+      loadSuppliers();
+    }
+  };
+
   return (
     <div>
       <div className='flex justify-between'>
         <div style={{ width: '240' }}>
           <Button
+            disabled={!canEdit}
             className='mb-2'
             title='Inserir'
             backgroundColor='#001529'
@@ -93,7 +111,12 @@ export const SupplierList = () => {
           />
         </div>
       </div>
-      <Table columns={columns} dataSource={suppliers} rowKey='id' />
+      <Table
+        columns={columns}
+        dataSource={suppliers}
+        rowKey='id'
+        exportFileName='fornecedores'
+      />
       <Modal
         isModalOpen={isModalOpen}
         title='Categoria'
@@ -106,6 +129,12 @@ export const SupplierList = () => {
           onSave={loadSuppliers}
         />
       </Modal>
+      <ConfirmDeleteModal
+        isModalOpen={!!supplierToDelete}
+        description={`Deseja deletar o fornecedor ${supplierToDelete?.tradeName}?`}
+        onConfirm={handleDeleteSupplier}
+        onClose={() => setSupplierToDelete(undefined)}
+      />
     </div>
   );
 };
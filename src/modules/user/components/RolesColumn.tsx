@@ -0,0 +1,30 @@
+import { Tag } from 'antd';
+
+import { USER_ROLE_LABELS } from '../../../shared/constants/permissions';
+import { UserRoleEnum } from '../../../shared/enums/userRole.enum';
+
+interface RolesColumnProps {
+  roles?: UserRoleEnum[];
+}
+
+const colors: Record<UserRoleEnum, string> = {
+  [UserRoleEnum.ADMIN]: 'red',
+  [UserRoleEnum.BUYER]: 'blue',
+  [UserRoleEnum.SELLER]: 'green',
+  [UserRoleEnum.STOCK_CLERK]: 'gold',
+};
+
+const RolesColumn = ({ roles }: RolesColumnProps) => {
+  if (!roles?.length) return <Tag>Sem papel</Tag>;
+  return (
+    <>
+      {roles.map((role) => (
+        <Tag key={role} color={colors[role]}>
+          {USER_ROLE_LABELS[role]}
+        </Tag>
+      ))}
+    </>
+  );
+};
+
+export default RolesColumn;
@@ -0,0 +1,103 @@
+import toast from 'react-hot-toast';
+
+import {
+  URL_USER_ID,
+  URL_USER_RESET_PASSWORD,
+  URL_USERS,
+} from '../../../shared/constants/urls';
+import { MethodsEnum } from '../../../shared/enums/methods.enum';
+import { getRequestErrorMessage } from '../../../shared/functions/connection/requestError';
+import { invalidateQueries } from '../../../shared/hooks/useQuery';
+import { useRequests } from '../../../shared/hooks/useRequests';
+import { IUserInsert } from '../interfaces/UserInsertInterface';
+import { IUserAccount } from '../interfaces/UserInterface';
+
+const useUserRequests = () => {
+  const { request } = useRequests();
+
+  const getUsers = async () => {
+    const response = await request<IUserAccount[]>(URL_USERS, MethodsEnum.GET);
+    if (response) {
+      return response;
+    }
+    return [];
+  };
+
+  const getUserById = async (id: string) => {
+    try {
+      const response = await request<IUserAccount>(
+        URL_USER_ID.replace('{userId}', id),
+        MethodsEnum.GET,
+      );
+      return response;
+    } catch (error) {
+      toast.error(getRequestErrorMessage(error, 'Erro ao buscar o usuário'));
+      throw new Error(`Erro ao buscar o usuário: ${error}`);
+    }
+  };
+
+  // na criação o backend envia ao e-mail informado o convite para definir a senha
+  const saveUser = async (user: IUserInsert, id?: string) => {
+    const url = id ? URL_USER_ID.replace('{userId}', id) : URL_USERS;
+    const method = id ? MethodsEnum.PATCH : MethodsEnum.POST;
+
+    try {
+      const response = await request<IUserAccount>(url, method, user);
+      invalidateQueries(URL_USERS);
+      toast.success(
+        id ? 'Usuário salvo com sucesso!' : 'Convite enviado com sucesso!',
+      );
+      return response;
+    } catch (error) {
+      toast.error(getRequestErrorMessage(error, 'Erro ao salvar o usuário'));
+      throw new Error(`Erro ao salvar o usuário: ${error}`);
+    }
+  };
+
+  const setUserActive = async (id: string, active: boolean) => {
+    try {
+      const response = await request<IUserAccount>(
+        URL_USER_ID.replace('{userId}', id),
+        MethodsEnum.PATCH,
+        { active },
+      );
+      invalidateQueries(URL_USERS);
+      toast.success(active ? 'Usuário ativado!' : 'Usuário desativado!');
+      return response;
+    } catch (error) {
+      toast.error(
+        getRequestErrorMessage(
+          error,
+          active ? 'Erro ao ativar o usuário' : 'Erro ao desativar o usuário',
+        ),
+      );
+      throw new Error(`Erro ao alterar a situação do usuário: ${error}`);
+    }
+  };
+
+  // o backend envia ao usuário um link para cadastrar uma nova senha
+  const resetUserPassword = async (id: string) => {
+    try {
+      await request(
+        URL_USER_RESET_PASSWORD.replace('{userId}', id),
+        MethodsEnum.POST,
+      );
+      toast.success('E-mail de redefinição de senha enviado!');
+    } catch (error) {
+      toast.error(
+        getRequestErrorMessage(error, 'Erro ao redefinir a senha do usuário'),
+      );
+      throw new Error(`Erro ao redefinir a senha do usuário: ${error}`);
+    }
+  };
+
+  return {
+    getUsers,
+    getUserById,
+    saveUser,
+    setUserActive,
+    resetUserPassword,
+  };
+};
+
+export default useUserRequests;
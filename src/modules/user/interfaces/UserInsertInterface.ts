@@ -0,0 +1,8 @@
+import { UserRoleEnum } from '../../../shared/enums/userRole.enum';
+
+export interface IUserInsert {
+  name: string;
+  email: string;
+  roles: UserRoleEnum[];
+  active?: boolean;
+}
@@ -0,0 +1,7 @@
+import { IUser } from '../../../shared/interfaces/UserInterface';
+
+export interface IUserAccount extends IUser {
+  active: boolean;
+  createdAt: string;
+  lastLoginAt: string | null;
+}
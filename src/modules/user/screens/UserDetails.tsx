@@ -0,0 +1,147 @@
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+
+import { Input } from '../../../components/input/Input';
+import { USER_ROLE_LABELS } from '../../../shared/constants/permissions';
+import { URL_USER_ID } from '../../../shared/constants/urls';
+import { UserRoleEnum } from '../../../shared/enums/userRole.enum';
+import { fillUrlTemplate } from '../../../shared/functions/url/urlTemplate';
+import { useQuery } from '../../../shared/hooks/useQuery';
+import useUserRequests from '../hooks/useUserRequests';
+
+const schema = z.object({
+  name: z.string().min(1, 'O campo nome é obrigatório'),
+  email: z
+    .string()
+    .email('Insira um e-mail válido')
+    .min(1, 'O campo e-mail é obrigatório'),
+  roles: z
+    .array(z.nativeEnum(UserRoleEnum))
+    .min(1, 'Selecione ao menos um papel'),
+});
+
+type FormData = z.infer<typeof schema>;
+
+interface UserDetailsProps {
+  onCancel?: () => void;
+  userId?: string;
+  onSave?: () => void;
+}
+
+export const UserDetails = ({ onCancel, userId, onSave }: UserDetailsProps) => {
+  const { getUserById, saveUser } = useUserRequests();
+
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    formState: { errors, isSubmitting },
+    reset,
+  } = useForm<FormData>({
+    resolver: zodResolver(schema),
+    mode: 'onChange',
+    defaultValues: { roles: [] },
+  });
+
+  const { data: user } = useQuery(
+    userId ? fillUrlTemplate(URL_USER_ID, { userId }) : undefined,
+    () => getUserById(userId as string),
+  );
+
+  useEffect(() => {
+    if (user) {
+      setValue('name', user.name ?? '');
+      setValue('email', user.email ?? '');
+      setValue('roles', user.roles ?? []);
+    }
+  }, [user, setValue]);
+
+  const handleCancel = () => {
+    reset();
+    onCancel?.();
+  };
+
+  const onSubmit = async (data: FormData) => {
+    try {
+      await saveUser(
+        {
+          name: data.name,
+          email: data.email,
+          roles: data.roles,
+        },
+        userId,
+      );
+      onSave?.();
+      handleCancel();
+    } catch {
+      // o erro já é exibido pelo hook de requisição
+    }
+  };
+
+  return (
+    <div>
+      <div className='w-full bg-white p-3 rounded-lg flex flex-col sm:flex-row items-center gap-2 mt-2'>
+        <form className='w-full' onSubmit={handleSubmit(onSubmit)}>
+          {!userId && (
+            <p className='mb-4'>
+              O usuário receberá um convite por e-mail para definir a própria
+              senha.
+            </p>
+          )}
+          <div className='w-full mb-4'>
+            <Input
+              title='Nome'
+              type='text'
+              placeholder='Digite o nome do usuário...'
+              error={errors.name?.message}
+              {...register('name')}
+            />
+          </div>
+          <div className='w-full mb-4'>
+            <Input
+              title='E-mail'
+              type='email'
+              placeholder='Digite o e-mail do usuário...'
+              error={errors.email?.message}
+              {...register('email')}
+            />
+          </div>
+          <div className='w-full mb-4'>
+            <p className='mb-2 font-medium'>Papéis</p>
+            {Object.values(UserRoleEnum).map((role) => (
+              <label key={role} className='mr-4 inline-flex items-center gap-1'>
+                <input type='checkbox' value={role} {...register('roles')} />
+                {USER_ROLE_LABELS[role]}
+              </label>
+            ))}
+            {errors.roles && (
+              <p className='my-1 text-red-500'>{errors.roles.message}</p>
+            )}
+          </div>
+          <div className='w-96 flex flex-row float-end'>
+            <button
+              className='w-full ml-2 rounded-md border-2 border-solid '
+              type='button'
+              style={{ color: '#001529' }}
+              color='white'
+              onClick={handleCancel}
+            >
+              Cancelar
+            </button>
+            <button
+              className='w-full ml-2 rounded-md text-white'
+              type='submit'
+              style={{ backgroundColor: '#001529' }}
+              color='white'
+              disabled={isSubmitting}
+            >
+              {userId ? 'Editar' : 'Convidar'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,170 @@
+import { EditOutlined, KeyOutlined } from '@ant-design/icons';
+import { Modal as ModalAnt, Switch } from 'antd';
+import { ColumnsType } from 'antd/es/table';
+import { format } from 'date-fns';
+import { useContext, useMemo, useState } from 'react';
+
+import Button from '../../../components/button/Button';
+import Modal from '../../../components/modal/Modal';
+import Table from '../../../components/table/Table';
+import { AuthContext } from '../../../contexts/authContext';
+import { URL_USERS } from '../../../shared/constants/urls';
+import { usePermission } from '../../../shared/hooks/usePermission';
+import { useQuery } from '../../../shared/hooks/useQuery';
+import RolesColumn from '../components/RolesColumn';
+import useUserRequests from '../hooks/useUserRequests';
+import { IUserAccount } from '../interfaces/UserInterface';
+
+import { UserDetails } from './UserDetails';
+
+export const UserList = () => {
+  const { canEdit } = usePermission('users');
+  const { user: currentUser } = useContext(AuthContext);
+  const [userId, setUserId] = useState<string>();
+  const [userToResetPassword, setUserToResetPassword] =
+    useState<IUserAccount>();
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isResettingPassword, setIsResettingPassword] = useState(false);
+
+  const { getUsers, setUserActive, resetUserPassword } = useUserRequests();
+
+  const { data: users = [] } = useQuery(URL_USERS, getUsers);
+
+  // a lista é recarregada pelo hook depois da alteração
+  const handleToggleActive = (user: IUserAccount, active: boolean) =>
+    setUserActive(user.id, active).catch(() => undefined);
+
+  const columns: ColumnsType<IUserAccount> = useMemo(
+    () => [
+      {
+        title: 'Nome',
+        dataIndex: 'name',
+        key: 'name',
+        sorter: (a, b) => (a.name ?? '').localeCompare(b.name ?? ''),
+        render: (text) => <a>{text}</a>,
+      },
+      {
+        title: 'E-mail',
+        dataIndex: 'email',
+        key: 'email',
+      },
+      {
+        title: 'Papéis',
+        dataIndex: 'roles',
+        key: 'roles',
+        render: (_, user) => <RolesColumn roles={user.roles} />,
+      },
+      {
+        title: 'Último acesso',
+        dataIndex: 'lastLoginAt',
+        key: 'lastLoginAt',
+        render: (lastLoginAt) =>
+          lastLoginAt ? format(new Date(lastLoginAt), 'dd/MM/yyyy HH:mm') : '-',
+      },
+      {
+        title: 'Ativo',
+        dataIndex: 'active',
+        key: 'active',
+        render: (_, user) => (
+          // o próprio usuário não pode se desativar e perder o acesso
+          <Switch
+            checked={user.active}
+            disabled={!canEdit || user.id === currentUser?.id}
+            onChange={(active) => handleToggleActive(user, active)}
+          />
+        ),
+      },
+      {
+        title: 'Ações',
+        dataIndex: '',
+        width: 320,
+        key: 'x',
+        render: (_, user) => (
+          <div style={{ width: '300px', display: 'flex' }}>
+            <Button
+              disabled={!canEdit}
+              margin='0px 16px 0px 0px'
+              onClick={() => handleEditUser(user)}
+              icon={<EditOutlined />}
+            >
+              Editar
+            </Button>
+            <Button
+              disabled={!canEdit || !user.active}
+              onClick={() => setUserToResetPassword(user)}
+              icon={<KeyOutlined />}
+            >
+              Redefinir senha
+            </Button>
+          </div>
+        ),
+      },
+    ],
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [canEdit, currentUser],
+  );
+
+  const handleCancel = () => {
+    setIsModalOpen(false);
+    setUserId(undefined);
+  };
+
+  const handleEditUser = (user: IUserAccount) => {
+    setUserId(user.id);
+    setIsModalOpen(true);
+  };
+
+  const handleResetPassword = async () => {
+    if (userToResetPassword) {
+      setIsResettingPassword(true);
+      await resetUserPassword(userToResetPassword.id).catch(() => undefined);
+      setIsResettingPassword(false);
+      setUserToResetPassword(undefined);
+    }
+  };
+
+  return (
+    <div>
+      <div className='flex justify-between'>
+        <div style={{ width: '240' }}>
+          <Button
+            disabled={!canEdit}
+            className='mb-2'
+            title='Convidar usuário'
+            backgroundColor='#001529'
+            color='white'
+            onClick={() => setIsModalOpen(true)}
+          />
+        </div>
+      </div>
+      <Table
+        columns={columns}
+        dataSource={users}
+        rowKey='id'
+        exportFileName='usuarios'
+      />
+      <Modal
+        isModalOpen={isModalOpen}
+        title={userId ? 'Usuário' : 'Convidar usuário'}
+        onClose={() => setIsModalOpen(false)}
+        onCancel={handleCancel}
+      >
+        <UserDetails onCancel={handleCancel} userId={userId} />
+      </Modal>
+      <ModalAnt
+        title='Redefinir senha'
+        open={!!userToResetPassword}
+        onOk={handleResetPassword}
+        onCancel={() => setUserToResetPassword(undefined)}
+        okText='Enviar'
+        cancelText='Cancelar'
+        confirmLoading={isResettingPassword}
+      >
+        <p>
+          Enviar para {userToResetPassword?.email} um link para cadastrar uma
+          nova senha?
+        </p>
+      </ModalAnt>
+    </div>
+  );
+};
@@ -0,0 +1,14 @@
+import { RouteObject } from 'react-router-dom';
+
+import { UserList } from './screens/UserList';
+
+export enum UserRoutesEnum {
+  USERS = '/users',
+}
+
+export const userRoutes: RouteObject[] = [
+  {
+    path: UserRoutesEnum.USERS,
+    element: <UserList />,
+  },
+];
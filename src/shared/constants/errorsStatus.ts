@@ -2,3 +2,5 @@ export const ERROR_ACCESS_DENIED = 'Access denied';
 export const ERROR_CONNECTION = 'Unknown error';
 export const ERROR_INVALID_LOGIN = 'Invalid login or password';
 export const ERROR_NETWORK_ERROR = 'Network Error';
+export const ERROR_REFERENCED_RECORD = 'Referenced record';
+export const ERROR_SESSION_EXPIRED = 'Session expired';
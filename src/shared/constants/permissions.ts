@@ -0,0 +1,63 @@
+import { UserRoleEnum } from '../enums/userRole.enum';
+
+export type PermissionResourceType =
+  | 'categories'
+  | 'commissions'
+  | 'integrations'
+  | 'platforms'
+  | 'pricing'
+  | 'products'
+  | 'purchaseOrders'
+  | 'saleOrders'
+  | 'statuses'
+  | 'stock'
+  | 'suppliers'
+  | 'users';
+
+// quem pode editar também pode visualizar
+export type PermissionActionType = 'view' | 'edit';
+
+export const USER_ROLE_LABELS: Record<UserRoleEnum, string> = {
+  [UserRoleEnum.ADMIN]: 'Administrador',
+  [UserRoleEnum.BUYER]: 'Comprador',
+  [UserRoleEnum.SELLER]: 'Vendedor',
+  [UserRoleEnum.STOCK_CLERK]: 'Estoquista',
+};
+
+// o administrador pode tudo, por isso não aparece aqui
+export const ROLE_PERMISSIONS: Record<
+  Exclude<UserRoleEnum, UserRoleEnum.ADMIN>,
+  Partial<Record<PermissionResourceType, PermissionActionType>>
+> = {
+  [UserRoleEnum.BUYER]: {
+    categories: 'edit',
+    commissions: 'view',
+    integrations: 'edit',
+    platforms: 'view',
+    pricing: 'view',
+    products: 'edit',
+    purchaseOrders: 'edit',
+    saleOrders: 'view',
+    statuses: 'view',
+    stock: 'edit',
+    suppliers: 'edit',
+  },
+  [UserRoleEnum.SELLER]: {
+    categories: 'view',
+    commissions: 'view',
+    platforms: 'view',
+    pricing: 'view',
+    products: 'view',
+    saleOrders: 'edit',
+    statuses: 'view',
+    stock: 'view',
+  },
+  [UserRoleEnum.STOCK_CLERK]: {
+    categories: 'view',
+    products: 'view',
+    purchaseOrders: 'view',
+    statuses: 'view',
+    stock: 'edit',
+    suppliers: 'view',
+  },
+};
@@ -1,63 +1,102 @@
-export const URL_BASE = 'https://api.meviosshop.com.br';
+// caminhos relativos à url base do perfil de api ativo (ver functions/connection/apiProfile)
 
-export const URL_CATEGORIES = `${URL_BASE}/categories`;
-export const URL_CATEGORY_ID = `${URL_BASE}/categories/{categoryId}`;
+export const URL_CATEGORIES = '/categories';
+export const URL_CATEGORY_ID = '/categories/{categoryId}';
 
-export const URL_LOGIN = `${URL_BASE}/auth/signin`;
+export const URL_LOGIN = '/auth/signin';
+export const URL_REFRESH_TOKEN = '/auth/refresh';
 
-export const URL_PLATFORMS = `${URL_BASE}/platforms`;
-export const URL_PLATFORM_ID = `${URL_BASE}/platforms/{platformId}`;
+export const URL_PLATFORMS = '/platforms';
+export const URL_PLATFORM_ID = '/platforms/{platformId}';
 
-export const URL_PRICING = `${URL_BASE}/pricing`;
-export const URL_PRICING_ID = `${URL_BASE}/pricing/{pricingId}`;
+export const URL_PRICING = '/pricing';
+export const URL_PRICING_ID = '/pricing/{pricingId}';
 
-export const URL_PRODUCTS = `${URL_BASE}/products`;
-export const URL_PRODUCT_ID = `${URL_BASE}/products/{productId}`;
+export const URL_PRODUCTS = '/products';
+export const URL_PRODUCT_ID = '/products/{productId}';
 
-export const URL_PRODUCT_VARIATIONS = `${URL_BASE}/products/{productId}/product-variations`;
-export const URL_PRODUCT_VARIATION_ID = `${URL_BASE}/products/{productId}/product-variations/{productVariationId}`;
+export const URL_PRODUCT_VARIATIONS =
+  '/products/{productId}/product-variations';
+export const URL_PRODUCT_VARIATION_ID =
+  '/products/{productId}/product-variations/{productVariationId}';
 
-export const URL_PURCHASE_ORDERS = `${URL_BASE}/purchase-orders`;
-export const URL_PURCHASE_ORDER_ID = `${URL_BASE}/purchase-orders/{purchaseOrderId}`;
+export const URL_PURCHASE_ORDERS = '/purchase-orders';
+export const URL_PURCHASE_ORDER_ID = '/purchase-orders/{purchaseOrderId}';
 
-export const URL_PURCHASE_ORDER_ITEMS = `${URL_BASE}/purchase-orders/{purchaseOrderId}/purchase-order-items`;
-export const URL_PURCHASE_ORDER_ITEM_ID = `${URL_BASE}/purchase-orders/{purchaseOrderId}/purchase-order-items/{purchaseOrderItemId}`;
+export const URL_PURCHASE_ORDER_ITEMS =
+  '/purchase-orders/{purchaseOrderId}/purchase-order-items';
+export const URL_PURCHASE_ORDER_ITEM_ID =
+  '/purchase-orders/{purchaseOrderId}/purchase-order-items/{purchaseOrderItemId}';
 
-export const URL_PURCHASE_ORDER_ITEM_STATUS = `${URL_BASE}/purchase-order-item-status`;
-export const URL_PURCHASE_ORDER_ITEM_STATUS_ID = `${URL_BASE}/purchase-order-item-status/{purchaseOrderItemStatusId}`;
+export const URL_PURCHASE_ORDER_ITEM_STATUS = '/purchase-order-item-status';
+export const URL_PURCHASE_ORDER_ITEM_STATUS_ID =
+  '/purchase-order-item-status/{purchaseOrderItemStatusId}';
 
-export const URL_PURCHASE_ORDER_STATUS = `${URL_BASE}/purchase-order-status`;
-export const URL_PURCHASE_ORDER_STATUS_ID = `${URL_BASE}/purchase-order-status/{purchaseOrderStatusId}`;
+export const URL_PURCHASE_ORDER_STATUS_HISTORY =
+  '/purchase-orders/{purchaseOrderId}/status-history';
+export const URL_PURCHASE_ORDER_STATUS_HISTORY_ID =
+  '/purchase-orders/{purchaseOrderId}/status-history/{purchaseOrderStatusHistoryId}';
 
-export const URL_SALE_ORDERS = `${URL_BASE}/sales-orders`;
-export const URL_SALE_ORDER_ID = `${URL_BASE}/sales-orders/{saleOrderId}`;
+export const URL_PURCHASE_ORDER_STATUS = '/purchase-order-status';
+export const URL_PURCHASE_ORDER_STATUS_ID =
+  '/purchase-order-status/{purchaseOrderStatusId}';
 
-export const URL_SALE_ORDER_ITEMS = `${URL_BASE}/sale-orders/{saleOrderId}/sale-order-items`;
-export const URL_SALE_ORDER_ITEM_ID = `${URL_BASE}/sale-orders/{saleOrderId}/sale-order-items/{saleOrderItemId}`;
+export const URL_SALE_ORDERS = '/sales-orders';
+export const URL_SALE_ORDER_ID = '/sales-orders/{saleOrderId}';
 
-export const URL_SALE_ORDER_ITEM_STATUS = `${URL_BASE}/sale-order-item-status`;
-export const URL_SALE_ORDER_ITEM_STATUS_ID = `${URL_BASE}/sale-order-item-status/{saleOrderItemStatusId}`;
+export const URL_SALE_ORDER_ITEMS =
+  '/sale-orders/{saleOrderId}/sale-order-items';
+export const URL_SALE_ORDER_ITEM_ID =
+  '/sale-orders/{saleOrderId}/sale-order-items/{saleOrderItemId}';
+// itens de todas as vendas em uma requisição só (indicadores)
+export const URL_SALE_ORDER_ITEMS_ALL = '/sale-order-items';
 
-export const URL_SALE_PLATFORM_COMMISSIONS = `${URL_BASE}/sales-platform-commissions`;
-export const URL_SALE_PLATFORM_COMMISSION_ID = `${URL_BASE}/sales-platform-commissions/{salePlatformCommissionId}`;
-export const URL_SALE_PLATFORM_COMMISSION_BY_PLATFORM_ID = `${URL_BASE}/sales-platform-commissions/by-platform/{platformId}`;
+export const URL_SALE_ORDER_ITEM_STATUS = '/sale-order-item-status';
+export const URL_SALE_ORDER_ITEM_STATUS_ID =
+  '/sale-order-item-status/{saleOrderItemStatusId}';
 
-export const URL_SALE_STATUS = `${URL_BASE}/sale-status`;
-export const URL_SALE_STATUS_ID = `${URL_BASE}/sale-status/{saleStatusId}`;
+export const URL_SALE_PLATFORM_COMMISSIONS = '/sales-platform-commissions';
+export const URL_SALE_PLATFORM_COMMISSION_ID =
+  '/sales-platform-commissions/{salePlatformCommissionId}';
+export const URL_SALE_PLATFORM_COMMISSION_BY_PLATFORM_ID =
+  '/sales-platform-commissions/by-platform/{platformId}';
 
-export const URL_STOCK_ITEMS = `${URL_BASE}/stock-items`;
-export const URL_STOCK_ITEM_ID = `${URL_BASE}/stock-items/{stockItemId}`;
+export const URL_SALE_STATUS_HISTORY =
+  '/sales-orders/{saleOrderId}/status-history';
+export const URL_SALE_STATUS_HISTORY_ID =
+  '/sales-orders/{saleOrderId}/status-history/{saleStatusHistoryId}';
 
-export const URL_STOCK_ITEM_IDENTIFIER_TYPES = `${URL_BASE}/stock-item-identifier-type`;
-export const URL_STOCK_ITEM_IDENTIFIER_TYPE_ID = `${URL_BASE}/stock-item-identifier-type/{stockItemIdentifierTypeId}`;
+export const URL_SALE_STATUS = '/sale-status';
+export const URL_SALE_STATUS_ID = '/sale-status/{saleStatusId}';
 
-export const URL_STOCK_ITEM_STATUS = `${URL_BASE}/stock-item-status`;
-export const URL_STOCK_ITEM_STATUS_ID = `${URL_BASE}/stock-item-status/{stockItemStatusId}`;
+// vínculos SKU da plataforma -> variação usados na importação de vendas
+export const URL_SKU_MAPPINGS = '/sku-mappings';
+export const URL_SKU_MAPPING_ID = '/sku-mappings/{skuMappingId}';
 
-export const URL_SUPPLIERS = `${URL_BASE}/suppliers`;
-export const URL_SUPPLIER_ID = `${URL_BASE}/suppliers/{supplierId}`;
+export const URL_STOCK_ITEMS = '/stock-items';
+export const URL_STOCK_ITEM_ID = '/stock-items/{stockItemId}';
 
-export const URL_INTEGRATION_PRODUCT_SUPPLIER_ERP = `${URL_BASE}/integration-product-supplier-erp`;
-export const URL_INTEGRATION_PRODUCT_SUPPLIER_ERP_ID = `${URL_BASE}/integration-product-supplier-erp/{integrationProductSupplierErpId}`;
+export const URL_STOCK_ITEM_IDENTIFIER_TYPES = '/stock-item-identifier-type';
+export const URL_STOCK_ITEM_IDENTIFIER_TYPE_ID =
+  '/stock-item-identifier-type/{stockItemIdentifierTypeId}';
+
+export const URL_STOCK_ITEM_STATUS = '/stock-item-status';
+export const URL_STOCK_ITEM_STATUS_ID =
+  '/stock-item-status/{stockItemStatusId}';
+
+export const URL_SUPPLIERS = '/suppliers';
+export const URL_SUPPLIER_ID = '/suppliers/{supplierId}';
+
+export const URL_INTEGRATION_PRODUCT_SUPPLIER_ERP =
+  '/integration-product-supplier-erp';
+export const URL_INTEGRATION_PRODUCT_SUPPLIER_ERP_ID =
+  '/integration-product-supplier-erp/{integrationProductSupplierErpId}';
 
 export const URL_USERS = '/users';
+export const URL_USER_ID = '/users/{userId}';
+export const URL_USER_RESET_PASSWORD = '/users/{userId}/reset-password';
+
+// proxy do backend para a API v3 do Bling (o token do Bling fica só no servidor)
+export const URL_BLING_PRODUCT_ID =
+  '/integrations/bling/produtos/{blingProductId}';
+export const URL_BLING_STOCKS = '/integrations/bling/estoques';
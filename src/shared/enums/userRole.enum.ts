@@ -0,0 +1,6 @@
+export enum UserRoleEnum {
+  ADMIN = 'admin',
+  BUYER = 'buyer',
+  SELLER = 'seller',
+  STOCK_CLERK = 'stock_clerk',
+}
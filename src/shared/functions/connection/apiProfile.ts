@@ -0,0 +1,48 @@
+import { getItem, setItem } from './storageProxy';
+
+export type ApiProfileName = 'local' | 'staging' | 'production';
+
+export interface IApiProfile {
+  name: ApiProfileName;
+  label: string;
+  baseUrl?: string;
+}
+
+const API_PROFILE_KEY = '@mini-erp:api-profile';
+
+export const API_PROFILES: IApiProfile[] = [
+  {
+    name: 'local',
+    label: 'Local',
+    baseUrl: import.meta.env.VITE_API_URL_LOCAL || 'http://localhost:3000',
+  },
+  {
+    name: 'staging',
+    label: 'Homologação',
+    baseUrl: import.meta.env.VITE_API_URL_STAGING,
+  },
+  {
+    name: 'production',
+    label: 'Produção',
+    baseUrl: import.meta.env.VITE_API_URL || 'https://api.meviosshop.com.br',
+  },
+];
+
+// perfis sem url configurada não podem ser selecionados
+export const getAvailableApiProfiles = () =>
+  API_PROFILES.filter((profile) => profile.baseUrl);
+
+const findApiProfile = (name?: string | null) =>
+  getAvailableApiProfiles().find((profile) => profile.name === name);
+
+// a escolha salva no navegador tem prioridade sobre o perfil padrão do build
+export const getActiveApiProfile = () =>
+  findApiProfile(getItem(API_PROFILE_KEY)) ??
+  findApiProfile(import.meta.env.VITE_API_PROFILE) ??
+  (findApiProfile('production') as IApiProfile);
+
+export const getApiBaseUrl = () => getActiveApiProfile().baseUrl as string;
+
+export const setActiveApiProfile = (name: ApiProfileName) => {
+  setItem(API_PROFILE_KEY, name);
+};
@@ -1,12 +1,32 @@
-import { redirect } from 'react-router-dom';
+import { LoaderFunctionArgs, redirect } from 'react-router-dom';
 
+import {
+  ERROR_INVALID_LOGIN,
+  ERROR_SESSION_EXPIRED,
+} from '../../constants/errorsStatus';
+import { URL_LOGIN } from '../../constants/urls';
+import { clearQueryCache } from '../../hooks/useQuery';
+import { IAuth } from '../../interfaces/AuthInterface';
 import { IUser } from '../../interfaces/UserInterface';
 
+import { connectionAPIPost } from './connectionApi';
 import { getItem, getItemParse, removeItem, setItem } from './storageProxy';
 
+export const LOGIN_PATH = '/login';
+// parâmetro com a rota que o usuário tentava abrir quando foi mandado para o login
+export const REDIRECT_TO_PARAM = 'redirectTo';
+
+export interface ISignInCredentials {
+  email: string;
+  password: string;
+}
+
+const listeners = new Set<(user: IUser | null) => void>();
+
 export const getAuthorizationToken = () => getItem('@mini-erp:token');
 
-export const getUserStorage = () => getItemParse('@mini-erp:user');
+export const getUserStorage = (): IUser | null =>
+  getItemParse('@mini-erp:user');
 
 export const setAuthorizationToken = (token: string) => {
   setItem('@mini-erp:token', token);
@@ -20,18 +40,70 @@ export const unsetAuthorizationToken = () => removeItem('@mini-erp:token');
 
 export const unsetUserStorage = () => removeItem('@mini-erp:user');
 
-export const verifyLoggedIn = () => {
-  const token = getAuthorizationToken();
-  const user = getUserStorage();
-  if (!token || !user) {
-    return false;
-  }
+// sessões gravadas antes dos papéis existirem não dizem o que o usuário pode acessar,
+// então valem como deslogadas e o usuário entra de novo
+export const isLoggedIn = () =>
+  !!getAuthorizationToken() && Array.isArray(getUserStorage()?.roles);
+
+export const getCurrentUser = () => (isLoggedIn() ? getUserStorage() : null);
+
+// avisa router e telas sempre que alguém entra ou sai
+export const subscribeAuth = (listener: (user: IUser | null) => void) => {
+  listeners.add(listener);
 
-  return true;
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notifyAuthChange = () => {
+  const user = getCurrentUser();
+  listeners.forEach((listener) => listener(user));
+};
+
+export const setSession = (auth: IAuth) => {
+  setAuthorizationToken(`Bearer ${auth.access_token}`);
+  setUserStorage(auth.user);
+  notifyAuthChange();
+};
+
+export const signIn = async (credentials: ISignInCredentials) => {
+  try {
+    const auth = await connectionAPIPost<IAuth>(URL_LOGIN, credentials);
+    setSession(auth);
+    return auth.user;
+  } catch (error) {
+    // no login o 401 significa usuário ou senha errados, não sessão expirada
+    if ((error as Error).message === ERROR_SESSION_EXPIRED) {
+      throw new Error(ERROR_INVALID_LOGIN);
+    }
+    throw error;
+  }
 };
 
 export const signOut = () => {
+  const wasLoggedIn = isLoggedIn();
+
   unsetAuthorizationToken();
   unsetUserStorage();
-  redirect('/login');
+  clearQueryCache();
+
+  if (wasLoggedIn) {
+    notifyAuthChange();
+  }
+};
+
+export const getLoginPath = (redirectTo?: string) =>
+  redirectTo && redirectTo !== LOGIN_PATH
+    ? `${LOGIN_PATH}?${new URLSearchParams({ [REDIRECT_TO_PARAM]: redirectTo })}`
+    : LOGIN_PATH;
+
+// loader das rotas logadas: sem sessão manda para o login guardando a rota pedida
+export const verifyLoggedIn = ({ request }: LoaderFunctionArgs) => {
+  if (!isLoggedIn()) {
+    const url = new URL(request.url);
+    return redirect(getLoginPath(`${url.pathname}${url.search}`));
+  }
+
+  return null;
 };
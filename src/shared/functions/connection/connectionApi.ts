@@ -2,10 +2,13 @@ import axios, { AxiosRequestConfig } from 'axios';
 
 import {
   ERROR_ACCESS_DENIED,
-  ERROR_INVALID_LOGIN,
+  ERROR_NETWORK_ERROR,
+  ERROR_REFERENCED_RECORD,
+  ERROR_SESSION_EXPIRED,
 } from '../../constants/errorsStatus';
 import { MethodsEnum } from '../../enums/methods.enum';
 
+import { getApiBaseUrl } from './apiProfile';
 import { getAuthorizationToken } from './auth';
 
 export type MethodType = 'get' | 'post' | 'put' | 'patch' | 'delete';
@@ -17,6 +20,7 @@ export default class ConnectionAPI {
     body?: unknown,
   ): Promise<T> {
     const config: AxiosRequestConfig = {
+      baseURL: getApiBaseUrl(),
       headers: {
         Authorization: getAuthorizationToken(),
         'Content-Type': 'application/json',
@@ -43,14 +47,21 @@ export default class ConnectionAPI {
     return ConnectionAPI.call<T>(url, method, body).catch((error) => {
       if (error.response) {
         switch (error.response.status) {
+          // token ausente, inválido ou expirado
           case 401:
+            throw new Error(ERROR_SESSION_EXPIRED);
           case 403:
             throw new Error(ERROR_ACCESS_DENIED);
+          // a API só responde 409 quando a exclusão viola uma chave estrangeira,
+          // então o status basta para saber que o registro ainda está em uso
+          case 409:
+            throw new Error(ERROR_REFERENCED_RECORD);
           default:
             throw new Error(`Error: ${error.message}`);
         }
       }
-      throw new Error(ERROR_INVALID_LOGIN);
+      // sem resposta: servidor fora do ar ou sem conexão
+      throw new Error(ERROR_NETWORK_ERROR);
     });
   }
 }
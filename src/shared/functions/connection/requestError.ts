@@ -0,0 +1,11 @@
+import { ERROR_ACCESS_DENIED } from '../../constants/errorsStatus';
+
+export const ACCESS_DENIED_MESSAGE =
+  'Você não tem permissão para realizar esta ação';
+
+// o 403 é avisado só por quem trata o erro; o backend também confere os papéis.
+// o erro costuma chegar embrulhado ("Erro ao salvar ...: Error: Access denied")
+export const getRequestErrorMessage = (error: unknown, fallback: string) =>
+  String(error).includes(ERROR_ACCESS_DENIED)
+    ? ACCESS_DENIED_MESSAGE
+    : fallback;
@@ -0,0 +1,133 @@
+import { URL_REFRESH_TOKEN } from '../../constants/urls';
+import { MethodsEnum } from '../../enums/methods.enum';
+import { IAuth } from '../../interfaces/AuthInterface';
+
+import { setAuthorizationToken } from './auth';
+import ConnectionAPI from './connectionApi';
+import { getTokenExpiresAt, isTokenExpired } from './token';
+
+// antecedência com que o token é renovado antes de expirar
+export const TOKEN_REFRESH_MARGIN = 2 * 60 * 1000;
+// maior atraso aceito pelo setTimeout
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+interface IPendingReauthentication {
+  promise: Promise<void>;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+let pendingReauthentication: IPendingReauthentication | undefined;
+// vários 401 ao mesmo tempo aguardam a mesma renovação em vez de disparar uma cada
+let pendingRefresh: Promise<boolean> | undefined;
+let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+const listeners = new Set<() => void>();
+
+const notify = () => {
+  listeners.forEach((listener) => listener());
+};
+
+export const isReauthenticationPending = () => !!pendingReauthentication;
+
+export const subscribeSession = (listener: () => void) => {
+  listeners.add(listener);
+
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// todas as requisições que falharem por sessão expirada aguardam o mesmo novo login
+export const requestReauthentication = () => {
+  if (!pendingReauthentication) {
+    let resolve: () => void = () => undefined;
+    let reject: (error: Error) => void = () => undefined;
+    const promise = new Promise<void>((promiseResolve, promiseReject) => {
+      resolve = promiseResolve;
+      reject = promiseReject;
+    });
+
+    pendingReauthentication = { promise, resolve, reject };
+    notify();
+  }
+
+  return pendingReauthentication.promise;
+};
+
+// chamado depois que o novo login (signIn) gravou a sessão
+export const completeReauthentication = () => {
+  pendingReauthentication?.resolve();
+  pendingReauthentication = undefined;
+  notify();
+  scheduleTokenRefresh();
+};
+
+export const cancelReauthentication = (error: Error) => {
+  pendingReauthentication?.reject(error);
+  pendingReauthentication = undefined;
+  notify();
+};
+
+const requestTokenRefresh = async () => {
+  try {
+    const response = await ConnectionAPI.call<Pick<IAuth, 'access_token'>>(
+      URL_REFRESH_TOKEN,
+      MethodsEnum.POST,
+    );
+    setAuthorizationToken(`Bearer ${response.access_token}`);
+    scheduleTokenRefresh();
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const refreshToken = () => {
+  if (!pendingRefresh) {
+    pendingRefresh = requestTokenRefresh().finally(() => {
+      pendingRefresh = undefined;
+    });
+  }
+
+  return pendingRefresh;
+};
+
+// renova o token quando possível e, se não der, pede o login novamente antes de seguir
+export const ensureValidSession = async () => {
+  if (pendingReauthentication) {
+    return pendingReauthentication.promise;
+  }
+
+  if (isTokenExpired() && !(await refreshToken())) {
+    return requestReauthentication();
+  }
+};
+
+export const stopTokenRefresh = () => {
+  clearTimeout(refreshTimer);
+  refreshTimer = undefined;
+};
+
+export const scheduleTokenRefresh = () => {
+  stopTokenRefresh();
+
+  const expiresAt = getTokenExpiresAt();
+  if (expiresAt === undefined) {
+    return stopTokenRefresh;
+  }
+
+  refreshTimer = setTimeout(
+    async () => {
+      if (!(await refreshToken())) {
+        // o cancelamento é tratado por quem exibe o pedido de login
+        requestReauthentication().catch(() => undefined);
+      }
+    },
+    Math.min(
+      Math.max(expiresAt - TOKEN_REFRESH_MARGIN - Date.now(), 0),
+      MAX_TIMER_DELAY,
+    ),
+  );
+
+  return stopTokenRefresh;
+};
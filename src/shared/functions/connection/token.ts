@@ -0,0 +1,39 @@
+import { getAuthorizationToken } from './auth';
+
+interface ITokenPayload {
+  sub?: string;
+  iat?: number;
+  exp?: number;
+}
+
+// o token é salvo como "Bearer <jwt>"; só o payload interessa aqui, a assinatura é validada pelo backend
+export const decodeToken = (token: string): ITokenPayload | null => {
+  const payload = token.replace(/^Bearer\s+/i, '').split('.')[1];
+
+  if (!payload) {
+    return null;
+  }
+
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    return JSON.parse(
+      atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '=')),
+    );
+  } catch {
+    return null;
+  }
+};
+
+// momento da expiração em milissegundos, ou undefined quando o token não informa
+export const getTokenExpiresAt = () => {
+  const token = getAuthorizationToken();
+  const exp = token ? decodeToken(token)?.exp : undefined;
+
+  return exp ? exp * 1000 : undefined;
+};
+
+export const isTokenExpired = (marginMs = 0) => {
+  const expiresAt = getTokenExpiresAt();
+
+  return expiresAt !== undefined && expiresAt - marginMs <= Date.now();
+};
@@ -0,0 +1,108 @@
+// o Excel em português usa vírgula como separador decimal, por isso as colunas são separadas por ponto e vírgula
+export const CSV_SEPARATOR = ';';
+
+// o BOM faz o Excel abrir o arquivo como UTF-8 (sem ele os acentos quebram)
+const UTF8_BOM = '\uFEFF';
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+export const formatCsvNumber = (value: number) =>
+  Number.isInteger(value)
+    ? value.toString()
+    : value.toString().replace('.', ',');
+
+const escapeCsvValue = (value: CsvValue) => {
+  const text =
+    typeof value === 'number'
+      ? formatCsvNumber(value)
+      : typeof value === 'boolean'
+        ? value
+          ? 'Sim'
+          : 'Não'
+        : (value ?? '');
+
+  return /[";\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (headers: string[], rows: CsvValue[][]) =>
+  [headers, ...rows]
+    .map((row) => row.map(escapeCsvValue).join(CSV_SEPARATOR))
+    .join('\r\n');
+
+export const downloadCsv = (fileName: string, content: string) => {
+  const blob = new Blob([UTF8_BOM, content], {
+    type: 'text/csv;charset=utf-8',
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+
+  link.href = url;
+  link.download = fileName.endsWith('.csv') ? fileName : `${fileName}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// aceita arquivos separados por ponto e vírgula (Excel pt-BR) ou vírgula, com campos entre aspas
+export const parseCsv = (content: string): string[][] => {
+  const text = content.replace(/^\uFEFF/, '');
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const separator =
+    firstLine.split(CSV_SEPARATOR).length >= firstLine.split(',').length
+      ? CSV_SEPARATOR
+      : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+
+    if (inQuotes) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === separator) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') {
+        index++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // linhas em branco (comuns no fim do arquivo) são descartadas
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+};
+
+// "1.234,56" (pt-BR) e "1234.56" viram 1234.56; vazio vira undefined
+export const parseCsvNumber = (value?: string) => {
+  const text = value?.trim().replace(/^R\$\s*/, '');
+  if (!text) {
+    return undefined;
+  }
+
+  return Number(
+    text.includes(',') ? text.replace(/\./g, '').replace(',', '.') : text,
+  );
+};
@@ -0,0 +1,42 @@
+import { LoaderFunctionArgs, redirect } from 'react-router-dom';
+
+import {
+  PermissionActionType,
+  PermissionResourceType,
+  ROLE_PERMISSIONS,
+} from '../../constants/permissions';
+import { UserRoleEnum } from '../../enums/userRole.enum';
+import { IUser } from '../../interfaces/UserInterface';
+import { getCurrentUser, verifyLoggedIn } from '../connection/auth';
+
+export const FORBIDDEN_PATH = '/forbidden';
+
+export const hasPermission = (
+  user: IUser | null,
+  resource: PermissionResourceType,
+  action: PermissionActionType = 'view',
+) =>
+  (user?.roles ?? []).some((role) => {
+    if (role === UserRoleEnum.ADMIN) {
+      return true;
+    }
+
+    const allowedAction = ROLE_PERMISSIONS[role]?.[resource];
+    return action === 'view' ? !!allowedAction : allowedAction === 'edit';
+  });
+
+// loader das rotas logadas: além da sessão, confere se os papéis do usuário dão acesso à rota
+export const verifyPermission =
+  (resource: PermissionResourceType, action: PermissionActionType) =>
+  (args: LoaderFunctionArgs) => {
+    const loggedInRedirect = verifyLoggedIn(args);
+    if (loggedInRedirect) {
+      return loggedInRedirect;
+    }
+
+    if (!hasPermission(getCurrentUser(), resource, action)) {
+      return redirect(FORBIDDEN_PATH);
+    }
+
+    return null;
+  };
@@ -0,0 +1,26 @@
+// frequências distintas para o operador saber o resultado sem olhar para a tela
+const SUCCESS_FREQUENCY = 1200;
+const ERROR_FREQUENCY = 220;
+const BEEP_DURATION_SECONDS = 0.12;
+
+let audioContext: AudioContext | undefined;
+
+export const playBeep = (success = true) => {
+  try {
+    audioContext = audioContext ?? new AudioContext();
+    const oscillator = audioContext.createOscillator();
+    const gain = audioContext.createGain();
+
+    oscillator.type = success ? 'sine' : 'square';
+    oscillator.frequency.value = success ? SUCCESS_FREQUENCY : ERROR_FREQUENCY;
+    gain.gain.value = 0.1;
+    oscillator.connect(gain);
+    gain.connect(audioContext.destination);
+    oscillator.start();
+    oscillator.stop(
+      audioContext.currentTime + BEEP_DURATION_SECONDS * (success ? 1 : 3),
+    );
+  } catch {
+    // navegador sem Web Audio: a leitura segue sem som
+  }
+};
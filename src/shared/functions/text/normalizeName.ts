@@ -0,0 +1,8 @@
+// compara nomes sem diferenciar maiúsculas, acentos e espaços extras
+export const normalizeName = (value: string) =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
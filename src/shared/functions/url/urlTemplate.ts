@@ -0,0 +1,34 @@
+export type UrlParams = Record<string, string | number>;
+
+// preenche os placeholders {nome} de uma url de shared/constants/urls
+export const fillUrlTemplate = (template: string, params: UrlParams = {}) =>
+  Object.entries(params).reduce(
+    (url, [key, value]) => url.replace(`{${key}}`, value.toString()),
+    template,
+  );
+
+// o placeholder do id é o único que existe na url do item e não na url da coleção
+export const getIdPlaceholder = (url: string, urlId: string) => {
+  const placeholders = urlId.match(/\{\w+\}/g) ?? [];
+  const placeholder = placeholders.find((item) => !url.includes(item));
+
+  if (!placeholder) {
+    throw new Error(`Url sem placeholder de id: ${urlId}`);
+  }
+  return placeholder.slice(1, -1);
+};
+
+export const appendQueryParams = (
+  url: string,
+  params: Record<string, string | number | undefined>,
+) => {
+  const searchParams = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') {
+      searchParams.set(key, value.toString());
+    }
+  });
+
+  const queryString = searchParams.toString();
+  return queryString ? `${url}?${queryString}` : url;
+};
@@ -0,0 +1,23 @@
+import localforage from 'localforage';
+
+// IndexedDB (via localforage), como as sessões de recebimento: a pendência sobrevive a recarregamentos
+const pendingStatusChangeStore = localforage.createInstance({
+  name: 'mini-erp',
+  storeName: 'pending_status_changes',
+});
+
+// scope identifica o tipo de pedido, ex.: 'sale-order'
+const getPendingKey = (scope: string, orderId: number) => `${scope}-${orderId}`;
+
+export const getPendingStatusChange = <T>(scope: string, orderId: number) =>
+  pendingStatusChangeStore.getItem<T>(getPendingKey(scope, orderId));
+
+export const savePendingStatusChange = <T>(
+  scope: string,
+  orderId: number,
+  statusChange: T,
+) =>
+  pendingStatusChangeStore.setItem(getPendingKey(scope, orderId), statusChange);
+
+export const removePendingStatusChange = (scope: string, orderId: number) =>
+  pendingStatusChangeStore.removeItem(getPendingKey(scope, orderId));
@@ -0,0 +1,28 @@
+export interface IWorkflowStatus {
+  id: number;
+  name: string;
+  // status para os quais o pedido pode ir a partir deste; sem configuração não há restrição
+  nextStatusIds?: number[];
+}
+
+export const canTransition = (
+  from: IWorkflowStatus | undefined,
+  toId: number,
+) =>
+  !from ||
+  from.id === toId ||
+  !from.nextStatusIds ||
+  from.nextStatusIds.includes(toId);
+
+// status final: configurado sem nenhum status seguinte
+export const isFinalStatus = (status?: IWorkflowStatus) =>
+  !!status?.nextStatusIds && status.nextStatusIds.length === 0;
+
+// o status atual continua na lista para que o formulário possa ser salvo sem mudar de status
+export const getAllowedStatuses = <T extends IWorkflowStatus>(
+  statuses: T[],
+  currentId?: number,
+) => {
+  const current = statuses.find(({ id }) => id === currentId);
+  return statuses.filter(({ id }) => canTransition(current, id));
+};
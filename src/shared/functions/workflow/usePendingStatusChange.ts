@@ -0,0 +1,70 @@
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+
+import {
+  getPendingStatusChange,
+  removePendingStatusChange,
+  savePendingStatusChange,
+} from './pendingStatusChange';
+
+interface UsePendingStatusChangeProps<T> {
+  scope: string;
+  orderId?: number;
+  // executa os efeitos do novo status; devolve a mensagem do que não pôde ser aplicado
+  applyEffects: (orderId: number, statusChange: T) => Promise<string | void>;
+  createHistory: (orderId: number, statusChange: T) => Promise<unknown>;
+  errorMessage: string;
+}
+
+// a mudança só entra no histórico depois dos efeitos do status; até lá fica pendente no navegador,
+// inclusive se a página for recarregada ou se a criação do pedido redirecionar para a edição
+export const usePendingStatusChange = <T>({
+  scope,
+  orderId,
+  applyEffects,
+  createHistory,
+  errorMessage,
+}: UsePendingStatusChangeProps<T>) => {
+  const [pendingStatusChange, setPendingStatusChange] = useState<T | null>(
+    null,
+  );
+
+  useEffect(() => {
+    if (!orderId) {
+      setPendingStatusChange(null);
+      return;
+    }
+    getPendingStatusChange<T>(scope, orderId)
+      .then(setPendingStatusChange)
+      .catch(() => setPendingStatusChange(null));
+  }, [scope, orderId]);
+
+  const applyStatusChange = async (id: number, statusChange: T) => {
+    try {
+      // gravada antes dos efeitos para que uma interrupção no meio deixe a mudança pendente
+      await savePendingStatusChange(scope, id, statusChange);
+
+      const failure = await applyEffects(id, statusChange);
+      if (failure) {
+        toast.error(failure);
+        setPendingStatusChange(statusChange);
+        return;
+      }
+
+      await createHistory(id, statusChange);
+      await removePendingStatusChange(scope, id);
+      setPendingStatusChange(null);
+    } catch (error) {
+      toast.error(`${errorMessage}: ${(error as Error).message}`);
+      setPendingStatusChange(statusChange);
+    }
+  };
+
+  const reapplyStatusChange = async () => {
+    if (orderId && pendingStatusChange) {
+      await applyStatusChange(orderId, pendingStatusChange);
+    }
+  };
+
+  return { pendingStatusChange, applyStatusChange, reapplyStatusChange };
+};
@@ -0,0 +1,170 @@
+import toast from 'react-hot-toast';
+
+import { ERROR_REFERENCED_RECORD } from '../constants/errorsStatus';
+import { MethodsEnum } from '../enums/methods.enum';
+import { getRequestErrorMessage } from '../functions/connection/requestError';
+import {
+  appendQueryParams,
+  fillUrlTemplate,
+  getIdPlaceholder,
+  UrlParams,
+} from '../functions/url/urlTemplate';
+import {
+  IPaginated,
+  IPaginationParams,
+} from '../interfaces/PaginationInterface';
+import { IRequestOptions } from '../interfaces/RequestOptionsInterface';
+
+import { fetchQuery, invalidateQueries } from './useQuery';
+import { useRequests } from './useRequests';
+
+export interface IResourceMessages {
+  // ex: 'o status da venda'
+  singular: string;
+  // ex: 'os status da venda'
+  plural: string;
+  deleted: string;
+  referenced: string;
+}
+
+interface IResourceConfig {
+  url: string;
+  urlId: string;
+  messages: IResourceMessages;
+}
+
+export const createResourceHook = <T, TInsert>({
+  url,
+  urlId,
+  messages,
+}: IResourceConfig) => {
+  const idPlaceholder = getIdPlaceholder(url, urlId);
+
+  const getUrlId = (id: number | string, params?: UrlParams) =>
+    fillUrlTemplate(urlId, { ...params, [idPlaceholder]: id });
+
+  const useResource = () => {
+    const { request } = useRequests();
+
+    const list = async (params?: UrlParams) => {
+      const listUrl = fillUrlTemplate(url, params);
+
+      try {
+        const response = await fetchQuery(listUrl, () =>
+          request<T[]>(listUrl, MethodsEnum.GET),
+        );
+        return response ?? [];
+      } catch (error) {
+        toast.error(
+          getRequestErrorMessage(error, `Erro ao buscar ${messages.plural}`),
+        );
+        throw new Error(`Erro ao buscar ${messages.plural}: ${error}`);
+      }
+    };
+
+    const listPage = async (
+      paginationParams: IPaginationParams,
+      params?: UrlParams,
+    ) => {
+      try {
+        const response = await request<IPaginated<T>>(
+          appendQueryParams(fillUrlTemplate(url, params), {
+            ...paginationParams,
+          }),
+          MethodsEnum.GET,
+        );
+        return response ?? { data: [], total: 0, ...paginationParams };
+      } catch (error) {
+        toast.error(
+          getRequestErrorMessage(error, `Erro ao buscar ${messages.plural}`),
+        );
+        throw new Error(`Erro ao buscar ${messages.plural}: ${error}`);
+      }
+    };
+
+    const getById = async (id: number, params?: UrlParams) => {
+      try {
+        const response = await request<T>(
+          getUrlId(id, params),
+          MethodsEnum.GET,
+        );
+        return response;
+      } catch (error) {
+        toast.error(
+          getRequestErrorMessage(error, `Erro ao buscar ${messages.singular}`),
+        );
+        throw new Error(`Erro ao buscar ${messages.singular}: ${error}`);
+      }
+    };
+
+    // create/update não exibem toast: quem salva decide a mensagem (e evita toast duplicado)
+    const create = async (body: TInsert, params?: UrlParams) => {
+      try {
+        const response = await request<T>(
+          fillUrlTemplate(url, params),
+          MethodsEnum.POST,
+          body,
+        );
+        invalidateQueries(fillUrlTemplate(url, params));
+        return response;
+      } catch (error) {
+        throw new Error(`Erro ao salvar ${messages.singular}: ${error}`);
+      }
+    };
+
+    const update = async (
+      id: number | string,
+      body: Partial<TInsert>,
+      params?: UrlParams,
+    ) => {
+      try {
+        const response = await request<T>(
+          getUrlId(id, params),
+          MethodsEnum.PATCH,
+          body,
+        );
+        invalidateQueries(fillUrlTemplate(url, params));
+        return response;
+      } catch (error) {
+        throw new Error(`Erro ao salvar ${messages.singular}: ${error}`);
+      }
+    };
+
+    // mesmo contrato dos antigos saveX: com id faz PATCH, sem id faz POST
+    const save = async (body: TInsert, id?: string, params?: UrlParams) =>
+      id ? update(id, body, params) : create(body, params);
+
+    // todas as exclusões passam por aqui; ERROR_REFERENCED_RECORD vem do 409 da API;
+    // silent serve para exclusões internas, como desfazer uma importação, em que quem chama avisa o resultado
+    const remove = async (
+      id: number,
+      params?: UrlParams,
+      { silent = false }: IRequestOptions = {},
+    ) => {
+      try {
+        await request(getUrlId(id, params), MethodsEnum.DELETE);
+        invalidateQueries(fillUrlTemplate(url, params));
+        if (!silent) {
+          toast.success(messages.deleted);
+        }
+      } catch (error) {
+        if (silent) {
+          throw new Error(`Erro ao deletar ${messages.singular}: ${error}`);
+        }
+        toast.error(
+          (error as Error).message === ERROR_REFERENCED_RECORD
+            ? messages.referenced
+            : getRequestErrorMessage(
+                error,
+                `Erro ao deletar ${messages.singular}`,
+              ),
+        );
+        throw new Error(`Erro ao deletar ${messages.singular}: ${error}`);
+      }
+    };
+
+    return { list, listPage, getById, create, update, save, remove };
+  };
+
+  return useResource;
+};
@@ -0,0 +1,50 @@
+import { useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+
+import {
+  IPaginationParams,
+  SortOrderType,
+} from '../interfaces/PaginationInterface';
+
+export const DEFAULT_PAGE_SIZE = 10;
+
+// mantém página, ordenação e busca na query string para que a listagem possa ser compartilhada
+export const usePaginationParams = (
+  defaults: Partial<IPaginationParams> = {},
+) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const paginationParams: IPaginationParams = useMemo(() => {
+    // parâmetro ausente usa o padrão; presente e vazio significa que o usuário o limpou
+    const getParamOrDefault = (key: 'sort' | 'order') =>
+      searchParams.has(key)
+        ? searchParams.get(key) || undefined
+        : { sort: defaults.sort, order: defaults.order }[key];
+
+    return {
+      page: Number(searchParams.get('page')) || 1,
+      pageSize:
+        Number(searchParams.get('pageSize')) ||
+        defaults.pageSize ||
+        DEFAULT_PAGE_SIZE,
+      sort: getParamOrDefault('sort'),
+      order: getParamOrDefault('order') as SortOrderType | undefined,
+      query: searchParams.get('query') ?? undefined,
+    };
+  }, [searchParams, defaults.pageSize, defaults.sort, defaults.order]);
+
+  const setPaginationParams = (params: IPaginationParams) => {
+    const nextSearchParams = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') {
+        nextSearchParams.set(key, value.toString());
+      } else if (defaults[key as keyof IPaginationParams] !== undefined) {
+        // mantém a chave vazia para o padrão não voltar na próxima leitura
+        nextSearchParams.set(key, '');
+      }
+    });
+    setSearchParams(nextSearchParams, { replace: true });
+  };
+
+  return { paginationParams, setPaginationParams };
+};
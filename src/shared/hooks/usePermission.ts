@@ -0,0 +1,14 @@
+import { useContext } from 'react';
+
+import { AuthContext } from '../../contexts/authContext';
+import { PermissionResourceType } from '../constants/permissions';
+import { hasPermission } from '../functions/permission/permission';
+
+export const usePermission = (resource: PermissionResourceType) => {
+  const { user } = useContext(AuthContext);
+
+  return {
+    canView: hasPermission(user, resource, 'view'),
+    canEdit: hasPermission(user, resource, 'edit'),
+  };
+};
@@ -0,0 +1,148 @@
+import { useEffect, useRef, useState } from 'react';
+
+interface ICacheEntry {
+  data?: unknown;
+  updatedAt: number;
+  promise?: Promise<unknown>;
+}
+
+// dados de referência (produtos, plataformas, status...) mudam pouco, então podem ser reaproveitados na sessão
+export const DEFAULT_STALE_TIME = 5 * 60 * 1000;
+
+const cache = new Map<string, ICacheEntry>();
+const listeners = new Map<string, Set<() => void>>();
+
+const notify = (key: string) => {
+  listeners.get(key)?.forEach((listener) => listener());
+};
+
+const revalidate = <T>(key: string, fetcher: () => Promise<T>) => {
+  const entry = cache.get(key);
+  if (entry?.promise) {
+    return entry.promise as Promise<T>;
+  }
+
+  const promise = fetcher()
+    .then((data) => {
+      cache.set(key, { data, updatedAt: Date.now() });
+      notify(key);
+      return data;
+    })
+    .catch((error) => {
+      cache.set(key, { ...cache.get(key), promise: undefined, updatedAt: 0 });
+      throw error;
+    });
+
+  cache.set(key, { ...entry, updatedAt: entry?.updatedAt ?? 0, promise });
+  return promise;
+};
+
+// devolve o dado em cache e revalida em segundo plano quando estiver velho (stale-while-revalidate);
+// chamadas simultâneas para a mesma chave compartilham a mesma requisição
+export const fetchQuery = async <T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  staleTime = DEFAULT_STALE_TIME,
+): Promise<T> => {
+  const entry = cache.get(key);
+
+  if (entry?.data !== undefined) {
+    if (Date.now() - entry.updatedAt > staleTime) {
+      revalidate(key, fetcher).catch(() => undefined);
+    }
+    return entry.data as T;
+  }
+
+  return revalidate(key, fetcher);
+};
+
+// descarta as entradas cujas chaves começam com o prefixo e avisa quem as está usando
+export const invalidateQueries = (prefix: string) => {
+  const keys = new Set([...cache.keys(), ...listeners.keys()]);
+
+  keys.forEach((key) => {
+    if (key.startsWith(prefix)) {
+      cache.delete(key);
+      notify(key);
+    }
+  });
+};
+
+export const clearQueryCache = () => {
+  cache.clear();
+};
+
+const subscribeQuery = (key: string, listener: () => void) => {
+  const keyListeners = listeners.get(key) ?? new Set();
+  keyListeners.add(listener);
+  listeners.set(key, keyListeners);
+
+  return () => {
+    keyListeners.delete(listener);
+    if (!keyListeners.size) {
+      listeners.delete(key);
+    }
+  };
+};
+
+// carrega uma vez por chave e recarrega quando a chave for revalidada ou invalidada;
+// sem chave (ex.: depende de um campo ainda não preenchido) não busca nada
+export const useQuery = <T>(
+  key: string | undefined,
+  fetcher: () => Promise<T>,
+) => {
+  const [data, setData] = useState<T | undefined>(() =>
+    key ? (cache.get(key)?.data as T | undefined) : undefined,
+  );
+  const [error, setError] = useState<Error>();
+  const [isLoading, setIsLoading] = useState(
+    () => !!key && cache.get(key)?.data === undefined,
+  );
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+
+  useEffect(() => {
+    if (!key) {
+      setData(undefined);
+      setError(undefined);
+      setIsLoading(false);
+      return;
+    }
+
+    let isMounted = true;
+
+    const load = () => {
+      fetcherRef
+        .current()
+        .then((response) => {
+          if (isMounted) {
+            setData(response);
+            setError(undefined);
+          }
+        })
+        // os erros já são exibidos pelos hooks de requisição; aqui só ficam disponíveis para a tela
+        .catch((loadError: Error) => {
+          if (isMounted) {
+            setError(loadError);
+          }
+        })
+        .finally(() => {
+          if (isMounted) {
+            setIsLoading(false);
+          }
+        });
+    };
+
+    setData(cache.get(key)?.data as T | undefined);
+    setIsLoading(cache.get(key)?.data === undefined);
+    load();
+    const unsubscribe = subscribeQuery(key, load);
+
+    return () => {
+      isMounted = false;
+      unsubscribe();
+    };
+  }, [key]);
+
+  return { data, error, isLoading };
+};
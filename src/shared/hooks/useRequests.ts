@@ -1,22 +1,18 @@
-import { useContext, useState } from 'react';
-import { NavigateFunction } from 'react-router-dom';
+import { useState } from 'react';
 
-import { AuthContext } from '../../contexts/authContext';
-import {
-  ERROR_ACCESS_DENIED,
-  ERROR_INVALID_LOGIN,
-} from '../constants/errorsStatus';
-import { URL_LOGIN } from '../constants/urls';
-import { setAuthorizationToken, signOut } from '../functions/connection/auth';
+import { ERROR_SESSION_EXPIRED } from '../constants/errorsStatus';
+import { signOut } from '../functions/connection/auth';
 import ConnectionAPI, {
-  connectionAPIPost,
   MethodType,
 } from '../functions/connection/connectionApi';
-import { IAuth } from '../interfaces/AuthInterface';
+import {
+  ensureValidSession,
+  refreshToken,
+  requestReauthentication,
+} from '../functions/connection/session';
 
 export const useRequests = () => {
   const [loading, setLoading] = useState(false);
-  const { setUser } = useContext(AuthContext);
 
   const request = async <T>(
     url: string,
@@ -26,58 +22,46 @@ export const useRequests = () => {
   ): Promise<T | undefined> => {
     setLoading(true);
 
-    const result: T | undefined = await ConnectionAPI.connect<T>(
-      url,
-      method,
-      body,
-    )
-      .then((response) => {
-        if (message) {
-          console.log(message);
-        }
-        return response;
-      })
-      .catch((error: Error) => {
-        if (
-          error.message === ERROR_ACCESS_DENIED ||
-          error.message === ERROR_INVALID_LOGIN
-        ) {
-          signOut();
-        }
-        throw new Error(error.message);
-      });
+    // a sessão expirada não desloga na hora: a tela atual (e o formulário em edição) continua montada
+    // enquanto o login é refeito, e a requisição é repetida em seguida
+    const connect = async (retry: boolean): Promise<T> => {
+      await ensureValidSession();
 
-    setLoading(false);
+      return ConnectionAPI.connect<T>(url, method, body).catch(
+        async (error: Error) => {
+          if (retry && error.message === ERROR_SESSION_EXPIRED) {
+            // tenta renovar o token (renovação compartilhada) antes de pedir o login
+            if (!(await refreshToken())) {
+              await requestReauthentication();
+            }
+            return connect(false);
+          }
+          throw error;
+        },
+      );
+    };
 
-    return result;
-  };
-
-  const authRequest = async (
-    navigate: NavigateFunction,
-    body: unknown,
-  ): Promise<void> => {
-    setLoading(true);
+    try {
+      const result: T | undefined = await connect(true);
 
-    await connectionAPIPost<IAuth>(URL_LOGIN, body)
-      .then((result) => {
-        setUser(result.user);
-        setAuthorizationToken(`Bearer ${result.access_token}`);
-        navigate('/');
-        return result;
-      })
-      .catch((error: Error) => {
-        if (error.message === ERROR_ACCESS_DENIED) {
-          signOut();
-        }
-        throw new Error(ERROR_INVALID_LOGIN);
-      });
+      if (message) {
+        console.log(message);
+      }
 
-    setLoading(false);
+      return result;
+    } catch (error) {
+      // só desloga quando o usuário desiste de entrar novamente
+      if ((error as Error).message === ERROR_SESSION_EXPIRED) {
+        signOut();
+      }
+      throw new Error((error as Error).message);
+    } finally {
+      setLoading(false);
+    }
   };
 
   return {
     loading,
-    authRequest,
     request,
   };
 };
@@ -0,0 +1,17 @@
+export type SortOrderType = 'asc' | 'desc';
+
+export interface IPaginationParams {
+  page: number;
+  pageSize: number;
+  sort?: string;
+  order?: SortOrderType;
+  query?: string;
+}
+
+// envelope retornado pelo backend nas listagens paginadas
+export interface IPaginated<T> {
+  data: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
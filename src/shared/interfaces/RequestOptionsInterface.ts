@@ -0,0 +1,4 @@
+export interface IRequestOptions {
+  // para operações em lote: quem chama avisa o resultado uma vez só, no fim
+  silent?: boolean;
+}
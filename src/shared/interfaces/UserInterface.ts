@@ -1,5 +1,8 @@
+import { UserRoleEnum } from '../enums/userRole.enum';
+
 export interface IUser {
   id: string;
   name: string | null;
   email: string | null;
+  roles: UserRoleEnum[];
 }
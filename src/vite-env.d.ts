@@ -1,2 +1,10 @@
 // eslint-disable-next-line spaced-comment
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_URL?: string;
+  readonly VITE_API_URL_LOCAL?: string;
+  readonly VITE_API_URL_STAGING?: string;
+  readonly VITE_API_PROFILE?: string;
+  readonly VITE_BLING_MOCK_URL?: string;
+}